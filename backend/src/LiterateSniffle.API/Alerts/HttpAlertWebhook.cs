@@ -0,0 +1,55 @@
+using System.Net.Http.Json;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.API.Alerts;
+
+/// <summary>
+/// Posts fired alerts as JSON to the "Alerts:WebhookUrl" setting; does nothing when it is empty
+/// </summary>
+public class HttpAlertWebhook : IAlertWebhook
+{
+    private static readonly JsonSerializerOptions PayloadJsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull
+    };
+
+    private readonly HttpClient _httpClient;
+    private readonly ILogger<HttpAlertWebhook> _logger;
+    private readonly string? _url;
+
+    public HttpAlertWebhook(
+        HttpClient httpClient,
+        ILogger<HttpAlertWebhook> logger,
+        IConfiguration configuration)
+    {
+        _httpClient = httpClient;
+        _logger = logger;
+        _url = configuration["Alerts:WebhookUrl"];
+    }
+
+    public async Task SendAsync(IReadOnlyList<AlertNotificationDto> notifications, CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(_url) || notifications.Count == 0)
+        {
+            return;
+        }
+
+        try
+        {
+            using var response = await _httpClient.PostAsJsonAsync(_url, new { notifications }, PayloadJsonOptions, cancellationToken);
+            if (!response.IsSuccessStatusCode)
+            {
+                _logger.LogWarning("Alert webhook answered {StatusCode} for {Count} notification(s)",
+                    (int)response.StatusCode, notifications.Count);
+            }
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException)
+        {
+            // The notifications are stored and show in the app either way
+            _logger.LogWarning(ex, "Error sending {Count} notification(s) to the alert webhook", notifications.Count);
+        }
+    }
+}
@@ -0,0 +1,34 @@
+namespace LiterateSniffle.API.Auth;
+
+/// <summary>
+/// Roles carried in the access token's role claim
+/// </summary>
+public static class AuthRoles
+{
+    public const string Viewer = "viewer";
+    public const string Uploader = "uploader";
+    public const string Admin = "admin";
+
+    public static readonly string[] All = { Viewer, Uploader, Admin };
+}
+
+/// <summary>
+/// Authorization policies used by the controllers
+/// </summary>
+public static class AuthPolicies
+{
+    /// <summary>
+    /// Read balances, transactions, the type catalog and the upload history
+    /// </summary>
+    public const string CanView = "CanView";
+
+    /// <summary>
+    /// Upload files and follow their import
+    /// </summary>
+    public const string CanUpload = "CanUpload";
+
+    /// <summary>
+    /// Change the type catalog and revert imports
+    /// </summary>
+    public const string CanAdminister = "CanAdminister";
+}
@@ -0,0 +1,118 @@
+using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.IdentityModel.Tokens;
+
+namespace LiterateSniffle.API.Auth;
+
+/// <summary>
+/// Bearer token validation against the OIDC issuer configured under "Auth"
+/// </summary>
+public static class AuthenticationSetup
+{
+    /// <summary>
+    /// Whether an issuer is configured, so requests need a valid token
+    /// </summary>
+    public static bool IsEnabled(IConfiguration configuration)
+    {
+        return !string.IsNullOrWhiteSpace(configuration["Auth:Authority"]);
+    }
+
+    /// <summary>
+    /// Whether login was explicitly turned off with "Auth:Disabled", for local runs and the
+    /// integration tests. Only then are requests without a token let through.
+    /// </summary>
+    public static bool IsDisabled(IConfiguration configuration)
+    {
+        return !IsEnabled(configuration) && configuration.GetValue("Auth:Disabled", false);
+    }
+
+    /// <summary>
+    /// Register JWT bearer authentication and the role policies of <see cref="AuthPolicies"/>
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when neither an issuer nor "Auth:Disabled" is configured: the API does not
+    /// start open by accident
+    /// </exception>
+    public static IServiceCollection AddTokenAuthentication(this IServiceCollection services, IConfiguration configuration)
+    {
+        var enabled = IsEnabled(configuration);
+
+        if (!enabled && !IsDisabled(configuration))
+        {
+            throw new InvalidOperationException(
+                "Auth:Authority is not set. Set it to the OIDC issuer, or set Auth:Disabled=true to run the API without login.");
+        }
+
+        if (enabled)
+        {
+            var authority = configuration["Auth:Authority"]!;
+            var metadataAddress = configuration["Auth:MetadataAddress"];
+            var audience = configuration["Auth:Audience"];
+
+            services.AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
+                .AddJwtBearer(options =>
+                {
+                    options.Authority = authority;
+                    // Inside docker-compose the issuer is reached under another host name than the browser uses
+                    if (!string.IsNullOrWhiteSpace(metadataAddress))
+                    {
+                        options.MetadataAddress = metadataAddress;
+                    }
+                    options.RequireHttpsMetadata = configuration.GetValue("Auth:RequireHttpsMetadata", true);
+                    // Keep claim names as issued, so "roles" and "name" are not renamed to long URIs
+                    options.MapInboundClaims = false;
+                    options.TokenValidationParameters = new TokenValidationParameters
+                    {
+                        ValidIssuer = authority,
+                        ValidateAudience = !string.IsNullOrWhiteSpace(audience),
+                        ValidAudience = audience,
+                        NameClaimType = "name",
+                        RoleClaimType = configuration["Auth:RoleClaim"] ?? "roles"
+                    };
+                    options.Events = new JwtBearerEvents
+                    {
+                        OnMessageReceived = context =>
+                        {
+                            // EventSource cannot send headers, so the event streams take the token from the query string
+                            var token = context.Request.Query["access_token"].ToString();
+                            if (!string.IsNullOrEmpty(token) && IsEventStream(context.Request.Path))
+                            {
+                                context.Token = token;
+                            }
+                            return Task.CompletedTask;
+                        }
+                    };
+                });
+        }
+
+        services.AddAuthorization(options =>
+        {
+            AddRolePolicy(options, AuthPolicies.CanView, enabled, AuthRoles.Viewer, AuthRoles.Uploader, AuthRoles.Admin);
+            AddRolePolicy(options, AuthPolicies.CanUpload, enabled, AuthRoles.Uploader, AuthRoles.Admin);
+            AddRolePolicy(options, AuthPolicies.CanAdminister, enabled, AuthRoles.Admin);
+        });
+
+        return services;
+    }
+
+    private static void AddRolePolicy(AuthorizationOptions options, string name, bool enabled, params string[] roles)
+    {
+        options.AddPolicy(name, policy =>
+        {
+            if (enabled)
+            {
+                policy.RequireAuthenticatedUser().RequireRole(roles);
+            }
+            else
+            {
+                policy.RequireAssertion(_ => true);
+            }
+        });
+    }
+
+    private static bool IsEventStream(PathString path)
+    {
+        return path.StartsWithSegments("/api/upload/events")
+            || (path.StartsWithSegments("/api/upload") && path.Value!.EndsWith("/progress", StringComparison.Ordinal));
+    }
+}
@@ -0,0 +1,36 @@
+using System.Security.Claims;
+
+namespace LiterateSniffle.API.Auth;
+
+/// <summary>
+/// Reading the signed-in user from the validated token
+/// </summary>
+public static class ClaimsPrincipalExtensions
+{
+    /// <summary>
+    /// Whether the request carried a valid token. False whenever authentication is disabled.
+    /// </summary>
+    public static bool IsSignedIn(this ClaimsPrincipal user)
+    {
+        return user.Identity?.IsAuthenticated == true;
+    }
+
+    /// <summary>
+    /// Name to record in audit trails: the name claim, else the username, else the subject
+    /// </summary>
+    public static string DisplayName(this ClaimsPrincipal user)
+    {
+        var name = new[] { "name", "preferred_username", "sub" }
+            .Select(type => user.FindFirst(type)?.Value)
+            .FirstOrDefault(value => !string.IsNullOrWhiteSpace(value));
+        return name ?? "unknown";
+    }
+
+    /// <summary>
+    /// The first of the given roles the user holds, or null
+    /// </summary>
+    public static string? FirstRoleOf(this ClaimsPrincipal user, IEnumerable<string> roles)
+    {
+        return roles.FirstOrDefault(user.IsInRole);
+    }
+}
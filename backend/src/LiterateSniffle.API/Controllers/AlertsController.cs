@@ -0,0 +1,246 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.API.Controllers;
+
+/// <summary>
+/// Controller for alert rules and the notification centre
+/// </summary>
+[ApiController]
+[Route("api/alerts")]
+[Authorize(Policy = AuthPolicies.CanView)]
+public class AlertsController : ControllerBase
+{
+    private readonly AlertService _alertService;
+    private readonly ILogger<AlertsController> _logger;
+
+    public AlertsController(
+        AlertService alertService,
+        ILogger<AlertsController> logger)
+    {
+        _alertService = alertService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get every alert rule
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Alert rules sorted by name</returns>
+    /// <response code="200">Alert rules</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("rules")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetRules(CancellationToken cancellationToken)
+    {
+        try
+        {
+            var rules = await _alertService.GetRulesAsync(cancellationToken);
+            return Ok(new { rules });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving alert rules");
+            return StatusCode(500, new { error = "An error occurred while retrieving alert rules" });
+        }
+    }
+
+    /// <summary>
+    /// Create an alert rule, checked after every import from now on
+    /// </summary>
+    /// <param name="request">Name, kind, threshold and optional store of the rule</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The created rule</returns>
+    /// <response code="201">Rule created</response>
+    /// <response code="400">Invalid rule or unknown store</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("rules")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> CreateRule(
+        [FromBody] AlertRuleRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var rule = await _alertService.CreateRuleAsync(request, cancellationToken);
+            return StatusCode(StatusCodes.Status201Created, rule);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating alert rule");
+            return StatusCode(500, new { error = "An error occurred while creating the alert rule" });
+        }
+    }
+
+    /// <summary>
+    /// Update an alert rule
+    /// </summary>
+    /// <param name="ruleId">Unique identifier of the rule</param>
+    /// <param name="request">Name, kind, threshold and optional store of the rule</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The updated rule</returns>
+    /// <response code="200">Rule updated</response>
+    /// <response code="400">Invalid rule or unknown store</response>
+    /// <response code="404">Rule not found</response>
+    /// <response code="500">Server error</response>
+    [HttpPut("rules/{ruleId:guid}")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> UpdateRule(
+        Guid ruleId,
+        [FromBody] AlertRuleRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var rule = await _alertService.UpdateRuleAsync(ruleId, request, cancellationToken);
+            if (rule == null)
+            {
+                return NotFound(new { error = "Alert rule not found" });
+            }
+
+            return Ok(rule);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating alert rule: {RuleId}", ruleId);
+            return StatusCode(500, new { error = "An error occurred while updating the alert rule" });
+        }
+    }
+
+    /// <summary>
+    /// Delete an alert rule; the notifications it raised are kept
+    /// </summary>
+    /// <param name="ruleId">Unique identifier of the rule</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The deleted rule</returns>
+    /// <response code="200">Rule deleted</response>
+    /// <response code="404">Rule not found</response>
+    /// <response code="500">Server error</response>
+    [HttpDelete("rules/{ruleId:guid}")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> DeleteRule(Guid ruleId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var rule = await _alertService.DeleteRuleAsync(ruleId, cancellationToken);
+            if (rule == null)
+            {
+                return NotFound(new { error = "Alert rule not found" });
+            }
+
+            return Ok(rule);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting alert rule: {RuleId}", ruleId);
+            return StatusCode(500, new { error = "An error occurred while deleting the alert rule" });
+        }
+    }
+
+    /// <summary>
+    /// Get the latest notifications
+    /// </summary>
+    /// <param name="unreadOnly">Leave out notifications already read</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Notifications, newest first, and the number still unread</returns>
+    /// <response code="200">Notifications</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("notifications")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetNotifications(
+        [FromQuery] bool unreadOnly,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var result = await _alertService.GetNotificationsAsync(unreadOnly, cancellationToken);
+            return Ok(result);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving notifications");
+            return StatusCode(500, new { error = "An error occurred while retrieving notifications" });
+        }
+    }
+
+    /// <summary>
+    /// Mark a notification as read
+    /// </summary>
+    /// <param name="notificationId">Unique identifier of the notification</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The notification</returns>
+    /// <response code="200">Notification marked as read</response>
+    /// <response code="404">Notification not found</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("notifications/{notificationId:guid}/read")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> MarkRead(Guid notificationId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var notification = await _alertService.MarkReadAsync(notificationId, cancellationToken);
+            if (notification == null)
+            {
+                return NotFound(new { error = "Notification not found" });
+            }
+
+            return Ok(notification);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking notification as read: {NotificationId}", notificationId);
+            return StatusCode(500, new { error = "An error occurred while marking the notification as read" });
+        }
+    }
+
+    /// <summary>
+    /// Mark every unread notification as read
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>How many notifications were marked</returns>
+    /// <response code="200">Notifications marked as read</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("notifications/read-all")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> MarkAllRead(CancellationToken cancellationToken)
+    {
+        try
+        {
+            var count = await _alertService.MarkAllReadAsync(cancellationToken);
+            return Ok(new { count });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking notifications as read");
+            return StatusCode(500, new { error = "An error occurred while marking notifications as read" });
+        }
+    }
+}
@@ -0,0 +1,198 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.API.Controllers;
+
+/// <summary>
+/// Controller for merging, renaming, splitting and grouping stores
+/// </summary>
+[ApiController]
+[Route("api/stores")]
+[Authorize(Policy = AuthPolicies.CanAdminister)]
+public class StoreAdminController : ControllerBase
+{
+    private readonly StoreAdminService _storeAdminService;
+    private readonly ILogger<StoreAdminController> _logger;
+
+    public StoreAdminController(
+        StoreAdminService storeAdminService,
+        ILogger<StoreAdminController> logger)
+    {
+        _storeAdminService = storeAdminService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Merge duplicate stores into a store: their transactions and branches move to it and they are deleted
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store to keep</param>
+    /// <param name="request">Stores to merge and name of the person merging them; taken from the token when login is enabled</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The audit record of the merge</returns>
+    /// <response code="200">Stores merged</response>
+    /// <response code="400">Invalid request or unknown source store</response>
+    /// <response code="404">Store not found</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("{storeId:guid}/merge")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public Task<IActionResult> Merge(
+        Guid storeId,
+        [FromBody] MergeStoresRequest request,
+        CancellationToken cancellationToken)
+    {
+        return ChangeAsync(storeId, request, "merging stores",
+            () => _storeAdminService.MergeAsync(storeId, request, cancellationToken));
+    }
+
+    /// <summary>
+    /// Rename a store. Files written with the old names keep importing into it.
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="request">New owner and store name, and name of the person renaming it</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The audit record of the rename</returns>
+    /// <response code="200">Store renamed</response>
+    /// <response code="400">Invalid request</response>
+    /// <response code="404">Store not found</response>
+    /// <response code="409">Another store already has the names</response>
+    /// <response code="500">Server error</response>
+    [HttpPut("{storeId:guid}/name")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public Task<IActionResult> Rename(
+        Guid storeId,
+        [FromBody] RenameStoreRequest request,
+        CancellationToken cancellationToken)
+    {
+        return ChangeAsync(storeId, request, "renaming the store",
+            () => _storeAdminService.RenameAsync(storeId, request, cancellationToken));
+    }
+
+    /// <summary>
+    /// Split the transactions a store got from some files off into a new store
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="request">Files whose transactions move, names of the new store and name of the person splitting it</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The audit record of the split</returns>
+    /// <response code="200">Store split</response>
+    /// <response code="400">Invalid request, or none or all of the transactions would move</response>
+    /// <response code="404">Store not found</response>
+    /// <response code="409">Another store already has the names</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("{storeId:guid}/split")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public Task<IActionResult> Split(
+        Guid storeId,
+        [FromBody] SplitStoreRequest request,
+        CancellationToken cancellationToken)
+    {
+        return ChangeAsync(storeId, request, "splitting the store",
+            () => _storeAdminService.SplitAsync(storeId, request, cancellationToken));
+    }
+
+    /// <summary>
+    /// Group a store under a head store as a branch, or make it stand alone again
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="request">Head store, or null to ungroup, and name of the person grouping it</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The audit record of the change</returns>
+    /// <response code="200">Store grouped or ungrouped</response>
+    /// <response code="400">Invalid request or grouping</response>
+    /// <response code="404">Store not found</response>
+    /// <response code="500">Server error</response>
+    [HttpPut("{storeId:guid}/parent")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public Task<IActionResult> SetParent(
+        Guid storeId,
+        [FromBody] StoreParentRequest request,
+        CancellationToken cancellationToken)
+    {
+        return ChangeAsync(storeId, request, "grouping the store",
+            () => _storeAdminService.SetParentAsync(storeId, request, cancellationToken));
+    }
+
+    /// <summary>
+    /// Get the audit trail of store changes
+    /// </summary>
+    /// <param name="storeId">Optional store to list the changes of</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Changes, newest first</returns>
+    /// <response code="200">Store changes</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("changes")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetChanges(
+        [FromQuery] Guid? storeId,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var changes = await _storeAdminService.GetChangesAsync(storeId, cancellationToken);
+            return Ok(new { changes });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving store changes");
+            return StatusCode(500, new { error = "An error occurred while retrieving store changes" });
+        }
+    }
+
+    private async Task<IActionResult> ChangeAsync(
+        Guid storeId,
+        StoreChangeRequest request,
+        string activity,
+        Func<Task<StoreChangeRecord?>> change)
+    {
+        try
+        {
+            if (User.IsSignedIn())
+            {
+                request.ChangedBy = User.DisplayName();
+            }
+
+            var record = await change();
+            if (record == null)
+            {
+                return NotFound(new { error = "Store not found" });
+            }
+
+            _logger.LogInformation("Store {StoreId} changed by {ChangedBy}: {Description}",
+                storeId, record.ChangedBy, record.Description);
+
+            return Ok(record);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (ConflictException ex)
+        {
+            return Conflict(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error {Activity}: {StoreId}", activity, storeId);
+            return StatusCode(500, new { error = $"An error occurred while {activity}" });
+        }
+    }
+}
@@ -1,4 +1,8 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
 using LiterateSniffle.Core.Services;
 
 namespace LiterateSniffle.API.Controllers;
@@ -8,40 +12,122 @@ namespace LiterateSniffle.API.Controllers;
 /// </summary>
 [ApiController]
 [Route("api/[controller]")]
+[Authorize(Policy = AuthPolicies.CanView)]
 public class StoresController : ControllerBase
 {
     private readonly TransactionService _transactionService;
+    private readonly FileUploadService _uploadService;
     private readonly ILogger<StoresController> _logger;
 
     public StoresController(
         TransactionService transactionService,
+        FileUploadService uploadService,
         ILogger<StoresController> logger)
     {
         _transactionService = transactionService;
+        _uploadService = uploadService;
         _logger = logger;
     }
 
     /// <summary>
     /// Get all stores with transaction summaries and balances
     /// </summary>
+    /// <param name="filter">Optional date range, type, nature and store name criteria</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Summary of all stores with transaction counts, total values, and calculated balances</returns>
     /// <response code="200">Summary of all stores with transaction statistics</response>
+    /// <response code="400">Invalid filter</response>
     /// <response code="500">Server error</response>
     [HttpGet("summary")]
     [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
-    public async Task<IActionResult> GetSummary(CancellationToken cancellationToken)
+    public async Task<IActionResult> GetSummary(
+        [FromQuery] TransactionFilter filter,
+        CancellationToken cancellationToken)
     {
         try
         {
-            var summaries = await _transactionService.GetStoreSummaryAsync(cancellationToken);
+            filter.Validate();
+            var summaries = await _transactionService.GetStoreSummaryAsync(filter, cancellationToken);
             return Ok(new { stores = summaries });
         }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error retrieving store summaries");
             return StatusCode(500, new { error = "An error occurred while retrieving store summaries" });
         }
     }
+
+    /// <summary>
+    /// Get the owner, name and balance of a single store
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="filter">Optional date range, type and nature criteria</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Store summary; totals only cover transactions matching the filter</returns>
+    /// <response code="200">Store summary</response>
+    /// <response code="400">Invalid filter</response>
+    /// <response code="404">Store not found</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("{storeId:guid}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetStore(
+        Guid storeId,
+        [FromQuery] TransactionFilter filter,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            filter.Validate();
+            var summary = await _transactionService.GetStoreSummaryAsync(storeId, filter, cancellationToken);
+            if (summary == null)
+            {
+                return NotFound(new { error = "Store not found" });
+            }
+
+            return Ok(summary);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving store: {StoreId}", storeId);
+            return StatusCode(500, new { error = "An error occurred while retrieving the store" });
+        }
+    }
+
+    /// <summary>
+    /// Get the uploaded files that contributed transactions to a store
+    /// </summary>
+    /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Files newest first, with the number of this store's transactions in each</returns>
+    /// <response code="200">Contributing files</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("{storeId:guid}/uploads")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetStoreUploads(Guid storeId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var uploads = await _uploadService.GetStoreUploadsAsync(storeId, cancellationToken);
+            return Ok(new { uploads });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving uploads of store: {StoreId}", storeId);
+            return StatusCode(500, new { error = "An error occurred while retrieving the store's uploads" });
+        }
+    }
 }
@@ -0,0 +1,96 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.API.Controllers;
+
+/// <summary>
+/// Controller for the transaction type catalog
+/// </summary>
+[ApiController]
+[Route("api/transaction-types")]
+[Authorize(Policy = AuthPolicies.CanView)]
+public class TransactionTypesController : ControllerBase
+{
+    private readonly TransactionTypeService _transactionTypeService;
+    private readonly ILogger<TransactionTypesController> _logger;
+
+    public TransactionTypesController(
+        TransactionTypeService transactionTypeService,
+        ILogger<TransactionTypesController> logger)
+    {
+        _transactionTypeService = transactionTypeService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get every transaction type in the catalog
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Transaction types ordered by CNAB code</returns>
+    /// <response code="200">The catalog</response>
+    /// <response code="500">Server error</response>
+    [HttpGet]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetAll(CancellationToken cancellationToken)
+    {
+        try
+        {
+            var types = await _transactionTypeService.GetAllAsync(cancellationToken);
+            return Ok(new { transactionTypes = types });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving transaction types");
+            return StatusCode(500, new { error = "An error occurred while retrieving transaction types" });
+        }
+    }
+
+    /// <summary>
+    /// Set the name, nature, description and colour of a type code, adding the code if it is new
+    /// </summary>
+    /// <param name="code">CNAB type code (0-9)</param>
+    /// <param name="request">Values of the type</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The saved transaction type</returns>
+    /// <response code="200">Type updated</response>
+    /// <response code="201">Type added for a code the catalog did not have</response>
+    /// <response code="400">Invalid code or values</response>
+    /// <response code="500">Server error</response>
+    [HttpPut("{code:int}")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> Save(
+        int code,
+        [FromBody] TransactionTypeRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var (type, created) = await _transactionTypeService.SaveAsync(code, request, cancellationToken);
+
+            _logger.LogInformation("Transaction type {Code} {Action}: {Name} ({Nature})",
+                type.Code, created ? "added" : "updated", type.Name, type.Nature);
+
+            return created
+                ? StatusCode(StatusCodes.Status201Created, type)
+                : Ok(type);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving transaction type: {Code}", code);
+            return StatusCode(500, new { error = "An error occurred while saving the transaction type" });
+        }
+    }
+}
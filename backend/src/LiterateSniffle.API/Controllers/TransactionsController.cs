@@ -1,4 +1,8 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
 using LiterateSniffle.Core.Services;
 
 namespace LiterateSniffle.API.Controllers;
@@ -8,24 +12,28 @@ namespace LiterateSniffle.API.Controllers;
 /// </summary>
 [ApiController]
 [Route("api/[controller]")]
+[Authorize(Policy = AuthPolicies.CanView)]
 public class TransactionsController : ControllerBase
 {
     private readonly TransactionService _transactionService;
     private readonly ILogger<TransactionsController> _logger;
+    private readonly string[] _revealRoles;
 
     public TransactionsController(
         TransactionService transactionService,
-        ILogger<TransactionsController> logger)
+        ILogger<TransactionsController> logger,
+        IConfiguration configuration)
     {
         _transactionService = transactionService;
         _logger = logger;
+        _revealRoles = configuration.GetSection("Pii:RevealRoles").Get<string[]>() ?? PiiRevealRequest.DefaultRevealRoles;
     }
 
     /// <summary>
     /// Get all transactions
     /// </summary>
     /// <param name="cancellationToken">Cancellation token</param>
-    /// <returns>List of all CNAB transactions stored in the database</returns>
+    /// <returns>List of all CNAB transactions stored in the database, CPF and card masked</returns>
     /// <response code="200">List of all transactions</response>
     /// <response code="500">Server error</response>
     [HttpGet]
@@ -49,21 +57,39 @@ public class TransactionsController : ControllerBase
     /// Get transactions for a specific store
     /// </summary>
     /// <param name="storeId">Unique identifier of the store</param>
+    /// <param name="filter">Optional date range, type and nature criteria</param>
+    /// <param name="paging">Optional sorting and paging; without a page every transaction is returned</param>
     /// <param name="cancellationToken">Cancellation token</param>
-    /// <returns>List of transactions for the specified store</returns>
-    /// <response code="200">List of transactions for the store</response>
-    /// <response code="400">Missing or invalid store ID</response>
+    /// <returns>Page of transactions for the specified store with the total number of matches</returns>
+    /// <response code="200">Page of transactions for the store</response>
+    /// <response code="400">Missing or invalid store ID, or invalid filter or paging</response>
     /// <response code="500">Server error</response>
     [HttpGet("store/{storeId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
-    public async Task<IActionResult> GetByStore(Guid storeId, CancellationToken cancellationToken)
+    public async Task<IActionResult> GetByStore(
+        Guid storeId,
+        [FromQuery] TransactionFilter filter,
+        [FromQuery] TransactionPageRequest paging,
+        CancellationToken cancellationToken)
     {
         try
         {
-            var transactions = await _transactionService.GetTransactionsByStoreAsync(storeId, cancellationToken);
-            return Ok(new { transactions });
+            filter.Validate();
+            paging.Validate();
+            var result = await _transactionService.GetTransactionsByStoreAsync(storeId, filter, paging, cancellationToken);
+            return Ok(new
+            {
+                transactions = result.Items,
+                totalCount = result.TotalCount,
+                page = result.Page,
+                pageSize = result.PageSize
+            });
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
         }
         catch (Exception ex)
         {
@@ -71,4 +97,112 @@ public class TransactionsController : ControllerBase
             return StatusCode(500, new { error = "An error occurred while retrieving transactions" });
         }
     }
+
+    /// <summary>
+    /// Search transactions across every store
+    /// </summary>
+    /// <param name="criteria">CPF, card fragment, owner, store name, value range and date range</param>
+    /// <param name="paging">Optional sorting and paging; the first page when no page is given</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Page of matching transactions with their store and source file, CPF and card masked</returns>
+    /// <response code="200">Page of matching transactions</response>
+    /// <response code="400">No criterion given, or invalid criteria or paging</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("search")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> Search(
+        [FromQuery] TransactionSearchCriteria criteria,
+        [FromQuery] TransactionPageRequest paging,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            criteria.Validate();
+            paging.Validate();
+            var result = await _transactionService.SearchTransactionsAsync(criteria, paging, cancellationToken);
+            return Ok(new
+            {
+                transactions = result.Items,
+                totalCount = result.TotalCount,
+                page = result.Page,
+                pageSize = result.PageSize
+            });
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error searching transactions");
+            return StatusCode(500, new { error = "An error occurred while searching transactions" });
+        }
+    }
+
+    /// <summary>
+    /// Reveal the unmasked CPF and card of a transaction
+    /// </summary>
+    /// <param name="transactionId">Unique identifier of the transaction</param>
+    /// <param name="request">Why the data is needed; the name and role always come from the token</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The unmasked CPF and card</returns>
+    /// <response code="200">Unmasked data; the reveal is recorded in the audit trail</response>
+    /// <response code="400">Missing or invalid reason</response>
+    /// <response code="403">Not signed in, or the role may not reveal personal data</response>
+    /// <response code="404">Transaction not found</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("{transactionId:guid}/reveal")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> Reveal(
+        Guid transactionId,
+        [FromBody] PiiRevealRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            // Only the token says who is revealing; without one nobody may, whatever the body claims
+            if (!User.IsSignedIn())
+            {
+                _logger.LogWarning("Reveal of transaction {TransactionId} denied to an anonymous caller", transactionId);
+                return StatusCode(StatusCodes.Status403Forbidden, new { error = "Revealing personal data requires signing in" });
+            }
+
+            request.RevealedBy = User.DisplayName();
+            request.Role = User.FirstRoleOf(_revealRoles.Concat(AuthRoles.All)) ?? "none";
+
+            request.Validate();
+            if (!request.HasRole(_revealRoles))
+            {
+                _logger.LogWarning("Reveal of transaction {TransactionId} denied to {RevealedBy} with role {Role}",
+                    transactionId, request.RevealedBy.Trim(), request.Role.Trim());
+                return StatusCode(StatusCodes.Status403Forbidden, new { error = $"The role '{request.Role.Trim()}' may not reveal personal data" });
+            }
+
+            var result = await _transactionService.RevealAsync(transactionId, request, cancellationToken);
+            if (result == null)
+            {
+                return NotFound(new { error = "Transaction not found" });
+            }
+
+            _logger.LogInformation("Personal data of transaction {TransactionId} revealed to {RevealedBy} ({Role})",
+                transactionId, request.RevealedBy.Trim(), request.Role.Trim());
+
+            return Ok(result);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revealing transaction: {TransactionId}", transactionId);
+            return StatusCode(500, new { error = "An error occurred while revealing the transaction" });
+        }
+    }
 }
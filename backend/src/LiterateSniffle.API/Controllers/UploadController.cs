@@ -1,7 +1,13 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using LiterateSniffle.API.Auth;
 using LiterateSniffle.Core.Services;
 using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
 using System.Text;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using System.Threading.Channels;
 
 namespace LiterateSniffle.API.Controllers;
 
@@ -10,21 +16,39 @@ namespace LiterateSniffle.API.Controllers;
 /// </summary>
 [ApiController]
 [Route("api/[controller]")]
+[Authorize(Policy = AuthPolicies.CanView)]
 public class UploadController : ControllerBase
 {
+    // Comment line sent on idle event streams so proxies keep the connection open
+    private static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(20);
+
+    private static readonly JsonSerializerOptions EventJsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull
+    };
+
+    private readonly AlertService _alertService;
     private readonly CNABParserService _parserService;
     private readonly FileUploadService _uploadService;
+    private readonly TransactionService _transactionService;
+    private readonly ImportProgressTracker _progressTracker;
     private readonly ILogger<UploadController> _logger;
     private readonly string _uploadPath;
 
     public UploadController(
+        AlertService alertService,
         CNABParserService parserService,
         FileUploadService uploadService,
+        TransactionService transactionService,
+        ImportProgressTracker progressTracker,
         ILogger<UploadController> logger,
         IConfiguration configuration)
     {
+        _alertService = alertService;
         _parserService = parserService;
         _uploadService = uploadService;
+        _transactionService = transactionService;
+        _progressTracker = progressTracker;
         _logger = logger;
         _uploadPath = configuration["UploadPath"] ?? "uploads/temp";
 
@@ -32,20 +56,238 @@ public class UploadController : ControllerBase
         Directory.CreateDirectory(_uploadPath);
     }
 
+    /// <summary>
+    /// Get the history of uploaded files
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Uploaded files, newest first, with transaction counts and the stores each file touched</returns>
+    /// <response code="200">List of uploaded files</response>
+    /// <response code="500">Server error</response>
+    [HttpGet]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetHistory(CancellationToken cancellationToken)
+    {
+        try
+        {
+            var uploads = await _uploadService.GetUploadHistoryAsync(cancellationToken);
+            return Ok(new { uploads });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving upload history");
+            return StatusCode(500, new { error = "An error occurred while retrieving upload history" });
+        }
+    }
+
+    /// <summary>
+    /// Get a single uploaded file
+    /// </summary>
+    /// <param name="fileUploadId">Unique identifier of the uploaded file</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Uploaded file with transaction count and the stores it touched</returns>
+    /// <response code="200">Uploaded file details</response>
+    /// <response code="404">File not found</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("{fileUploadId:guid}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetUpload(Guid fileUploadId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var upload = await _uploadService.GetUploadSummaryAsync(fileUploadId, cancellationToken);
+            if (upload == null)
+            {
+                return NotFound(new { error = "Uploaded file not found" });
+            }
+
+            return Ok(upload);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving upload: {FileUploadId}", fileUploadId);
+            return StatusCode(500, new { error = "An error occurred while retrieving the upload" });
+        }
+    }
+
+    /// <summary>
+    /// Get the transactions imported from an uploaded file
+    /// </summary>
+    /// <param name="fileUploadId">Unique identifier of the uploaded file</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>List of transactions imported from the file</returns>
+    /// <response code="200">List of transactions for the file</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("{fileUploadId:guid}/transactions")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> GetUploadTransactions(Guid fileUploadId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var transactions = await _transactionService.GetTransactionsByFileAsync(fileUploadId, cancellationToken);
+            return Ok(new { transactions });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving transactions for upload: {FileUploadId}", fileUploadId);
+            return StatusCode(500, new { error = "An error occurred while retrieving transactions" });
+        }
+    }
+
+    /// <summary>
+    /// Preview reverting an import without changing anything
+    /// </summary>
+    /// <param name="fileUploadId">Unique identifier of the uploaded file</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Current and resulting balance of every store the file touched</returns>
+    /// <response code="200">Balance changes the revert would make</response>
+    /// <response code="404">File not found</response>
+    /// <response code="409">File already reverted</response>
+    /// <response code="500">Server error</response>
+    [HttpGet("{fileUploadId:guid}/revert")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> PreviewRevert(Guid fileUploadId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var preview = await _uploadService.PreviewRevertAsync(fileUploadId, cancellationToken);
+            if (preview == null)
+            {
+                return NotFound(new { error = "Uploaded file not found" });
+            }
+
+            return Ok(preview);
+        }
+        catch (ConflictException ex)
+        {
+            return Conflict(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error previewing revert of upload: {FileUploadId}", fileUploadId);
+            return StatusCode(500, new { error = "An error occurred while previewing the revert" });
+        }
+    }
+
+    /// <summary>
+    /// Revert an import: delete the file's transactions and record who reverted it
+    /// </summary>
+    /// <param name="fileUploadId">Unique identifier of the uploaded file</param>
+    /// <param name="request">Name of the person reverting the import; taken from the token when login is enabled</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The balance changes that were applied</returns>
+    /// <response code="200">Import reverted</response>
+    /// <response code="400">Missing or invalid name</response>
+    /// <response code="404">File not found</response>
+    /// <response code="409">File already reverted</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("{fileUploadId:guid}/revert")]
+    [Authorize(Policy = AuthPolicies.CanAdminister)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> RevertUpload(
+        Guid fileUploadId,
+        [FromBody] RevertImportRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            if (User.IsSignedIn())
+            {
+                request.RevertedBy = User.DisplayName();
+            }
+
+            request.Validate();
+            var result = await _uploadService.RevertUploadAsync(fileUploadId, request.RevertedBy, cancellationToken);
+            if (result == null)
+            {
+                return NotFound(new { error = "Uploaded file not found" });
+            }
+
+            _logger.LogInformation("Upload {FileUploadId} reverted by {RevertedBy}: {TransactionCount} transactions deleted",
+                fileUploadId, request.RevertedBy.Trim(), result.TransactionCount);
+
+            return Ok(result);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (ConflictException ex)
+        {
+            return Conflict(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reverting upload: {FileUploadId}", fileUploadId);
+            return StatusCode(500, new { error = "An error occurred while reverting the upload" });
+        }
+    }
+
+    /// <summary>
+    /// Check a file for earlier uploads and already stored transactions before uploading it
+    /// </summary>
+    /// <param name="request">SHA-256 of the file content and the transactions parsed from it</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Earlier uploads with the same content and the line numbers of transactions already stored</returns>
+    /// <response code="200">Duplicate check result</response>
+    /// <response code="400">Invalid hash or transaction type</response>
+    /// <response code="500">Server error</response>
+    [HttpPost("duplicates")]
+    [Authorize(Policy = AuthPolicies.CanUpload)]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+    public async Task<IActionResult> CheckDuplicates(
+        [FromBody] DuplicateCheckRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            request.Validate();
+            var result = await _uploadService.FindDuplicatesAsync(request, cancellationToken);
+            return Ok(result);
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error checking upload for duplicates");
+            return StatusCode(500, new { error = "An error occurred while checking for duplicates" });
+        }
+    }
+
     /// <summary>
     /// Upload and process a CNAB file
     /// </summary>
     /// <param name="file">CNAB file to upload (must be 80-character fixed-width format)</param>
+    /// <param name="duplicates">"import" (default) stores every transaction, "skip" leaves out transactions already stored</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Upload result with transaction count and file metadata</returns>
     /// <response code="200">CNAB file successfully uploaded, validated, and processed</response>
-    /// <response code="400">Invalid file or CNAB format error</response>
+    /// <response code="400">Invalid file or CNAB format error; invalid files come with the issues found on each line</response>
     /// <response code="500">Server error during file processing</response>
     [HttpPost]
+    [Authorize(Policy = AuthPolicies.CanUpload)]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
-    public async Task<IActionResult> Upload(IFormFile file, CancellationToken cancellationToken)
+    public async Task<IActionResult> Upload(
+        IFormFile file,
+        [FromForm] string? duplicates,
+        CancellationToken cancellationToken)
     {
         if (file == null || file.Length == 0)
         {
@@ -54,9 +296,18 @@ public class UploadController : ControllerBase
 
         try
         {
-            // Read file content
+            var skipDuplicates = DuplicateHandling.ShouldSkip(duplicates);
+
+            // Read file content; the raw bytes are hashed to recognise re-uploads
+            byte[] bytes;
+            using (var memory = new MemoryStream())
+            {
+                await file.CopyToAsync(memory, cancellationToken);
+                bytes = memory.ToArray();
+            }
+
             string content;
-            using (var reader = new StreamReader(file.OpenReadStream(), Encoding.UTF8))
+            using (var reader = new StreamReader(new MemoryStream(bytes), Encoding.UTF8))
             {
                 content = await reader.ReadToEndAsync(cancellationToken);
             }
@@ -65,7 +316,11 @@ public class UploadController : ControllerBase
             var (isValid, format, error) = _parserService.ValidateFile(content);
             if (!isValid)
             {
-                return BadRequest(new { error = error ?? "Invalid CNAB file format" });
+                return BadRequest(new
+                {
+                    error = error ?? "Invalid CNAB file format",
+                    issues = _parserService.CollectIssues(content)
+                });
             }
 
             // Parse content
@@ -77,16 +332,21 @@ public class UploadController : ControllerBase
             await System.IO.File.WriteAllTextAsync(filePath, content, cancellationToken);
 
             // Store in database
-            var fileUploadId = await _uploadService.StoreCNABDataAsync(
+            var (fileUploadId, importedCount, skippedCount) = await _uploadService.StoreCNABDataAsync(
                 filename,
                 file.FileName,
                 (int)file.Length,
                 format ?? "CNAB-80",
                 parsedData,
-                cancellationToken);
+                FileUploadService.ComputeContentHash(bytes),
+                skipDuplicates,
+                cancellationToken: cancellationToken);
+
+            _logger.LogInformation("Successfully processed CNAB file: {FileName} with {TransactionCount} transactions ({SkippedCount} duplicates skipped)",
+                file.FileName, importedCount, skippedCount);
 
-            _logger.LogInformation("Successfully processed CNAB file: {FileName} with {TransactionCount} transactions",
-                file.FileName, parsedData.Transactions.Count);
+            await EvaluateAlertsAsync(fileUploadId, cancellationToken);
+            _progressTracker.AnnounceCompleted(fileUploadId, file.FileName, importedCount, skippedCount);
 
             return Ok(new
             {
@@ -96,10 +356,20 @@ public class UploadController : ControllerBase
                 size = (int)file.Length,
                 mimetype = file.ContentType,
                 format = format ?? "CNAB 80",
-                transactionsCount = parsedData.Transactions.Count,
+                transactionsCount = importedCount,
+                skippedCount,
                 fileUploadId
             });
         }
+        catch (UnknownTransactionTypeException ex)
+        {
+            await RecordUnknownTypesAsync(file.FileName, ex.Codes, cancellationToken);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (ValidationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
         catch (CNABParseException ex)
         {
             _logger.LogWarning(ex, "CNAB parsing error for file: {FileName}", file.FileName);
@@ -123,6 +393,7 @@ public class UploadController : ControllerBase
     /// <response code="200">Chunk uploaded successfully</response>
     /// <response code="400">Missing chunk data</response>
     [HttpPost("chunk")]
+    [Authorize(Policy = AuthPolicies.CanUpload)]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     public async Task<IActionResult> UploadChunk(
@@ -160,12 +431,15 @@ public class UploadController : ControllerBase
     /// <param name="uploadId">Unique identifier for the upload session</param>
     /// <param name="filename">Original filename</param>
     /// <param name="totalChunks">Total number of chunks that were uploaded</param>
+    /// <param name="duplicates">"import" (default) stores every transaction, "skip" leaves out transactions already stored</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Upload result with transaction count and file metadata</returns>
+    /// <remarks>Progress is streamed from GET /api/upload/{uploadId}/progress while this request runs.</remarks>
     /// <response code="200">File successfully assembled, validated, and processed</response>
-    /// <response code="400">Missing chunks, invalid file format, or validation error</response>
+    /// <response code="400">Missing chunks, invalid file format, or validation error; invalid files come with the issues found on each line</response>
     /// <response code="500">Server error during file assembly or processing</response>
     [HttpPost("complete")]
+    [Authorize(Policy = AuthPolicies.CanUpload)]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
@@ -173,12 +447,18 @@ public class UploadController : ControllerBase
         [FromForm] string uploadId,
         [FromForm] string filename,
         [FromForm] int totalChunks,
+        [FromForm] string? duplicates,
         CancellationToken cancellationToken)
     {
+        var progress = _progressTracker.Start(uploadId);
+
         try
         {
+            var skipDuplicates = DuplicateHandling.ShouldSkip(duplicates);
+
             // Combine chunks
             var finalPath = Path.Combine(_uploadPath, $"{uploadId}.txt");
+            progress.Report(ImportPhase.Assembling, 0, totalChunks);
             using (var finalStream = new FileStream(finalPath, FileMode.Create))
             {
                 for (int i = 0; i < totalChunks; i++)
@@ -186,6 +466,7 @@ public class UploadController : ControllerBase
                     var chunkPath = Path.Combine(_uploadPath, $"{uploadId}.chunk{i}");
                     if (!System.IO.File.Exists(chunkPath))
                     {
+                        _progressTracker.Fail(uploadId, $"Chunk {i} not found");
                         return BadRequest(new { error = $"Chunk {i} not found" });
                     }
 
@@ -196,35 +477,49 @@ public class UploadController : ControllerBase
 
                     // Delete chunk file
                     System.IO.File.Delete(chunkPath);
+                    progress.Report(ImportPhase.Assembling, i + 1, totalChunks);
                 }
             }
 
             // Read and process the complete file
             var content = await System.IO.File.ReadAllTextAsync(finalPath, cancellationToken);
+            var contentHash = FileUploadService.ComputeContentHash(
+                await System.IO.File.ReadAllBytesAsync(finalPath, cancellationToken));
             var fileInfo = new FileInfo(finalPath);
 
             // Validate file
-            var (isValid, format, error) = _parserService.ValidateFile(content);
+            var (isValid, format, error) = _parserService.ValidateFile(content, progress);
             if (!isValid)
             {
                 System.IO.File.Delete(finalPath);
-                return BadRequest(new { error = error ?? "Invalid CNAB file format" });
+                _progressTracker.Fail(uploadId, error ?? "Invalid CNAB file format");
+                return BadRequest(new
+                {
+                    error = error ?? "Invalid CNAB file format",
+                    issues = _parserService.CollectIssues(content)
+                });
             }
 
             // Parse content
-            var parsedData = _parserService.ParseContent(content);
+            var parsedData = _parserService.ParseContent(content, progress);
 
             // Store in database
-            var fileUploadId = await _uploadService.StoreCNABDataAsync(
+            var (fileUploadId, importedCount, skippedCount) = await _uploadService.StoreCNABDataAsync(
                 $"{uploadId}.txt",
                 filename,
                 (int)fileInfo.Length,
                 format ?? "CNAB-80",
                 parsedData,
+                contentHash,
+                skipDuplicates,
+                progress,
                 cancellationToken);
 
-            _logger.LogInformation("Successfully processed chunked CNAB file: {FileName} with {TransactionCount} transactions",
-                filename, parsedData.Transactions.Count);
+            _logger.LogInformation("Successfully processed chunked CNAB file: {FileName} with {TransactionCount} transactions ({SkippedCount} duplicates skipped)",
+                filename, importedCount, skippedCount);
+
+            await EvaluateAlertsAsync(fileUploadId, cancellationToken);
+            _progressTracker.Complete(uploadId, fileUploadId, filename, importedCount, skippedCount);
 
             return Ok(new
             {
@@ -233,19 +528,143 @@ public class UploadController : ControllerBase
                 originalName = filename,
                 size = (int)fileInfo.Length,
                 format = format ?? "CNAB 80",
-                transactionsCount = parsedData.Transactions.Count,
+                transactionsCount = importedCount,
+                skippedCount,
                 fileUploadId
             });
         }
+        catch (UnknownTransactionTypeException ex)
+        {
+            await RecordUnknownTypesAsync(filename, ex.Codes, cancellationToken);
+            _progressTracker.Fail(uploadId, ex.Message);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (ValidationException ex)
+        {
+            _progressTracker.Fail(uploadId, ex.Message);
+            return BadRequest(new { error = ex.Message });
+        }
         catch (CNABParseException ex)
         {
             _logger.LogWarning(ex, "CNAB parsing error for chunked upload: {UploadId}", uploadId);
+            _progressTracker.Fail(uploadId, ex.Message);
             return BadRequest(new { error = ex.Message });
         }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error completing chunked upload: {UploadId}", uploadId);
+            _progressTracker.Fail(uploadId, "An error occurred while processing the file");
             return StatusCode(500, new { error = "An error occurred while processing the file" });
         }
     }
+
+    /// <summary>
+    /// Stream the server-side processing of a chunked upload as Server-Sent Events
+    /// </summary>
+    /// <remarks>
+    /// Open before calling POST /api/upload/complete. Events already reported are replayed, so
+    /// subscribing late is fine. Event names are progress (phase with current/total),
+    /// warning (line and message), completed and failed; the stream ends after the last two.
+    /// </remarks>
+    /// <param name="uploadId">Upload session id used for the chunks</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <response code="200">text/event-stream of import progress events</response>
+    [HttpGet("{uploadId}/progress")]
+    [Authorize(Policy = AuthPolicies.CanUpload)]
+    [Produces("text/event-stream")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task StreamProgress(string uploadId, CancellationToken cancellationToken)
+    {
+        using var subscription = _progressTracker.Subscribe(uploadId);
+        await StreamEventsAsync(subscription.Reader, cancellationToken);
+    }
+
+    /// <summary>
+    /// Stream a completed event as Server-Sent Events whenever any import finishes
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <response code="200">text/event-stream of completed events</response>
+    [HttpGet("events")]
+    [Produces("text/event-stream")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task StreamImportEvents(CancellationToken cancellationToken)
+    {
+        using var subscription = _progressTracker.SubscribeToCompletions();
+        await StreamEventsAsync(subscription.Reader, cancellationToken);
+    }
+
+    // A failing rule check must not fail an import that is already stored
+    private async Task EvaluateAlertsAsync(Guid fileUploadId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var notifications = await _alertService.EvaluateImportAsync(fileUploadId, cancellationToken);
+            if (notifications.Count > 0)
+            {
+                _logger.LogInformation("Upload {FileUploadId} raised {Count} alert(s)", fileUploadId, notifications.Count);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error evaluating alert rules for upload: {FileUploadId}", fileUploadId);
+        }
+    }
+
+    private async Task RecordUnknownTypesAsync(string originalName, IReadOnlyList<string> codes, CancellationToken cancellationToken)
+    {
+        try
+        {
+            await _alertService.RecordUnknownTypesAsync(originalName, codes, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error raising unknown type alerts for file: {FileName}", originalName);
+        }
+    }
+
+    private async Task StreamEventsAsync(ChannelReader<ImportProgressEvent> reader, CancellationToken cancellationToken)
+    {
+        Response.Headers.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        // Keep reverse proxies from buffering the stream
+        Response.Headers["X-Accel-Buffering"] = "no";
+        await Response.Body.FlushAsync(cancellationToken);
+
+        try
+        {
+            while (true)
+            {
+                using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                heartbeat.CancelAfter(HeartbeatInterval);
+
+                bool hasEvents;
+                try
+                {
+                    hasEvents = await reader.WaitToReadAsync(heartbeat.Token);
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await Response.WriteAsync(": keep-alive\n\n", cancellationToken);
+                    await Response.Body.FlushAsync(cancellationToken);
+                    continue;
+                }
+
+                if (!hasEvents)
+                {
+                    return;
+                }
+
+                while (reader.TryRead(out var progressEvent))
+                {
+                    var data = JsonSerializer.Serialize(progressEvent, EventJsonOptions);
+                    await Response.WriteAsync($"event: {progressEvent.Kind}\ndata: {data}\n\n", cancellationToken);
+                }
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // The client closed the stream
+        }
+    }
 }
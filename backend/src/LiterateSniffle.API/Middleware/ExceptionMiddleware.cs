@@ -39,6 +39,7 @@ public class ExceptionMiddleware
         {
             ValidationException validationEx => (HttpStatusCode.BadRequest, validationEx.Message),
             CNABParseException parseEx => (HttpStatusCode.BadRequest, parseEx.Message),
+            ConflictException conflictEx => (HttpStatusCode.Conflict, conflictEx.Message),
             _ => (HttpStatusCode.InternalServerError, "An error occurred while processing your request")
         };
 
@@ -2,6 +2,8 @@ using Serilog;
 using Microsoft.EntityFrameworkCore;
 using LiterateSniffle.Infrastructure.Data;
 using LiterateSniffle.Core.Services;
+using LiterateSniffle.API.Alerts;
+using LiterateSniffle.API.Auth;
 using LiterateSniffle.API.Middleware;
 
 // Load .env file
@@ -55,15 +57,28 @@ builder.Services.AddCors(options =>
     });
 });
 
+// Configure authentication against the OIDC issuer (refuses to start without one unless Auth:Disabled is set)
+builder.Services.AddTokenAuthentication(builder.Configuration);
+
 // Configure Database
 var connectionString = builder.Configuration.GetConnectionString("DefaultConnection");
 builder.Services.AddDbContext<ApplicationDbContext>(options =>
     options.UseMySql(connectionString, ServerVersion.AutoDetect(connectionString)));
 
 // Register application services
+builder.Services.AddScoped<AlertService>();
 builder.Services.AddScoped<CNABParserService>();
 builder.Services.AddScoped<FileUploadService>();
+builder.Services.AddScoped<StoreAdminService>();
 builder.Services.AddScoped<TransactionService>();
+builder.Services.AddScoped<TransactionTypeService>();
+builder.Services.AddSingleton<ImportProgressTracker>();
+
+// Fired alerts are posted to Alerts:WebhookUrl (not sent when it is empty)
+builder.Services.AddHttpClient<IAlertWebhook, HttpAlertWebhook>(client =>
+{
+    client.Timeout = TimeSpan.FromSeconds(10);
+});
 
 // Add health checks
 builder.Services.AddHealthChecks()
@@ -99,6 +114,15 @@ app.UseMiddleware<ExceptionMiddleware>();
 
 app.UseCors();
 
+if (AuthenticationSetup.IsEnabled(app.Configuration))
+{
+    app.UseAuthentication();
+}
+else
+{
+    Log.Warning("Auth:Disabled is set; the API accepts requests without a token");
+}
+
 app.UseAuthorization();
 
 app.MapControllers();
@@ -0,0 +1,11 @@
+namespace LiterateSniffle.Core.Exceptions;
+
+/// <summary>
+/// Exception thrown when a request conflicts with the current state of a resource
+/// </summary>
+public class ConflictException : Exception
+{
+    public ConflictException(string message) : base(message)
+    {
+    }
+}
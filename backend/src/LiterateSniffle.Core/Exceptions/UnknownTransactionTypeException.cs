@@ -0,0 +1,15 @@
+namespace LiterateSniffle.Core.Exceptions;
+
+/// <summary>
+/// Exception thrown when an import uses type codes missing from the transaction type catalog
+/// </summary>
+public class UnknownTransactionTypeException : ValidationException
+{
+    public IReadOnlyList<string> Codes { get; }
+
+    public UnknownTransactionTypeException(IReadOnlyList<string> codes)
+        : base("Type", $"Unknown transaction type code(s): {string.Join(", ", codes)}. Add them to the transaction type catalog and upload the file again")
+    {
+        Codes = codes;
+    }
+}
@@ -0,0 +1,145 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Conditions an alert rule can watch for
+/// </summary>
+public static class AlertRuleKinds
+{
+    /// <summary>
+    /// A store balance below the threshold
+    /// </summary>
+    public const string BalanceBelow = "balance-below";
+
+    /// <summary>
+    /// A single transaction above the threshold
+    /// </summary>
+    public const string TransactionAbove = "transaction-above";
+
+    /// <summary>
+    /// A store's volume on a day above threshold times its trailing daily average
+    /// </summary>
+    public const string DailyVolume = "daily-volume";
+
+    /// <summary>
+    /// An import rejected for type codes missing from the catalog
+    /// </summary>
+    public const string UnknownType = "unknown-type";
+
+    public static readonly string[] All = { BalanceBelow, TransactionAbove, DailyVolume, UnknownType };
+}
+
+/// <summary>
+/// Request to create or update an alert rule
+/// </summary>
+public class AlertRuleRequest
+{
+    public const int MaxNameLength = 100;
+
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// One of <see cref="AlertRuleKinds"/>
+    /// </summary>
+    public string Kind { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Balance or transaction value in reais, or the multiple of the trailing
+    /// daily average for daily-volume; not used by unknown-type
+    /// </summary>
+    public decimal? Threshold { get; set; }
+
+    /// <summary>
+    /// Store to watch; null watches every store
+    /// </summary>
+    public Guid? StoreId { get; set; }
+
+    public bool Enabled { get; set; } = true;
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a value is missing, too long or out of range</exception>
+    public void Validate()
+    {
+        if (string.IsNullOrWhiteSpace(Name))
+        {
+            throw new ValidationException(nameof(Name), "'name' is required");
+        }
+
+        if (Name.Trim().Length > MaxNameLength)
+        {
+            throw new ValidationException(nameof(Name), $"'name' must be at most {MaxNameLength} characters");
+        }
+
+        if (!AlertRuleKinds.All.Contains(Kind))
+        {
+            throw new ValidationException(nameof(Kind), $"'kind' must be one of {string.Join(", ", AlertRuleKinds.All)}");
+        }
+
+        if (Kind == AlertRuleKinds.UnknownType)
+        {
+            if (StoreId != null)
+            {
+                throw new ValidationException(nameof(StoreId), "Unknown type rules watch every import and cannot be limited to a store");
+            }
+
+            return;
+        }
+
+        if (Threshold == null)
+        {
+            throw new ValidationException(nameof(Threshold), "'threshold' is required");
+        }
+
+        // A balance threshold may be zero or negative, e.g. alert below -500.00
+        if (Kind != AlertRuleKinds.BalanceBelow && Threshold <= 0)
+        {
+            throw new ValidationException(nameof(Threshold), "'threshold' must be greater than zero");
+        }
+    }
+}
+
+/// <summary>
+/// Alert rule DTO
+/// </summary>
+public class AlertRuleDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Kind { get; set; } = string.Empty;
+    public decimal? Threshold { get; set; }
+    public Guid? StoreId { get; set; }
+    public string? StoreName { get; set; }
+    public bool Enabled { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+/// <summary>
+/// Alert notification DTO, also the payload sent to the webhook
+/// </summary>
+public class AlertNotificationDto
+{
+    public Guid Id { get; set; }
+    public Guid RuleId { get; set; }
+    public string RuleName { get; set; } = string.Empty;
+    public string Kind { get; set; } = string.Empty;
+    public Guid? StoreId { get; set; }
+    public string? StoreName { get; set; }
+    public Guid? FileUploadId { get; set; }
+    public string Message { get; set; } = string.Empty;
+    public decimal? Value { get; set; }
+    public decimal? Threshold { get; set; }
+    public DateTime TriggeredAt { get; set; }
+    public DateTime? ReadAt { get; set; }
+}
+
+/// <summary>
+/// Latest notifications with the number still unread
+/// </summary>
+public class AlertNotificationList
+{
+    public List<AlertNotificationDto> Notifications { get; set; } = new();
+    public int UnreadCount { get; set; }
+}
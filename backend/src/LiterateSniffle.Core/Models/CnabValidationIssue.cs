@@ -0,0 +1,49 @@
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Severity of a validation issue
+/// </summary>
+public static class IssueSeverity
+{
+    /// <summary>
+    /// The line cannot be imported
+    /// </summary>
+    public const string Error = "error";
+
+    /// <summary>
+    /// The line is imported or skipped, but may not be what the user expects
+    /// </summary>
+    public const string Warning = "warning";
+}
+
+/// <summary>
+/// One problem found in a CNAB file, pointing at the offending columns of a line
+/// </summary>
+public class CnabValidationIssue
+{
+    /// <summary>
+    /// Line number in the original file, counting blank lines
+    /// </summary>
+    public int Line { get; set; }
+
+    /// <summary>
+    /// 1-based, inclusive column range of the offending text
+    /// </summary>
+    public int ColumnStart { get; set; }
+    public int ColumnEnd { get; set; }
+
+    /// <summary>
+    /// Field name (type, date, value, cpf, card, time, storeOwner, storeName) or "line" for the whole record
+    /// </summary>
+    public string Field { get; set; } = string.Empty;
+
+    public string Value { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Format the field should have, e.g. "8 digits (YYYYMMDD)"
+    /// </summary>
+    public string Expected { get; set; } = string.Empty;
+
+    public string Severity { get; set; } = IssueSeverity.Error;
+    public string Message { get; set; } = string.Empty;
+}
@@ -0,0 +1,124 @@
+using System.Text.RegularExpressions;
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// How an import treats transactions that already exist
+/// </summary>
+public static class DuplicateHandling
+{
+    /// <summary>
+    /// Store every transaction in the file (default)
+    /// </summary>
+    public const string Import = "import";
+
+    /// <summary>
+    /// Leave out transactions that match an existing one
+    /// </summary>
+    public const string Skip = "skip";
+
+    public static readonly string[] All = { Import, Skip };
+
+    /// <summary>
+    /// Whether the given mode skips duplicates; null or empty means <see cref="Import"/>
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when the mode is unknown</exception>
+    public static bool ShouldSkip(string? mode)
+    {
+        if (string.IsNullOrWhiteSpace(mode))
+        {
+            return false;
+        }
+
+        if (!All.Contains(mode, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ValidationException("duplicates", $"Invalid duplicates mode '{mode}'. Must be import or skip");
+        }
+
+        return string.Equals(mode, Skip, StringComparison.OrdinalIgnoreCase);
+    }
+}
+
+/// <summary>
+/// Content hash and parsed lines of a file that is about to be uploaded
+/// </summary>
+public class DuplicateCheckRequest
+{
+    private static readonly Regex Sha256Hex = new("^[0-9a-fA-F]{64}$", RegexOptions.Compiled);
+
+    /// <summary>
+    /// Hex-encoded SHA-256 of the raw file content
+    /// </summary>
+    public string ContentHash { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Transactions parsed from the file
+    /// </summary>
+    public List<DuplicateCheckLine> Transactions { get; set; } = new();
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when the hash or a line is invalid</exception>
+    public void Validate()
+    {
+        if (!Sha256Hex.IsMatch(ContentHash ?? string.Empty))
+        {
+            throw new ValidationException(nameof(ContentHash), "'contentHash' must be a hex-encoded SHA-256 digest");
+        }
+
+        var invalidLine = Transactions.FirstOrDefault(line => !TransactionTypeRequest.IsValidCode(line.Type));
+        if (invalidLine != null)
+        {
+            throw new ValidationException(nameof(Transactions), $"Line {invalidLine.Line}: invalid transaction type code {invalidLine.Type}");
+        }
+    }
+}
+
+/// <summary>
+/// A single parsed CNAB line to compare against stored transactions
+/// </summary>
+public class DuplicateCheckLine
+{
+    /// <summary>
+    /// Line number in the file, echoed back for matches
+    /// </summary>
+    public int Line { get; set; }
+
+    public int Type { get; set; }
+    public DateTime Datetime { get; set; }
+    public decimal Value { get; set; }
+    public string Cpf { get; set; } = string.Empty;
+    public string Card { get; set; } = string.Empty;
+    public string StoreOwner { get; set; } = string.Empty;
+    public string StoreName { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Previous uploads and existing transactions that match a file
+/// </summary>
+public class DuplicateCheckResult
+{
+    /// <summary>
+    /// Earlier uploads with the same content hash, newest first
+    /// </summary>
+    public List<DuplicateFileMatch> DuplicateFiles { get; set; } = new();
+
+    /// <summary>
+    /// Line numbers whose transaction is already stored
+    /// </summary>
+    public List<int> DuplicateLines { get; set; } = new();
+
+    public int CheckedCount { get; set; }
+}
+
+/// <summary>
+/// Earlier upload of the same file DTO
+/// </summary>
+public class DuplicateFileMatch
+{
+    public Guid Id { get; set; }
+    public string OriginalName { get; set; } = string.Empty;
+    public DateTime UploadedAt { get; set; }
+}
@@ -0,0 +1,66 @@
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Steps the server goes through after the last chunk of an upload
+/// </summary>
+public static class ImportPhase
+{
+    public const string Assembling = "assembling";
+    public const string Validating = "validating";
+    public const string Parsing = "parsing";
+    public const string Persisting = "persisting";
+}
+
+/// <summary>
+/// Kind of an import progress event, also used as the SSE event name
+/// </summary>
+public static class ImportProgressKind
+{
+    public const string Progress = "progress";
+    public const string Warning = "warning";
+    public const string Completed = "completed";
+    public const string Failed = "failed";
+}
+
+/// <summary>
+/// Progress of a server-side import, streamed to the browser as Server-Sent Events
+/// </summary>
+public class ImportProgressEvent
+{
+    /// <summary>
+    /// Client-side upload id used for the chunks
+    /// </summary>
+    public string UploadId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// One of <see cref="ImportProgressKind"/>
+    /// </summary>
+    public string Kind { get; set; } = ImportProgressKind.Progress;
+
+    /// <summary>
+    /// One of <see cref="ImportPhase"/>; null for completed and failed events
+    /// </summary>
+    public string? Phase { get; set; }
+
+    /// <summary>
+    /// Chunks assembled, lines parsed or rows written so far
+    /// </summary>
+    public int Current { get; set; }
+
+    public int Total { get; set; }
+
+    /// <summary>
+    /// 1-based line a warning refers to
+    /// </summary>
+    public int? Line { get; set; }
+
+    public string? Message { get; set; }
+
+    // Set on completed events
+    public Guid? FileUploadId { get; set; }
+    public string? OriginalName { get; set; }
+    public int? TransactionsCount { get; set; }
+    public int? SkippedCount { get; set; }
+
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+}
@@ -6,6 +6,10 @@ namespace LiterateSniffle.Core.Models;
 public class ParsedTransaction
 {
     public int TypeCode { get; set; }
+
+    /// <summary>
+    /// Catalog entry of the type code, resolved when the transaction is stored
+    /// </summary>
     public Guid TypeId { get; set; }
     public DateTime Datetime { get; set; }
     public decimal Value { get; set; }
@@ -0,0 +1,76 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Request to see the unmasked CPF and card of a transaction
+/// </summary>
+public class PiiRevealRequest
+{
+    public const int MaxRevealedByLength = 100;
+    public const int MaxRoleLength = 50;
+    public const int MaxReasonLength = 500;
+
+    /// <summary>
+    /// Roles allowed to reveal when the "Pii:RevealRoles" setting is missing
+    /// </summary>
+    public static readonly string[] DefaultRevealRoles = { "admin" };
+
+    /// <summary>
+    /// Name of the person revealing the data, kept in the audit trail.
+    /// Set from the signed-in user's token; whatever the body says is replaced.
+    /// </summary>
+    public string RevealedBy { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Role the data is revealed under, also taken from the token
+    /// </summary>
+    public string Role { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Why the data is needed, kept in the audit trail
+    /// </summary>
+    public string Reason { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a value is missing or too long</exception>
+    public void Validate()
+    {
+        Require(RevealedBy, nameof(RevealedBy), "revealedBy", MaxRevealedByLength);
+        Require(Role, nameof(Role), "role", MaxRoleLength);
+        Require(Reason, nameof(Reason), "reason", MaxReasonLength);
+    }
+
+    /// <summary>
+    /// Whether the role is one of the given roles, ignoring case
+    /// </summary>
+    public bool HasRole(IEnumerable<string> roles)
+    {
+        return roles.Any(role => role.Equals(Role.Trim(), StringComparison.OrdinalIgnoreCase));
+    }
+
+    private static void Require(string? value, string field, string name, int maxLength)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            throw new ValidationException(field, $"'{name}' is required");
+        }
+
+        if (value.Trim().Length > maxLength)
+        {
+            throw new ValidationException(field, $"'{name}' must be at most {maxLength} characters");
+        }
+    }
+}
+
+/// <summary>
+/// Unmasked CPF and card of a transaction
+/// </summary>
+public class PiiRevealResult
+{
+    public Guid TransactionId { get; set; }
+    public string Cpf { get; set; } = string.Empty;
+    public string Card { get; set; } = string.Empty;
+}
@@ -0,0 +1,82 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Confirmation of an import revert
+/// </summary>
+public class RevertImportRequest
+{
+    public const int MaxRevertedByLength = 100;
+
+    /// <summary>
+    /// Name of the person reverting the import, kept on the upload for auditing
+    /// </summary>
+    public string RevertedBy { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when the name is missing or too long</exception>
+    public void Validate()
+    {
+        if (string.IsNullOrWhiteSpace(RevertedBy))
+        {
+            throw new ValidationException(nameof(RevertedBy), "'revertedBy' is required");
+        }
+
+        if (RevertedBy.Trim().Length > MaxRevertedByLength)
+        {
+            throw new ValidationException(nameof(RevertedBy), $"'revertedBy' must be at most {MaxRevertedByLength} characters");
+        }
+    }
+}
+
+/// <summary>
+/// What reverting an import does to the stores it touched
+/// </summary>
+public class RevertPreview
+{
+    public Guid FileUploadId { get; set; }
+    public string OriginalName { get; set; } = string.Empty;
+    public DateTime UploadedAt { get; set; }
+
+    /// <summary>
+    /// Transactions that the revert deletes
+    /// </summary>
+    public int TransactionCount { get; set; }
+
+    public List<RevertStoreImpact> Stores { get; set; } = new();
+}
+
+/// <summary>
+/// Balance change of one store when an import is reverted
+/// </summary>
+public class RevertStoreImpact
+{
+    public Guid StoreId { get; set; }
+    public string OwnerName { get; set; } = string.Empty;
+    public string StoreName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Transactions of this store that came from the file
+    /// </summary>
+    public int TransactionCount { get; set; }
+
+    public decimal IncomeRemoved { get; set; }
+    public decimal ExpenseRemoved { get; set; }
+
+    /// <summary>
+    /// Balance as shown today (income minus expense)
+    /// </summary>
+    public decimal CurrentBalance { get; set; }
+
+    public decimal BalanceChange { get; set; }
+    public decimal BalanceAfter { get; set; }
+
+    /// <summary>
+    /// The store has no other transactions and is deleted with the import. Stores that
+    /// were renamed, merged, grouped or have alert rules are kept even when left empty.
+    /// </summary>
+    public bool StoreRemoved { get; set; }
+}
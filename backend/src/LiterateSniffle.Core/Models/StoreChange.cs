@@ -0,0 +1,133 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Kinds of change recorded in the store audit trail
+/// </summary>
+public static class StoreChangeActions
+{
+    public const string Merge = "merge";
+    public const string Rename = "rename";
+    public const string Split = "split";
+    public const string Group = "group";
+    public const string Ungroup = "ungroup";
+}
+
+/// <summary>
+/// Fields shared by every change to stores
+/// </summary>
+public abstract class StoreChangeRequest
+{
+    public const int MaxChangedByLength = 100;
+    public const int MaxNameLength = 200;
+
+    /// <summary>
+    /// Name of the person making the change, kept in the audit trail
+    /// </summary>
+    public string ChangedBy { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a value is missing, too long or inconsistent</exception>
+    public virtual void Validate()
+    {
+        Require(ChangedBy, nameof(ChangedBy), "changedBy", MaxChangedByLength);
+    }
+
+    protected static void Require(string? value, string field, string name, int maxLength)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            throw new ValidationException(field, $"'{name}' is required");
+        }
+
+        if (value.Trim().Length > maxLength)
+        {
+            throw new ValidationException(field, $"'{name}' must be at most {maxLength} characters");
+        }
+    }
+}
+
+/// <summary>
+/// Stores to fold into the target store of the request
+/// </summary>
+public class MergeStoresRequest : StoreChangeRequest
+{
+    public List<Guid> SourceStoreIds { get; set; } = new();
+
+    public override void Validate()
+    {
+        base.Validate();
+
+        if (SourceStoreIds.Count == 0)
+        {
+            throw new ValidationException(nameof(SourceStoreIds), "'sourceStoreIds' must list at least one store");
+        }
+    }
+}
+
+/// <summary>
+/// New owner and store name of a store
+/// </summary>
+public class RenameStoreRequest : StoreChangeRequest
+{
+    public string OwnerName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+
+    public override void Validate()
+    {
+        base.Validate();
+        Require(OwnerName, nameof(OwnerName), "ownerName", MaxNameLength);
+        Require(Name, nameof(Name), "name", MaxNameLength);
+    }
+}
+
+/// <summary>
+/// Transactions of a store to move to a new store, chosen by the file they were imported from
+/// </summary>
+public class SplitStoreRequest : StoreChangeRequest
+{
+    public List<Guid> FileUploadIds { get; set; } = new();
+
+    /// <summary>
+    /// Owner and name of the store created for the moved transactions
+    /// </summary>
+    public string OwnerName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+
+    public override void Validate()
+    {
+        base.Validate();
+        Require(OwnerName, nameof(OwnerName), "ownerName", MaxNameLength);
+        Require(Name, nameof(Name), "name", MaxNameLength);
+
+        if (FileUploadIds.Count == 0)
+        {
+            throw new ValidationException(nameof(FileUploadIds), "'fileUploadIds' must list at least one file");
+        }
+    }
+}
+
+/// <summary>
+/// Head store to file a store under as a branch; null makes it stand alone again
+/// </summary>
+public class StoreParentRequest : StoreChangeRequest
+{
+    public Guid? ParentStoreId { get; set; }
+}
+
+/// <summary>
+/// Store audit trail entry DTO
+/// </summary>
+public class StoreChangeRecord
+{
+    public Guid Id { get; set; }
+    public string Action { get; set; } = string.Empty;
+    public Guid StoreId { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public int TransactionCount { get; set; }
+    public string ChangedBy { get; set; } = string.Empty;
+    public DateTime ChangedAt { get; set; }
+}
@@ -0,0 +1,67 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Optional criteria for narrowing down transactions and store summaries.
+/// Bound from the query string, e.g. ?from=2019-03-01&amp;to=2019-03-31&amp;types=1&amp;types=4&amp;nature=Income&amp;search=bar
+/// </summary>
+public class TransactionFilter
+{
+    public static readonly string[] Natures = { "Income", "Expense" };
+
+    /// <summary>
+    /// First day to include (inclusive)
+    /// </summary>
+    public DateTime? From { get; set; }
+
+    /// <summary>
+    /// Last day to include (inclusive)
+    /// </summary>
+    public DateTime? To { get; set; }
+
+    /// <summary>
+    /// CNAB transaction type codes (0-9)
+    /// </summary>
+    public List<int> Types { get; set; } = new();
+
+    /// <summary>
+    /// Income or Expense
+    /// </summary>
+    public string? Nature { get; set; }
+
+    /// <summary>
+    /// Case-insensitive match against the store name or owner
+    /// </summary>
+    public string? Search { get; set; }
+
+    /// <summary>
+    /// Whether any criterion applies to the transactions themselves
+    /// </summary>
+    public bool HasTransactionCriteria =>
+        From.HasValue || To.HasValue || Types.Count > 0 || !string.IsNullOrWhiteSpace(Nature);
+
+    /// <summary>
+    /// Validate the filter values
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a criterion is out of range</exception>
+    public void Validate()
+    {
+        if (From.HasValue && To.HasValue && From.Value.Date > To.Value.Date)
+        {
+            throw new ValidationException(nameof(From), "'from' must not be after 'to'");
+        }
+
+        var invalidTypes = Types.Where(code => !TransactionTypeRequest.IsValidCode(code)).ToList();
+        if (invalidTypes.Count > 0)
+        {
+            throw new ValidationException(nameof(Types),
+                $"Invalid transaction type code: {invalidTypes[0]}. Must be between {TransactionTypeRequest.MinCode} and {TransactionTypeRequest.MaxCode}");
+        }
+
+        if (!string.IsNullOrWhiteSpace(Nature) && !Natures.Contains(Nature, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ValidationException(nameof(Nature), $"Invalid nature '{Nature}'. Must be Income or Expense");
+        }
+    }
+}
@@ -0,0 +1,76 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Sorting and paging of a transaction list, bound from the query string,
+/// e.g. ?page=2&amp;pageSize=50&amp;sortBy=value&amp;sortDirection=asc
+/// </summary>
+public class TransactionPageRequest
+{
+    public const int DefaultPageSize = 50;
+    public const int MaxPageSize = 500;
+
+    public static readonly string[] SortFields = { "date", "time", "type", "value", "nature" };
+    public static readonly string[] SortDirections = { "asc", "desc" };
+
+    /// <summary>
+    /// 1-based page number; when omitted every matching transaction is returned
+    /// </summary>
+    public int? Page { get; set; }
+
+    /// <summary>
+    /// Number of transactions per page
+    /// </summary>
+    public int PageSize { get; set; } = DefaultPageSize;
+
+    /// <summary>
+    /// One of date, time, type, value or nature
+    /// </summary>
+    public string SortBy { get; set; } = "date";
+
+    /// <summary>
+    /// asc or desc
+    /// </summary>
+    public string SortDirection { get; set; } = "desc";
+
+    public bool IsDescending => SortDirection.Equals("desc", StringComparison.OrdinalIgnoreCase);
+
+    /// <summary>
+    /// Validate the paging and sorting values
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a value is out of range</exception>
+    public void Validate()
+    {
+        if (Page.HasValue && Page.Value < 1)
+        {
+            throw new ValidationException(nameof(Page), "'page' must be 1 or greater");
+        }
+
+        if (PageSize < 1 || PageSize > MaxPageSize)
+        {
+            throw new ValidationException(nameof(PageSize), $"'pageSize' must be between 1 and {MaxPageSize}");
+        }
+
+        if (!SortFields.Contains(SortBy, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ValidationException(nameof(SortBy), $"Invalid sort field '{SortBy}'. Must be one of: {string.Join(", ", SortFields)}");
+        }
+
+        if (!SortDirections.Contains(SortDirection, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ValidationException(nameof(SortDirection), $"Invalid sort direction '{SortDirection}'. Must be asc or desc");
+        }
+    }
+}
+
+/// <summary>
+/// One page of results with the total number of matches
+/// </summary>
+public class PagedResult<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
@@ -0,0 +1,106 @@
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Criteria for searching transactions across every store. Bound from the query string,
+/// e.g. ?cpf=096.206.760-17&amp;card=3153&amp;owner=joão&amp;minValue=100&amp;from=2019-03-01
+/// </summary>
+public class TransactionSearchCriteria
+{
+    public const int CpfLength = 11;
+    public const int MinCardFragmentLength = 4;
+
+    /// <summary>
+    /// Full CPF, with or without punctuation. Only exact matches count, so the
+    /// search cannot be used to guess a CPF digit by digit.
+    /// </summary>
+    public string? Cpf { get; set; }
+
+    /// <summary>
+    /// Part of the card number as it appears in the CNAB file, e.g. 3153 or 4753****3153
+    /// </summary>
+    public string? Card { get; set; }
+
+    /// <summary>
+    /// Case-insensitive match against the store owner
+    /// </summary>
+    public string? Owner { get; set; }
+
+    /// <summary>
+    /// Case-insensitive match against the store name
+    /// </summary>
+    public string? Store { get; set; }
+
+    /// <summary>
+    /// Smallest value to include (inclusive)
+    /// </summary>
+    public decimal? MinValue { get; set; }
+
+    /// <summary>
+    /// Largest value to include (inclusive)
+    /// </summary>
+    public decimal? MaxValue { get; set; }
+
+    /// <summary>
+    /// First day to include (inclusive)
+    /// </summary>
+    public DateTime? From { get; set; }
+
+    /// <summary>
+    /// Last day to include (inclusive)
+    /// </summary>
+    public DateTime? To { get; set; }
+
+    /// <summary>
+    /// The CPF without punctuation
+    /// </summary>
+    public string? CpfDigits => string.IsNullOrWhiteSpace(Cpf)
+        ? null
+        : new string(Cpf.Where(char.IsAsciiDigit).ToArray());
+
+    public bool HasCriteria =>
+        !string.IsNullOrWhiteSpace(Cpf) ||
+        !string.IsNullOrWhiteSpace(Card) ||
+        !string.IsNullOrWhiteSpace(Owner) ||
+        !string.IsNullOrWhiteSpace(Store) ||
+        MinValue.HasValue || MaxValue.HasValue ||
+        From.HasValue || To.HasValue;
+
+    /// <summary>
+    /// Validate the criteria
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when no criterion is given or one is out of range</exception>
+    public void Validate()
+    {
+        if (!HasCriteria)
+        {
+            throw new ValidationException(nameof(Cpf), "At least one search criterion is required");
+        }
+
+        if (CpfDigits != null && CpfDigits.Length != CpfLength)
+        {
+            throw new ValidationException(nameof(Cpf), $"'cpf' must have {CpfLength} digits");
+        }
+
+        if (!string.IsNullOrWhiteSpace(Card) && Card.Trim().Length < MinCardFragmentLength)
+        {
+            throw new ValidationException(nameof(Card), $"'card' must have at least {MinCardFragmentLength} characters");
+        }
+
+        if (MinValue < 0 || MaxValue < 0)
+        {
+            throw new ValidationException(nameof(MinValue), "Values must not be negative");
+        }
+
+        if (MinValue.HasValue && MaxValue.HasValue && MinValue.Value > MaxValue.Value)
+        {
+            throw new ValidationException(nameof(MinValue), "'minValue' must not be greater than 'maxValue'");
+        }
+
+        if (From.HasValue && To.HasValue && From.Value.Date > To.Value.Date)
+        {
+            throw new ValidationException(nameof(From), "'from' must not be after 'to'");
+        }
+    }
+}
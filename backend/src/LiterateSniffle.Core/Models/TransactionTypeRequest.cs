@@ -0,0 +1,72 @@
+using System.Text.RegularExpressions;
+using LiterateSniffle.Core.Exceptions;
+
+namespace LiterateSniffle.Core.Models;
+
+/// <summary>
+/// Name, nature and display colour of a transaction type in the catalog
+/// </summary>
+public class TransactionTypeRequest
+{
+    /// <summary>
+    /// Codes a CNAB 80 record can carry: its type is a single digit
+    /// </summary>
+    public const int MinCode = 0;
+    public const int MaxCode = 9;
+
+    public const int MaxNameLength = 100;
+    public const int MaxDescriptionLength = 500;
+
+    private static readonly Regex ColorPattern = new("^#[0-9a-fA-F]{6}$");
+
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Income or Expense
+    /// </summary>
+    public string Nature { get; set; } = string.Empty;
+
+    public string? Description { get; set; }
+
+    /// <summary>
+    /// Badge colour as #RRGGBB; the UI falls back to the colour of the nature
+    /// </summary>
+    public string? Color { get; set; }
+
+    /// <summary>
+    /// Whether a code fits in the type column of a CNAB 80 record
+    /// </summary>
+    public static bool IsValidCode(int code) => code >= MinCode && code <= MaxCode;
+
+    /// <summary>
+    /// Validate the request
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when a value is missing, too long or not recognised</exception>
+    public void Validate()
+    {
+        if (string.IsNullOrWhiteSpace(Name))
+        {
+            throw new ValidationException(nameof(Name), "'name' is required");
+        }
+
+        if (Name.Trim().Length > MaxNameLength)
+        {
+            throw new ValidationException(nameof(Name), $"'name' must be at most {MaxNameLength} characters");
+        }
+
+        if (!TransactionFilter.Natures.Contains(Nature, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ValidationException(nameof(Nature), $"Invalid nature '{Nature}'. Must be Income or Expense");
+        }
+
+        if (Description != null && Description.Trim().Length > MaxDescriptionLength)
+        {
+            throw new ValidationException(nameof(Description), $"'description' must be at most {MaxDescriptionLength} characters");
+        }
+
+        if (!string.IsNullOrWhiteSpace(Color) && !ColorPattern.IsMatch(Color.Trim()))
+        {
+            throw new ValidationException(nameof(Color), $"Invalid color '{Color}'. Must be #RRGGBB");
+        }
+    }
+}
@@ -0,0 +1,408 @@
+using System.Globalization;
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Infrastructure.Data;
+using LiterateSniffle.Infrastructure.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Service for alert rules and the notifications they raise. Rules are checked
+/// after every import; fired alerts are stored and passed to the webhook.
+/// </summary>
+public class AlertService
+{
+    /// <summary>
+    /// Days before a transaction date that make up the trailing daily average
+    /// </summary>
+    public const int TrailingDays = 30;
+
+    /// <summary>
+    /// Days with transactions needed in the trailing window before daily volume is compared
+    /// </summary>
+    public const int MinTrailingDays = 3;
+
+    /// <summary>
+    /// Most notifications returned by <see cref="GetNotificationsAsync"/>
+    /// </summary>
+    public const int MaxNotifications = 100;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAlertWebhook _webhook;
+
+    public AlertService(ApplicationDbContext context, IAlertWebhook webhook)
+    {
+        _context = context;
+        _webhook = webhook;
+    }
+
+    /// <summary>
+    /// Get all alert rules, sorted by name
+    /// </summary>
+    public async Task<List<AlertRuleDto>> GetRulesAsync(CancellationToken cancellationToken = default)
+    {
+        var rules = await _context.AlertRules
+            .AsNoTracking()
+            .Include(r => r.Store)
+            .OrderBy(r => r.Name)
+            .ToListAsync(cancellationToken);
+
+        return rules.Select(ToDto).ToList();
+    }
+
+    /// <summary>
+    /// Create an alert rule
+    /// </summary>
+    /// <exception cref="ValidationException">Thrown when the request is invalid or the store does not exist</exception>
+    public async Task<AlertRuleDto> CreateRuleAsync(AlertRuleRequest request, CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        var rule = new AlertRule
+        {
+            Id = Guid.NewGuid(),
+            CreatedAt = DateTime.UtcNow
+        };
+        await ApplyAsync(rule, request, cancellationToken);
+
+        _context.AlertRules.Add(rule);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(rule);
+    }
+
+    /// <summary>
+    /// Update an alert rule
+    /// </summary>
+    /// <returns>The updated rule, or null when it does not exist</returns>
+    /// <exception cref="ValidationException">Thrown when the request is invalid or the store does not exist</exception>
+    public async Task<AlertRuleDto?> UpdateRuleAsync(
+        Guid ruleId,
+        AlertRuleRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        var rule = await _context.AlertRules
+            .FirstOrDefaultAsync(r => r.Id == ruleId, cancellationToken);
+
+        if (rule == null)
+        {
+            return null;
+        }
+
+        await ApplyAsync(rule, request, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(rule);
+    }
+
+    /// <summary>
+    /// Delete an alert rule. Notifications it raised are kept.
+    /// </summary>
+    /// <returns>The deleted rule, or null when it does not exist</returns>
+    public async Task<AlertRuleDto?> DeleteRuleAsync(Guid ruleId, CancellationToken cancellationToken = default)
+    {
+        var rule = await _context.AlertRules
+            .Include(r => r.Store)
+            .FirstOrDefaultAsync(r => r.Id == ruleId, cancellationToken);
+
+        if (rule == null)
+        {
+            return null;
+        }
+
+        _context.AlertRules.Remove(rule);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(rule);
+    }
+
+    /// <summary>
+    /// Check the enabled balance, transaction and daily volume rules against the stores
+    /// and transactions of an import
+    /// </summary>
+    /// <returns>The notifications raised, already stored and sent to the webhook</returns>
+    public async Task<List<AlertNotificationDto>> EvaluateImportAsync(
+        Guid fileUploadId,
+        CancellationToken cancellationToken = default)
+    {
+        var rules = await _context.AlertRules
+            .AsNoTracking()
+            .Where(r => r.Enabled && r.Kind != AlertRuleKinds.UnknownType)
+            .OrderBy(r => r.Name)
+            .ToListAsync(cancellationToken);
+
+        if (rules.Count == 0)
+        {
+            return new List<AlertNotificationDto>();
+        }
+
+        var imported = await _context.Transactions
+            .AsNoTracking()
+            .Include(t => t.Store)
+            .Where(t => t.FileUploadId == fileUploadId)
+            .OrderBy(t => t.Datetime)
+            .ToListAsync(cancellationToken);
+
+        if (imported.Count == 0)
+        {
+            return new List<AlertNotificationDto>();
+        }
+
+        var stores = imported
+            .Select(t => t.Store)
+            .DistinctBy(s => s.Id)
+            .OrderBy(s => s.Name)
+            .ToList();
+        var storeIds = stores.Select(s => s.Id).ToList();
+
+        // Every transaction of the touched stores, for balances and daily volumes
+        var history = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => storeIds.Contains(t.StoreId))
+            .Select(t => new { t.StoreId, t.Datetime, t.Value, t.TransactionType.Nature })
+            .ToListAsync(cancellationToken);
+        var historyByStore = history.ToLookup(t => t.StoreId);
+
+        var notifications = new List<AlertNotification>();
+        foreach (var rule in rules)
+        {
+            var threshold = rule.Threshold ?? 0;
+
+            foreach (var store in stores.Where(s => rule.StoreId == null || rule.StoreId == s.Id))
+            {
+                var storeHistory = historyByStore[store.Id].ToList();
+
+                switch (rule.Kind)
+                {
+                    case AlertRuleKinds.BalanceBelow:
+                        var balance = storeHistory.Where(t => t.Nature == "Income").Sum(t => t.Value)
+                            - storeHistory.Where(t => t.Nature == "Expense").Sum(t => t.Value);
+                        if (balance < threshold)
+                        {
+                            notifications.Add(Notify(rule, store, fileUploadId, balance,
+                                $"Balance of {Money(balance)} is below {Money(threshold)}"));
+                        }
+                        break;
+
+                    case AlertRuleKinds.TransactionAbove:
+                        foreach (var transaction in imported.Where(t => t.StoreId == store.Id && t.Value > threshold))
+                        {
+                            notifications.Add(Notify(rule, store, fileUploadId, transaction.Value,
+                                $"Transaction of {Money(transaction.Value)} on {Day(transaction.Datetime)} is above {Money(threshold)}"));
+                        }
+                        break;
+
+                    case AlertRuleKinds.DailyVolume:
+                        var days = imported
+                            .Where(t => t.StoreId == store.Id)
+                            .Select(t => t.Datetime.Date)
+                            .Distinct();
+                        foreach (var day in days)
+                        {
+                            var volume = storeHistory.Where(t => t.Datetime.Date == day).Sum(t => t.Value);
+                            var trailing = storeHistory
+                                .Where(t => t.Datetime.Date < day && t.Datetime.Date >= day.AddDays(-TrailingDays))
+                                .GroupBy(t => t.Datetime.Date)
+                                .Select(g => g.Sum(t => t.Value))
+                                .ToList();
+
+                            if (trailing.Count < MinTrailingDays)
+                            {
+                                continue;
+                            }
+
+                            var average = trailing.Average();
+                            if (volume > average * threshold)
+                            {
+                                notifications.Add(Notify(rule, store, fileUploadId, volume,
+                                    $"Volume of {Money(volume)} on {Day(day)} is more than {threshold.ToString("0.##", CultureInfo.InvariantCulture)}x the {TrailingDays}-day average of {Money(average)}"));
+                            }
+                        }
+                        break;
+                }
+            }
+        }
+
+        return await SaveAndSendAsync(notifications, cancellationToken);
+    }
+
+    /// <summary>
+    /// Raise the enabled unknown type rules for an import rejected for type codes
+    /// missing from the catalog
+    /// </summary>
+    /// <returns>The notifications raised, already stored and sent to the webhook</returns>
+    public async Task<List<AlertNotificationDto>> RecordUnknownTypesAsync(
+        string originalName,
+        IReadOnlyList<string> codes,
+        CancellationToken cancellationToken = default)
+    {
+        var rules = await _context.AlertRules
+            .AsNoTracking()
+            .Where(r => r.Enabled && r.Kind == AlertRuleKinds.UnknownType)
+            .OrderBy(r => r.Name)
+            .ToListAsync(cancellationToken);
+
+        var notifications = rules
+            .Select(rule => Notify(rule, null, null, null,
+                $"'{originalName}' was rejected for unknown transaction type code(s): {string.Join(", ", codes)}"))
+            .ToList();
+
+        return await SaveAndSendAsync(notifications, cancellationToken);
+    }
+
+    /// <summary>
+    /// Get the latest notifications, newest first, and how many are unread
+    /// </summary>
+    public async Task<AlertNotificationList> GetNotificationsAsync(
+        bool unreadOnly = false,
+        CancellationToken cancellationToken = default)
+    {
+        var query = _context.AlertNotifications.AsNoTracking();
+        if (unreadOnly)
+        {
+            query = query.Where(n => n.ReadAt == null);
+        }
+
+        var notifications = await query
+            .OrderByDescending(n => n.TriggeredAt)
+            .Take(MaxNotifications)
+            .ToListAsync(cancellationToken);
+
+        return new AlertNotificationList
+        {
+            Notifications = notifications.Select(ToDto).ToList(),
+            UnreadCount = await _context.AlertNotifications.CountAsync(n => n.ReadAt == null, cancellationToken)
+        };
+    }
+
+    /// <summary>
+    /// Mark a notification as read
+    /// </summary>
+    /// <returns>The notification, or null when it does not exist</returns>
+    public async Task<AlertNotificationDto?> MarkReadAsync(Guid notificationId, CancellationToken cancellationToken = default)
+    {
+        var notification = await _context.AlertNotifications
+            .FirstOrDefaultAsync(n => n.Id == notificationId, cancellationToken);
+
+        if (notification == null)
+        {
+            return null;
+        }
+
+        notification.ReadAt ??= DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(notification);
+    }
+
+    /// <summary>
+    /// Mark every unread notification as read
+    /// </summary>
+    /// <returns>How many notifications were marked</returns>
+    public async Task<int> MarkAllReadAsync(CancellationToken cancellationToken = default)
+    {
+        var unread = await _context.AlertNotifications
+            .Where(n => n.ReadAt == null)
+            .ToListAsync(cancellationToken);
+
+        var now = DateTime.UtcNow;
+        foreach (var notification in unread)
+        {
+            notification.ReadAt = now;
+        }
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return unread.Count;
+    }
+
+    private async Task ApplyAsync(AlertRule rule, AlertRuleRequest request, CancellationToken cancellationToken)
+    {
+        Store? store = null;
+        if (request.StoreId != null)
+        {
+            store = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == request.StoreId, cancellationToken)
+                ?? throw new ValidationException(nameof(request.StoreId), "Store not found");
+        }
+
+        rule.Name = request.Name.Trim();
+        rule.Kind = request.Kind;
+        rule.Threshold = request.Kind == AlertRuleKinds.UnknownType ? null : request.Threshold;
+        rule.StoreId = store?.Id;
+        rule.Store = store;
+        rule.Enabled = request.Enabled;
+    }
+
+    private async Task<List<AlertNotificationDto>> SaveAndSendAsync(
+        List<AlertNotification> notifications,
+        CancellationToken cancellationToken)
+    {
+        if (notifications.Count == 0)
+        {
+            return new List<AlertNotificationDto>();
+        }
+
+        _context.AlertNotifications.AddRange(notifications);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var dtos = notifications.Select(ToDto).ToList();
+        await _webhook.SendAsync(dtos, cancellationToken);
+
+        return dtos;
+    }
+
+    private static AlertNotification Notify(
+        AlertRule rule,
+        Store? store,
+        Guid? fileUploadId,
+        decimal? value,
+        string message) => new()
+    {
+        Id = Guid.NewGuid(),
+        RuleId = rule.Id,
+        RuleName = rule.Name,
+        Kind = rule.Kind,
+        StoreId = store?.Id,
+        StoreName = store?.Name,
+        FileUploadId = fileUploadId,
+        Message = message,
+        Value = value,
+        Threshold = rule.Threshold,
+        TriggeredAt = DateTime.UtcNow
+    };
+
+    private static string Money(decimal value) => value.ToString("0.00", CultureInfo.InvariantCulture);
+
+    private static string Day(DateTime value) => value.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture);
+
+    private static AlertRuleDto ToDto(AlertRule rule) => new()
+    {
+        Id = rule.Id,
+        Name = rule.Name,
+        Kind = rule.Kind,
+        Threshold = rule.Threshold,
+        StoreId = rule.StoreId,
+        StoreName = rule.Store?.Name,
+        Enabled = rule.Enabled,
+        CreatedAt = rule.CreatedAt
+    };
+
+    private static AlertNotificationDto ToDto(AlertNotification notification) => new()
+    {
+        Id = notification.Id,
+        RuleId = notification.RuleId,
+        RuleName = notification.RuleName,
+        Kind = notification.Kind,
+        StoreId = notification.StoreId,
+        StoreName = notification.StoreName,
+        FileUploadId = notification.FileUploadId,
+        Message = notification.Message,
+        Value = notification.Value,
+        Threshold = notification.Threshold,
+        TriggeredAt = notification.TriggeredAt,
+        ReadAt = notification.ReadAt
+    };
+}
@@ -9,55 +9,12 @@ namespace LiterateSniffle.Core.Services;
 /// </summary>
 public class CNABParserService
 {
-    private static readonly Dictionary<int, (string Name, string Nature, string Description)> TransactionTypeMap = new()
-    {
-        { 1, ("Debit", "Income", "Debit transaction") },
-        { 2, ("Boleto", "Expense", "Boleto payment") },
-        { 3, ("Financing", "Expense", "Financing payment") },
-        { 4, ("Credit", "Income", "Credit transaction") },
-        { 5, ("Loan Receipt", "Income", "Loan receipt") },
-        { 6, ("Sales", "Income", "Sales transaction") },
-        { 7, ("TED Receipt", "Income", "TED receipt") },
-        { 8, ("DOC Receipt", "Income", "DOC receipt") },
-        { 9, ("Rent", "Expense", "Rent payment") }
-    };
-
-    /// <summary>
-    /// Get transaction type ID by code
-    /// </summary>
-    public static Guid GetTransactionTypeId(int code)
-    {
-        return code switch
-        {
-            1 => Guid.Parse("11111111-1111-1111-1111-111111111111"),
-            2 => Guid.Parse("22222222-2222-2222-2222-222222222222"),
-            3 => Guid.Parse("33333333-3333-3333-3333-333333333333"),
-            4 => Guid.Parse("44444444-4444-4444-4444-444444444444"),
-            5 => Guid.Parse("55555555-5555-5555-5555-555555555555"),
-            6 => Guid.Parse("66666666-6666-6666-6666-666666666666"),
-            7 => Guid.Parse("77777777-7777-7777-7777-777777777777"),
-            8 => Guid.Parse("88888888-8888-8888-8888-888888888888"),
-            9 => Guid.Parse("99999999-9999-9999-9999-999999999999"),
-            _ => throw new CNABParseException($"Invalid transaction type code: {code}")
-        };
-    }
-
-    /// <summary>
-    /// Get transaction type name by code
-    /// </summary>
-    public static string GetTransactionTypeName(int code)
-    {
-        if (TransactionTypeMap.TryGetValue(code, out var typeInfo))
-        {
-            return typeInfo.Name;
-        }
-        throw new CNABParseException($"Invalid transaction type code: {code}");
-    }
-
     /// <summary>
     /// Parse CNAB file content and extract transaction data
     /// </summary>
-    public ParsedCNABData ParseContent(string content)
+    /// <param name="content">Raw file content</param>
+    /// <param name="progress">Receives the line being parsed and skipped trailer records</param>
+    public ParsedCNABData ParseContent(string content, IImportProgress? progress = null)
     {
         var lines = content.Split('\n')
             .Select(line => line.TrimEnd('\r', '\n'))
@@ -66,8 +23,12 @@ public class CNABParserService
 
         var transactions = new List<ParsedTransaction>();
 
-        foreach (var line in lines)
+        for (var index = 0; index < lines.Count; index++)
         {
+            var line = lines[index];
+            var lineNumber = index + 1;
+            progress?.Report(ImportPhase.Parsing, lineNumber, lines.Count);
+
             if (line.Length != 80)
             {
                 throw new CNABParseException(
@@ -75,26 +36,25 @@ public class CNABParserService
             }
 
             var typeChar = line[0];
-            if (!char.IsDigit(typeChar))
+            if (!char.IsAsciiDigit(typeChar))
             {
                 throw new CNABParseException($"Invalid record type character: {typeChar}");
             }
 
+            // Any digit is a type code; codes missing from the catalog are reported when storing
             var type = int.Parse(typeChar.ToString());
-            
-            // Validate type
-            if (!new[] { 1, 2, 3, 4, 5, 6, 7, 8, 9 }.Contains(type))
-            {
-                throw new CNABParseException($"Invalid record type: {type}");
-            }
 
             // Skip trailer records (type 9 is often used as trailer)
-            if (type == 9) continue;
+            if (type == 9)
+            {
+                progress?.Warning(lineNumber, $"Line {lineNumber}: trailer record (type 9) skipped");
+                continue;
+            }
 
             try
             {
                 // Validate and parse transaction data
-                var validationError = ValidateCNABDetailRecord(line, lines.IndexOf(line) + 1);
+                var validationError = ValidateCNABDetailRecord(line, lineNumber);
                 if (validationError != null)
                 {
                     throw new CNABParseException(validationError);
@@ -122,10 +82,14 @@ public class CNABParserService
                 // Parse value (last 2 digits are cents)
                 var value = decimal.Parse(valueStr) / 100m;
 
+                if (!PiiMasker.IsValidCpf(cpf))
+                {
+                    progress?.Warning(lineNumber, $"Line {lineNumber}: CPF {PiiMasker.MaskCpf(cpf)} has invalid check digits");
+                }
+
                 transactions.Add(new ParsedTransaction
                 {
                     TypeCode = type,
-                    TypeId = GetTransactionTypeId(type),
                     Datetime = datetime,
                     Value = value,
                     Cpf = cpf,
@@ -146,7 +110,9 @@ public class CNABParserService
     /// <summary>
     /// Validate CNAB file format
     /// </summary>
-    public (bool IsValid, string? Format, string? Error) ValidateFile(string content)
+    /// <param name="content">Raw file content</param>
+    /// <param name="progress">Receives the validation phase and a warning for a missing trailer</param>
+    public (bool IsValid, string? Format, string? Error) ValidateFile(string content, IImportProgress? progress = null)
     {
         try
         {
@@ -160,6 +126,8 @@ public class CNABParserService
                 return (false, null, "File is empty");
             }
 
+            progress?.Report(ImportPhase.Validating, 0, lines.Count);
+
             // Check if all lines are 80 characters
             var lineLengths = lines.Select(line => line.Length).ToList();
             var uniqueLengths = lineLengths.Distinct().ToList();
@@ -175,12 +143,9 @@ public class CNABParserService
                 return (false, null, $"Invalid record length: {recordLength}. Expected 80 characters for this CNAB format.");
             }
 
-            // Validate type codes
-            var validTypeCodes = new[] { '1', '2', '3', '4', '5', '6', '7', '8', '9' };
-            
             // Check first record has valid type code
             var firstRecord = lines[0];
-            if (!validTypeCodes.Contains(firstRecord[0]))
+            if (!char.IsAsciiDigit(firstRecord[0]))
             {
                 return (false, null, "Missing or invalid header record");
             }
@@ -189,7 +154,7 @@ public class CNABParserService
             for (int i = 0; i < lines.Count; i++)
             {
                 var record = lines[i];
-                if (!validTypeCodes.Contains(record[0]))
+                if (!char.IsAsciiDigit(record[0]))
                 {
                     return (false, null, $"Invalid record type at line {i + 1} (should start with valid type code)");
                 }
@@ -201,10 +166,12 @@ public class CNABParserService
             {
                 // Allow files without trailer for compatibility
                 Console.WriteLine("Note: File does not end with trailer record (type 9), but proceeding with validation");
+                progress?.Warning(null, "File does not end with a trailer record (type 9)");
             }
 
             // Try to parse the content
             ParseContent(content);
+            progress?.Report(ImportPhase.Validating, lines.Count, lines.Count);
 
             return (true, "CNAB 80", null);
         }
@@ -214,94 +181,171 @@ public class CNABParserService
         }
     }
 
+    /// <summary>
+    /// Every problem in the file, line by line and field by field, so the user can fix them all at once.
+    /// Line numbers count blank lines, matching what an editor shows.
+    /// </summary>
+    /// <param name="content">Raw file content</param>
+    public List<CnabValidationIssue> CollectIssues(string content)
+    {
+        var issues = new List<CnabValidationIssue>();
+        var lines = content.Split('\n');
+
+        for (var index = 0; index < lines.Length; index++)
+        {
+            var line = lines[index].TrimEnd('\r', '\n');
+            if (string.IsNullOrWhiteSpace(line))
+            {
+                continue;
+            }
+
+            var lineNumber = index + 1;
+            if (line.Length == 80 && line[0] == '9')
+            {
+                issues.Add(new CnabValidationIssue
+                {
+                    Line = lineNumber,
+                    ColumnStart = 1,
+                    ColumnEnd = 1,
+                    Field = "type",
+                    Value = "9",
+                    Expected = "digit 0-8 for a transaction",
+                    Severity = IssueSeverity.Warning,
+                    Message = "Trailer record (type 9) skipped"
+                });
+                continue;
+            }
+
+            issues.AddRange(DetailRecordIssues(line, lineNumber));
+        }
+
+        return issues;
+    }
+
     /// <summary>
     /// Validate individual CNAB detail record
     /// </summary>
     private string? ValidateCNABDetailRecord(string record, int lineNumber)
     {
+        var issue = DetailRecordIssues(record, lineNumber).FirstOrDefault(i => i.Severity == IssueSeverity.Error);
+        return issue == null ? null : $"Line {lineNumber}: {issue.Message}";
+    }
+
+    /// <summary>
+    /// Problems of a detail record, one per field; a record of the wrong length is only reported as such
+    /// </summary>
+    private static List<CnabValidationIssue> DetailRecordIssues(string record, int lineNumber)
+    {
+        var issues = new List<CnabValidationIssue>();
+
+        void Add(string field, int start, string value, string expected, string message, string severity = IssueSeverity.Error)
+        {
+            issues.Add(new CnabValidationIssue
+            {
+                Line = lineNumber,
+                ColumnStart = start + 1,
+                ColumnEnd = start + value.Length,
+                Field = field,
+                Value = value,
+                Expected = expected,
+                Severity = severity,
+                Message = message
+            });
+        }
+
         if (record.Length != 80)
         {
-            return $"Line {lineNumber}: Invalid record length {record.Length}, expected 80";
+            issues.Add(new CnabValidationIssue
+            {
+                Line = lineNumber,
+                ColumnStart = Math.Min(record.Length, 80) + 1,
+                ColumnEnd = Math.Max(record.Length, 80),
+                Field = "line",
+                Value = record,
+                Expected = "80 characters",
+                Message = $"Invalid record length {record.Length}, expected 80"
+            });
+            return issues;
         }
 
-        // Type (position 1-1) - should be valid digit
-        var type = record[0];
-        if (!char.IsDigit(type))
+        // Type (position 1-1) - should be a digit
+        var type = record.Substring(0, 1);
+        if (!char.IsAsciiDigit(type[0]))
         {
-            return $"Line {lineNumber}: Invalid type '{type}', expected digit 1-9";
+            Add("type", 0, type, "digit 0-9", $"Invalid type '{type}', expected digit 0-9");
         }
 
         // Date (position 2-9) - 8 digits YYYYMMDD
         var date = record.Substring(1, 8);
         if (!System.Text.RegularExpressions.Regex.IsMatch(date, @"^\d{8}$"))
         {
-            return $"Line {lineNumber}: Invalid date format '{date}', expected 8 digits";
+            Add("date", 1, date, "8 digits (YYYYMMDD)", $"Invalid date format '{date}', expected 8 digits");
         }
-
         // Validate date values (YYYYMMDD)
-        if (int.TryParse(date.Substring(0, 4), out var year) &&
-            int.TryParse(date.Substring(4, 2), out var month) &&
-            int.TryParse(date.Substring(6, 2), out var day))
+        else if (int.TryParse(date.Substring(0, 4), out var year) &&
+                 int.TryParse(date.Substring(4, 2), out var month) &&
+                 int.TryParse(date.Substring(6, 2), out var day) &&
+                 (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1 || day > DateTime.DaysInMonth(year, month)))
         {
-            if (day < 1 || day > 31 || month < 1 || month > 12 || year < 1900 || year > 2100)
-            {
-                return $"Line {lineNumber}: Invalid date '{date}'";
-            }
+            Add("date", 1, date, "8 digits (YYYYMMDD)", $"Invalid date '{date}'");
         }
 
         // Value (position 10-19) - 10 digits
         var value = record.Substring(9, 10);
         if (!System.Text.RegularExpressions.Regex.IsMatch(value, @"^\d{10}$"))
         {
-            return $"Line {lineNumber}: Invalid value format '{value}', expected 10 digits";
+            Add("value", 9, value, "10 digits (cents)", $"Invalid value format '{value}', expected 10 digits");
         }
 
         // CPF (position 20-30) - 11 digits
         var cpf = record.Substring(19, 11);
         if (!System.Text.RegularExpressions.Regex.IsMatch(cpf, @"^\d{11}$"))
         {
-            return $"Line {lineNumber}: Invalid CPF format '{cpf}', expected 11 digits";
+            Add("cpf", 19, cpf, "11 digits", $"Invalid CPF format '{cpf}', expected 11 digits");
+        }
+        // The line is still imported, but the CPF was probably mistyped
+        else if (!PiiMasker.IsValidCpf(cpf))
+        {
+            Add("cpf", 19, cpf, "11 digits with valid check digits", $"CPF {PiiMasker.MaskCpf(cpf)} has invalid check digits",
+                IssueSeverity.Warning);
         }
 
         // Card (position 31-42) - 12 characters (digits or asterisks for masking)
         var card = record.Substring(30, 12);
         if (!System.Text.RegularExpressions.Regex.IsMatch(card, @"^[\d\*]{12}$"))
         {
-            return $"Line {lineNumber}: Invalid card format '{card}', expected 12 digits or asterisks";
+            Add("card", 30, card, "12 digits or asterisks", $"Invalid card format '{card}', expected 12 digits or asterisks");
         }
 
         // Time (position 43-48) - 6 digits (HHMMSS)
         var time = record.Substring(42, 6);
         if (!System.Text.RegularExpressions.Regex.IsMatch(time, @"^\d{6}$"))
         {
-            return $"Line {lineNumber}: Invalid time format '{time}', expected 6 digits";
+            Add("time", 42, time, "6 digits (HHMMSS)", $"Invalid time format '{time}', expected 6 digits");
         }
-
         // Validate time values
-        if (int.TryParse(time.Substring(0, 2), out var hours) &&
-            int.TryParse(time.Substring(2, 2), out var minutes) &&
-            int.TryParse(time.Substring(4, 2), out var seconds))
+        else if (int.TryParse(time.Substring(0, 2), out var hours) &&
+                 int.TryParse(time.Substring(2, 2), out var minutes) &&
+                 int.TryParse(time.Substring(4, 2), out var seconds) &&
+                 (hours > 23 || minutes > 59 || seconds > 59))
         {
-            if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59 || seconds < 0 || seconds > 59)
-            {
-                return $"Line {lineNumber}: Invalid time '{time}'";
-            }
+            Add("time", 42, time, "6 digits (HHMMSS)", $"Invalid time '{time}'");
         }
 
         // Store Owner (position 49-62) - 14 characters, should not be empty
-        var storeOwner = record.Substring(48, 14).Trim();
+        var storeOwner = record.Substring(48, 14);
         if (string.IsNullOrWhiteSpace(storeOwner))
         {
-            return $"Line {lineNumber}: Store owner name cannot be empty";
+            Add("storeOwner", 48, storeOwner, "up to 14 characters, not blank", "Store owner name cannot be empty");
         }
 
         // Store Name (position 63-80) - 18 characters, should not be empty
-        var storeName = record.Substring(62, 18).Trim();
+        var storeName = record.Substring(62, 18);
         if (string.IsNullOrWhiteSpace(storeName))
         {
-            return $"Line {lineNumber}: Store name cannot be empty";
+            Add("storeName", 62, storeName, "up to 18 characters, not blank", "Store name cannot be empty");
         }
 
-        return null; // Valid
+        return issues;
     }
 }
@@ -1,3 +1,6 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using LiterateSniffle.Core.Exceptions;
 using LiterateSniffle.Core.Models;
 using LiterateSniffle.Infrastructure.Data;
 using LiterateSniffle.Infrastructure.Entities;
@@ -12,24 +15,131 @@ public class FileUploadService
 {
     private readonly ApplicationDbContext _context;
     private readonly CNABParserService _parserService;
+    private readonly TransactionTypeService _transactionTypeService;
 
-    public FileUploadService(ApplicationDbContext context, CNABParserService parserService)
+    public FileUploadService(
+        ApplicationDbContext context,
+        CNABParserService parserService,
+        TransactionTypeService transactionTypeService)
     {
         _context = context;
         _parserService = parserService;
+        _transactionTypeService = transactionTypeService;
+    }
+
+    /// <summary>
+    /// Hex-encoded SHA-256 of the raw file content
+    /// </summary>
+    public static string ComputeContentHash(byte[] content)
+    {
+        return Convert.ToHexString(SHA256.HashData(content)).ToLowerInvariant();
+    }
+
+    /// <summary>
+    /// Find earlier uploads of the same file and lines that match stored transactions
+    /// </summary>
+    public async Task<DuplicateCheckResult> FindDuplicatesAsync(
+        DuplicateCheckRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var contentHash = request.ContentHash.ToLowerInvariant();
+
+        var duplicateFiles = await _context.FileUploads
+            .AsNoTracking()
+            .Where(f => f.ContentHash == contentHash && f.RevertedAt == null)
+            .OrderByDescending(f => f.UploadedAt)
+            .Select(f => new DuplicateFileMatch
+            {
+                Id = f.Id,
+                OriginalName = f.OriginalName,
+                UploadedAt = f.UploadedAt
+            })
+            .ToListAsync(cancellationToken);
+
+        // A line of a type the catalog lacks cannot match a stored transaction
+        var types = await _transactionTypeService.GetByCodeAsync(cancellationToken);
+        var lines = request.Transactions
+            .Where(line => types.ContainsKey(line.Type))
+            .Select(line => (line.Line, Transaction: new ParsedTransaction
+            {
+                TypeCode = line.Type,
+                TypeId = types[line.Type].Id,
+                Datetime = line.Datetime,
+                Value = line.Value,
+                Cpf = line.Cpf,
+                Card = line.Card,
+                StoreOwner = line.StoreOwner.Trim(),
+                StoreName = line.StoreName.Trim()
+            }))
+            .ToList();
+
+        var existingKeys = await LoadExistingKeysAsync(lines.Select(line => line.Transaction).ToList(), cancellationToken);
+
+        return new DuplicateCheckResult
+        {
+            DuplicateFiles = duplicateFiles,
+            DuplicateLines = lines
+                .Where(line => existingKeys.Contains(TransactionKey(line.Transaction)))
+                .Select(line => line.Line)
+                .OrderBy(line => line)
+                .ToList(),
+            CheckedCount = request.Transactions.Count
+        };
     }
 
     /// <summary>
     /// Store CNAB data in the database
     /// </summary>
-    public async Task<Guid> StoreCNABDataAsync(
+    /// <param name="contentHash">SHA-256 of the raw file, see <see cref="ComputeContentHash"/></param>
+    /// <param name="skipDuplicates">Leave out transactions that match one already stored</param>
+    /// <param name="progress">Receives each transaction written</param>
+    /// <returns>The new upload id and how many transactions were stored and skipped</returns>
+    /// <exception cref="UnknownTransactionTypeException">Thrown when a type code is missing from the catalog</exception>
+    public async Task<(Guid FileUploadId, int ImportedCount, int SkippedCount)> StoreCNABDataAsync(
         string filename,
         string originalName,
         int size,
         string format,
         ParsedCNABData cnabData,
+        string contentHash = "",
+        bool skipDuplicates = false,
+        IImportProgress? progress = null,
         CancellationToken cancellationToken = default)
     {
+        var types = await _transactionTypeService.GetByCodeAsync(cancellationToken);
+        var unknownCodes = cnabData.Transactions
+            .Select(t => t.TypeCode)
+            .Where(code => !types.ContainsKey(code))
+            .Distinct()
+            .OrderBy(code => code)
+            .ToList();
+        if (unknownCodes.Count > 0)
+        {
+            throw new UnknownTransactionTypeException(unknownCodes);
+        }
+
+        foreach (var trans in cnabData.Transactions)
+        {
+            trans.TypeId = types[trans.TypeCode].Id;
+        }
+
+        var transactionsToStore = cnabData.Transactions;
+        if (skipDuplicates)
+        {
+            var existingKeys = await LoadExistingKeysAsync(cnabData.Transactions, cancellationToken);
+            transactionsToStore = cnabData.Transactions
+                .Where(t => !existingKeys.Contains(TransactionKey(t)))
+                .ToList();
+
+            var skipped = cnabData.Transactions.Count - transactionsToStore.Count;
+            if (skipped > 0)
+            {
+                progress?.Warning(null, $"{skipped} transaction(s) already imported were skipped");
+            }
+        }
+
+        progress?.Report(ImportPhase.Persisting, 0, transactionsToStore.Count);
+
         using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
 
         try
@@ -42,6 +152,7 @@ public class FileUploadService
                 OriginalName = originalName,
                 Size = size,
                 Format = format,
+                ContentHash = contentHash,
                 UploadedAt = DateTime.UtcNow
             };
 
@@ -51,7 +162,7 @@ public class FileUploadService
             // Create or get stores
             var storeMap = new Dictionary<string, Guid>();
 
-            foreach (var trans in cnabData.Transactions)
+            foreach (var trans in transactionsToStore)
             {
                 var storeKey = $"{trans.StoreOwner}|{trans.StoreName}";
 
@@ -61,10 +172,22 @@ public class FileUploadService
                         .FirstOrDefaultAsync(s => s.OwnerName == trans.StoreOwner && s.Name == trans.StoreName,
                             cancellationToken);
 
+                    // Names of a store that was merged away or renamed belong to the store it became
+                    var alias = existingStore == null
+                        ? await _context.StoreAliases
+                            .AsNoTracking()
+                            .FirstOrDefaultAsync(a => a.OwnerName == trans.StoreOwner && a.Name == trans.StoreName,
+                                cancellationToken)
+                        : null;
+
                     if (existingStore != null)
                     {
                         storeMap[storeKey] = existingStore.Id;
                     }
+                    else if (alias != null)
+                    {
+                        storeMap[storeKey] = alias.StoreId;
+                    }
                     else
                     {
                         var newStore = new Store
@@ -82,7 +205,8 @@ public class FileUploadService
             }
 
             // Create transactions
-            foreach (var trans in cnabData.Transactions)
+            var written = 0;
+            foreach (var trans in transactionsToStore)
             {
                 var storeKey = $"{trans.StoreOwner}|{trans.StoreName}";
                 var storeId = storeMap[storeKey];
@@ -91,7 +215,7 @@ public class FileUploadService
                 {
                     Id = Guid.NewGuid(),
                     TypeId = trans.TypeId,
-                    Type = CNABParserService.GetTransactionTypeName(trans.TypeCode),
+                    Type = types[trans.TypeCode].Name,
                     Datetime = trans.Datetime,
                     Value = trans.Value,
                     Cpf = trans.Cpf,
@@ -101,12 +225,158 @@ public class FileUploadService
                 };
 
                 _context.Transactions.Add(transactionEntity);
+                progress?.Report(ImportPhase.Persisting, ++written, transactionsToStore.Count);
+            }
+
+            await _context.SaveChangesAsync(cancellationToken);
+            await transaction.CommitAsync(cancellationToken);
+
+            return (fileUpload.Id, transactionsToStore.Count, cnabData.Transactions.Count - transactionsToStore.Count);
+        }
+        catch
+        {
+            await transaction.RollbackAsync(cancellationToken);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get all uploaded files, newest first, with the stores each file touched
+    /// </summary>
+    public async Task<List<FileUploadSummary>> GetUploadHistoryAsync(CancellationToken cancellationToken = default)
+    {
+        var uploads = await _context.FileUploads
+            .AsNoTracking()
+            .OrderByDescending(f => f.UploadedAt)
+            .ToListAsync(cancellationToken);
+
+        return await BuildSummariesAsync(uploads, cancellationToken);
+    }
+
+    /// <summary>
+    /// Get a single uploaded file with the stores it touched
+    /// </summary>
+    public async Task<FileUploadSummary?> GetUploadSummaryAsync(
+        Guid fileUploadId,
+        CancellationToken cancellationToken = default)
+    {
+        var upload = await _context.FileUploads
+            .AsNoTracking()
+            .FirstOrDefaultAsync(f => f.Id == fileUploadId, cancellationToken);
+
+        if (upload == null)
+        {
+            return null;
+        }
+
+        var summaries = await BuildSummariesAsync(new List<FileUpload> { upload }, cancellationToken);
+        return summaries[0];
+    }
+
+    /// <summary>
+    /// Get the uploaded files that contributed transactions to a store, newest first.
+    /// Reverted imports no longer have transactions and are left out.
+    /// </summary>
+    public async Task<List<StoreUploadSummary>> GetStoreUploadsAsync(
+        Guid storeId,
+        CancellationToken cancellationToken = default)
+    {
+        var counts = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.StoreId == storeId)
+            .GroupBy(t => t.FileUploadId)
+            .Select(g => new { FileUploadId = g.Key, Count = g.Count() })
+            .ToListAsync(cancellationToken);
+
+        var uploadIds = counts.Select(c => c.FileUploadId).ToList();
+        var uploads = await _context.FileUploads
+            .AsNoTracking()
+            .Where(f => uploadIds.Contains(f.Id))
+            .OrderByDescending(f => f.UploadedAt)
+            .ToListAsync(cancellationToken);
+
+        return uploads.Select(upload => new StoreUploadSummary
+        {
+            FileUploadId = upload.Id,
+            OriginalName = upload.OriginalName,
+            Format = upload.Format,
+            UploadedAt = upload.UploadedAt,
+            TransactionCount = counts.First(c => c.FileUploadId == upload.Id).Count
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Dry run of <see cref="RevertUploadAsync"/>: how each store's balance would change
+    /// </summary>
+    /// <returns>The balance changes, or null when the upload does not exist</returns>
+    /// <exception cref="ConflictException">Thrown when the upload was already reverted</exception>
+    public async Task<RevertPreview?> PreviewRevertAsync(
+        Guid fileUploadId,
+        CancellationToken cancellationToken = default)
+    {
+        var upload = await _context.FileUploads
+            .AsNoTracking()
+            .FirstOrDefaultAsync(f => f.Id == fileUploadId, cancellationToken);
+
+        if (upload == null)
+        {
+            return null;
+        }
+
+        EnsureNotReverted(upload);
+        return await BuildRevertPreviewAsync(upload, cancellationToken);
+    }
+
+    /// <summary>
+    /// Delete the transactions imported from a file, and the imported stores left without
+    /// any, and record who reverted the import. The upload itself is kept as the audit record.
+    /// </summary>
+    /// <returns>The balance changes that were applied, or null when the upload does not exist</returns>
+    /// <exception cref="ConflictException">Thrown when the upload was already reverted</exception>
+    public async Task<RevertPreview?> RevertUploadAsync(
+        Guid fileUploadId,
+        string revertedBy,
+        CancellationToken cancellationToken = default)
+    {
+        using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+
+        try
+        {
+            var upload = await _context.FileUploads
+                .FirstOrDefaultAsync(f => f.Id == fileUploadId, cancellationToken);
+
+            if (upload == null)
+            {
+                return null;
             }
 
+            EnsureNotReverted(upload);
+            var preview = await BuildRevertPreviewAsync(upload, cancellationToken);
+
+            var fileTransactions = await _context.Transactions
+                .Where(t => t.FileUploadId == fileUploadId)
+                .ToListAsync(cancellationToken);
+            _context.Transactions.RemoveRange(fileTransactions);
+
+            // An imported store left without transactions would be an empty row in the balance table;
+            // stores someone curated are kept, see BuildRevertPreviewAsync
+            var emptyStoreIds = preview.Stores
+                .Where(s => s.StoreRemoved)
+                .Select(s => s.StoreId)
+                .ToList();
+            var emptyStores = await _context.Stores
+                .Where(s => emptyStoreIds.Contains(s.Id))
+                .ToListAsync(cancellationToken);
+            _context.Stores.RemoveRange(emptyStores);
+
+            upload.RevertedAt = DateTime.UtcNow;
+            upload.RevertedBy = revertedBy.Trim();
+            upload.RevertedTransactionCount = fileTransactions.Count;
+
             await _context.SaveChangesAsync(cancellationToken);
             await transaction.CommitAsync(cancellationToken);
 
-            return fileUpload.Id;
+            return preview;
         }
         catch
         {
@@ -114,4 +384,273 @@ public class FileUploadService
             throw;
         }
     }
+
+    private static void EnsureNotReverted(FileUpload upload)
+    {
+        if (upload.RevertedAt != null)
+        {
+            throw new ConflictException(
+                $"'{upload.OriginalName}' was already reverted by {upload.RevertedBy} on {upload.RevertedAt:yyyy-MM-dd HH:mm} UTC");
+        }
+    }
+
+    /// <summary>
+    /// Balance of every store the upload touched, with and without the upload's transactions
+    /// </summary>
+    private async Task<RevertPreview> BuildRevertPreviewAsync(
+        FileUpload upload,
+        CancellationToken cancellationToken)
+    {
+        var storeIds = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.FileUploadId == upload.Id)
+            .Select(t => t.StoreId)
+            .Distinct()
+            .ToListAsync(cancellationToken);
+
+        var transactions = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => storeIds.Contains(t.StoreId))
+            .Select(t => new
+            {
+                t.StoreId,
+                t.Store.OwnerName,
+                t.Store.Name,
+                t.FileUploadId,
+                t.Value,
+                t.TransactionType.Nature
+            })
+            .ToListAsync(cancellationToken);
+
+        // Renamed, merged or grouped stores, and those watched by an alert rule, carry work
+        // that deleting them would lose: their aliases, branches, rules and change history
+        var curatedStoreIds = await _context.Stores
+            .AsNoTracking()
+            .Where(s => storeIds.Contains(s.Id))
+            .Where(s => s.ParentStoreId != null
+                || s.Aliases.Any()
+                || s.Branches.Any()
+                || _context.AlertRules.Any(r => r.StoreId == s.Id)
+                || _context.StoreChangeAudits.Any(a => a.StoreId == s.Id))
+            .Select(s => s.Id)
+            .ToListAsync(cancellationToken);
+
+        var stores = transactions
+            .GroupBy(t => new { t.StoreId, t.OwnerName, t.Name })
+            .Select(g =>
+            {
+                var removed = g.Where(t => t.FileUploadId == upload.Id).ToList();
+                var incomeRemoved = removed.Where(t => t.Nature == "Income").Sum(t => t.Value);
+                var expenseRemoved = removed.Where(t => t.Nature == "Expense").Sum(t => t.Value);
+                var currentBalance = g.Where(t => t.Nature == "Income").Sum(t => t.Value)
+                    - g.Where(t => t.Nature == "Expense").Sum(t => t.Value);
+                var balanceChange = expenseRemoved - incomeRemoved;
+
+                return new RevertStoreImpact
+                {
+                    StoreId = g.Key.StoreId,
+                    OwnerName = g.Key.OwnerName,
+                    StoreName = g.Key.Name,
+                    TransactionCount = removed.Count,
+                    IncomeRemoved = incomeRemoved,
+                    ExpenseRemoved = expenseRemoved,
+                    CurrentBalance = currentBalance,
+                    BalanceChange = balanceChange,
+                    BalanceAfter = currentBalance + balanceChange,
+                    StoreRemoved = removed.Count == g.Count() && !curatedStoreIds.Contains(g.Key.StoreId)
+                };
+            })
+            .OrderBy(s => s.OwnerName)
+            .ThenBy(s => s.StoreName)
+            .ToList();
+
+        return new RevertPreview
+        {
+            FileUploadId = upload.Id,
+            OriginalName = upload.OriginalName,
+            UploadedAt = upload.UploadedAt,
+            TransactionCount = stores.Sum(s => s.TransactionCount),
+            Stores = stores
+        };
+    }
+
+    /// <summary>
+    /// Keys of stored transactions in the date range of the given ones, under the
+    /// store's current names and under the names it had before a merge or rename
+    /// </summary>
+    private async Task<HashSet<string>> LoadExistingKeysAsync(
+        List<ParsedTransaction> transactions,
+        CancellationToken cancellationToken)
+    {
+        if (transactions.Count == 0)
+        {
+            return new HashSet<string>();
+        }
+
+        var from = transactions.Min(t => t.Datetime);
+        var to = transactions.Max(t => t.Datetime);
+
+        var existing = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.Datetime >= from && t.Datetime <= to)
+            .Select(t => new
+            {
+                t.TypeId,
+                t.Datetime,
+                t.Value,
+                t.Cpf,
+                t.Card,
+                t.StoreId,
+                t.Store.OwnerName,
+                t.Store.Name
+            })
+            .ToListAsync(cancellationToken);
+
+        var storeIds = existing.Select(t => t.StoreId).Distinct().ToList();
+        var aliases = (await _context.StoreAliases
+            .AsNoTracking()
+            .Where(a => storeIds.Contains(a.StoreId))
+            .ToListAsync(cancellationToken))
+            .ToLookup(a => a.StoreId);
+
+        return existing
+            .SelectMany(t => aliases[t.StoreId]
+                .Select(a => (a.OwnerName, a.Name))
+                .Prepend((t.OwnerName, t.Name))
+                .Select(names => TransactionKey(t.TypeId, t.Datetime, t.Value, t.Cpf, t.Card, names.OwnerName, names.Name)))
+            .ToHashSet();
+    }
+
+    private static string TransactionKey(ParsedTransaction transaction)
+    {
+        return TransactionKey(
+            transaction.TypeId,
+            transaction.Datetime,
+            transaction.Value,
+            transaction.Cpf,
+            transaction.Card,
+            transaction.StoreOwner,
+            transaction.StoreName);
+    }
+
+    // Same type, datetime, value, CPF, card and store
+    private static string TransactionKey(
+        Guid typeId,
+        DateTime datetime,
+        decimal value,
+        string cpf,
+        string card,
+        string storeOwner,
+        string storeName)
+    {
+        return string.Join('|',
+            typeId,
+            datetime.ToString("yyyyMMddHHmmss", CultureInfo.InvariantCulture),
+            value.ToString("0.00", CultureInfo.InvariantCulture),
+            cpf,
+            card,
+            storeOwner,
+            storeName);
+    }
+
+    private async Task<List<FileUploadSummary>> BuildSummariesAsync(
+        List<FileUpload> uploads,
+        CancellationToken cancellationToken)
+    {
+        var uploadIds = uploads.Select(f => f.Id).ToList();
+
+        var storeCounts = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => uploadIds.Contains(t.FileUploadId))
+            .GroupBy(t => new { t.FileUploadId, t.StoreId, t.Store.OwnerName, t.Store.Name })
+            .Select(g => new
+            {
+                g.Key.FileUploadId,
+                g.Key.StoreId,
+                g.Key.OwnerName,
+                g.Key.Name,
+                Count = g.Count()
+            })
+            .ToListAsync(cancellationToken);
+
+        return uploads.Select(upload =>
+        {
+            var stores = storeCounts
+                .Where(s => s.FileUploadId == upload.Id)
+                .OrderBy(s => s.OwnerName)
+                .ThenBy(s => s.Name)
+                .Select(s => new FileUploadStoreSummary
+                {
+                    StoreId = s.StoreId,
+                    OwnerName = s.OwnerName,
+                    StoreName = s.Name,
+                    TransactionCount = s.Count
+                })
+                .ToList();
+
+            return new FileUploadSummary
+            {
+                Id = upload.Id,
+                Filename = upload.Filename,
+                OriginalName = upload.OriginalName,
+                Size = upload.Size,
+                Format = upload.Format,
+                UploadedAt = upload.UploadedAt,
+                TransactionCount = stores.Sum(s => s.TransactionCount),
+                Stores = stores,
+                RevertedAt = upload.RevertedAt,
+                RevertedBy = upload.RevertedBy,
+                RevertedTransactionCount = upload.RevertedTransactionCount
+            };
+        }).ToList();
+    }
+}
+
+/// <summary>
+/// Uploaded file DTO with the stores it touched
+/// </summary>
+public class FileUploadSummary
+{
+    public Guid Id { get; set; }
+    public string Filename { get; set; } = string.Empty;
+    public string OriginalName { get; set; } = string.Empty;
+    public int Size { get; set; }
+    public string Format { get; set; } = string.Empty;
+    public DateTime UploadedAt { get; set; }
+    public int TransactionCount { get; set; }
+    public List<FileUploadStoreSummary> Stores { get; set; } = new();
+
+    /// <summary>
+    /// Set once the import was reverted; its transactions and store list are then empty
+    /// </summary>
+    public DateTime? RevertedAt { get; set; }
+    public string? RevertedBy { get; set; }
+    public int? RevertedTransactionCount { get; set; }
+}
+
+/// <summary>
+/// Store touched by an uploaded file DTO
+/// </summary>
+public class FileUploadStoreSummary
+{
+    public Guid StoreId { get; set; }
+    public string OwnerName { get; set; } = string.Empty;
+    public string StoreName { get; set; } = string.Empty;
+    public int TransactionCount { get; set; }
+}
+
+/// <summary>
+/// Uploaded file that contributed to a store DTO
+/// </summary>
+public class StoreUploadSummary
+{
+    public Guid FileUploadId { get; set; }
+    public string OriginalName { get; set; } = string.Empty;
+    public string Format { get; set; } = string.Empty;
+    public DateTime UploadedAt { get; set; }
+
+    /// <summary>
+    /// Transactions of this store in the file, not the file's total
+    /// </summary>
+    public int TransactionCount { get; set; }
 }
@@ -0,0 +1,15 @@
+using LiterateSniffle.Core.Models;
+
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Passes fired alerts on to an outside receiver; see <see cref="AlertService"/>
+/// </summary>
+public interface IAlertWebhook
+{
+    /// <summary>
+    /// Send the notifications raised by one evaluation. Implementations must not
+    /// throw for delivery failures: the notifications are already stored.
+    /// </summary>
+    Task SendAsync(IReadOnlyList<AlertNotificationDto> notifications, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,18 @@
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Receives progress of a single import; see <see cref="ImportProgressTracker"/>
+/// </summary>
+public interface IImportProgress
+{
+    /// <summary>
+    /// Report how far the given <see cref="Models.ImportPhase"/> has got. Callers may
+    /// report every item; implementations decide how often to pass it on.
+    /// </summary>
+    void Report(string phase, int current, int total);
+
+    /// <summary>
+    /// Report a problem that does not stop the import
+    /// </summary>
+    void Warning(int? line, string message);
+}
@@ -0,0 +1,298 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using LiterateSniffle.Core.Models;
+
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Keeps the progress events of running imports and hands them to subscribers.
+/// Registered as a singleton: uploads and progress streams are separate requests.
+/// </summary>
+public class ImportProgressTracker
+{
+    // Finished imports stay available this long, so a late subscriber still gets the outcome
+    private static readonly TimeSpan FinishedRetention = TimeSpan.FromMinutes(10);
+
+    // Subscriptions to uploads that never complete are dropped after this long
+    private static readonly TimeSpan IdleRetention = TimeSpan.FromHours(1);
+
+    // More warnings than this are summarised in a single event
+    public const int MaxWarnings = 100;
+
+    private readonly ConcurrentDictionary<string, UploadProgress> _uploads = new();
+    private readonly List<Channel<ImportProgressEvent>> _completionSubscribers = new();
+
+    /// <summary>
+    /// Start reporting progress for an upload
+    /// </summary>
+    public IImportProgress Start(string uploadId)
+    {
+        RemoveStale();
+        var progress = GetOrAdd(uploadId);
+        lock (progress.Sync)
+        {
+            // A retried completion starts over
+            progress.History.Clear();
+            progress.IsFinished = false;
+            progress.UpdatedAt = DateTime.UtcNow;
+        }
+
+        return new Reporter(this, uploadId);
+    }
+
+    /// <summary>
+    /// Report a successful import to the upload's subscribers and to every completion subscriber
+    /// </summary>
+    public void Complete(string uploadId, Guid fileUploadId, string originalName, int transactionsCount, int skippedCount)
+    {
+        var completed = CompletedEvent(uploadId, fileUploadId, originalName, transactionsCount, skippedCount);
+        Publish(completed);
+        NotifyCompletionSubscribers(completed);
+    }
+
+    /// <summary>
+    /// Report a successful import that had no progress stream (a single-request upload)
+    /// to the completion subscribers only, without keeping any state for it
+    /// </summary>
+    public void AnnounceCompleted(Guid fileUploadId, string originalName, int transactionsCount, int skippedCount)
+    {
+        NotifyCompletionSubscribers(
+            CompletedEvent(fileUploadId.ToString(), fileUploadId, originalName, transactionsCount, skippedCount));
+    }
+
+    /// <summary>
+    /// Report a failed import
+    /// </summary>
+    public void Fail(string uploadId, string message)
+    {
+        Publish(new ImportProgressEvent
+        {
+            UploadId = uploadId,
+            Kind = ImportProgressKind.Failed,
+            Message = message
+        });
+    }
+
+    /// <summary>
+    /// Events of one upload: everything reported so far, then new events as they happen.
+    /// The reader completes once the import has completed or failed.
+    /// </summary>
+    public ImportProgressSubscription Subscribe(string uploadId)
+    {
+        var progress = GetOrAdd(uploadId);
+        var channel = Channel.CreateUnbounded<ImportProgressEvent>();
+
+        lock (progress.Sync)
+        {
+            foreach (var past in progress.History)
+            {
+                channel.Writer.TryWrite(past);
+            }
+
+            if (progress.IsFinished)
+            {
+                channel.Writer.TryComplete();
+                return new ImportProgressSubscription(channel.Reader, () => { });
+            }
+
+            progress.Subscribers.Add(channel);
+        }
+
+        return new ImportProgressSubscription(channel.Reader, () =>
+        {
+            lock (progress.Sync)
+            {
+                progress.Subscribers.Remove(channel);
+            }
+        });
+    }
+
+    /// <summary>
+    /// Completed events of every upload from now on, e.g. to refresh balances
+    /// </summary>
+    public ImportProgressSubscription SubscribeToCompletions()
+    {
+        var channel = Channel.CreateUnbounded<ImportProgressEvent>();
+        lock (_completionSubscribers)
+        {
+            _completionSubscribers.Add(channel);
+        }
+
+        return new ImportProgressSubscription(channel.Reader, () =>
+        {
+            lock (_completionSubscribers)
+            {
+                _completionSubscribers.Remove(channel);
+            }
+        });
+    }
+
+    private UploadProgress GetOrAdd(string uploadId)
+    {
+        return _uploads.GetOrAdd(uploadId, _ => new UploadProgress());
+    }
+
+    private void Publish(ImportProgressEvent progressEvent)
+    {
+        var progress = GetOrAdd(progressEvent.UploadId);
+        lock (progress.Sync)
+        {
+            if (progress.IsFinished)
+            {
+                return;
+            }
+
+            progress.History.Add(progressEvent);
+            progress.UpdatedAt = DateTime.UtcNow;
+
+            foreach (var subscriber in progress.Subscribers)
+            {
+                subscriber.Writer.TryWrite(progressEvent);
+            }
+
+            if (progressEvent.Kind is ImportProgressKind.Completed or ImportProgressKind.Failed)
+            {
+                progress.IsFinished = true;
+                foreach (var subscriber in progress.Subscribers)
+                {
+                    subscriber.Writer.TryComplete();
+                }
+                progress.Subscribers.Clear();
+            }
+        }
+    }
+
+    private static ImportProgressEvent CompletedEvent(
+        string uploadId, Guid fileUploadId, string originalName, int transactionsCount, int skippedCount)
+    {
+        return new ImportProgressEvent
+        {
+            UploadId = uploadId,
+            Kind = ImportProgressKind.Completed,
+            FileUploadId = fileUploadId,
+            OriginalName = originalName,
+            TransactionsCount = transactionsCount,
+            SkippedCount = skippedCount,
+            Message = $"{transactionsCount} transaction(s) imported"
+        };
+    }
+
+    private void NotifyCompletionSubscribers(ImportProgressEvent completed)
+    {
+        lock (_completionSubscribers)
+        {
+            foreach (var subscriber in _completionSubscribers)
+            {
+                subscriber.Writer.TryWrite(completed);
+            }
+        }
+    }
+
+    private void RemoveStale()
+    {
+        var now = DateTime.UtcNow;
+        foreach (var (uploadId, progress) in _uploads)
+        {
+            bool stale;
+            lock (progress.Sync)
+            {
+                var age = now - progress.UpdatedAt;
+                stale = progress.IsFinished ? age > FinishedRetention : age > IdleRetention;
+            }
+
+            if (stale)
+            {
+                _uploads.TryRemove(uploadId, out _);
+            }
+        }
+    }
+
+    private sealed class UploadProgress
+    {
+        public readonly object Sync = new();
+        public readonly List<ImportProgressEvent> History = new();
+        public readonly List<Channel<ImportProgressEvent>> Subscribers = new();
+        public bool IsFinished;
+        public DateTime UpdatedAt = DateTime.UtcNow;
+    }
+
+    /// <summary>
+    /// Passes on roughly one progress event per percent, so parsing a large file
+    /// does not turn into one event per line
+    /// </summary>
+    private sealed class Reporter : IImportProgress
+    {
+        private readonly ImportProgressTracker _tracker;
+        private readonly string _uploadId;
+        private string? _phase;
+        private int _lastReported;
+        private int _warningCount;
+
+        public Reporter(ImportProgressTracker tracker, string uploadId)
+        {
+            _tracker = tracker;
+            _uploadId = uploadId;
+        }
+
+        public void Report(string phase, int current, int total)
+        {
+            var step = Math.Max(1, total / 100);
+            if (phase == _phase && current != total && current - _lastReported < step)
+            {
+                return;
+            }
+
+            _phase = phase;
+            _lastReported = current;
+            _tracker.Publish(new ImportProgressEvent
+            {
+                UploadId = _uploadId,
+                Kind = ImportProgressKind.Progress,
+                Phase = phase,
+                Current = current,
+                Total = total
+            });
+        }
+
+        public void Warning(int? line, string message)
+        {
+            _warningCount++;
+            if (_warningCount > MaxWarnings + 1)
+            {
+                return;
+            }
+
+            _tracker.Publish(new ImportProgressEvent
+            {
+                UploadId = _uploadId,
+                Kind = ImportProgressKind.Warning,
+                Phase = _phase,
+                Line = _warningCount > MaxWarnings ? null : line,
+                Message = _warningCount > MaxWarnings
+                    ? $"More than {MaxWarnings} warnings; the rest are not listed"
+                    : message
+            });
+        }
+    }
+}
+
+/// <summary>
+/// Reader of progress events; dispose to stop receiving them
+/// </summary>
+public sealed class ImportProgressSubscription : IDisposable
+{
+    private readonly Action _unsubscribe;
+
+    public ImportProgressSubscription(ChannelReader<ImportProgressEvent> reader, Action unsubscribe)
+    {
+        Reader = reader;
+        _unsubscribe = unsubscribe;
+    }
+
+    public ChannelReader<ImportProgressEvent> Reader { get; }
+
+    public void Dispose()
+    {
+        _unsubscribe();
+    }
+}
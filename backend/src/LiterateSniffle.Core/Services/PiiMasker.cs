@@ -0,0 +1,62 @@
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Masking and validation of the personal data carried by transactions
+/// </summary>
+public static class PiiMasker
+{
+    /// <summary>
+    /// CPF with everything but the check digits hidden, e.g. ***.***.***-17
+    /// </summary>
+    public static string MaskCpf(string cpf)
+    {
+        if (string.IsNullOrEmpty(cpf))
+        {
+            return cpf;
+        }
+
+        var last = cpf.Length >= 2 ? cpf[^2..] : cpf;
+        return $"***.***.***-{last}";
+    }
+
+    /// <summary>
+    /// Card number with everything but the last four characters hidden, e.g. ********3153
+    /// </summary>
+    public static string MaskCard(string card)
+    {
+        if (string.IsNullOrEmpty(card) || card.Length <= 4)
+        {
+            return card;
+        }
+
+        return new string('*', card.Length - 4) + card[^4..];
+    }
+
+    /// <summary>
+    /// Whether an 11-digit CPF has matching check digits. Repeated digits such as
+    /// 111.111.111-11 pass the arithmetic but are not issued, so they are rejected too.
+    /// </summary>
+    public static bool IsValidCpf(string cpf)
+    {
+        if (cpf.Length != 11 || !cpf.All(char.IsAsciiDigit) || cpf.Distinct().Count() == 1)
+        {
+            return false;
+        }
+
+        var digits = cpf.Select(c => c - '0').ToArray();
+        return CheckDigit(digits, 9) == digits[9] && CheckDigit(digits, 10) == digits[10];
+    }
+
+    // Weights run from count + 1 down to 2 over the first `count` digits
+    private static int CheckDigit(int[] digits, int count)
+    {
+        var sum = 0;
+        for (var i = 0; i < count; i++)
+        {
+            sum += digits[i] * (count + 1 - i);
+        }
+
+        var remainder = sum * 10 % 11;
+        return remainder == 10 ? 0 : remainder;
+    }
+}
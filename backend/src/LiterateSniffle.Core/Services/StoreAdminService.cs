@@ -0,0 +1,427 @@
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Infrastructure.Data;
+using LiterateSniffle.Infrastructure.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Service for merging, renaming, splitting and grouping stores. Every change
+/// reassigns transactions as needed and is recorded in the store audit trail.
+/// </summary>
+public class StoreAdminService
+{
+    private readonly ApplicationDbContext _context;
+
+    public StoreAdminService(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// Fold the source stores into the target store: their transactions, branches and
+    /// names move to the target, and the sources are deleted
+    /// </summary>
+    /// <returns>The audit record, or null when the target store does not exist</returns>
+    /// <exception cref="ValidationException">Thrown when the request is invalid or a source store does not exist</exception>
+    public async Task<StoreChangeRecord?> MergeAsync(
+        Guid targetStoreId,
+        MergeStoresRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        var sourceIds = request.SourceStoreIds.Distinct().ToList();
+        if (sourceIds.Contains(targetStoreId))
+        {
+            throw new ValidationException(nameof(request.SourceStoreIds), "A store cannot be merged into itself");
+        }
+
+        return await InTransactionAsync(async () =>
+        {
+            var target = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == targetStoreId, cancellationToken);
+
+            if (target == null)
+            {
+                return null;
+            }
+
+            var sources = await _context.Stores
+                .Where(s => sourceIds.Contains(s.Id))
+                .ToListAsync(cancellationToken);
+
+            if (sources.Count != sourceIds.Count)
+            {
+                throw new ValidationException(nameof(request.SourceStoreIds), "One or more source stores were not found");
+            }
+
+            var transactions = await _context.Transactions
+                .Where(t => sourceIds.Contains(t.StoreId))
+                .ToListAsync(cancellationToken);
+            foreach (var transaction in transactions)
+            {
+                transaction.StoreId = target.Id;
+            }
+
+            var aliases = await _context.StoreAliases
+                .Where(a => sourceIds.Contains(a.StoreId))
+                .ToListAsync(cancellationToken);
+            foreach (var alias in aliases)
+            {
+                alias.StoreId = target.Id;
+            }
+
+            _context.StoreAliases.AddRange(sources.Select(source => NewAlias(source, target.Id)));
+
+            // Alert rules watching a source would go with it
+            var rules = await _context.AlertRules
+                .Where(r => r.StoreId != null && sourceIds.Contains(r.StoreId.Value))
+                .ToListAsync(cancellationToken);
+            foreach (var rule in rules)
+            {
+                rule.StoreId = target.Id;
+            }
+
+            // Branches of a merged head store become branches of the target's group
+            if (target.ParentStoreId != null && sourceIds.Contains(target.ParentStoreId.Value))
+            {
+                target.ParentStoreId = null;
+            }
+
+            var headId = target.ParentStoreId ?? target.Id;
+            var branches = await _context.Stores
+                .Where(s => s.ParentStoreId != null && sourceIds.Contains(s.ParentStoreId.Value) && s.Id != target.Id)
+                .ToListAsync(cancellationToken);
+            foreach (var branch in branches)
+            {
+                branch.ParentStoreId = headId;
+            }
+
+            _context.Stores.RemoveRange(sources);
+
+            var names = string.Join(", ", sources.Select(Describe));
+            return Record(
+                StoreChangeActions.Merge,
+                target.Id,
+                $"Merged {names} into {Describe(target)}",
+                transactions.Count,
+                request.ChangedBy);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Change the owner and store name of a store. The old names stay as an alias, so
+    /// files written with them keep importing into this store.
+    /// </summary>
+    /// <returns>The audit record, or null when the store does not exist</returns>
+    /// <exception cref="ValidationException">Thrown when the request is invalid</exception>
+    /// <exception cref="ConflictException">Thrown when another store already has the names</exception>
+    public async Task<StoreChangeRecord?> RenameAsync(
+        Guid storeId,
+        RenameStoreRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        var ownerName = request.OwnerName.Trim();
+        var name = request.Name.Trim();
+
+        return await InTransactionAsync(async () =>
+        {
+            var store = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == storeId, cancellationToken);
+
+            if (store == null)
+            {
+                return null;
+            }
+
+            if (store.OwnerName == ownerName && store.Name == name)
+            {
+                throw new ValidationException(nameof(request.Name), "The store already has these names");
+            }
+
+            await EnsureNamesFreeAsync(ownerName, name, store.Id, cancellationToken);
+
+            var before = Describe(store);
+
+            // Taking back a name the store had before
+            var reclaimed = await _context.StoreAliases
+                .Where(a => a.StoreId == store.Id && a.OwnerName == ownerName && a.Name == name)
+                .ToListAsync(cancellationToken);
+            _context.StoreAliases.RemoveRange(reclaimed);
+            _context.StoreAliases.Add(NewAlias(store, store.Id));
+
+            store.OwnerName = ownerName;
+            store.Name = name;
+
+            return Record(
+                StoreChangeActions.Rename,
+                store.Id,
+                $"Renamed {before} to {Describe(store)}",
+                0,
+                request.ChangedBy);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Move the transactions a store got from the given files into a new store
+    /// </summary>
+    /// <returns>The audit record, or null when the store does not exist</returns>
+    /// <exception cref="ValidationException">Thrown when the request is invalid or would move none or all of the transactions</exception>
+    /// <exception cref="ConflictException">Thrown when another store already has the names</exception>
+    public async Task<StoreChangeRecord?> SplitAsync(
+        Guid storeId,
+        SplitStoreRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        var ownerName = request.OwnerName.Trim();
+        var name = request.Name.Trim();
+        var fileUploadIds = request.FileUploadIds.Distinct().ToList();
+
+        return await InTransactionAsync(async () =>
+        {
+            var store = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == storeId, cancellationToken);
+
+            if (store == null)
+            {
+                return null;
+            }
+
+            await EnsureNamesFreeAsync(ownerName, name, null, cancellationToken);
+
+            var transactions = await _context.Transactions
+                .Where(t => t.StoreId == store.Id)
+                .ToListAsync(cancellationToken);
+            var moving = transactions
+                .Where(t => fileUploadIds.Contains(t.FileUploadId))
+                .ToList();
+
+            if (moving.Count == 0)
+            {
+                throw new ValidationException(nameof(request.FileUploadIds), "The store has no transactions from these files");
+            }
+
+            if (moving.Count == transactions.Count)
+            {
+                throw new ValidationException(
+                    nameof(request.FileUploadIds),
+                    "Every transaction of the store comes from these files; rename the store instead");
+            }
+
+            var newStore = new Store
+            {
+                Id = Guid.NewGuid(),
+                OwnerName = ownerName,
+                Name = name,
+                ParentStoreId = store.ParentStoreId
+            };
+            _context.Stores.Add(newStore);
+
+            foreach (var transaction in moving)
+            {
+                transaction.StoreId = newStore.Id;
+            }
+
+            return Record(
+                StoreChangeActions.Split,
+                store.Id,
+                $"Split {Describe(newStore)} ({newStore.Id}) off {Describe(store)}",
+                moving.Count,
+                request.ChangedBy);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Group a store under a head store as a branch, or make it stand alone again
+    /// when no head store is given. Groups are one level deep.
+    /// </summary>
+    /// <returns>The audit record, or null when the store does not exist</returns>
+    /// <exception cref="ValidationException">Thrown when the request is invalid or the grouping is not possible</exception>
+    public async Task<StoreChangeRecord?> SetParentAsync(
+        Guid storeId,
+        StoreParentRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        request.Validate();
+
+        return await InTransactionAsync(async () =>
+        {
+            var store = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == storeId, cancellationToken);
+
+            if (store == null)
+            {
+                return null;
+            }
+
+            if (request.ParentStoreId == null)
+            {
+                if (store.ParentStoreId == null)
+                {
+                    throw new ValidationException(nameof(request.ParentStoreId), "The store is not a branch of another store");
+                }
+
+                var formerHead = await _context.Stores
+                    .AsNoTracking()
+                    .FirstAsync(s => s.Id == store.ParentStoreId, cancellationToken);
+                store.ParentStoreId = null;
+
+                return Record(
+                    StoreChangeActions.Ungroup,
+                    store.Id,
+                    $"Removed {Describe(store)} from the branches of {Describe(formerHead)}",
+                    0,
+                    request.ChangedBy);
+            }
+
+            if (request.ParentStoreId == store.Id)
+            {
+                throw new ValidationException(nameof(request.ParentStoreId), "A store cannot be its own head store");
+            }
+
+            var head = await _context.Stores
+                .FirstOrDefaultAsync(s => s.Id == request.ParentStoreId, cancellationToken);
+
+            if (head == null)
+            {
+                throw new ValidationException(nameof(request.ParentStoreId), "Head store not found");
+            }
+
+            if (head.ParentStoreId != null)
+            {
+                throw new ValidationException(nameof(request.ParentStoreId), "The head store is itself a branch of another store");
+            }
+
+            if (await _context.Stores.AnyAsync(s => s.ParentStoreId == store.Id, cancellationToken))
+            {
+                throw new ValidationException(nameof(request.ParentStoreId), "The store has branches of its own");
+            }
+
+            store.ParentStoreId = head.Id;
+
+            return Record(
+                StoreChangeActions.Group,
+                store.Id,
+                $"Grouped {Describe(store)} under {Describe(head)}",
+                0,
+                request.ChangedBy);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Get the audit trail, newest first, optionally only the changes of one store
+    /// </summary>
+    public async Task<List<StoreChangeRecord>> GetChangesAsync(
+        Guid? storeId = null,
+        CancellationToken cancellationToken = default)
+    {
+        var query = _context.StoreChangeAudits.AsNoTracking();
+
+        if (storeId.HasValue)
+        {
+            query = query.Where(c => c.StoreId == storeId.Value);
+        }
+
+        var changes = await query
+            .OrderByDescending(c => c.ChangedAt)
+            .ToListAsync(cancellationToken);
+
+        return changes.Select(ToRecord).ToList();
+    }
+
+    private async Task<StoreChangeRecord?> InTransactionAsync(
+        Func<Task<StoreChangeAudit?>> change,
+        CancellationToken cancellationToken)
+    {
+        using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+
+        try
+        {
+            var audit = await change();
+
+            if (audit == null)
+            {
+                return null;
+            }
+
+            _context.StoreChangeAudits.Add(audit);
+            await _context.SaveChangesAsync(cancellationToken);
+            await transaction.CommitAsync(cancellationToken);
+
+            return ToRecord(audit);
+        }
+        catch
+        {
+            await transaction.RollbackAsync(cancellationToken);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Names must identify a single store, or imports could not tell which one a line belongs to
+    /// </summary>
+    private async Task EnsureNamesFreeAsync(
+        string ownerName,
+        string name,
+        Guid? storeId,
+        CancellationToken cancellationToken)
+    {
+        var store = await _context.Stores
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.OwnerName == ownerName && s.Name == name && s.Id != storeId, cancellationToken);
+        var alias = await _context.StoreAliases
+            .AsNoTracking()
+            .Include(a => a.Store)
+            .FirstOrDefaultAsync(a => a.OwnerName == ownerName && a.Name == name && a.StoreId != storeId, cancellationToken);
+
+        var taken = store ?? alias?.Store;
+        if (taken != null)
+        {
+            throw new ConflictException(
+                $"'{name}' of {ownerName} already belongs to {Describe(taken)}; merge the stores instead");
+        }
+    }
+
+    private static StoreAlias NewAlias(Store store, Guid storeId) => new()
+    {
+        Id = Guid.NewGuid(),
+        OwnerName = store.OwnerName,
+        Name = store.Name,
+        StoreId = storeId
+    };
+
+    private static StoreChangeAudit Record(
+        string action,
+        Guid storeId,
+        string description,
+        int transactionCount,
+        string changedBy) => new()
+    {
+        Id = Guid.NewGuid(),
+        Action = action,
+        StoreId = storeId,
+        Description = description,
+        TransactionCount = transactionCount,
+        ChangedBy = changedBy.Trim(),
+        ChangedAt = DateTime.UtcNow
+    };
+
+    private static string Describe(Store store) => $"'{store.Name}' ({store.OwnerName})";
+
+    private static StoreChangeRecord ToRecord(StoreChangeAudit audit) => new()
+    {
+        Id = audit.Id,
+        Action = audit.Action,
+        StoreId = audit.StoreId,
+        Description = audit.Description,
+        TransactionCount = audit.TransactionCount,
+        ChangedBy = audit.ChangedBy,
+        ChangedAt = audit.ChangedAt
+    };
+}
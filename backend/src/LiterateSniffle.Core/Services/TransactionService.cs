@@ -1,3 +1,4 @@
+using LiterateSniffle.Core.Models;
 using LiterateSniffle.Infrastructure.Data;
 using LiterateSniffle.Infrastructure.Entities;
 using Microsoft.EntityFrameworkCore;
@@ -17,29 +18,98 @@ public class TransactionService
     }
 
     /// <summary>
-    /// Get all transactions with related data
+    /// Get all transactions with related data, CPF and card masked
     /// </summary>
     public async Task<List<Transaction>> GetAllTransactionsAsync(CancellationToken cancellationToken = default)
     {
-        return await _context.Transactions
+        var transactions = await _context.Transactions
+            .AsNoTracking()
             .Include(t => t.TransactionType)
             .Include(t => t.Store)
             .Include(t => t.FileUpload)
             .OrderByDescending(t => t.Datetime)
             .ToListAsync(cancellationToken);
+
+        foreach (var transaction in transactions)
+        {
+            transaction.Cpf = PiiMasker.MaskCpf(transaction.Cpf);
+            transaction.Card = PiiMasker.MaskCard(transaction.Card);
+        }
+
+        return transactions;
     }
 
     /// <summary>
-    /// Get transactions for a specific store
+    /// Get transactions for a specific store, optionally narrowed down by a filter,
+    /// sorted and paged. Without a page number every matching transaction is returned.
+    /// CPF and card are masked; see <see cref="RevealAsync"/>.
     /// </summary>
-    public async Task<List<Transaction>> GetTransactionsByStoreAsync(
+    public async Task<PagedResult<Transaction>> GetTransactionsByStoreAsync(
         Guid storeId,
+        TransactionFilter? filter = null,
+        TransactionPageRequest? paging = null,
+        CancellationToken cancellationToken = default)
+    {
+        paging ??= new TransactionPageRequest();
+
+        var query = ApplyFilter(_context.Transactions.AsNoTracking(), filter)
+            .Where(t => t.StoreId == storeId);
+
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var sorted = ApplySort(query, paging);
+        if (paging.Page.HasValue)
+        {
+            sorted = sorted
+                .Skip((paging.Page.Value - 1) * paging.PageSize)
+                .Take(paging.PageSize);
+        }
+
+        var items = await sorted
+            .Select(t => new Transaction
+            {
+                Id = t.Id,
+                TypeId = t.TypeId,
+                Type = t.Type,
+                Datetime = t.Datetime,
+                Value = t.Value,
+                Cpf = PiiMasker.MaskCpf(t.Cpf),
+                Card = PiiMasker.MaskCard(t.Card),
+                StoreId = t.StoreId,
+                FileUploadId = t.FileUploadId,
+                TransactionType = new TransactionType
+                {
+                    Id = t.TransactionType.Id,
+                    Code = t.TransactionType.Code,
+                    Name = t.TransactionType.Name,
+                    Nature = t.TransactionType.Nature,
+                    Description = t.TransactionType.Description,
+                    Color = t.TransactionType.Color
+                }
+            })
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<Transaction>
+        {
+            Items = items,
+            TotalCount = totalCount,
+            Page = paging.Page ?? 1,
+            PageSize = paging.Page.HasValue ? paging.PageSize : totalCount
+        };
+    }
+
+    /// <summary>
+    /// Get transactions imported from a specific uploaded file, CPF and card masked
+    /// </summary>
+    public async Task<List<Transaction>> GetTransactionsByFileAsync(
+        Guid fileUploadId,
         CancellationToken cancellationToken = default)
     {
         return await _context.Transactions
             .AsNoTracking()
             .Include(t => t.TransactionType)
-            .Where(t => t.StoreId == storeId)
+            .Include(t => t.Store)
+            .Where(t => t.FileUploadId == fileUploadId)
             .OrderByDescending(t => t.Datetime)
             .Select(t => new Transaction
             {
@@ -48,8 +118,8 @@ public class TransactionService
                 Type = t.Type,
                 Datetime = t.Datetime,
                 Value = t.Value,
-                Cpf = t.Cpf,
-                Card = t.Card,
+                Cpf = PiiMasker.MaskCpf(t.Cpf),
+                Card = PiiMasker.MaskCard(t.Card),
                 StoreId = t.StoreId,
                 FileUploadId = t.FileUploadId,
                 TransactionType = new TransactionType
@@ -58,47 +128,332 @@ public class TransactionService
                     Code = t.TransactionType.Code,
                     Name = t.TransactionType.Name,
                     Nature = t.TransactionType.Nature,
-                    Description = t.TransactionType.Description
+                    Description = t.TransactionType.Description,
+                    Color = t.TransactionType.Color
+                },
+                Store = new Store
+                {
+                    Id = t.Store.Id,
+                    OwnerName = t.Store.OwnerName,
+                    Name = t.Store.Name
                 }
             })
             .ToListAsync(cancellationToken);
     }
 
     /// <summary>
-    /// Get store summary with balance calculations
+    /// Search transactions across every store, sorted and paged; the first page when
+    /// no page is given. Results carry their store and source file; CPF and card are masked.
     /// </summary>
-    public async Task<List<StoreSummary>> GetStoreSummaryAsync(CancellationToken cancellationToken = default)
+    public async Task<PagedResult<Transaction>> SearchTransactionsAsync(
+        TransactionSearchCriteria criteria,
+        TransactionPageRequest? paging = null,
+        CancellationToken cancellationToken = default)
     {
-        var stores = await _context.Stores
-            .Include(s => s.Transactions)
-                .ThenInclude(t => t.TransactionType)
+        paging ??= new TransactionPageRequest();
+        var page = paging.Page ?? 1;
+
+        var query = ApplySearch(_context.Transactions.AsNoTracking(), criteria);
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var items = await ApplySort(query, paging)
+            .Skip((page - 1) * paging.PageSize)
+            .Take(paging.PageSize)
+            .Select(t => new Transaction
+            {
+                Id = t.Id,
+                TypeId = t.TypeId,
+                Type = t.Type,
+                Datetime = t.Datetime,
+                Value = t.Value,
+                Cpf = PiiMasker.MaskCpf(t.Cpf),
+                Card = PiiMasker.MaskCard(t.Card),
+                StoreId = t.StoreId,
+                FileUploadId = t.FileUploadId,
+                TransactionType = new TransactionType
+                {
+                    Id = t.TransactionType.Id,
+                    Code = t.TransactionType.Code,
+                    Name = t.TransactionType.Name,
+                    Nature = t.TransactionType.Nature,
+                    Description = t.TransactionType.Description,
+                    Color = t.TransactionType.Color
+                },
+                Store = new Store
+                {
+                    Id = t.Store.Id,
+                    OwnerName = t.Store.OwnerName,
+                    Name = t.Store.Name
+                },
+                FileUpload = new FileUpload
+                {
+                    Id = t.FileUpload.Id,
+                    Filename = t.FileUpload.Filename,
+                    OriginalName = t.FileUpload.OriginalName,
+                    Size = t.FileUpload.Size,
+                    Format = t.FileUpload.Format,
+                    UploadedAt = t.FileUpload.UploadedAt
+                }
+            })
             .ToListAsync(cancellationToken);
 
-        var summaries = stores.Select(store =>
+        return new PagedResult<Transaction>
         {
-            var transactions = store.Transactions.ToList();
-            var income = transactions
-                .Where(t => t.TransactionType.Nature == "Income")
-                .Sum(t => t.Value);
-            var expense = transactions
-                .Where(t => t.TransactionType.Nature == "Expense")
-                .Sum(t => t.Value);
-            var balance = income - expense;
+            Items = items,
+            TotalCount = totalCount,
+            Page = page,
+            PageSize = paging.PageSize
+        };
+    }
 
-            return new StoreSummary
-            {
-                StoreId = store.Id,
-                OwnerName = store.OwnerName,
-                StoreName = store.Name,
-                TransactionCount = transactions.Count,
-                TotalIncome = income,
-                TotalExpense = expense,
-                Balance = balance
-            };
-        }).ToList();
+    /// <summary>
+    /// Unmasked CPF and card of a transaction. Every reveal is recorded in the audit trail.
+    /// </summary>
+    /// <returns>The unmasked data, or null when the transaction does not exist</returns>
+    public async Task<PiiRevealResult?> RevealAsync(
+        Guid transactionId,
+        PiiRevealRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var transaction = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.Id == transactionId)
+            .Select(t => new PiiRevealResult { TransactionId = t.Id, Cpf = t.Cpf, Card = t.Card })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (transaction == null)
+        {
+            return null;
+        }
+
+        _context.PiiRevealAudits.Add(new PiiRevealAudit
+        {
+            Id = Guid.NewGuid(),
+            TransactionId = transactionId,
+            RevealedBy = request.RevealedBy.Trim(),
+            Role = request.Role.Trim().ToLowerInvariant(),
+            Reason = request.Reason.Trim(),
+            RevealedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return transaction;
+    }
+
+    /// <summary>
+    /// Get store summary with balance calculations. When the filter narrows down
+    /// transactions, totals only cover matching ones and stores without any are left out.
+    /// </summary>
+    public async Task<List<StoreSummary>> GetStoreSummaryAsync(
+        TransactionFilter? filter = null,
+        CancellationToken cancellationToken = default)
+    {
+        var stores = await ApplyStoreSearch(_context.Stores.AsNoTracking(), filter)
+            .ToListAsync(cancellationToken);
+
+        var transactions = await ApplyFilter(_context.Transactions.AsNoTracking(), filter)
+            .Include(t => t.TransactionType)
+            .ToListAsync(cancellationToken);
+
+        var transactionsByStore = transactions.ToLookup(t => t.StoreId);
+        var skipEmptyStores = filter?.HasTransactionCriteria == true;
+
+        var summaries = stores
+            .Select(store => Summarize(store, transactionsByStore[store.Id].ToList()))
+            .Where(summary => !skipEmptyStores || summary.TransactionCount > 0)
+            .ToList();
 
         return summaries;
     }
+
+    /// <summary>
+    /// Get the balance summary of a single store. Unlike the store list, a store
+    /// without matching transactions is still returned, with zero totals.
+    /// </summary>
+    /// <returns>The summary, or null when the store does not exist</returns>
+    public async Task<StoreSummary?> GetStoreSummaryAsync(
+        Guid storeId,
+        TransactionFilter? filter = null,
+        CancellationToken cancellationToken = default)
+    {
+        var store = await _context.Stores
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.Id == storeId, cancellationToken);
+
+        if (store == null)
+        {
+            return null;
+        }
+
+        var transactions = await ApplyFilter(_context.Transactions.AsNoTracking(), filter)
+            .Where(t => t.StoreId == storeId)
+            .Include(t => t.TransactionType)
+            .ToListAsync(cancellationToken);
+
+        return Summarize(store, transactions);
+    }
+
+    private static StoreSummary Summarize(Store store, List<Transaction> transactions)
+    {
+        var income = transactions
+            .Where(t => t.TransactionType.Nature == "Income")
+            .Sum(t => t.Value);
+        var expense = transactions
+            .Where(t => t.TransactionType.Nature == "Expense")
+            .Sum(t => t.Value);
+
+        return new StoreSummary
+        {
+            StoreId = store.Id,
+            OwnerName = store.OwnerName,
+            StoreName = store.Name,
+            ParentStoreId = store.ParentStoreId,
+            TransactionCount = transactions.Count,
+            TotalIncome = income,
+            TotalExpense = expense,
+            Balance = income - expense
+        };
+    }
+
+    private static IQueryable<Transaction> ApplyFilter(IQueryable<Transaction> query, TransactionFilter? filter)
+    {
+        if (filter == null)
+        {
+            return query;
+        }
+
+        if (filter.From.HasValue)
+        {
+            var from = filter.From.Value.Date;
+            query = query.Where(t => t.Datetime >= from);
+        }
+
+        if (filter.To.HasValue)
+        {
+            // Inclusive: everything before the start of the next day
+            var to = filter.To.Value.Date.AddDays(1);
+            query = query.Where(t => t.Datetime < to);
+        }
+
+        if (filter.Types.Count > 0)
+        {
+            var types = filter.Types;
+            query = query.Where(t => types.Contains(t.TransactionType.Code));
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.Nature))
+        {
+            var nature = TransactionFilter.Natures
+                .FirstOrDefault(n => n.Equals(filter.Nature, StringComparison.OrdinalIgnoreCase)) ?? filter.Nature;
+            query = query.Where(t => t.TransactionType.Nature == nature);
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            var search = filter.Search.Trim().ToUpper();
+            query = query.Where(t => t.Store.Name.ToUpper().Contains(search) || t.Store.OwnerName.ToUpper().Contains(search));
+        }
+
+        return query;
+    }
+
+    private static IQueryable<Transaction> ApplySearch(IQueryable<Transaction> query, TransactionSearchCriteria criteria)
+    {
+        var cpf = criteria.CpfDigits;
+        if (cpf != null)
+        {
+            query = query.Where(t => t.Cpf == cpf);
+        }
+
+        if (!string.IsNullOrWhiteSpace(criteria.Card))
+        {
+            var card = criteria.Card.Trim();
+            query = query.Where(t => t.Card.Contains(card));
+        }
+
+        if (!string.IsNullOrWhiteSpace(criteria.Owner))
+        {
+            var owner = criteria.Owner.Trim().ToUpper();
+            query = query.Where(t => t.Store.OwnerName.ToUpper().Contains(owner));
+        }
+
+        if (!string.IsNullOrWhiteSpace(criteria.Store))
+        {
+            var store = criteria.Store.Trim().ToUpper();
+            query = query.Where(t => t.Store.Name.ToUpper().Contains(store));
+        }
+
+        if (criteria.MinValue.HasValue)
+        {
+            var minValue = criteria.MinValue.Value;
+            query = query.Where(t => t.Value >= minValue);
+        }
+
+        if (criteria.MaxValue.HasValue)
+        {
+            var maxValue = criteria.MaxValue.Value;
+            query = query.Where(t => t.Value <= maxValue);
+        }
+
+        if (criteria.From.HasValue)
+        {
+            var from = criteria.From.Value.Date;
+            query = query.Where(t => t.Datetime >= from);
+        }
+
+        if (criteria.To.HasValue)
+        {
+            // Inclusive: everything before the start of the next day
+            var to = criteria.To.Value.Date.AddDays(1);
+            query = query.Where(t => t.Datetime < to);
+        }
+
+        return query;
+    }
+
+    private static IQueryable<Transaction> ApplySort(IQueryable<Transaction> query, TransactionPageRequest paging)
+    {
+        var descending = paging.IsDescending;
+
+        // Id is the final tie-breaker so pages don't overlap between requests
+        var ordered = paging.SortBy.ToLowerInvariant() switch
+        {
+            "time" => descending
+                ? query.OrderByDescending(t => t.Datetime.Hour)
+                    .ThenByDescending(t => t.Datetime.Minute)
+                    .ThenByDescending(t => t.Datetime.Second)
+                : query.OrderBy(t => t.Datetime.Hour)
+                    .ThenBy(t => t.Datetime.Minute)
+                    .ThenBy(t => t.Datetime.Second),
+            "type" => descending
+                ? query.OrderByDescending(t => t.TransactionType.Code)
+                : query.OrderBy(t => t.TransactionType.Code),
+            "value" => descending
+                ? query.OrderByDescending(t => t.Value)
+                : query.OrderBy(t => t.Value),
+            "nature" => descending
+                ? query.OrderByDescending(t => t.TransactionType.Nature)
+                : query.OrderBy(t => t.TransactionType.Nature),
+            _ => descending
+                ? query.OrderByDescending(t => t.Datetime)
+                : query.OrderBy(t => t.Datetime)
+        };
+
+        return descending
+            ? ordered.ThenByDescending(t => t.Datetime).ThenBy(t => t.Id)
+            : ordered.ThenBy(t => t.Datetime).ThenBy(t => t.Id);
+    }
+
+    private static IQueryable<Store> ApplyStoreSearch(IQueryable<Store> query, TransactionFilter? filter)
+    {
+        if (string.IsNullOrWhiteSpace(filter?.Search))
+        {
+            return query;
+        }
+
+        var search = filter.Search.Trim().ToUpper();
+        return query.Where(s => s.Name.ToUpper().Contains(search) || s.OwnerName.ToUpper().Contains(search));
+    }
 }
 
 /// <summary>
@@ -109,6 +464,12 @@ public class StoreSummary
     public Guid StoreId { get; set; }
     public string OwnerName { get; set; } = string.Empty;
     public string StoreName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Head store this store is grouped under as a branch, if any
+    /// </summary>
+    public Guid? ParentStoreId { get; set; }
+
     public int TransactionCount { get; set; }
     public decimal TotalIncome { get; set; }
     public decimal TotalExpense { get; set; }
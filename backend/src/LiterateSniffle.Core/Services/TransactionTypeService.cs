@@ -0,0 +1,77 @@
+using LiterateSniffle.Core.Exceptions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Infrastructure.Data;
+using LiterateSniffle.Infrastructure.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace LiterateSniffle.Core.Services;
+
+/// <summary>
+/// Service for the catalog that maps CNAB type codes to a name and nature
+/// </summary>
+public class TransactionTypeService
+{
+    private readonly ApplicationDbContext _context;
+
+    public TransactionTypeService(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// Every type in the catalog, ordered by code
+    /// </summary>
+    public async Task<List<TransactionType>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await _context.TransactionTypes
+            .AsNoTracking()
+            .OrderBy(t => t.Code)
+            .ToListAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Catalog entries by code
+    /// </summary>
+    public async Task<Dictionary<int, TransactionType>> GetByCodeAsync(CancellationToken cancellationToken = default)
+    {
+        return await _context.TransactionTypes
+            .AsNoTracking()
+            .ToDictionaryAsync(t => t.Code, cancellationToken);
+    }
+
+    /// <summary>
+    /// Update the type of a code, or add it when the catalog has none. Stored
+    /// transactions refer to the type, so balances follow a change of nature.
+    /// </summary>
+    /// <returns>The saved type and whether it was added</returns>
+    /// <exception cref="ValidationException">Thrown when the code or a value is invalid</exception>
+    public async Task<(TransactionType Type, bool Created)> SaveAsync(
+        int code,
+        TransactionTypeRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        if (!TransactionTypeRequest.IsValidCode(code))
+        {
+            throw new ValidationException("Code",
+                $"Invalid transaction type code: {code}. Must be between {TransactionTypeRequest.MinCode} and {TransactionTypeRequest.MaxCode}");
+        }
+
+        request.Validate();
+
+        var type = await _context.TransactionTypes.FirstOrDefaultAsync(t => t.Code == code, cancellationToken);
+        var created = type == null;
+        if (type == null)
+        {
+            type = new TransactionType { Id = Guid.NewGuid(), Code = code };
+            _context.TransactionTypes.Add(type);
+        }
+
+        type.Name = request.Name.Trim();
+        type.Nature = TransactionFilter.Natures.First(n => n.Equals(request.Nature, StringComparison.OrdinalIgnoreCase));
+        type.Description = string.IsNullOrWhiteSpace(request.Description) ? null : request.Description.Trim();
+        type.Color = string.IsNullOrWhiteSpace(request.Color) ? null : request.Color.Trim().ToLowerInvariant();
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return (type, created);
+    }
+}
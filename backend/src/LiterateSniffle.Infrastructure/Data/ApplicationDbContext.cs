@@ -15,6 +15,11 @@ public class ApplicationDbContext : DbContext
     public DbSet<TransactionType> TransactionTypes => Set<TransactionType>();
     public DbSet<Store> Stores => Set<Store>();
     public DbSet<FileUpload> FileUploads => Set<FileUpload>();
+    public DbSet<PiiRevealAudit> PiiRevealAudits => Set<PiiRevealAudit>();
+    public DbSet<StoreAlias> StoreAliases => Set<StoreAlias>();
+    public DbSet<StoreChangeAudit> StoreChangeAudits => Set<StoreChangeAudit>();
+    public DbSet<AlertRule> AlertRules => Set<AlertRule>();
+    public DbSet<AlertNotification> AlertNotifications => Set<AlertNotification>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -25,86 +30,107 @@ public class ApplicationDbContext : DbContext
         modelBuilder.ApplyConfiguration(new TransactionTypeConfiguration());
         modelBuilder.ApplyConfiguration(new StoreConfiguration());
         modelBuilder.ApplyConfiguration(new FileUploadConfiguration());
+        modelBuilder.ApplyConfiguration(new PiiRevealAuditConfiguration());
+        modelBuilder.ApplyConfiguration(new StoreAliasConfiguration());
+        modelBuilder.ApplyConfiguration(new StoreChangeAuditConfiguration());
+        modelBuilder.ApplyConfiguration(new AlertRuleConfiguration());
+        modelBuilder.ApplyConfiguration(new AlertNotificationConfiguration());
 
         // Seed transaction types
         SeedTransactionTypes(modelBuilder);
     }
 
+    // Badge colours of the seeded types, matching the Income and Expense colours of the UI
+    private const string IncomeColor = "#28a745";
+    private const string ExpenseColor = "#dc3545";
+
+    /// <summary>
+    /// Default catalog. The ids are fixed so imports and tests can refer to them by code.
+    /// </summary>
     private static void SeedTransactionTypes(ModelBuilder modelBuilder)
     {
         var transactionTypes = new[]
         {
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("11111111-1111-1111-1111-111111111111"),
                 Code = 1,
                 Name = "Debit",
                 Nature = "Income",
-                Description = "Debit transaction"
+                Description = "Debit transaction",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("22222222-2222-2222-2222-222222222222"),
                 Code = 2,
                 Name = "Boleto",
                 Nature = "Expense",
-                Description = "Boleto payment"
+                Description = "Boleto payment",
+                Color = ExpenseColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("33333333-3333-3333-3333-333333333333"),
                 Code = 3,
                 Name = "Financing",
                 Nature = "Expense",
-                Description = "Financing payment"
+                Description = "Financing payment",
+                Color = ExpenseColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("44444444-4444-4444-4444-444444444444"),
                 Code = 4,
                 Name = "Credit",
                 Nature = "Income",
-                Description = "Credit transaction"
+                Description = "Credit transaction",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("55555555-5555-5555-5555-555555555555"),
                 Code = 5,
                 Name = "Loan Receipt",
                 Nature = "Income",
-                Description = "Loan receipt"
+                Description = "Loan receipt",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("66666666-6666-6666-6666-666666666666"),
                 Code = 6,
                 Name = "Sales",
                 Nature = "Income",
-                Description = "Sales transaction"
+                Description = "Sales transaction",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("77777777-7777-7777-7777-777777777777"),
                 Code = 7,
                 Name = "TED Receipt",
                 Nature = "Income",
-                Description = "TED receipt"
+                Description = "TED receipt",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("88888888-8888-8888-8888-888888888888"),
                 Code = 8,
                 Name = "DOC Receipt",
                 Nature = "Income",
-                Description = "DOC receipt"
+                Description = "DOC receipt",
+                Color = IncomeColor
             },
             new TransactionType
             {
-                Id = Guid.NewGuid(),
+                Id = Guid.Parse("99999999-9999-9999-9999-999999999999"),
                 Code = 9,
                 Name = "Rent",
                 Nature = "Expense",
-                Description = "Rent payment"
+                Description = "Rent payment",
+                Color = ExpenseColor
             }
         };
 
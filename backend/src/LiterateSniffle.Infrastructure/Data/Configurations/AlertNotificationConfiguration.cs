@@ -0,0 +1,48 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using LiterateSniffle.Infrastructure.Entities;
+
+namespace LiterateSniffle.Infrastructure.Data.Configurations;
+
+public class AlertNotificationConfiguration : IEntityTypeConfiguration<AlertNotification>
+{
+    public void Configure(EntityTypeBuilder<AlertNotification> builder)
+    {
+        builder.ToTable("AlertNotification");
+        
+        builder.HasKey(n => n.Id);
+        
+        builder.Property(n => n.Id)
+            .ValueGeneratedOnAdd();
+        
+        builder.HasIndex(n => n.TriggeredAt);
+        
+        builder.Property(n => n.RuleName)
+            .IsRequired()
+            .HasMaxLength(100);
+        
+        builder.Property(n => n.Kind)
+            .IsRequired()
+            .HasMaxLength(30);
+        
+        builder.Property(n => n.StoreName)
+            .HasMaxLength(200);
+        
+        builder.Property(n => n.Message)
+            .IsRequired()
+            .HasMaxLength(1000);
+        
+        builder.Property(n => n.Value)
+            .HasColumnType("decimal(18,2)");
+        
+        builder.Property(n => n.Threshold)
+            .HasColumnType("decimal(18,2)");
+        
+        builder.Property(n => n.TriggeredAt)
+            .IsRequired()
+            .HasColumnType("datetime");
+        
+        builder.Property(n => n.ReadAt)
+            .HasColumnType("datetime");
+    }
+}
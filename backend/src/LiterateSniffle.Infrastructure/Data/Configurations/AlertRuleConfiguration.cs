@@ -0,0 +1,39 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using LiterateSniffle.Infrastructure.Entities;
+
+namespace LiterateSniffle.Infrastructure.Data.Configurations;
+
+public class AlertRuleConfiguration : IEntityTypeConfiguration<AlertRule>
+{
+    public void Configure(EntityTypeBuilder<AlertRule> builder)
+    {
+        builder.ToTable("AlertRule");
+        
+        builder.HasKey(r => r.Id);
+        
+        builder.Property(r => r.Id)
+            .ValueGeneratedOnAdd();
+        
+        builder.Property(r => r.Name)
+            .IsRequired()
+            .HasMaxLength(100);
+        
+        builder.Property(r => r.Kind)
+            .IsRequired()
+            .HasMaxLength(30);
+        
+        builder.Property(r => r.Threshold)
+            .HasColumnType("decimal(18,2)");
+        
+        builder.Property(r => r.CreatedAt)
+            .IsRequired()
+            .HasColumnType("datetime");
+        
+        // A rule watching a store goes away with it
+        builder.HasOne(r => r.Store)
+            .WithMany()
+            .HasForeignKey(r => r.StoreId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
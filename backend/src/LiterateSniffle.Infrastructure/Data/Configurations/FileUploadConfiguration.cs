@@ -30,9 +30,21 @@ public class FileUploadConfiguration : IEntityTypeConfiguration<FileUpload>
             .IsRequired()
             .HasMaxLength(50);
         
+        builder.Property(f => f.ContentHash)
+            .IsRequired()
+            .HasMaxLength(64);
+        
+        builder.HasIndex(f => f.ContentHash);
+        
         builder.Property(f => f.UploadedAt)
             .IsRequired()
             .HasColumnType("datetime")
             .HasDefaultValueSql("CURRENT_TIMESTAMP");
+        
+        builder.Property(f => f.RevertedAt)
+            .HasColumnType("datetime");
+        
+        builder.Property(f => f.RevertedBy)
+            .HasMaxLength(100);
     }
 }
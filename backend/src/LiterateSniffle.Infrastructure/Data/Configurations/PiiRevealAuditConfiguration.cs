@@ -0,0 +1,36 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using LiterateSniffle.Infrastructure.Entities;
+
+namespace LiterateSniffle.Infrastructure.Data.Configurations;
+
+public class PiiRevealAuditConfiguration : IEntityTypeConfiguration<PiiRevealAudit>
+{
+    public void Configure(EntityTypeBuilder<PiiRevealAudit> builder)
+    {
+        builder.ToTable("PiiRevealAudit");
+        
+        builder.HasKey(a => a.Id);
+        
+        builder.Property(a => a.Id)
+            .ValueGeneratedOnAdd();
+        
+        builder.HasIndex(a => a.TransactionId);
+        
+        builder.Property(a => a.RevealedBy)
+            .IsRequired()
+            .HasMaxLength(100);
+        
+        builder.Property(a => a.Role)
+            .IsRequired()
+            .HasMaxLength(50);
+        
+        builder.Property(a => a.Reason)
+            .IsRequired()
+            .HasMaxLength(500);
+        
+        builder.Property(a => a.RevealedAt)
+            .IsRequired()
+            .HasColumnType("datetime");
+    }
+}
@@ -0,0 +1,35 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using LiterateSniffle.Infrastructure.Entities;
+
+namespace LiterateSniffle.Infrastructure.Data.Configurations;
+
+public class StoreAliasConfiguration : IEntityTypeConfiguration<StoreAlias>
+{
+    public void Configure(EntityTypeBuilder<StoreAlias> builder)
+    {
+        builder.ToTable("StoreAlias");
+        
+        builder.HasKey(a => a.Id);
+        
+        builder.Property(a => a.Id)
+            .ValueGeneratedOnAdd();
+        
+        builder.Property(a => a.OwnerName)
+            .IsRequired()
+            .HasMaxLength(200);
+        
+        builder.Property(a => a.Name)
+            .IsRequired()
+            .HasMaxLength(200);
+        
+        builder.HasIndex(a => new { a.OwnerName, a.Name })
+            .IsUnique();
+        
+        // Relationships
+        builder.HasOne(a => a.Store)
+            .WithMany(s => s.Aliases)
+            .HasForeignKey(a => a.StoreId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
@@ -0,0 +1,36 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using LiterateSniffle.Infrastructure.Entities;
+
+namespace LiterateSniffle.Infrastructure.Data.Configurations;
+
+public class StoreChangeAuditConfiguration : IEntityTypeConfiguration<StoreChangeAudit>
+{
+    public void Configure(EntityTypeBuilder<StoreChangeAudit> builder)
+    {
+        builder.ToTable("StoreChangeAudit");
+        
+        builder.HasKey(a => a.Id);
+        
+        builder.Property(a => a.Id)
+            .ValueGeneratedOnAdd();
+        
+        builder.HasIndex(a => a.StoreId);
+        
+        builder.Property(a => a.Action)
+            .IsRequired()
+            .HasMaxLength(20);
+        
+        builder.Property(a => a.Description)
+            .IsRequired()
+            .HasMaxLength(1000);
+        
+        builder.Property(a => a.ChangedBy)
+            .IsRequired()
+            .HasMaxLength(100);
+        
+        builder.Property(a => a.ChangedAt)
+            .IsRequired()
+            .HasColumnType("datetime");
+    }
+}
@@ -25,5 +25,11 @@ public class StoreConfiguration : IEntityTypeConfiguration<Store>
         
         builder.HasIndex(s => new { s.OwnerName, s.Name })
             .IsUnique();
+        
+        // Relationships
+        builder.HasOne(s => s.ParentStore)
+            .WithMany(s => s.Branches)
+            .HasForeignKey(s => s.ParentStoreId)
+            .OnDelete(DeleteBehavior.SetNull);
     }
 }
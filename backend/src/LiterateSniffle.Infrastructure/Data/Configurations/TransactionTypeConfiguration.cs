@@ -31,5 +31,8 @@ public class TransactionTypeConfiguration : IEntityTypeConfiguration<Transaction
         
         builder.Property(t => t.Description)
             .HasMaxLength(500);
+
+        builder.Property(t => t.Color)
+            .HasMaxLength(7);
     }
 }
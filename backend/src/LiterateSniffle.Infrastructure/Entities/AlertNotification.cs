@@ -0,0 +1,56 @@
+namespace LiterateSniffle.Infrastructure.Entities;
+
+/// <summary>
+/// An alert rule that fired. Rule, store and file are copied rather than linked,
+/// so the notification outlives them.
+/// </summary>
+public class AlertNotification
+{
+    public Guid Id { get; set; }
+    
+    public Guid RuleId { get; set; }
+    
+    public string RuleName { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Kind of the rule that fired
+    /// </summary>
+    public string Kind { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Store the alert is about, if any
+    /// </summary>
+    public Guid? StoreId { get; set; }
+    
+    public string? StoreName { get; set; }
+    
+    /// <summary>
+    /// Import that raised the alert; null when the import was rejected
+    /// </summary>
+    public Guid? FileUploadId { get; set; }
+    
+    /// <summary>
+    /// What happened, e.g. the balance and the threshold it went below
+    /// </summary>
+    public string Message { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// The balance, transaction value or daily volume that crossed the threshold
+    /// </summary>
+    public decimal? Value { get; set; }
+    
+    /// <summary>
+    /// Threshold of the rule when it fired
+    /// </summary>
+    public decimal? Threshold { get; set; }
+    
+    /// <summary>
+    /// When the rule fired
+    /// </summary>
+    public DateTime TriggeredAt { get; set; }
+    
+    /// <summary>
+    /// When the notification was marked as read; null while unread
+    /// </summary>
+    public DateTime? ReadAt { get; set; }
+}
@@ -0,0 +1,43 @@
+namespace LiterateSniffle.Infrastructure.Entities;
+
+/// <summary>
+/// User-defined condition checked after every import
+/// </summary>
+public class AlertRule
+{
+    public Guid Id { get; set; }
+    
+    /// <summary>
+    /// Name shown with the notifications the rule raises
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// balance-below, transaction-above, daily-volume or unknown-type
+    /// </summary>
+    public string Kind { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Balance or transaction value in reais, or the multiple of the trailing
+    /// daily average for daily-volume; unused by unknown-type
+    /// </summary>
+    public decimal? Threshold { get; set; }
+    
+    /// <summary>
+    /// Store the rule watches; null watches every store
+    /// </summary>
+    public Guid? StoreId { get; set; }
+    
+    /// <summary>
+    /// Disabled rules are kept but not checked
+    /// </summary>
+    public bool Enabled { get; set; } = true;
+    
+    /// <summary>
+    /// Creation timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+    
+    // Navigation properties
+    public Store? Store { get; set; }
+}
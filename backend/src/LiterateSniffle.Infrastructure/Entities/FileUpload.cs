@@ -27,11 +27,32 @@ public class FileUpload
     /// </summary>
     public string Format { get; set; } = string.Empty;
     
+    /// <summary>
+    /// Hex-encoded SHA-256 of the raw file content, used to spot re-uploads.
+    /// Empty for files uploaded before hashes were recorded.
+    /// </summary>
+    public string ContentHash { get; set; } = string.Empty;
+    
     /// <summary>
     /// Upload timestamp
     /// </summary>
     public DateTime UploadedAt { get; set; }
     
+    /// <summary>
+    /// When the import was reverted; null while its transactions are in place
+    /// </summary>
+    public DateTime? RevertedAt { get; set; }
+    
+    /// <summary>
+    /// Who reverted the import
+    /// </summary>
+    public string? RevertedBy { get; set; }
+    
+    /// <summary>
+    /// Number of transactions deleted by the revert
+    /// </summary>
+    public int? RevertedTransactionCount { get; set; }
+    
     // Navigation properties
     public ICollection<Transaction> Transactions { get; set; } = new List<Transaction>();
 }
@@ -0,0 +1,35 @@
+namespace LiterateSniffle.Infrastructure.Entities;
+
+/// <summary>
+/// Record of someone revealing the unmasked CPF and card of a transaction
+/// </summary>
+public class PiiRevealAudit
+{
+    public Guid Id { get; set; }
+    
+    /// <summary>
+    /// Transaction whose data was revealed. Not a foreign key, so the record
+    /// outlives the transaction when its import is reverted.
+    /// </summary>
+    public Guid TransactionId { get; set; }
+    
+    /// <summary>
+    /// Who revealed the data
+    /// </summary>
+    public string RevealedBy { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Role the data was revealed under
+    /// </summary>
+    public string Role { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Why the data was needed
+    /// </summary>
+    public string Reason { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Reveal timestamp
+    /// </summary>
+    public DateTime RevealedAt { get; set; }
+}
@@ -17,6 +17,15 @@ public class Store
     /// </summary>
     public string Name { get; set; } = string.Empty;
     
+    /// <summary>
+    /// Head store this one is a branch of, e.g. the MATRIZ of a FILIAL; null for
+    /// stand-alone and head stores. Branches roll up into their head's balance.
+    /// </summary>
+    public Guid? ParentStoreId { get; set; }
+    
     // Navigation properties
+    public Store? ParentStore { get; set; }
+    public ICollection<Store> Branches { get; set; } = new List<Store>();
+    public ICollection<StoreAlias> Aliases { get; set; } = new List<StoreAlias>();
     public ICollection<Transaction> Transactions { get; set; } = new List<Transaction>();
 }
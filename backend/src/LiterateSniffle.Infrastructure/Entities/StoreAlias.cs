@@ -0,0 +1,28 @@
+namespace LiterateSniffle.Infrastructure.Entities;
+
+/// <summary>
+/// Owner and store name, as written in CNAB files, of a store that was merged into
+/// or renamed to another one. Imports file transactions with these names under that store.
+/// </summary>
+public class StoreAlias
+{
+    public Guid Id { get; set; }
+    
+    /// <summary>
+    /// Owner's name as it appears in the files
+    /// </summary>
+    public string OwnerName { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Store name as it appears in the files
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Store the names now belong to
+    /// </summary>
+    public Guid StoreId { get; set; }
+    
+    // Navigation properties
+    public Store Store { get; set; } = null!;
+}
@@ -0,0 +1,40 @@
+namespace LiterateSniffle.Infrastructure.Entities;
+
+/// <summary>
+/// Record of a store being merged, renamed, split or grouped under a head store
+/// </summary>
+public class StoreChangeAudit
+{
+    public Guid Id { get; set; }
+    
+    /// <summary>
+    /// merge, rename, split, group or ungroup
+    /// </summary>
+    public string Action { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Store that was changed or that received the transactions. Not a foreign key,
+    /// so the record outlives the store when it is merged away or reverted.
+    /// </summary>
+    public Guid StoreId { get; set; }
+    
+    /// <summary>
+    /// What changed, e.g. the names before and after
+    /// </summary>
+    public string Description { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Transactions moved to another store by the change
+    /// </summary>
+    public int TransactionCount { get; set; }
+    
+    /// <summary>
+    /// Who made the change
+    /// </summary>
+    public string ChangedBy { get; set; } = string.Empty;
+    
+    /// <summary>
+    /// Change timestamp
+    /// </summary>
+    public DateTime ChangedAt { get; set; }
+}
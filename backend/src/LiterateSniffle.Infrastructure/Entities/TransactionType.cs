@@ -8,7 +8,7 @@ public class TransactionType
     public Guid Id { get; set; }
     
     /// <summary>
-    /// CNAB type code (1-9)
+    /// CNAB type code (0-9)
     /// </summary>
     public int Code { get; set; }
     
@@ -26,6 +26,11 @@ public class TransactionType
     /// Optional detailed description
     /// </summary>
     public string? Description { get; set; }
+
+    /// <summary>
+    /// Optional badge colour (#RRGGBB)
+    /// </summary>
+    public string? Color { get; set; }
     
     // Navigation properties
     public ICollection<Transaction> Transactions { get; set; } = new List<Transaction>();
@@ -0,0 +1,267 @@
+using System.Collections.Concurrent;
+using System.Net;
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using FluentAssertions;
+using LiterateSniffle.API.Alerts;
+using LiterateSniffle.Core.Services;
+using LiterateSniffle.Infrastructure.Data;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Xunit;
+
+namespace LiterateSniffle.API.Tests.Controllers;
+
+public class AlertsControllerTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private const string WebhookUrl = "http://alerts.test/hook";
+
+    private readonly HttpClient _client;
+    private readonly WebApplicationFactory<Program> _factory;
+    private readonly RecordingReceiver _receiver = new();
+
+    public AlertsControllerTests(WebApplicationFactory<Program> factory)
+    {
+        _factory = factory.WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("Auth:Disabled", "true");
+            builder.UseSetting("Alerts:WebhookUrl", WebhookUrl);
+            builder.ConfigureServices(services =>
+            {
+                var descriptor = services.SingleOrDefault(
+                    d => d.ServiceType == typeof(DbContextOptions<ApplicationDbContext>));
+
+                if (descriptor != null)
+                {
+                    services.Remove(descriptor);
+                }
+
+                // Rules fire on every import, so they get a database of their own
+                services.AddDbContext<ApplicationDbContext>(options =>
+                {
+                    options.UseInMemoryDatabase("TestDatabase_Alerts")
+                        .ConfigureWarnings(warnings => warnings.Ignore(Microsoft.EntityFrameworkCore.Diagnostics.InMemoryEventId.TransactionIgnoredWarning));
+                });
+
+                var sp = services.BuildServiceProvider();
+                using var scope = sp.CreateScope();
+                var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+                db.Database.EnsureCreated();
+            });
+            builder.ConfigureTestServices(services =>
+            {
+                // Stand in for the webhook receiver: requests are recorded instead of sent
+                services.AddHttpClient<IAlertWebhook, HttpAlertWebhook>()
+                    .ConfigurePrimaryHttpMessageHandler(() => _receiver);
+            });
+        });
+
+        _client = _factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task BalanceBelow_AfterImport_NotifiesAndCallsTheWebhook()
+    {
+        // Arrange
+        await UploadAsync("balance-1.cnab", CnabLine(1, "20230101", 10000, "080000", "ALERT OWNER", "ALERT BALANCE"));
+        await CreateRuleAsync(new { name = "Balance watch", kind = "balance-below", threshold = 0m, storeId = await StoreIdAsync("ALERT BALANCE") });
+
+        // Act
+        await UploadAsync("balance-2.cnab", CnabLine(2, "20230102", 15000, "080000", "ALERT OWNER", "ALERT BALANCE"));
+
+        // Assert
+        var notification = (await NotificationsAsync()).Single(n => n.GetProperty("ruleName").GetString() == "Balance watch");
+        notification.GetProperty("kind").GetString().Should().Be("balance-below");
+        notification.GetProperty("storeName").GetString().Should().Be("ALERT BALANCE");
+        notification.GetProperty("value").GetDecimal().Should().Be(-50.00m);
+        notification.GetProperty("message").GetString().Should().Be("Balance of -50.00 is below 0.00");
+
+        var request = _receiver.Requests.Should().ContainSingle(r => r.Body.Contains("Balance watch")).Subject;
+        request.Url.Should().Be(WebhookUrl);
+        var payload = JsonDocument.Parse(request.Body).RootElement;
+        payload.GetProperty("notifications")[0].GetProperty("storeName").GetString().Should().Be("ALERT BALANCE");
+    }
+
+    [Fact]
+    public async Task TransactionAbove_NotifiesOncePerLargeTransaction()
+    {
+        // Arrange
+        await UploadAsync("large-1.cnab", CnabLine(1, "20230201", 100, "080000", "ALERT OWNER", "ALERT LARGE"));
+        await CreateRuleAsync(new { name = "Large payments", kind = "transaction-above", threshold = 1000m, storeId = await StoreIdAsync("ALERT LARGE") });
+
+        // Act
+        await UploadAsync("large-2.cnab",
+            CnabLine(1, "20230202", 150000, "080000", "ALERT OWNER", "ALERT LARGE"),
+            CnabLine(1, "20230202", 90000, "090000", "ALERT OWNER", "ALERT LARGE"),
+            CnabLine(2, "20230203", 200000, "080000", "ALERT OWNER", "ALERT LARGE"));
+
+        // Assert
+        var values = (await NotificationsAsync())
+            .Where(n => n.GetProperty("ruleName").GetString() == "Large payments")
+            .Select(n => n.GetProperty("value").GetDecimal());
+        values.Should().BeEquivalentTo(new[] { 1500.00m, 2000.00m });
+    }
+
+    [Fact]
+    public async Task DailyVolume_AboveTrailingAverage_Notifies()
+    {
+        // Arrange
+        await UploadAsync("volume-1.cnab",
+            CnabLine(1, "20230301", 10000, "080000", "ALERT OWNER", "ALERT VOLUME"),
+            CnabLine(1, "20230302", 10000, "080000", "ALERT OWNER", "ALERT VOLUME"),
+            CnabLine(1, "20230303", 10000, "080000", "ALERT OWNER", "ALERT VOLUME"));
+        await CreateRuleAsync(new { name = "Busy day", kind = "daily-volume", threshold = 3m, storeId = await StoreIdAsync("ALERT VOLUME") });
+
+        // Act
+        await UploadAsync("volume-2.cnab", CnabLine(1, "20230304", 20000, "080000", "ALERT OWNER", "ALERT VOLUME"));
+        await UploadAsync("volume-3.cnab", CnabLine(1, "20230305", 50000, "080000", "ALERT OWNER", "ALERT VOLUME"));
+
+        // Assert
+        var notification = (await NotificationsAsync()).Single(n => n.GetProperty("ruleName").GetString() == "Busy day");
+        notification.GetProperty("value").GetDecimal().Should().Be(500.00m);
+        notification.GetProperty("message").GetString().Should().Contain("2023-03-05");
+    }
+
+    [Fact]
+    public async Task UnknownType_RejectedImport_Notifies()
+    {
+        // Arrange
+        await CreateRuleAsync(new { name = "Catalog gaps", kind = "unknown-type" });
+
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(Encoding.UTF8.GetBytes(CnabLine(0, "20230401", 1000, "080000", "ALERT OWNER", "ALERT UNKNOWN")));
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", "unknown.cnab");
+
+        // Act
+        var response = await _client.PostAsync("/api/upload", content);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var notification = (await NotificationsAsync()).Single(n => n.GetProperty("ruleName").GetString() == "Catalog gaps");
+        notification.GetProperty("message").GetString().Should().Be("'unknown.cnab' was rejected for unknown transaction type code(s): 0");
+        notification.TryGetProperty("storeId", out _).Should().BeFalse();
+        _receiver.Requests.Should().Contain(r => r.Body.Contains("Catalog gaps"));
+    }
+
+    [Fact]
+    public async Task MarkRead_RemovesNotificationsFromTheUnreadList()
+    {
+        // Arrange
+        await UploadAsync("read-1.cnab", CnabLine(1, "20230501", 100, "080000", "ALERT OWNER", "ALERT READ"));
+        await CreateRuleAsync(new { name = "Read watch", kind = "transaction-above", threshold = 10m, storeId = await StoreIdAsync("ALERT READ") });
+        await UploadAsync("read-2.cnab",
+            CnabLine(1, "20230502", 5000, "080000", "ALERT OWNER", "ALERT READ"),
+            CnabLine(1, "20230502", 6000, "090000", "ALERT OWNER", "ALERT READ"));
+        var ids = (await NotificationsAsync())
+            .Where(n => n.GetProperty("ruleName").GetString() == "Read watch")
+            .Select(n => n.GetProperty("id").GetString())
+            .ToList();
+
+        // Act
+        var one = await _client.PostAsync($"/api/alerts/notifications/{ids[0]}/read", null);
+        var unread = await NotificationsAsync(unreadOnly: true);
+        var all = await _client.PostAsync("/api/alerts/notifications/read-all", null);
+
+        // Assert
+        one.StatusCode.Should().Be(HttpStatusCode.OK);
+        unread.Select(n => n.GetProperty("id").GetString()).Should().NotContain(ids[0]).And.Contain(ids[1]);
+        all.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await _client.GetStringAsync("/api/alerts/notifications?unreadOnly=true")).RootElement;
+        json.GetProperty("notifications").GetArrayLength().Should().Be(0);
+        json.GetProperty("unreadCount").GetInt32().Should().Be(0);
+    }
+
+    [Fact]
+    public async Task CreateRule_WithoutThreshold_ReturnsBadRequest()
+    {
+        // Act
+        var response = await _client.PostAsync("/api/alerts/rules", JsonBody(new { name = "No threshold", kind = "balance-below" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task UpdateAndDeleteRule_ChangesTheRuleList()
+    {
+        // Arrange
+        var rule = await CreateRuleAsync(new { name = "Temporary", kind = "transaction-above", threshold = 5000m });
+        var id = rule.GetProperty("id").GetString();
+
+        // Act
+        var update = await _client.PutAsync($"/api/alerts/rules/{id}",
+            JsonBody(new { name = "Temporary", kind = "transaction-above", threshold = 9000m, enabled = false }));
+        var delete = await _client.DeleteAsync($"/api/alerts/rules/{id}");
+
+        // Assert
+        update.StatusCode.Should().Be(HttpStatusCode.OK);
+        var updated = JsonDocument.Parse(await update.Content.ReadAsStringAsync()).RootElement;
+        updated.GetProperty("threshold").GetDecimal().Should().Be(9000m);
+        updated.GetProperty("enabled").GetBoolean().Should().BeFalse();
+
+        delete.StatusCode.Should().Be(HttpStatusCode.OK);
+        var rules = JsonDocument.Parse(await _client.GetStringAsync("/api/alerts/rules")).RootElement;
+        rules.GetProperty("rules").EnumerateArray().Should().NotContain(r => r.GetProperty("id").GetString() == id);
+    }
+
+    private static string CnabLine(int type, string date, long cents, string time, string owner, string store)
+    {
+        return $"{type}{date}{cents:D10}096206760174753****3153{time}{owner,-14}{store,-18}";
+    }
+
+    private static StringContent JsonBody(object body)
+    {
+        return new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+    }
+
+    private async Task UploadAsync(string fileName, params string[] lines)
+    {
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(Encoding.UTF8.GetBytes(string.Join("\n", lines)));
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", fileName);
+
+        var response = await _client.PostAsync("/api/upload", content);
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    private async Task<JsonElement> CreateRuleAsync(object rule)
+    {
+        var response = await _client.PostAsync("/api/alerts/rules", JsonBody(rule));
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+
+        return JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+    }
+
+    private async Task<string> StoreIdAsync(string name)
+    {
+        var json = JsonDocument.Parse(await _client.GetStringAsync($"/api/stores/summary?search={Uri.EscapeDataString(name)}")).RootElement;
+        return json.GetProperty("stores").EnumerateArray()
+            .Single(s => s.GetProperty("storeName").GetString() == name)
+            .GetProperty("storeId").GetString()!;
+    }
+
+    private async Task<List<JsonElement>> NotificationsAsync(bool unreadOnly = false)
+    {
+        var json = JsonDocument.Parse(await _client.GetStringAsync($"/api/alerts/notifications?unreadOnly={unreadOnly}")).RootElement;
+        return json.GetProperty("notifications").EnumerateArray().ToList();
+    }
+
+    private class RecordingReceiver : HttpMessageHandler
+    {
+        public ConcurrentQueue<(string Url, string Body)> Requests { get; } = new();
+
+        protected override async Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+        {
+            var body = request.Content == null ? string.Empty : await request.Content.ReadAsStringAsync(cancellationToken);
+            Requests.Enqueue((request.RequestUri!.ToString(), body));
+            return new HttpResponseMessage(HttpStatusCode.OK);
+        }
+    }
+}
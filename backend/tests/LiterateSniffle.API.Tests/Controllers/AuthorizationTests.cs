@@ -0,0 +1,303 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using FluentAssertions;
+using LiterateSniffle.Infrastructure.Data;
+using LiterateSniffle.Infrastructure.Entities;
+using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.IdentityModel.JsonWebTokens;
+using Microsoft.IdentityModel.Protocols.OpenIdConnect;
+using Microsoft.IdentityModel.Tokens;
+using Xunit;
+
+namespace LiterateSniffle.API.Tests.Controllers;
+
+public class AuthorizationTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private const string Issuer = "https://issuer.test/default";
+    private static readonly Guid TransactionId = Guid.Parse("aaaaaaaa-0000-0000-0000-000000000001");
+    private static readonly SymmetricSecurityKey SigningKey =
+        new(Encoding.UTF8.GetBytes("test-signing-key-for-the-stand-in-issuer-0123456789"));
+
+    private readonly HttpClient _client;
+    private readonly WebApplicationFactory<Program> _factory;
+
+    public AuthorizationTests(WebApplicationFactory<Program> factory)
+    {
+        _factory = factory.WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("Auth:Authority", Issuer);
+            builder.ConfigureServices(services =>
+            {
+                var descriptor = services.SingleOrDefault(
+                    d => d.ServiceType == typeof(DbContextOptions<ApplicationDbContext>));
+
+                if (descriptor != null)
+                {
+                    services.Remove(descriptor);
+                }
+
+                services.AddDbContext<ApplicationDbContext>(options =>
+                {
+                    options.UseInMemoryDatabase("TestDatabase_Authorization")
+                        .ConfigureWarnings(warnings => warnings.Ignore(Microsoft.EntityFrameworkCore.Diagnostics.InMemoryEventId.TransactionIgnoredWarning));
+                });
+
+                var sp = services.BuildServiceProvider();
+                using var scope = sp.CreateScope();
+                var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+                db.Database.EnsureCreated();
+
+                SeedTestData(db);
+            });
+            builder.ConfigureTestServices(services =>
+            {
+                // Stand in for the issuer: no metadata download, tokens signed with a local key
+                services.Configure<JwtBearerOptions>(JwtBearerDefaults.AuthenticationScheme, options =>
+                {
+                    options.Configuration = new OpenIdConnectConfiguration { Issuer = Issuer };
+                    options.TokenValidationParameters.IssuerSigningKey = SigningKey;
+                });
+            });
+        });
+
+        _client = _factory.CreateClient();
+    }
+
+    private static void SeedTestData(ApplicationDbContext context)
+    {
+        if (context.Transactions.Any(t => t.Id == TransactionId))
+        {
+            return;
+        }
+
+        var fileUpload = new FileUpload
+        {
+            Id = Guid.NewGuid(),
+            Filename = "test.txt",
+            OriginalName = "test.txt",
+            Size = 100,
+            Format = "CNAB-80",
+            UploadedAt = DateTime.UtcNow
+        };
+
+        var store = new Store
+        {
+            Id = Guid.NewGuid(),
+            OwnerName = "Test Owner",
+            Name = "Test Store"
+        };
+
+        context.FileUploads.Add(fileUpload);
+        context.Stores.Add(store);
+        context.Transactions.Add(new Transaction
+        {
+            Id = TransactionId,
+            TypeId = Guid.Parse("11111111-1111-1111-1111-111111111111"),
+            Type = "Debit",
+            Datetime = DateTime.UtcNow,
+            Value = 100.00m,
+            Cpf = "12345678901",
+            Card = "123456789012",
+            StoreId = store.Id,
+            FileUploadId = fileUpload.Id
+        });
+        context.SaveChanges();
+    }
+
+    [Fact]
+    public void Startup_WithoutIssuerOrExplicitOptOut_Fails()
+    {
+        // Arrange
+        using var unconfigured = _factory.WithWebHostBuilder(builder => builder.UseSetting("Auth:Authority", ""));
+
+        // Act
+        var act = () => unconfigured.CreateClient();
+
+        // Assert - the API must not start open by accident
+        act.Should().Throw<Exception>().Where(ex => ex.ToString().Contains("Auth:Disabled"));
+    }
+
+    [Fact]
+    public async Task Request_WithoutToken_ReturnsUnauthorized()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/stores/summary");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task Request_WithTokenFromAnotherIssuer_ReturnsUnauthorized()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Get, "/api/stores/summary",
+            Token("Ana", new[] { "viewer" }, issuer: "https://elsewhere.test"));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task Viewer_CanReadBalancesButNotChangeTheCatalog()
+    {
+        // Arrange
+        var token = Token("Ana", new[] { "viewer" });
+
+        // Act
+        var summary = await SendAsync(HttpMethod.Get, "/api/stores/summary", token);
+        var save = await SendAsync(HttpMethod.Put, "/api/transaction-types/10", token,
+            new { name = "Cashback", nature = "Income" });
+
+        // Assert
+        summary.StatusCode.Should().Be(HttpStatusCode.OK);
+        save.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task Uploader_CannotRevertImports()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/upload/{Guid.NewGuid()}/revert",
+            Token("Bruno", new[] { "uploader" }), new { revertedBy = "Bruno" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task Uploader_CannotMergeStores()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/stores/{Guid.NewGuid()}/merge",
+            Token("Bruno", new[] { "uploader" }), new { sourceStoreIds = new[] { Guid.NewGuid() }, changedBy = "Bruno" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task Viewer_CanReadNotificationsButNotManageAlertRules()
+    {
+        // Arrange
+        var token = Token("Ana", new[] { "viewer" });
+
+        // Act
+        var notifications = await SendAsync(HttpMethod.Get, "/api/alerts/notifications", token);
+        var create = await SendAsync(HttpMethod.Post, "/api/alerts/rules", token,
+            new { name = "Low balance", kind = "balance-below", threshold = 0 });
+
+        // Assert
+        notifications.StatusCode.Should().Be(HttpStatusCode.OK);
+        create.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task Reveal_RecordsTheUserFromTheTokenRatherThanTheBody()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/transactions/{TransactionId}/reveal",
+            Token("Carla Admin", new[] { "admin" }),
+            new { revealedBy = "Someone Else", role = "viewer", reason = "Chargeback dispute" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        var audit = await db.PiiRevealAudits.AsNoTracking().SingleAsync(a => a.RevealedBy == "Carla Admin");
+        audit.Role.Should().Be("admin");
+        (await db.PiiRevealAudits.AnyAsync(a => a.RevealedBy == "Someone Else")).Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task Reveal_AsAdmin_ReturnsUnmaskedDataAndRecordsTheReveal()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/transactions/{TransactionId}/reveal",
+            Token("Dora Admin", new[] { "admin" }), new { reason = "Chargeback dispute" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var root = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        root.GetProperty("cpf").GetString().Should().Be("12345678901");
+        root.GetProperty("card").GetString().Should().Be("123456789012");
+
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        var audit = await db.PiiRevealAudits.AsNoTracking().SingleAsync(a => a.RevealedBy == "Dora Admin");
+        audit.Role.Should().Be("admin");
+        audit.Reason.Should().Be("Chargeback dispute");
+    }
+
+    [Fact]
+    public async Task Reveal_AsViewer_ReturnsForbiddenEvenIfTheBodyClaimsAdmin()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/transactions/{TransactionId}/reveal",
+            Token("Bruno", new[] { "viewer" }), new { revealedBy = "Bruno", role = "admin", reason = "Curious" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        (await db.PiiRevealAudits.AnyAsync(a => a.RevealedBy == "Bruno")).Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task Reveal_WithoutReason_ReturnsBadRequest()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/transactions/{TransactionId}/reveal",
+            Token("Dora Admin", new[] { "admin" }), new { reason = " " });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Reveal_UnknownTransaction_ReturnsNotFound()
+    {
+        // Act
+        var response = await SendAsync(HttpMethod.Post, $"/api/transactions/{Guid.NewGuid()}/reveal",
+            Token("Dora Admin", new[] { "admin" }), new { reason = "Chargeback dispute" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    private static string Token(string name, string[] roles, string issuer = Issuer)
+    {
+        return new JsonWebTokenHandler().CreateToken(new SecurityTokenDescriptor
+        {
+            Issuer = issuer,
+            Claims = new Dictionary<string, object>
+            {
+                ["sub"] = name.ToLowerInvariant().Replace(' ', '.'),
+                ["name"] = name,
+                ["roles"] = roles
+            },
+            Expires = DateTime.UtcNow.AddMinutes(5),
+            SigningCredentials = new SigningCredentials(SigningKey, SecurityAlgorithms.HmacSha256)
+        });
+    }
+
+    private async Task<HttpResponseMessage> SendAsync(HttpMethod method, string url, string token, object? body = null)
+    {
+        using var request = new HttpRequestMessage(method, url);
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        if (body != null)
+        {
+            request.Content = new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+        }
+
+        return await _client.SendAsync(request);
+    }
+}
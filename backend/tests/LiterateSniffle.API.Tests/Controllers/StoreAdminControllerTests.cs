@@ -0,0 +1,315 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using FluentAssertions;
+using LiterateSniffle.Infrastructure.Data;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Xunit;
+
+namespace LiterateSniffle.API.Tests.Controllers;
+
+public class StoreAdminControllerTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private readonly HttpClient _client;
+    private readonly WebApplicationFactory<Program> _factory;
+
+    public StoreAdminControllerTests(WebApplicationFactory<Program> factory)
+    {
+        _factory = factory.WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("Auth:Disabled", "true");
+            builder.ConfigureServices(services =>
+            {
+                var descriptor = services.SingleOrDefault(
+                    d => d.ServiceType == typeof(DbContextOptions<ApplicationDbContext>));
+
+                if (descriptor != null)
+                {
+                    services.Remove(descriptor);
+                }
+
+                // Changes here rename and delete stores, so they get a database of their own
+                services.AddDbContext<ApplicationDbContext>(options =>
+                {
+                    options.UseInMemoryDatabase("TestDatabase_StoreAdmin")
+                        .ConfigureWarnings(warnings => warnings.Ignore(Microsoft.EntityFrameworkCore.Diagnostics.InMemoryEventId.TransactionIgnoredWarning));
+                });
+
+                var sp = services.BuildServiceProvider();
+                using var scope = sp.CreateScope();
+                var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+                db.Database.EnsureCreated();
+            });
+        });
+
+        _client = _factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task Merge_MovesTransactionsAndRoutesLaterImports()
+    {
+        // Arrange
+        await UploadAsync("merge-1.cnab",
+            CnabLine(1, "20220101", 10000, "080000", "MERGE OWNER", "MERGE KEEP"),
+            CnabLine(1, "20220101", 5000, "090000", "MERGE OWNER", "MERGE KEEP LTDA"));
+        var target = await StoreAsync("MERGE KEEP");
+        var source = await StoreAsync("MERGE KEEP LTDA");
+
+        // Act
+        var response = await _client.PostAsync($"/api/stores/{Id(target)}/merge",
+            JsonBody(new { sourceStoreIds = new[] { Id(source) }, changedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var record = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        record.GetProperty("action").GetString().Should().Be("merge");
+        record.GetProperty("transactionCount").GetInt32().Should().Be(1);
+        record.GetProperty("changedBy").GetString().Should().Be("Maria Silva");
+
+        (await FindStoreAsync("MERGE KEEP LTDA")).Should().BeNull();
+        var merged = await StoreAsync("MERGE KEEP");
+        merged.GetProperty("transactionCount").GetInt32().Should().Be(2);
+        merged.GetProperty("balance").GetDecimal().Should().Be(150.00m);
+
+        // A later file still written with the old names lands in the merged store
+        await UploadAsync("merge-2.cnab", CnabLine(1, "20220102", 2000, "080000", "MERGE OWNER", "MERGE KEEP LTDA"));
+        (await FindStoreAsync("MERGE KEEP LTDA")).Should().BeNull();
+        (await StoreAsync("MERGE KEEP")).GetProperty("transactionCount").GetInt32().Should().Be(3);
+
+        var changes = JsonDocument.Parse(await _client.GetStringAsync($"/api/stores/changes?storeId={Id(target)}")).RootElement;
+        changes.GetProperty("changes").GetArrayLength().Should().Be(1);
+    }
+
+    [Fact]
+    public async Task Merge_IntoItself_ReturnsBadRequest()
+    {
+        // Arrange
+        await UploadAsync("merge-self.cnab", CnabLine(1, "20220103", 1000, "080000", "SELF OWNER", "SELF STORE"));
+        var store = await StoreAsync("SELF STORE");
+
+        // Act
+        var response = await _client.PostAsync($"/api/stores/{Id(store)}/merge",
+            JsonBody(new { sourceStoreIds = new[] { Id(store) }, changedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Rename_KeepsOldNamesForImportsAndDuplicateChecks()
+    {
+        // Arrange
+        var line = CnabLine(1, "20220104", 4000, "080000", "RENAME OWNER", "RENAME OLD");
+        await UploadAsync("rename-1.cnab", line);
+        var store = await StoreAsync("RENAME OLD");
+
+        // Act
+        var response = await _client.PutAsync($"/api/stores/{Id(store)}/name",
+            JsonBody(new { ownerName = "RENAME OWNER", name = "RENAME NEW", changedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        (await FindStoreAsync("RENAME OLD")).Should().BeNull();
+        (await StoreAsync("RENAME NEW")).GetProperty("storeId").GetString().Should().Be(Id(store));
+
+        var duplicates = await _client.PostAsync("/api/upload/duplicates", JsonBody(new
+        {
+            contentHash = new string('a', 64),
+            transactions = new[]
+            {
+                new { line = 1, type = 1, datetime = "2022-01-04T08:00:00", value = 40.00m, cpf = "09620676017", card = "4753****3153", storeOwner = "RENAME OWNER", storeName = "RENAME OLD" }
+            }
+        }));
+        var json = JsonDocument.Parse(await duplicates.Content.ReadAsStringAsync()).RootElement;
+        json.GetProperty("duplicateLines").EnumerateArray().Select(l => l.GetInt32()).Should().Equal(1);
+    }
+
+    [Fact]
+    public async Task Rename_ToNamesOfAnotherStore_ReturnsConflict()
+    {
+        // Arrange
+        await UploadAsync("rename-taken.cnab",
+            CnabLine(1, "20220105", 1000, "080000", "TAKEN OWNER", "TAKEN ONE"),
+            CnabLine(1, "20220105", 1000, "090000", "TAKEN OWNER", "TAKEN TWO"));
+        var store = await StoreAsync("TAKEN ONE");
+
+        // Act
+        var response = await _client.PutAsync($"/api/stores/{Id(store)}/name",
+            JsonBody(new { ownerName = "TAKEN OWNER", name = "TAKEN TWO", changedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("merge");
+    }
+
+    [Fact]
+    public async Task Split_MovesTheTransactionsOfTheChosenFiles()
+    {
+        // Arrange
+        await UploadAsync("split-1.cnab", CnabLine(1, "20220106", 10000, "080000", "SPLIT OWNER", "SPLIT STORE"));
+        var secondUploadId = await UploadAsync("split-2.cnab", CnabLine(2, "20220107", 3000, "080000", "SPLIT OWNER", "SPLIT STORE"));
+        var store = await StoreAsync("SPLIT STORE");
+
+        // Act
+        var response = await _client.PostAsync($"/api/stores/{Id(store)}/split", JsonBody(new
+        {
+            fileUploadIds = new[] { secondUploadId },
+            ownerName = "SPLIT OWNER",
+            name = "SPLIT FILIAL",
+            changedBy = "Maria Silva"
+        }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        (await StoreAsync("SPLIT STORE")).GetProperty("balance").GetDecimal().Should().Be(100.00m);
+        (await StoreAsync("SPLIT FILIAL")).GetProperty("balance").GetDecimal().Should().Be(-30.00m);
+    }
+
+    [Fact]
+    public async Task Split_EveryTransaction_ReturnsBadRequest()
+    {
+        // Arrange
+        var uploadId = await UploadAsync("split-all.cnab", CnabLine(1, "20220108", 1000, "080000", "SPLIT OWNER", "SPLIT WHOLE"));
+        var store = await StoreAsync("SPLIT WHOLE");
+
+        // Act
+        var response = await _client.PostAsync($"/api/stores/{Id(store)}/split", JsonBody(new
+        {
+            fileUploadIds = new[] { uploadId },
+            ownerName = "SPLIT OWNER",
+            name = "SPLIT ALL",
+            changedBy = "Maria Silva"
+        }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("rename");
+    }
+
+    [Fact]
+    public async Task SetParent_GroupsAndUngroupsBranches()
+    {
+        // Arrange
+        await UploadAsync("group.cnab",
+            CnabLine(1, "20220109", 1000, "080000", "GROUP OWNER", "GROUP MATRIZ"),
+            CnabLine(1, "20220109", 1000, "090000", "GROUP OWNER", "GROUP FILIAL"));
+        var head = await StoreAsync("GROUP MATRIZ");
+        var branch = await StoreAsync("GROUP FILIAL");
+
+        // Act
+        var grouped = await _client.PutAsync($"/api/stores/{Id(branch)}/parent",
+            JsonBody(new { parentStoreId = Id(head), changedBy = "Maria Silva" }));
+        var nested = await _client.PutAsync($"/api/stores/{Id(head)}/parent",
+            JsonBody(new { parentStoreId = Id(branch), changedBy = "Maria Silva" }));
+
+        // Assert
+        grouped.StatusCode.Should().Be(HttpStatusCode.OK);
+        (await StoreAsync("GROUP FILIAL")).GetProperty("parentStoreId").GetString().Should().Be(Id(head));
+        nested.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var ungrouped = await _client.PutAsync($"/api/stores/{Id(branch)}/parent",
+            JsonBody(new { parentStoreId = (string?)null, changedBy = "Maria Silva" }));
+        ungrouped.StatusCode.Should().Be(HttpStatusCode.OK);
+        (await StoreAsync("GROUP FILIAL")).TryGetProperty("parentStoreId", out _).Should().BeFalse();
+
+        var changes = JsonDocument.Parse(await _client.GetStringAsync($"/api/stores/changes?storeId={Id(branch)}")).RootElement;
+        changes.GetProperty("changes").EnumerateArray().Select(c => c.GetProperty("action").GetString())
+            .Should().Equal("ungroup", "group");
+    }
+
+    [Fact]
+    public async Task Rename_UnknownStore_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.PutAsync($"/api/stores/{Guid.NewGuid()}/name",
+            JsonBody(new { ownerName = "NOBODY", name = "NOWHERE", changedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task RevertAfterRename_KeepsTheStoreAndItsOldNames()
+    {
+        // Arrange
+        var line = CnabLine(1, "20220105", 6000, "080000", "REVERT OWNER", "REVERT OLD NAME");
+        var fileUploadId = await UploadAsync("revert-renamed.cnab", line);
+        var store = await StoreAsync("REVERT OLD NAME");
+        (await _client.PutAsync($"/api/stores/{Id(store)}/name",
+            JsonBody(new { ownerName = "REVERT OWNER", name = "REVERT NEW NAME", changedBy = "Maria Silva" })))
+            .StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act
+        var preview = JsonDocument.Parse(await _client.GetStringAsync($"/api/upload/{fileUploadId}/revert")).RootElement;
+        var response = await _client.PostAsync($"/api/upload/{fileUploadId}/revert", JsonBody(new { revertedBy = "Maria Silva" }));
+
+        // Assert
+        preview.GetProperty("stores")[0].GetProperty("storeRemoved").GetBoolean().Should().BeFalse();
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var kept = await StoreAsync("REVERT NEW NAME");
+        Id(kept).Should().Be(Id(store));
+        kept.GetProperty("transactionCount").GetInt32().Should().Be(0);
+
+        // The alias survives, so a new file under the old names still lands in the renamed store
+        await UploadAsync("revert-renamed-again.cnab", line);
+        (await FindStoreAsync("REVERT OLD NAME")).Should().BeNull();
+        (await StoreAsync("REVERT NEW NAME")).GetProperty("transactionCount").GetInt32().Should().Be(1);
+
+        var changes = JsonDocument.Parse(await _client.GetStringAsync($"/api/stores/changes?storeId={Id(store)}")).RootElement;
+        changes.GetProperty("changes").GetArrayLength().Should().Be(1);
+    }
+
+    private static string CnabLine(int type, string date, long cents, string time, string owner, string store)
+    {
+        return $"{type}{date}{cents:D10}096206760174753****3153{time}{owner,-14}{store,-18}";
+    }
+
+    private static StringContent JsonBody(object body)
+    {
+        return new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+    }
+
+    private static string Id(JsonElement store)
+    {
+        return store.GetProperty("storeId").GetString()!;
+    }
+
+    private async Task<string> UploadAsync(string fileName, params string[] lines)
+    {
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(Encoding.UTF8.GetBytes(string.Join("\n", lines)));
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", fileName);
+
+        var response = await _client.PostAsync("/api/upload", content);
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        return json.GetProperty("fileUploadId").GetString()!;
+    }
+
+    private async Task<JsonElement?> FindStoreAsync(string name)
+    {
+        var json = JsonDocument.Parse(await _client.GetStringAsync($"/api/stores/summary?search={Uri.EscapeDataString(name)}")).RootElement;
+        return json.GetProperty("stores").EnumerateArray()
+            .Where(s => s.GetProperty("storeName").GetString() == name)
+            .Select(s => (JsonElement?)s)
+            .FirstOrDefault();
+    }
+
+    private async Task<JsonElement> StoreAsync(string name)
+    {
+        var store = await FindStoreAsync(name);
+        store.Should().NotBeNull();
+        return store!.Value;
+    }
+}
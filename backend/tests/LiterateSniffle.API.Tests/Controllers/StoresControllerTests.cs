@@ -19,6 +19,7 @@ public class StoresControllerTests : IClassFixture<WebApplicationFactory<Program
     {
         _factory = factory.WithWebHostBuilder(builder =>
         {
+            builder.UseSetting("Auth:Disabled", "true");
             builder.ConfigureServices(services =>
             {
                 var descriptor = services.SingleOrDefault(
@@ -165,4 +166,135 @@ public class StoresControllerTests : IClassFixture<WebApplicationFactory<Program
         totalExpense.Should().Be(30.00m);
         balance.Should().Be(70.00m);
     }
+
+    [Fact]
+    public async Task GetSummary_WithNatureFilter_OnlyCountsMatchingTransactions()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/stores/summary?nature=Expense");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var stores = JsonDocument.Parse(content).RootElement.GetProperty("stores");
+        stores.GetArrayLength().Should().Be(1);
+
+        var summary = stores[0];
+        summary.GetProperty("transactionCount").GetInt32().Should().Be(1);
+        summary.GetProperty("totalIncome").GetDecimal().Should().Be(0m);
+        summary.GetProperty("totalExpense").GetDecimal().Should().Be(30.00m);
+        summary.GetProperty("balance").GetDecimal().Should().Be(-30.00m);
+    }
+
+    [Fact]
+    public async Task GetSummary_WithDateRangeWithoutTransactions_ReturnsNoStores()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/stores/summary?from=2000-01-01&to=2000-01-31");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        JsonDocument.Parse(content).RootElement.GetProperty("stores").GetArrayLength().Should().Be(0);
+    }
+
+    [Fact]
+    public async Task GetSummary_WithUnmatchedSearch_ReturnsNoStores()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/stores/summary?search=nonexistent");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        JsonDocument.Parse(content).RootElement.GetProperty("stores").GetArrayLength().Should().Be(0);
+    }
+
+    [Theory]
+    [InlineData("nature=Refund")]
+    [InlineData("types=10")]
+    [InlineData("from=2024-02-01&to=2024-01-01")]
+    public async Task GetSummary_WithInvalidFilter_ReturnsBadRequest(string query)
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/stores/summary?{query}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetStore_ReturnsTheStoreSummary()
+    {
+        // Arrange
+        var storeId = await FirstStoreIdAsync();
+
+        // Act
+        var response = await _client.GetAsync($"/api/stores/{storeId}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var store = JsonDocument.Parse(content).RootElement;
+        store.GetProperty("storeId").GetGuid().Should().Be(storeId);
+        store.GetProperty("ownerName").GetString().Should().Be("Test Owner");
+        store.GetProperty("balance").GetDecimal().Should().Be(70.00m);
+    }
+
+    [Fact]
+    public async Task GetStore_WithDateRangeWithoutTransactions_ReturnsZeroTotals()
+    {
+        // Arrange
+        var storeId = await FirstStoreIdAsync();
+
+        // Act
+        var response = await _client.GetAsync($"/api/stores/{storeId}?from=2000-01-01&to=2000-01-31");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var store = JsonDocument.Parse(content).RootElement;
+        store.GetProperty("transactionCount").GetInt32().Should().Be(0);
+        store.GetProperty("balance").GetDecimal().Should().Be(0m);
+    }
+
+    [Fact]
+    public async Task GetStore_WithUnknownId_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/stores/{Guid.NewGuid()}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task GetStoreUploads_ReturnsTheFilesThatContributed()
+    {
+        // Arrange
+        var storeId = await FirstStoreIdAsync();
+
+        // Act
+        var response = await _client.GetAsync($"/api/stores/{storeId}/uploads");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var uploads = JsonDocument.Parse(content).RootElement.GetProperty("uploads");
+        uploads.GetArrayLength().Should().Be(1);
+        uploads[0].GetProperty("originalName").GetString().Should().Be("test.txt");
+        uploads[0].GetProperty("transactionCount").GetInt32().Should().Be(2);
+    }
+
+    private async Task<Guid> FirstStoreIdAsync()
+    {
+        var content = await _client.GetStringAsync("/api/stores/summary");
+        return JsonDocument.Parse(content).RootElement.GetProperty("stores")[0].GetProperty("storeId").GetGuid();
+    }
 }
@@ -0,0 +1,133 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using FluentAssertions;
+using LiterateSniffle.Infrastructure.Data;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Xunit;
+
+namespace LiterateSniffle.API.Tests.Controllers;
+
+public class TransactionTypesControllerTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private readonly HttpClient _client;
+    private readonly WebApplicationFactory<Program> _factory;
+
+    public TransactionTypesControllerTests(WebApplicationFactory<Program> factory)
+    {
+        _factory = factory.WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("Auth:Disabled", "true");
+            builder.ConfigureServices(services =>
+            {
+                var descriptor = services.SingleOrDefault(
+                    d => d.ServiceType == typeof(DbContextOptions<ApplicationDbContext>));
+
+                if (descriptor != null)
+                {
+                    services.Remove(descriptor);
+                }
+
+                services.AddDbContext<ApplicationDbContext>(options =>
+                {
+                    options.UseInMemoryDatabase("TestDatabase_TransactionTypes")
+                        .ConfigureWarnings(warnings => warnings.Ignore(Microsoft.EntityFrameworkCore.Diagnostics.InMemoryEventId.TransactionIgnoredWarning));
+                });
+
+                var sp = services.BuildServiceProvider();
+                using var scope = sp.CreateScope();
+                var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+                db.Database.EnsureCreated();
+            });
+        });
+
+        _client = _factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task GetAll_ReturnsSeededCatalogByCode()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/transaction-types");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        var types = json.GetProperty("transactionTypes").EnumerateArray().ToList();
+        types.Select(t => t.GetProperty("code").GetInt32()).Should().BeInAscendingOrder();
+        var debit = types.Single(t => t.GetProperty("code").GetInt32() == 1);
+        debit.GetProperty("id").GetString().Should().Be("11111111-1111-1111-1111-111111111111");
+        debit.GetProperty("nature").GetString().Should().Be("Income");
+        debit.GetProperty("color").GetString().Should().Be("#28a745");
+    }
+
+    [Fact]
+    public async Task Save_ExistingCode_UpdatesType()
+    {
+        // Act
+        var response = await _client.PutAsync("/api/transaction-types/8", JsonBody(new
+        {
+            name = " DOC ",
+            nature = "expense",
+            description = "Outgoing DOC",
+            color = "#ABCDEF"
+        }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        json.GetProperty("code").GetInt32().Should().Be(8);
+        json.GetProperty("name").GetString().Should().Be("DOC");
+        json.GetProperty("nature").GetString().Should().Be("Expense");
+        json.GetProperty("color").GetString().Should().Be("#abcdef");
+    }
+
+    [Theory]
+    [InlineData(10, "Income", null)]
+    [InlineData(7, "Neutral", null)]
+    [InlineData(7, "Income", "green")]
+    public async Task Save_InvalidValues_ReturnsBadRequest(int code, string nature, string? color)
+    {
+        // Act
+        var response = await _client.PutAsync($"/api/transaction-types/{code}", JsonBody(new { name = "Test", nature, color }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Upload_UnknownCode_IsRejectedUntilMapped()
+    {
+        // Arrange - code 0 is not seeded
+        var file = Encoding.UTF8.GetBytes(
+            "0201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       ");
+
+        // Act
+        var rejected = await PostFileAsync(file);
+        var mapped = await _client.PutAsync("/api/transaction-types/0", JsonBody(new { name = "Cashback", nature = "Income" }));
+        var accepted = await PostFileAsync(file);
+
+        // Assert
+        rejected.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        (await rejected.Content.ReadAsStringAsync()).Should().Contain("Unknown transaction type code(s): 0");
+        mapped.StatusCode.Should().Be(HttpStatusCode.Created);
+        accepted.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    private static StringContent JsonBody(object body)
+    {
+        return new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+    }
+
+    private async Task<HttpResponseMessage> PostFileAsync(byte[] file)
+    {
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(file);
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", "unknown-type.cnab");
+        return await _client.PostAsync("/api/upload", content);
+    }
+}
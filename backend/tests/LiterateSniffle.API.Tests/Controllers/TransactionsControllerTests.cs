@@ -1,4 +1,5 @@
 using System.Net;
+using System.Text;
 using System.Text.Json;
 using FluentAssertions;
 using LiterateSniffle.Infrastructure.Data;
@@ -19,6 +20,7 @@ public class TransactionsControllerTests : IClassFixture<WebApplicationFactory<P
     {
         _factory = factory.WithWebHostBuilder(builder =>
         {
+            builder.UseSetting("Auth:Disabled", "true");
             builder.ConfigureServices(services =>
             {
                 var descriptor = services.SingleOrDefault(
@@ -138,4 +140,144 @@ public class TransactionsControllerTests : IClassFixture<WebApplicationFactory<P
         // Assert - Should return OK with empty array
         response.StatusCode.Should().Be(HttpStatusCode.OK);
     }
+
+    [Fact]
+    public async Task GetByStore_WithPage_ReturnsPageAndTotalCount()
+    {
+        // Arrange
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        var store = await db.Stores.FirstAsync();
+        var expectedCount = await db.Transactions.CountAsync(t => t.StoreId == store.Id);
+
+        // Act
+        var response = await _client.GetAsync($"/api/transactions/store/{store.Id}?page=1&pageSize=1&sortBy=value&sortDirection=asc");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var root = JsonDocument.Parse(content).RootElement;
+        root.GetProperty("transactions").GetArrayLength().Should().Be(1);
+        root.GetProperty("totalCount").GetInt32().Should().Be(expectedCount);
+        root.GetProperty("page").GetInt32().Should().Be(1);
+        root.GetProperty("pageSize").GetInt32().Should().Be(1);
+    }
+
+    [Theory]
+    [InlineData("page=0")]
+    [InlineData("pageSize=1000")]
+    [InlineData("sortBy=cpf")]
+    [InlineData("sortDirection=up")]
+    public async Task GetByStore_WithInvalidPaging_ReturnsBadRequest(string query)
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/transactions/store/{Guid.NewGuid()}?{query}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetByStore_MasksCpfAndCard()
+    {
+        // Arrange
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        var store = await db.Stores.FirstAsync();
+
+        // Act
+        var response = await _client.GetAsync($"/api/transactions/store/{store.Id}");
+
+        // Assert
+        var root = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        var transaction = root.GetProperty("transactions")[0];
+        transaction.GetProperty("cpf").GetString().Should().Be("***.***.***-01");
+        transaction.GetProperty("card").GetString().Should().Be("********9012");
+    }
+
+    [Fact]
+    public async Task Search_ByCpf_ReturnsMaskedMatchesWithTheirStoreAndFile()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/transactions/search?cpf=123.456.789-01");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var root = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        root.GetProperty("totalCount").GetInt32().Should().BeGreaterThan(0);
+        root.GetProperty("page").GetInt32().Should().Be(1);
+
+        var transaction = root.GetProperty("transactions")[0];
+        transaction.GetProperty("cpf").GetString().Should().Be("***.***.***-01");
+        transaction.GetProperty("store").GetProperty("name").GetString().Should().Be("Test Store");
+        transaction.GetProperty("fileUpload").GetProperty("originalName").GetString().Should().Be("test.txt");
+    }
+
+    [Fact]
+    public async Task Search_ByCardFragmentAndValueRange_OnlyReturnsTransactionsInRange()
+    {
+        // Act
+        var inRange = await _client.GetAsync("/api/transactions/search?card=9012&minValue=50&maxValue=150");
+        var outOfRange = await _client.GetAsync("/api/transactions/search?card=9012&minValue=150");
+
+        // Assert
+        var inRangeRoot = JsonDocument.Parse(await inRange.Content.ReadAsStringAsync()).RootElement;
+        inRangeRoot.GetProperty("totalCount").GetInt32().Should().BeGreaterThan(0);
+
+        var outOfRangeRoot = JsonDocument.Parse(await outOfRange.Content.ReadAsStringAsync()).RootElement;
+        outOfRangeRoot.GetProperty("totalCount").GetInt32().Should().Be(0);
+    }
+
+    [Fact]
+    public async Task Search_ByOwnerName_IgnoresCase()
+    {
+        // Act
+        var response = await _client.GetAsync("/api/transactions/search?owner=test%20owner");
+
+        // Assert
+        var root = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        root.GetProperty("totalCount").GetInt32().Should().BeGreaterThan(0);
+    }
+
+    [Theory]
+    [InlineData("")]
+    [InlineData("cpf=1234567")]
+    [InlineData("card=12")]
+    [InlineData("minValue=10&maxValue=5")]
+    [InlineData("from=2024-02-01&to=2024-01-01")]
+    [InlineData("owner=test&pageSize=1000")]
+    public async Task Search_WithMissingOrInvalidCriteria_ReturnsBadRequest(string query)
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/transactions/search?{query}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Reveal_WithoutSignIn_ReturnsForbiddenWhateverRoleTheBodyClaims()
+    {
+        // Arrange
+        using var scope = _factory.Services.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+        var transactionId = (await db.Transactions.FirstAsync()).Id;
+
+        // Act
+        var response = await _client.PostAsync($"/api/transactions/{transactionId}/reveal",
+            JsonBody(new { revealedBy = "Ana", role = "admin", reason = "Chargeback dispute" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        var body = await response.Content.ReadAsStringAsync();
+        body.Should().NotContain("12345678901").And.NotContain("123456789012");
+        (await db.PiiRevealAudits.AnyAsync(a => a.TransactionId == transactionId)).Should().BeFalse();
+    }
+
+    private static StringContent JsonBody(object body)
+    {
+        return new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+    }
 }
@@ -1,6 +1,8 @@
 using System.Net;
 using System.Net.Http.Headers;
+using System.Security.Cryptography;
 using System.Text;
+using System.Text.Json;
 using FluentAssertions;
 using LiterateSniffle.Infrastructure.Data;
 using Microsoft.AspNetCore.Mvc.Testing;
@@ -19,6 +21,7 @@ public class UploadControllerTests : IClassFixture<WebApplicationFactory<Program
     {
         _factory = factory.WithWebHostBuilder(builder =>
         {
+            builder.UseSetting("Auth:Disabled", "true");
             builder.ConfigureServices(services =>
             {
                 // Remove existing DbContext
@@ -131,6 +134,28 @@ public class UploadControllerTests : IClassFixture<WebApplicationFactory<Program
         responseContent.Should().Contain("record lengths");
     }
 
+    [Fact]
+    public async Task Upload_InvalidField_ReturnsLineLevelIssues()
+    {
+        // Arrange - the CPF holds a letter
+        var line = CnabLine(1, "20240417", 1500, "101500", "ISSUE OWNER", "ISSUE STORE");
+        var invalid = line.Substring(0, 19) + "1234567890X" + line.Substring(30);
+
+        // Act
+        var response = await PostFileAsync(Encoding.UTF8.GetBytes(invalid), "issues.cnab");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        var issue = json.GetProperty("issues").EnumerateArray().Single();
+        issue.GetProperty("line").GetInt32().Should().Be(1);
+        issue.GetProperty("columnStart").GetInt32().Should().Be(20);
+        issue.GetProperty("columnEnd").GetInt32().Should().Be(30);
+        issue.GetProperty("field").GetString().Should().Be("cpf");
+        issue.GetProperty("value").GetString().Should().Be("1234567890X");
+        issue.GetProperty("severity").GetString().Should().Be("error");
+    }
+
     [Fact]
     public async Task UploadChunk_ValidChunk_ReturnsSuccess()
     {
@@ -172,4 +197,328 @@ public class UploadControllerTests : IClassFixture<WebApplicationFactory<Program
         // ASP.NET Core model validation returns "chunk field is required"
         responseContent.Should().Contain("chunk");
     }
+
+    [Fact]
+    public async Task GetHistory_AfterUpload_ReturnsUploadWithStores()
+    {
+        // Arrange
+        var cnabContent = "3201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       \n" +
+                         "5201903010000013200556418150633123****7687145607MARIA JOSEFINALOJA DO Ó - MATRIZ";
+
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(Encoding.UTF8.GetBytes(cnabContent));
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", "history.cnab");
+        var uploadResponse = await _client.PostAsync("/api/upload", content);
+        uploadResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act
+        var response = await _client.GetAsync("/api/upload");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("uploads");
+        responseContent.Should().Contain("history.cnab");
+        responseContent.Should().Contain("MARIA JOSEFINA");
+    }
+
+    [Fact]
+    public async Task GetUpload_UnknownId_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/upload/{Guid.NewGuid()}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task GetUploadTransactions_UnknownId_ReturnsEmptyList()
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/upload/{Guid.NewGuid()}/transactions");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("\"transactions\":[]");
+    }
+
+    [Fact]
+    public async Task CheckDuplicates_AfterUpload_ReportsFileAndMatchingLines()
+    {
+        // Arrange
+        var stored = CnabLine(1, "20210301", 15000, "101010", "DUP OWNER", "DUP CHECK STORE");
+        var file = Encoding.UTF8.GetBytes(stored);
+        (await PostFileAsync(file, "dup-check.cnab")).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var request = new
+        {
+            contentHash = Sha256(file),
+            transactions = new[]
+            {
+                new { line = 1, type = 1, datetime = "2021-03-01T10:10:10", value = 150.00m, cpf = "09620676017", card = "4753****3153", storeOwner = "DUP OWNER", storeName = "DUP CHECK STORE" },
+                new { line = 2, type = 1, datetime = "2021-03-01T11:11:11", value = 250.00m, cpf = "09620676017", card = "4753****3153", storeOwner = "DUP OWNER", storeName = "DUP CHECK STORE" }
+            }
+        };
+
+        // Act
+        var response = await _client.PostAsync("/api/upload/duplicates", JsonBody(request));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        var duplicateFiles = json.GetProperty("duplicateFiles");
+        duplicateFiles.GetArrayLength().Should().Be(1);
+        duplicateFiles[0].GetProperty("originalName").GetString().Should().Be("dup-check.cnab");
+        json.GetProperty("duplicateLines").EnumerateArray().Select(l => l.GetInt32()).Should().Equal(1);
+        json.GetProperty("checkedCount").GetInt32().Should().Be(2);
+    }
+
+    [Fact]
+    public async Task CheckDuplicates_InvalidHash_ReturnsBadRequest()
+    {
+        // Act
+        var response = await _client.PostAsync("/api/upload/duplicates",
+            JsonBody(new { contentHash = "not-a-hash", transactions = Array.Empty<object>() }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("contentHash");
+    }
+
+    [Fact]
+    public async Task Upload_SkipDuplicates_StoresOnlyNewTransactions()
+    {
+        // Arrange
+        var first = CnabLine(4, "20210402", 10000, "080000", "SKIP OWNER", "SKIP DUP STORE");
+        var second = CnabLine(2, "20210402", 5000, "090000", "SKIP OWNER", "SKIP DUP STORE");
+        (await PostFileAsync(Encoding.UTF8.GetBytes(first), "skip-1.cnab")).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act
+        var response = await PostFileAsync(Encoding.UTF8.GetBytes($"{first}\n{second}"), "skip-2.cnab", "skip");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        json.GetProperty("transactionsCount").GetInt32().Should().Be(1);
+        json.GetProperty("skippedCount").GetInt32().Should().Be(1);
+
+        var fileUploadId = json.GetProperty("fileUploadId").GetString();
+        var transactions = await _client.GetAsync($"/api/upload/{fileUploadId}/transactions");
+        var stored = JsonDocument.Parse(await transactions.Content.ReadAsStringAsync()).RootElement;
+        stored.GetProperty("transactions").GetArrayLength().Should().Be(1);
+    }
+
+    [Fact]
+    public async Task Upload_ImportDuplicates_StoresEveryTransaction()
+    {
+        // Arrange
+        var line = CnabLine(4, "20210403", 10000, "080000", "IMPORT OWNER", "IMPORT DUP STORE");
+        (await PostFileAsync(Encoding.UTF8.GetBytes(line), "import-1.cnab")).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act
+        var response = await PostFileAsync(Encoding.UTF8.GetBytes(line), "import-2.cnab", "import");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        json.GetProperty("transactionsCount").GetInt32().Should().Be(1);
+        json.GetProperty("skippedCount").GetInt32().Should().Be(0);
+    }
+
+    [Fact]
+    public async Task Upload_InvalidDuplicatesMode_ReturnsBadRequest()
+    {
+        // Arrange
+        var line = CnabLine(4, "20210404", 10000, "080000", "MODE OWNER", "MODE STORE");
+
+        // Act
+        var response = await PostFileAsync(Encoding.UTF8.GetBytes(line), "mode.cnab", "overwrite");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("duplicates");
+    }
+
+    [Fact]
+    public async Task PreviewRevert_ReportsBalanceChangePerStore()
+    {
+        // Arrange
+        var earlier = CnabLine(1, "20210501", 5000, "080000", "REVERT OWNER", "REVERT KEEP STORE");
+        (await PostFileAsync(Encoding.UTF8.GetBytes(earlier), "revert-earlier.cnab")).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var income = CnabLine(1, "20210502", 10000, "080000", "REVERT OWNER", "REVERT KEEP STORE");
+        var expense = CnabLine(2, "20210502", 3000, "090000", "REVERT OWNER", "REVERT GONE STORE");
+        var fileUploadId = await UploadIdAsync(await PostFileAsync(Encoding.UTF8.GetBytes($"{income}\n{expense}"), "revert-preview.cnab"));
+
+        // Act
+        var response = await _client.GetAsync($"/api/upload/{fileUploadId}/revert");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        json.GetProperty("transactionCount").GetInt32().Should().Be(2);
+
+        var stores = json.GetProperty("stores");
+        stores.GetArrayLength().Should().Be(2);
+
+        var gone = stores[0];
+        gone.GetProperty("storeName").GetString().Should().Be("REVERT GONE STORE");
+        gone.GetProperty("currentBalance").GetDecimal().Should().Be(-30.00m);
+        gone.GetProperty("balanceChange").GetDecimal().Should().Be(30.00m);
+        gone.GetProperty("balanceAfter").GetDecimal().Should().Be(0m);
+        gone.GetProperty("storeRemoved").GetBoolean().Should().BeTrue();
+
+        var kept = stores[1];
+        kept.GetProperty("storeName").GetString().Should().Be("REVERT KEEP STORE");
+        kept.GetProperty("currentBalance").GetDecimal().Should().Be(150.00m);
+        kept.GetProperty("balanceChange").GetDecimal().Should().Be(-100.00m);
+        kept.GetProperty("balanceAfter").GetDecimal().Should().Be(50.00m);
+        kept.GetProperty("storeRemoved").GetBoolean().Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task RevertUpload_DeletesTransactionsAndRecordsWhoReverted()
+    {
+        // Arrange
+        var line = CnabLine(3, "20210503", 2000, "100000", "UNDO OWNER", "UNDO STORE");
+        var fileUploadId = await UploadIdAsync(await PostFileAsync(Encoding.UTF8.GetBytes(line), "revert-me.cnab"));
+
+        // Act
+        var response = await _client.PostAsync($"/api/upload/{fileUploadId}/revert", JsonBody(new { revertedBy = "Maria Silva" }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var transactions = await _client.GetAsync($"/api/upload/{fileUploadId}/transactions");
+        var stored = JsonDocument.Parse(await transactions.Content.ReadAsStringAsync()).RootElement;
+        stored.GetProperty("transactions").GetArrayLength().Should().Be(0);
+
+        var upload = JsonDocument.Parse(await _client.GetStringAsync($"/api/upload/{fileUploadId}")).RootElement;
+        upload.GetProperty("revertedBy").GetString().Should().Be("Maria Silva");
+        upload.GetProperty("revertedTransactionCount").GetInt32().Should().Be(1);
+        upload.GetProperty("revertedAt").ValueKind.Should().Be(JsonValueKind.String);
+
+        var again = await _client.PostAsync($"/api/upload/{fileUploadId}/revert", JsonBody(new { revertedBy = "Maria Silva" }));
+        again.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task RevertUpload_MissingName_ReturnsBadRequest()
+    {
+        // Arrange
+        var line = CnabLine(3, "20210504", 2000, "100000", "UNDO OWNER", "UNDO NAMELESS");
+        var fileUploadId = await UploadIdAsync(await PostFileAsync(Encoding.UTF8.GetBytes(line), "revert-nameless.cnab"));
+
+        // Act
+        var response = await _client.PostAsync($"/api/upload/{fileUploadId}/revert", JsonBody(new { revertedBy = " " }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var responseContent = await response.Content.ReadAsStringAsync();
+        responseContent.Should().Contain("revertedBy");
+    }
+
+    [Fact]
+    public async Task PreviewRevert_UnknownId_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.GetAsync($"/api/upload/{Guid.NewGuid()}/revert");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task CompleteUpload_StreamsImportProgress()
+    {
+        // Arrange
+        var uploadId = Guid.NewGuid().ToString();
+        var file = $"{CnabLine(1, "20210601", 10000, "080000", "SSE OWNER", "SSE PROGRESS STORE")}\n{"9".PadRight(80, '0')}";
+
+        var chunk = new MultipartFormDataContent();
+        var chunkContent = new ByteArrayContent(Encoding.UTF8.GetBytes(file));
+        chunkContent.Headers.ContentType = MediaTypeHeaderValue.Parse("application/octet-stream");
+        chunk.Add(chunkContent, "chunk", "chunk");
+        chunk.Add(new StringContent(uploadId), "uploadId");
+        chunk.Add(new StringContent("0"), "chunkIndex");
+        (await _client.PostAsync("/api/upload/chunk", chunk)).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var complete = new MultipartFormDataContent
+        {
+            { new StringContent(uploadId), "uploadId" },
+            { new StringContent("progress.cnab"), "filename" },
+            { new StringContent("1"), "totalChunks" }
+        };
+        (await _client.PostAsync("/api/upload/complete", complete)).StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act - the import has finished, so the stream replays its events and ends
+        var response = await _client.GetAsync($"/api/upload/{uploadId}/progress");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        response.Content.Headers.ContentType!.MediaType.Should().Be("text/event-stream");
+
+        var stream = await response.Content.ReadAsStringAsync();
+        stream.Should().Contain("\"phase\":\"assembling\"");
+        stream.Should().Contain("\"phase\":\"validating\"");
+        stream.Should().Contain("\"phase\":\"parsing\"");
+        stream.Should().Contain("\"phase\":\"persisting\"");
+        stream.Should().Contain("event: warning");
+        stream.Should().Contain("trailer record");
+        stream.Should().EndWith("\n\n");
+
+        var completed = stream.Split("\n\n", StringSplitOptions.RemoveEmptyEntries).Last();
+        completed.Should().StartWith("event: completed");
+        completed.Should().Contain("\"transactionsCount\":1");
+    }
+
+    private static string CnabLine(int type, string date, long cents, string time, string owner, string store)
+    {
+        return $"{type}{date}{cents:D10}096206760174753****3153{time}{owner,-14}{store,-18}";
+    }
+
+    private static string Sha256(byte[] content)
+    {
+        return Convert.ToHexString(SHA256.HashData(content)).ToLowerInvariant();
+    }
+
+    private static StringContent JsonBody(object body)
+    {
+        return new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+    }
+
+    private static async Task<string> UploadIdAsync(HttpResponseMessage response)
+    {
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var json = JsonDocument.Parse(await response.Content.ReadAsStringAsync()).RootElement;
+        return json.GetProperty("fileUploadId").GetString()!;
+    }
+
+    private async Task<HttpResponseMessage> PostFileAsync(byte[] file, string fileName, string? duplicates = null)
+    {
+        var content = new MultipartFormDataContent();
+        var fileContent = new ByteArrayContent(file);
+        fileContent.Headers.ContentType = MediaTypeHeaderValue.Parse("text/plain");
+        content.Add(fileContent, "file", fileName);
+        if (duplicates != null)
+        {
+            content.Add(new StringContent(duplicates), "duplicates");
+        }
+
+        return await _client.PostAsync("/api/upload", content);
+    }
 }
@@ -52,7 +52,7 @@ public class CNABParserServiceTests
     public void ParseContent_InvalidTypeCode_ThrowsCNABParseException()
     {
         // Arrange
-        var content = "0201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       ";
+        var content = "X201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       ";
 
         // Act & Assert
         var action = () => _sut.ParseContent(content);
@@ -60,6 +60,19 @@ public class CNABParserServiceTests
             .WithMessage("*Invalid record type*");
     }
 
+    [Fact]
+    public void ParseContent_TypeCodeOutsideSeededCatalog_IsLeftForTheCatalogToResolve()
+    {
+        // Arrange
+        var content = "0201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       ";
+
+        // Act
+        var result = _sut.ParseContent(content);
+
+        // Assert
+        result.Transactions.Should().ContainSingle().Which.TypeCode.Should().Be(0);
+    }
+
     [Fact]
     public void ValidateFile_ValidFile_ReturnsTrue()
     {
@@ -90,22 +103,79 @@ public class CNABParserServiceTests
     }
 
     [Fact]
-    public void GetTransactionTypeId_ValidCode_ReturnsCorrectGuid()
+    public void CollectIssues_InvalidFields_ReportsEachFieldWithItsColumns()
     {
+        // Arrange - month 13 and a letter in the CPF, after a blank line
+        var invalid = "3" + "20191301" + "0000014200" + "0962067601X" + "4753****3153" + "153453" +
+                      "JOÃO MACEDO   " + "BAR DO JOÃO       ";
+        var trailer = "9" + new string('0', 79);
+        var content = "\n" + invalid + "\n" + trailer;
+
+        // Act
+        var issues = _sut.CollectIssues(content);
+
+        // Assert
+        issues.Should().HaveCount(3);
+        issues[0].Should().BeEquivalentTo(new
+        {
+            Line = 2,
+            ColumnStart = 2,
+            ColumnEnd = 9,
+            Field = "date",
+            Value = "20191301",
+            Expected = "8 digits (YYYYMMDD)",
+            Severity = "error",
+            Message = "Invalid date '20191301'"
+        });
+        issues[1].Should().BeEquivalentTo(new { Line = 2, ColumnStart = 20, ColumnEnd = 30, Field = "cpf", Value = "0962067601X" });
+        issues[2].Should().BeEquivalentTo(new { Line = 3, Field = "type", Severity = "warning" });
+    }
+
+    [Fact]
+    public void CollectIssues_DayPastTheEndOfTheMonth_ReportsTheDate()
+    {
+        // Arrange - 31 February
+        var line = "3" + "20190231" + "0000014200" + "09620676017" + "4753****3153" + "153453" +
+                   "JOÃO MACEDO   " + "BAR DO JOÃO       ";
+
         // Act
-        var result = CNABParserService.GetTransactionTypeId(1);
+        var issues = _sut.CollectIssues(line);
+        var (isValid, _, error) = _sut.ValidateFile(line);
 
         // Assert
-        result.Should().Be(Guid.Parse("11111111-1111-1111-1111-111111111111"));
+        issues.Should().ContainSingle().Which.Should().BeEquivalentTo(new
+        {
+            Line = 1,
+            ColumnStart = 2,
+            ColumnEnd = 9,
+            Field = "date",
+            Value = "20190231",
+            Severity = "error",
+            Message = "Invalid date '20190231'"
+        });
+        isValid.Should().BeFalse();
+        error.Should().Be("Line 1: Invalid date '20190231'");
     }
 
     [Fact]
-    public void GetTransactionTypeName_ValidCode_ReturnsCorrectName()
+    public void CollectIssues_CpfWithWrongCheckDigits_WarnsWithoutRejectingTheFile()
     {
+        // Arrange - 09620676017 with its last check digit changed
+        var line = "3" + "20190301" + "0000014200" + "09620676018" + "4753****3153" + "153453" +
+                   "JOÃO MACEDO   " + "BAR DO JOÃO       ";
+
         // Act
-        var result = CNABParserService.GetTransactionTypeName(1);
+        var issues = _sut.CollectIssues(line);
+        var (isValid, _, _) = _sut.ValidateFile(line);
 
         // Assert
-        result.Should().Be("Debit");
+        issues.Should().ContainSingle().Which.Should().BeEquivalentTo(new
+        {
+            Line = 1,
+            Field = "cpf",
+            Severity = "warning",
+            Message = "CPF ***.***.***-18 has invalid check digits"
+        });
+        isValid.Should().BeTrue();
     }
 }
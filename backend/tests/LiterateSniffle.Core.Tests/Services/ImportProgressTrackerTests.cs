@@ -0,0 +1,110 @@
+using Xunit;
+using FluentAssertions;
+using LiterateSniffle.Core.Models;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.Core.Tests.Services;
+
+public class ImportProgressTrackerTests
+{
+    private readonly ImportProgressTracker _sut;
+
+    public ImportProgressTrackerTests()
+    {
+        _sut = new ImportProgressTracker();
+    }
+
+    [Fact]
+    public void Report_ManyLines_PassesOnAboutOneEventPerPercent()
+    {
+        // Arrange
+        var progress = _sut.Start("throttled");
+
+        // Act
+        for (var line = 1; line <= 1000; line++)
+        {
+            progress.Report(ImportPhase.Parsing, line, 1000);
+        }
+        _sut.Complete("throttled", Guid.NewGuid(), "big.txt", 1000, 0);
+
+        // Assert - the first line, every tenth line after it and the last one
+        var events = ReadAll(_sut.Subscribe("throttled"));
+        var parsing = events.Where(e => e.Phase == ImportPhase.Parsing).ToList();
+        parsing.Should().HaveCount(101);
+        parsing.Last().Current.Should().Be(1000);
+        events.Last().Kind.Should().Be(ImportProgressKind.Completed);
+    }
+
+    [Fact]
+    public void Subscribe_BeforeAndAfterEvents_ReceivesEverythingInOrder()
+    {
+        // Arrange
+        using var early = _sut.Subscribe("replayed");
+        var progress = _sut.Start("replayed");
+
+        // Act
+        progress.Report(ImportPhase.Validating, 0, 2);
+        progress.Warning(2, "Line 2: trailer record (type 9) skipped");
+        _sut.Fail("replayed", "Invalid record length");
+
+        // Assert
+        var expected = new[] { ImportProgressKind.Progress, ImportProgressKind.Warning, ImportProgressKind.Failed };
+        ReadAll(early).Select(e => e.Kind).Should().Equal(expected);
+        ReadAll(_sut.Subscribe("replayed")).Select(e => e.Kind).Should().Equal(expected);
+    }
+
+    [Fact]
+    public void SubscribeToCompletions_ReceivesCompletedEventsOfEveryUpload()
+    {
+        // Arrange
+        using var completions = _sut.SubscribeToCompletions();
+        var fileUploadId = Guid.NewGuid();
+
+        // Act
+        _sut.Start("first").Report(ImportPhase.Parsing, 1, 1);
+        _sut.Complete("first", fileUploadId, "first.txt", 3, 1);
+        _sut.Fail("second", "Chunk 0 not found");
+
+        // Assert
+        completions.Reader.TryRead(out var completed).Should().BeTrue();
+        completed!.FileUploadId.Should().Be(fileUploadId);
+        completed.TransactionsCount.Should().Be(3);
+        completed.SkippedCount.Should().Be(1);
+        completions.Reader.TryRead(out _).Should().BeFalse();
+    }
+
+    [Fact]
+    public void AnnounceCompleted_TellsCompletionSubscribersWithoutTrackingTheUpload()
+    {
+        // Arrange
+        using var completions = _sut.SubscribeToCompletions();
+        var fileUploadId = Guid.NewGuid();
+
+        // Act
+        _sut.AnnounceCompleted(fileUploadId, "single.txt", 2, 0);
+
+        // Assert
+        completions.Reader.TryRead(out var completed).Should().BeTrue();
+        completed!.FileUploadId.Should().Be(fileUploadId);
+        completed.Kind.Should().Be(ImportProgressKind.Completed);
+
+        using var upload = _sut.Subscribe(fileUploadId.ToString());
+        upload.Reader.TryRead(out _).Should().BeFalse();
+        upload.Reader.Completion.IsCompleted.Should().BeFalse();
+    }
+
+    private static List<ImportProgressEvent> ReadAll(ImportProgressSubscription subscription)
+    {
+        using (subscription)
+        {
+            var events = new List<ImportProgressEvent>();
+            while (subscription.Reader.TryRead(out var progressEvent))
+            {
+                events.Add(progressEvent);
+            }
+
+            subscription.Reader.Completion.IsCompleted.Should().BeTrue();
+            return events;
+        }
+    }
+}
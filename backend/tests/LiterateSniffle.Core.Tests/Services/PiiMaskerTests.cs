@@ -0,0 +1,32 @@
+using Xunit;
+using FluentAssertions;
+using LiterateSniffle.Core.Services;
+
+namespace LiterateSniffle.Core.Tests.Services;
+
+public class PiiMaskerTests
+{
+    [Fact]
+    public void MaskCpf_KeepsOnlyTheCheckDigits()
+    {
+        PiiMasker.MaskCpf("09620676017").Should().Be("***.***.***-17");
+    }
+
+    [Fact]
+    public void MaskCard_KeepsOnlyTheLastFourCharacters()
+    {
+        PiiMasker.MaskCard("4753****3153").Should().Be("********3153");
+    }
+
+    [Theory]
+    [InlineData("09620676017", true)]
+    [InlineData("55641815063", true)]
+    [InlineData("09620676018", false)]
+    [InlineData("11111111111", false)]
+    [InlineData("0962067601", false)]
+    [InlineData("0962067601X", false)]
+    public void IsValidCpf_ChecksBothCheckDigits(string cpf, bool expected)
+    {
+        PiiMasker.IsValidCpf(cpf).Should().Be(expected);
+    }
+}
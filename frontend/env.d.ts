@@ -1 +1,8 @@
-/// <reference types="vite/client" />
\ No newline at end of file
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OIDC_ISSUER?: string
+  readonly VITE_OIDC_CLIENT_ID?: string
+  readonly VITE_OIDC_SCOPE?: string
+  readonly VITE_OIDC_ROLES_CLAIM?: string
+}
@@ -0,0 +1,222 @@
+// Service worker: keeps the app shell and the last balances available offline,
+// and uploads files that were queued without a connection once it returns.
+// Plain JavaScript served from public/, so it shares names with src/ by convention:
+// the cache names and header match src/utils/service-worker.ts, the database
+// matches src/utils/pending-uploads.ts.
+
+const SHELL_CACHE = 'literate-sniffle-shell-v1'
+const API_CACHE = 'literate-sniffle-api-v1'
+const CACHED_AT_HEADER = 'X-Cached-At'
+const UPLOAD_SYNC_TAG = 'pending-uploads'
+
+const SHELL_FILES = ['/index.html', '/manifest.webmanifest', '/icon.svg']
+
+// Read-only endpoints whose last answer is worth showing offline
+const CACHED_API_PATHS = [
+  /^\/api\/stores\/summary$/,
+  /^\/api\/stores\/[^/]+$/,
+  /^\/api\/stores\/[^/]+\/uploads$/,
+  /^\/api\/transactions\/store\/[^/]+$/
+]
+
+const DB_NAME = 'literate-sniffle'
+const DB_VERSION = 1
+const UPLOAD_STORE = 'pendingUploads'
+
+// How long an open tab gets to say whether it uploads the queue itself
+const CLIENT_REPLY_TIMEOUT_MS = 1000
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names
+        .filter(name => name.startsWith('literate-sniffle-') && name !== SHELL_CACHE && name !== API_CACHE)
+        .map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Keep a copy stamped with the time it was fetched, so the page can tell it is stale
+const stamped = async response => {
+  const headers = new Headers(response.headers)
+  headers.set(CACHED_AT_HEADER, new Date().toISOString())
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  })
+}
+
+const networkFirst = async (request, cacheName, cacheKey = request) => {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const copy = cacheName === API_CACHE ? await stamped(response.clone()) : response.clone()
+      await cache.put(cacheKey, copy)
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(cacheKey)
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Built assets have a content hash in their name, so a cached copy never goes stale
+const cacheFirst = async request => {
+  const cache = await caches.open(SHELL_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (url.pathname.startsWith('/api/')) {
+    // Everything else, the event streams included, goes straight to the network
+    if (CACHED_API_PATHS.some(path => path.test(url.pathname))) {
+      event.respondWith(networkFirst(request, API_CACHE))
+    }
+    return
+  }
+
+  if (request.mode === 'navigate') {
+    // Every route is the same single page
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'))
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(networkFirst(request, SHELL_CACHE))
+  }
+})
+
+const requestResult = request => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(UPLOAD_STORE)) {
+      request.result.createObjectStore(UPLOAD_STORE, { keyPath: 'uploadId' })
+    }
+  }
+  return requestResult(request)
+}
+
+const withUploadStore = async (mode, operation) => {
+  const db = await openDatabase()
+  try {
+    return await requestResult(operation(db.transaction(UPLOAD_STORE, mode).objectStore(UPLOAD_STORE)))
+  } finally {
+    db.close()
+  }
+}
+
+// Ask the open tabs first: a tab on the upload screen uploads the queue itself and
+// shows the progress; any other signed-in tab hands over its access token
+const askClients = async () => {
+  const windows = await self.clients.matchAll({ type: 'window' })
+  const replies = await Promise.all(windows.map(client => new Promise(resolve => {
+    const channel = new MessageChannel()
+    const timer = setTimeout(() => resolve(null), CLIENT_REPLY_TIMEOUT_MS)
+    channel.port1.onmessage = event => {
+      clearTimeout(timer)
+      resolve(event.data)
+    }
+    client.postMessage({ type: 'sync-uploads' }, [channel.port2])
+  })))
+  return {
+    handled: replies.some(reply => reply && reply.handled),
+    accessToken: replies.map(reply => reply && reply.accessToken).find(Boolean) || null
+  }
+}
+
+class UnauthorizedError extends Error {}
+
+const post = async (url, body, accessToken) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    body,
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+  })
+  if (response.status === 401 || response.status === 403) throw new UnauthorizedError(url)
+  return response
+}
+
+const sendUpload = async (upload, accessToken) => {
+  for (let index = 0; index < upload.totalChunks; index++) {
+    if (upload.uploadedChunks.includes(index)) continue
+
+    const form = new FormData()
+    const start = index * upload.chunkSize
+    form.append('chunk', new Blob([upload.data.slice(start, start + upload.chunkSize)]))
+    form.append('uploadId', upload.uploadId)
+    form.append('chunkIndex', String(index))
+    form.append('totalChunks', String(upload.totalChunks))
+    form.append('fileName', upload.fileName)
+
+    const response = await post('/api/upload/chunk', form, accessToken)
+    if (!response.ok) throw new Error(`Chunk ${index} of ${upload.originalName} failed with ${response.status}`)
+
+    upload.uploadedChunks.push(index)
+    upload.timestamp = Date.now()
+    await withUploadStore('readwrite', store => store.put(upload))
+  }
+
+  const form = new FormData()
+  form.append('uploadId', upload.uploadId)
+  form.append('filename', upload.fileName)
+  form.append('totalChunks', String(upload.totalChunks))
+  if (upload.duplicates) form.append('duplicates', upload.duplicates)
+
+  const response = await post('/api/upload/complete', form, accessToken)
+  // Like the upload screen: once the server has answered, its chunks are gone either way
+  if (response.ok || response.status < 500) {
+    await withUploadStore('readwrite', store => store.delete(upload.uploadId))
+    return
+  }
+  throw new Error(`Completing ${upload.originalName} failed with ${response.status}`)
+}
+
+const drainUploads = async () => {
+  const { handled, accessToken } = await askClients()
+  if (handled) return
+
+  const uploads = await withUploadStore('readonly', store => store.getAll())
+  // Files queued offline before their duplicate check wait for the upload screen, which
+  // asks the user what to do with transactions already imported
+  const queued = uploads
+    .filter(upload => upload.autoResume && upload.duplicates)
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  try {
+    for (const upload of queued) {
+      await sendUpload(upload, accessToken)
+    }
+  } catch (error) {
+    // Without a valid session retrying won't help; the app resumes the queue after sign-in
+    if (error instanceof UnauthorizedError) return
+    // Anything else fails the sync so the browser tries again later
+    throw error
+  }
+}
+
+self.addEventListener('sync', event => {
+  if (event.tag === UPLOAD_SYNC_TAG) event.waitUntil(drainUploads())
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { subscribeToImportCompletions, subscribeToImportProgress } from '../events'
+import { setAccessTokenProvider } from '../http'
+
+// jsdom has no EventSource; this stand-in records listeners so tests can push events
+class FakeEventSource {
+  static instances: FakeEventSource[] = []
+
+  readonly listeners = new Map<string, (message: MessageEvent<string>) => void>()
+  closed = false
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this)
+  }
+
+  addEventListener(name: string, listener: (message: MessageEvent<string>) => void) {
+    this.listeners.set(name, listener)
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  emit(name: string, data: unknown) {
+    this.listeners.get(name)?.({ data: JSON.stringify(data) } as MessageEvent<string>)
+  }
+}
+
+const progressEvent = (kind: string, extra: Record<string, unknown> = {}) => ({
+  uploadId: 'upload 1',
+  kind,
+  current: 0,
+  total: 0,
+  timestamp: '2024-03-01T12:00:00Z',
+  ...extra,
+})
+
+describe('api/events', () => {
+  afterEach(() => {
+    FakeEventSource.instances = []
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should pass on validated progress events and close after the last one', () => {
+    vi.stubGlobal('EventSource', FakeEventSource)
+    const onEvent = vi.fn()
+
+    subscribeToImportProgress('upload 1', onEvent)
+    const [source] = FakeEventSource.instances
+    source.emit('progress', progressEvent('progress', { phase: 'parsing', current: 3, total: 10 }))
+    source.emit('completed', progressEvent('completed', { fileUploadId: 'file-1', transactionsCount: 10 }))
+
+    expect(source.url).toBe('/api/upload/upload%201/progress')
+    expect(onEvent).toHaveBeenCalledTimes(2)
+    expect(onEvent.mock.calls[0][0]).toMatchObject({ phase: 'parsing', current: 3, total: 10 })
+    expect(source.closed).toBe(true)
+  })
+
+  it('should ignore events that do not match the contract', () => {
+    vi.stubGlobal('EventSource', FakeEventSource)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const onEvent = vi.fn()
+
+    const close = subscribeToImportCompletions(onEvent)
+    const [source] = FakeEventSource.instances
+    source.emit('completed', { kind: 'completed' })
+    source.emit('completed', progressEvent('completed'))
+
+    expect(source.url).toBe('/api/upload/events')
+    expect(onEvent).toHaveBeenCalledTimes(1)
+    expect(source.closed).toBe(false)
+
+    close()
+    expect(source.closed).toBe(true)
+  })
+
+  it('should pass the access token in the query string', () => {
+    vi.stubGlobal('EventSource', FakeEventSource)
+    setAccessTokenProvider(() => 'a.b+c')
+
+    subscribeToImportCompletions(vi.fn())
+    setAccessTokenProvider(() => null)
+
+    expect(FakeEventSource.instances[0].url).toBe('/api/upload/events?access_token=a.b%2Bc')
+  })
+
+  it('should do nothing where EventSource is not available', () => {
+    vi.stubGlobal('EventSource', undefined)
+
+    const close = subscribeToImportProgress('upload-1', vi.fn())
+
+    expect(FakeEventSource.instances).toHaveLength(0)
+    expect(() => close()).not.toThrow()
+  })
+})
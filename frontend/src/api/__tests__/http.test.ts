@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ApiError, request, setAccessTokenProvider, setUnauthorizedHandler } from '../http'
+import { object, string } from '../schema'
+import { fetchStoreTransactions } from '../transactions'
+
+const messageSchema = object<{ message: string }>({ message: string })
+
+const jsonResponse = (body: unknown, init: { status?: number; statusText?: string } = {}) => ({
+  ok: (init.status ?? 200) < 400,
+  status: init.status ?? 200,
+  statusText: init.statusText ?? 'OK',
+  json: async () => body,
+})
+
+describe('api/http', () => {
+  let mockFetch: any
+
+  beforeEach(() => {
+    mockFetch = vi.fn()
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return the validated response body', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'ok', extra: true }))
+
+    const result = await request('/api/test', { schema: messageSchema })
+
+    expect(result).toEqual({ message: 'ok' })
+  })
+
+  it('should keep the backend error body on HTTP errors', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ error: 'Validation failed', details: 'Line 3: Invalid date' }, { status: 400, statusText: 'Bad Request' })
+    )
+
+    const error = await request('/api/test', { schema: messageSchema }).catch(err => err)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({
+      kind: 'http',
+      status: 400,
+      error: 'Validation failed',
+      details: 'Line 3: Invalid date',
+      isValidationError: true,
+    })
+  })
+
+  it('should keep the line-level issues of a rejected file', async () => {
+    const issue = {
+      line: 2,
+      columnStart: 20,
+      columnEnd: 30,
+      field: 'cpf',
+      value: '0962067601X',
+      expected: '11 digits',
+      severity: 'error',
+      message: "Invalid CPF format '0962067601X', expected 11 digits",
+    }
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ error: 'Invalid CPF', issues: [issue, { line: 'three' }] }, { status: 400 })
+    )
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Invalid CPF', issues: [issue] }, { status: 400 }))
+
+    const malformed = await request('/api/test', { schema: messageSchema }).catch(err => err)
+    const error = await request('/api/test', { schema: messageSchema }).catch(err => err)
+
+    // A malformed report is dropped, the error itself is kept
+    expect(malformed).toMatchObject({ error: 'Invalid CPF', issues: [] })
+    expect(error.issues).toEqual([issue])
+  })
+
+  it('should reject responses that do not match the schema', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 42 }))
+
+    const error = await request('/api/test', { schema: messageSchema }).catch(err => err)
+
+    expect(error).toMatchObject({ kind: 'invalid-response' })
+    expect(error.message).toContain('$.message')
+  })
+
+  it('should retry transient failures with backoff', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse({ error: 'boom' }, { status: 503 }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'ok' }))
+
+    const result = await request('/api/test', { schema: messageSchema, retries: 2, retryDelayMs: 1 })
+
+    expect(result).toEqual({ message: 'ok' })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Not found' }, { status: 404 }))
+
+    await expect(request('/api/test', { schema: messageSchema, retries: 2, retryDelayMs: 1 }))
+      .rejects.toMatchObject({ kind: 'http', status: 404 })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should abort requests that exceed the timeout', async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    }))
+
+    await expect(request('/api/test', { schema: messageSchema, timeoutMs: 5 }))
+      .rejects.toMatchObject({ kind: 'timeout' })
+  })
+
+  it('should report caller aborts without retrying', async () => {
+    const controller = new AbortController()
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    }))
+
+    const pending = request('/api/test', { schema: messageSchema, signal: controller.signal, retries: 2 })
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ kind: 'aborted' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not send a request whose signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(request('/api/test', { schema: messageSchema, signal: controller.signal, retries: 2 }))
+      .rejects.toMatchObject({ kind: 'aborted' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should release the abort listener after each retry delay', async () => {
+    const controller = new AbortController()
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener')
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ error: 'boom' }, { status: 503 }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'boom' }, { status: 503 }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'ok' }))
+
+    await request('/api/test', { schema: messageSchema, signal: controller.signal, retries: 2, retryDelayMs: 1 })
+
+    // One per attempt and one per delay
+    expect(removeListener).toHaveBeenCalledTimes(5)
+  })
+
+  it('should report answers the service worker served from its offline cache', async () => {
+    const onStale = vi.fn()
+    mockFetch
+      .mockResolvedValueOnce({ ...jsonResponse({ message: 'cached' }), headers: new Headers({ 'X-Cached-At': '2024-04-01T12:00:00.000Z' }) })
+      .mockResolvedValueOnce({ ...jsonResponse({ message: 'fresh' }), headers: new Headers() })
+
+    await request('/api/test', { schema: messageSchema, onStale })
+    await request('/api/test', { schema: messageSchema, onStale })
+
+    expect(onStale).toHaveBeenCalledTimes(1)
+    expect(onStale).toHaveBeenCalledWith('2024-04-01T12:00:00.000Z')
+  })
+
+  it('should validate store transactions against the contract', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      transactions: [{
+        id: 't1',
+        typeId: 'type-3',
+        type: 'Financing',
+        datetime: '2019-03-01T15:34:53',
+        value: 142,
+        cpf: '09620676017',
+        card: '4753****3153',
+        storeId: 's1',
+        fileUploadId: 'f1',
+        transactionType: { id: 'type-3', code: 3, name: 'Financing', nature: 'Expense' },
+      }],
+    }))
+
+    const transactions = await fetchStoreTransactions('s1')
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/transactions/store/s1', expect.objectContaining({ method: 'GET' }))
+    expect(transactions[0].transactionType?.nature).toBe('Expense')
+  })
+
+  describe('access token', () => {
+    afterEach(() => {
+      setAccessTokenProvider(() => null)
+      setUnauthorizedHandler(() => {})
+    })
+
+    it('should send the bearer token to the backend only', async () => {
+      setAccessTokenProvider(() => 'token-1')
+      mockFetch.mockResolvedValue(jsonResponse({ message: 'ok' }))
+
+      await request('/api/test', { schema: messageSchema, headers: { 'Content-Type': 'application/json' } })
+      await request('https://issuer.example/token', { schema: messageSchema })
+
+      const headers = new Headers(mockFetch.mock.calls[0][1].headers)
+      expect(headers.get('Authorization')).toBe('Bearer token-1')
+      expect(headers.get('Content-Type')).toBe('application/json')
+      expect(mockFetch.mock.calls[1][1].headers).toBeUndefined()
+    })
+
+    it('should report a rejected token before failing the request', async () => {
+      const onUnauthorized = vi.fn()
+      setUnauthorizedHandler(onUnauthorized)
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 401, statusText: 'Unauthorized' }))
+
+      const error = await request('/api/test', { schema: messageSchema, retries: 2 }).catch(err => err)
+
+      expect(onUnauthorized).toHaveBeenCalledTimes(1)
+      expect(error).toMatchObject({ kind: 'http', status: 401 })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+})
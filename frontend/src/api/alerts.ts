@@ -0,0 +1,105 @@
+import { request, type FetchOptions } from './http'
+import {
+  alertNotificationListResponseSchema,
+  alertNotificationSchema,
+  alertRuleListResponseSchema,
+  alertRuleSchema,
+  markAllReadResponseSchema,
+  type AlertNotification,
+  type AlertNotificationListResponse,
+  type AlertRule,
+  type AlertRuleRequest,
+  type MarkAllReadResponse
+} from './contracts'
+
+/**
+ * GET /api/alerts/rules
+ */
+export const fetchAlertRules = async (options: FetchOptions = {}): Promise<AlertRule[]> => {
+  const response = await request('/api/alerts/rules', {
+    schema: alertRuleListResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+  return response.rules
+}
+
+/**
+ * POST /api/alerts/rules
+ */
+export const createAlertRule = async (rule: AlertRuleRequest, options: FetchOptions = {}): Promise<AlertRule> => {
+  return request('/api/alerts/rules', {
+    method: 'POST',
+    body: JSON.stringify(rule),
+    headers: { 'Content-Type': 'application/json' },
+    schema: alertRuleSchema,
+    signal: options.signal
+  })
+}
+
+/**
+ * PUT /api/alerts/rules/{ruleId}
+ */
+export const updateAlertRule = async (
+  ruleId: string,
+  rule: AlertRuleRequest,
+  options: FetchOptions = {}
+): Promise<AlertRule> => {
+  return request(`/api/alerts/rules/${encodeURIComponent(ruleId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(rule),
+    headers: { 'Content-Type': 'application/json' },
+    schema: alertRuleSchema,
+    signal: options.signal
+  })
+}
+
+/**
+ * DELETE /api/alerts/rules/{ruleId}. Notifications the rule raised are kept.
+ */
+export const deleteAlertRule = async (ruleId: string, options: FetchOptions = {}): Promise<AlertRule> => {
+  return request(`/api/alerts/rules/${encodeURIComponent(ruleId)}`, {
+    method: 'DELETE',
+    schema: alertRuleSchema,
+    signal: options.signal
+  })
+}
+
+/**
+ * GET /api/alerts/notifications?unreadOnly=
+ */
+export const fetchNotifications = async (
+  unreadOnly = false,
+  options: FetchOptions = {}
+): Promise<AlertNotificationListResponse> => {
+  return request(`/api/alerts/notifications${unreadOnly ? '?unreadOnly=true' : ''}`, {
+    schema: alertNotificationListResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * POST /api/alerts/notifications/{notificationId}/read
+ */
+export const markNotificationRead = async (
+  notificationId: string,
+  options: FetchOptions = {}
+): Promise<AlertNotification> => {
+  return request(`/api/alerts/notifications/${encodeURIComponent(notificationId)}/read`, {
+    method: 'POST',
+    schema: alertNotificationSchema,
+    signal: options.signal
+  })
+}
+
+/**
+ * POST /api/alerts/notifications/read-all
+ */
+export const markAllNotificationsRead = async (options: FetchOptions = {}): Promise<MarkAllReadResponse> => {
+  return request('/api/alerts/notifications/read-all', {
+    method: 'POST',
+    schema: markAllReadResponseSchema,
+    signal: options.signal
+  })
+}
@@ -0,0 +1,51 @@
+import { request, type FetchOptions } from './http'
+import {
+  oidcConfigurationSchema,
+  oidcTokenResponseSchema,
+  type OidcConfiguration,
+  type OidcTokenResponse
+} from './contracts'
+
+export interface AuthorizationCodeExchange {
+  tokenEndpoint: string
+  clientId: string
+  code: string
+  codeVerifier: string
+  redirectUri: string
+}
+
+/**
+ * GET {issuer}/.well-known/openid-configuration
+ */
+export const fetchOidcConfiguration = async (
+  issuer: string,
+  options: FetchOptions = {}
+): Promise<OidcConfiguration> => {
+  return request(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, {
+    schema: oidcConfigurationSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * POST {token_endpoint}. Redeems the authorization code of a PKCE login;
+ * a code can only be used once, so it is not retried.
+ */
+export const exchangeAuthorizationCode = async (
+  exchange: AuthorizationCodeExchange,
+  options: FetchOptions = {}
+): Promise<OidcTokenResponse> => {
+  return request(exchange.tokenEndpoint, {
+    method: 'POST',
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      client_id: exchange.clientId,
+      code: exchange.code,
+      code_verifier: exchange.codeVerifier,
+      redirect_uri: exchange.redirectUri
+    }),
+    schema: oidcTokenResponseSchema,
+    signal: options.signal
+  })
+}
@@ -0,0 +1,637 @@
+import { array, boolean, number, object, oneOf, optional, string } from './schema'
+
+// Request and response contracts of the backend API. Property names follow
+// the camelCase JSON produced by the ASP.NET Core serializer.
+
+export interface StoreSummary {
+  storeId: string
+  ownerName: string
+  storeName: string
+  // Head store this one is grouped under as a branch
+  parentStoreId?: string
+  transactionCount: number
+  totalIncome: number
+  totalExpense: number
+  balance: number
+}
+
+export interface StoreSummaryResponse {
+  stores: StoreSummary[]
+}
+
+// An uploaded file that contributed to one store
+export interface StoreUpload {
+  fileUploadId: string
+  originalName: string
+  format: string
+  uploadedAt: string
+  // This store's transactions in the file, not the file's total
+  transactionCount: number
+}
+
+export interface StoreUploadListResponse {
+  uploads: StoreUpload[]
+}
+
+export interface ApiTransactionType {
+  id: string
+  code: number
+  name: string
+  nature: string
+  description?: string
+  // #rrggbb
+  color?: string
+}
+
+export interface TransactionTypeListResponse {
+  transactionTypes: ApiTransactionType[]
+}
+
+// Body of PUT /api/transaction-types/{code}
+export interface TransactionTypeRequest {
+  name: string
+  nature: string
+  description?: string
+  color?: string
+}
+
+export interface ApiStore {
+  id: string
+  ownerName: string
+  name: string
+}
+
+export interface ApiFileUpload {
+  id: string
+  filename: string
+  originalName: string
+  size: number
+  format: string
+  uploadedAt: string
+}
+
+export interface ApiTransaction {
+  id: string
+  typeId: string
+  type: string
+  // ISO date-time without offset, as stored in the CNAB file
+  datetime: string
+  value: number
+  // Masked by the server, e.g. ***.***.***-17; see revealTransaction
+  cpf: string
+  card: string
+  storeId: string
+  fileUploadId: string
+  transactionType?: ApiTransactionType
+  store?: ApiStore
+  fileUpload?: ApiFileUpload
+}
+
+export interface PiiRevealRequest {
+  // Ignored by the server, which records the name and role from the token
+  revealedBy: string
+  role: string
+  // Kept in the audit trail with the name and role
+  reason: string
+}
+
+export interface PiiRevealResponse {
+  transactionId: string
+  cpf: string
+  card: string
+}
+
+export interface TransactionListResponse {
+  transactions: ApiTransaction[]
+}
+
+export interface TransactionPageResponse {
+  transactions: ApiTransaction[]
+  totalCount: number
+  page: number
+  pageSize: number
+}
+
+export interface UploadChunkRequest {
+  uploadId: string
+  chunkIndex: number
+  totalChunks: number
+  fileName: string
+  chunk: Blob
+}
+
+export interface UploadChunkResponse {
+  message: string
+  chunkIndex: number
+}
+
+// import stores every transaction, skip leaves out those already stored
+export type DuplicateHandling = 'import' | 'skip'
+
+export interface CompleteUploadRequest {
+  uploadId: string
+  filename: string
+  totalChunks: number
+  duplicates?: DuplicateHandling
+}
+
+export interface CompleteUploadResponse {
+  message: string
+  filename: string
+  originalName: string
+  size: number
+  format?: string
+  transactionsCount: number
+  // Duplicates left out when the upload used duplicates=skip
+  skippedCount?: number
+  fileUploadId: string
+}
+
+export interface DuplicateCheckLine {
+  line: number
+  type: number
+  // CNAB local time, no offset
+  datetime: string
+  value: number
+  cpf: string
+  card: string
+  storeOwner: string
+  storeName: string
+}
+
+export interface DuplicateCheckRequest {
+  // Hex-encoded SHA-256 of the raw file
+  contentHash: string
+  transactions: DuplicateCheckLine[]
+}
+
+export interface DuplicateFileMatch {
+  id: string
+  originalName: string
+  uploadedAt: string
+}
+
+export interface DuplicateCheckResponse {
+  duplicateFiles: DuplicateFileMatch[]
+  duplicateLines: number[]
+  checkedCount: number
+}
+
+export interface FileUploadStoreSummary {
+  storeId: string
+  ownerName: string
+  storeName: string
+  transactionCount: number
+}
+
+export interface FileUploadSummary {
+  id: string
+  filename: string
+  originalName: string
+  size: number
+  format: string
+  uploadedAt: string
+  transactionCount: number
+  stores: FileUploadStoreSummary[]
+  // Set once the import was reverted; its transactions and stores are then gone
+  revertedAt?: string
+  revertedBy?: string
+  revertedTransactionCount?: number
+}
+
+export interface UploadHistoryResponse {
+  uploads: FileUploadSummary[]
+}
+
+// Server-side import steps after the last chunk, reported over Server-Sent Events
+export type ImportPhase = 'assembling' | 'validating' | 'parsing' | 'persisting'
+
+// Also the SSE event name
+export type ImportProgressKind = 'progress' | 'warning' | 'completed' | 'failed'
+
+export interface ImportProgressEvent {
+  uploadId: string
+  kind: ImportProgressKind
+  phase?: ImportPhase
+  // Chunks assembled, lines parsed or rows written so far
+  current: number
+  total: number
+  // 1-based line a warning refers to
+  line?: number
+  message?: string
+  // Set on completed events
+  fileUploadId?: string
+  originalName?: string
+  transactionsCount?: number
+  skippedCount?: number
+  timestamp: string
+}
+
+export type ValidationSeverity = 'error' | 'warning'
+
+// One problem in an uploaded file, sent with a 400 response when validation fails
+export interface ValidationIssue {
+  // Line number in the original file, counting blank lines
+  line: number
+  // 1-based, inclusive column range of the offending text
+  columnStart: number
+  columnEnd: number
+  // CNAB field name, or 'line' when the whole record is wrong
+  field: string
+  value: string
+  expected: string
+  severity: ValidationSeverity
+  message: string
+}
+
+export interface RevertImportRequest {
+  revertedBy: string
+}
+
+export interface RevertStoreImpact {
+  storeId: string
+  ownerName: string
+  storeName: string
+  // Transactions of this store that came from the file
+  transactionCount: number
+  incomeRemoved: number
+  expenseRemoved: number
+  currentBalance: number
+  balanceChange: number
+  balanceAfter: number
+  // The store has no other transactions and is deleted with the import
+  storeRemoved: boolean
+}
+
+export interface RevertPreview {
+  fileUploadId: string
+  originalName: string
+  uploadedAt: string
+  transactionCount: number
+  stores: RevertStoreImpact[]
+}
+
+export type StoreChangeAction = 'merge' | 'rename' | 'split' | 'group' | 'ungroup'
+
+// Fields of every store change request; changedBy is replaced by the token's name when login is enabled
+export interface StoreChangeRequest {
+  changedBy: string
+}
+
+// Body of POST /api/stores/{storeId}/merge
+export interface MergeStoresRequest extends StoreChangeRequest {
+  sourceStoreIds: string[]
+}
+
+// Body of PUT /api/stores/{storeId}/name
+export interface RenameStoreRequest extends StoreChangeRequest {
+  ownerName: string
+  name: string
+}
+
+// Body of POST /api/stores/{storeId}/split; ownerName and name are those of the new store
+export interface SplitStoreRequest extends StoreChangeRequest {
+  fileUploadIds: string[]
+  ownerName: string
+  name: string
+}
+
+// Body of PUT /api/stores/{storeId}/parent; null makes the store stand alone again
+export interface StoreParentRequest extends StoreChangeRequest {
+  parentStoreId: string | null
+}
+
+export interface StoreChangeRecord {
+  id: string
+  action: StoreChangeAction
+  storeId: string
+  description: string
+  // Transactions moved to another store
+  transactionCount: number
+  changedBy: string
+  changedAt: string
+}
+
+export interface StoreChangeListResponse {
+  changes: StoreChangeRecord[]
+}
+
+export type AlertRuleKind = 'balance-below' | 'transaction-above' | 'daily-volume' | 'unknown-type'
+
+export interface AlertRuleRequest {
+  name: string
+  kind: AlertRuleKind
+  // Balance or transaction value, or the multiple of the trailing daily average
+  // for daily-volume; left out for unknown-type
+  threshold?: number
+  // Left out to watch every store
+  storeId?: string
+  enabled: boolean
+}
+
+export interface AlertRule extends AlertRuleRequest {
+  id: string
+  storeName?: string
+  createdAt: string
+}
+
+export interface AlertRuleListResponse {
+  rules: AlertRule[]
+}
+
+export interface AlertNotification {
+  id: string
+  ruleId: string
+  ruleName: string
+  kind: AlertRuleKind
+  storeId?: string
+  storeName?: string
+  // Missing when the import was rejected
+  fileUploadId?: string
+  message: string
+  value?: number
+  threshold?: number
+  triggeredAt: string
+  readAt?: string
+}
+
+export interface AlertNotificationListResponse {
+  notifications: AlertNotification[]
+  unreadCount: number
+}
+
+export interface MarkAllReadResponse {
+  count: number
+}
+
+// Documents of the OIDC issuer rather than of the backend; the issuer uses snake_case
+
+export interface OidcConfiguration {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  end_session_endpoint?: string
+}
+
+export interface OidcTokenResponse {
+  access_token: string
+  id_token?: string
+  token_type: string
+  expires_in?: number
+}
+
+export const storeSummarySchema = object<StoreSummary>({
+  storeId: string,
+  ownerName: string,
+  storeName: string,
+  parentStoreId: optional(string),
+  transactionCount: number,
+  totalIncome: number,
+  totalExpense: number,
+  balance: number
+})
+
+export const storeSummaryResponseSchema = object<StoreSummaryResponse>({
+  stores: array(storeSummarySchema)
+})
+
+export const storeUploadSchema = object<StoreUpload>({
+  fileUploadId: string,
+  originalName: string,
+  format: string,
+  uploadedAt: string,
+  transactionCount: number
+})
+
+export const storeUploadListResponseSchema = object<StoreUploadListResponse>({
+  uploads: array(storeUploadSchema)
+})
+
+export const transactionTypeSchema = object<ApiTransactionType>({
+  id: string,
+  code: number,
+  name: string,
+  nature: string,
+  description: optional(string),
+  color: optional(string)
+})
+
+export const transactionTypeListResponseSchema = object<TransactionTypeListResponse>({
+  transactionTypes: array(transactionTypeSchema)
+})
+
+export const storeSchema = object<ApiStore>({
+  id: string,
+  ownerName: string,
+  name: string
+})
+
+export const fileUploadSchema = object<ApiFileUpload>({
+  id: string,
+  filename: string,
+  originalName: string,
+  size: number,
+  format: string,
+  uploadedAt: string
+})
+
+export const transactionSchema = object<ApiTransaction>({
+  id: string,
+  typeId: string,
+  type: string,
+  datetime: string,
+  value: number,
+  cpf: string,
+  card: string,
+  storeId: string,
+  fileUploadId: string,
+  transactionType: optional(transactionTypeSchema),
+  store: optional(storeSchema),
+  fileUpload: optional(fileUploadSchema)
+})
+
+export const piiRevealResponseSchema = object<PiiRevealResponse>({
+  transactionId: string,
+  cpf: string,
+  card: string
+})
+
+export const transactionListResponseSchema = object<TransactionListResponse>({
+  transactions: array(transactionSchema)
+})
+
+export const transactionPageResponseSchema = object<TransactionPageResponse>({
+  transactions: array(transactionSchema),
+  totalCount: number,
+  page: number,
+  pageSize: number
+})
+
+export const uploadChunkResponseSchema = object<UploadChunkResponse>({
+  message: string,
+  chunkIndex: number
+})
+
+export const completeUploadResponseSchema = object<CompleteUploadResponse>({
+  message: string,
+  filename: string,
+  originalName: string,
+  size: number,
+  format: optional(string),
+  transactionsCount: number,
+  skippedCount: optional(number),
+  fileUploadId: string
+})
+
+export const duplicateFileMatchSchema = object<DuplicateFileMatch>({
+  id: string,
+  originalName: string,
+  uploadedAt: string
+})
+
+export const duplicateCheckResponseSchema = object<DuplicateCheckResponse>({
+  duplicateFiles: array(duplicateFileMatchSchema),
+  duplicateLines: array(number),
+  checkedCount: number
+})
+
+export const fileUploadStoreSummarySchema = object<FileUploadStoreSummary>({
+  storeId: string,
+  ownerName: string,
+  storeName: string,
+  transactionCount: number
+})
+
+export const fileUploadSummarySchema = object<FileUploadSummary>({
+  id: string,
+  filename: string,
+  originalName: string,
+  size: number,
+  format: string,
+  uploadedAt: string,
+  transactionCount: number,
+  stores: array(fileUploadStoreSummarySchema),
+  revertedAt: optional(string),
+  revertedBy: optional(string),
+  revertedTransactionCount: optional(number)
+})
+
+export const uploadHistoryResponseSchema = object<UploadHistoryResponse>({
+  uploads: array(fileUploadSummarySchema)
+})
+
+export const importProgressEventSchema = object<ImportProgressEvent>({
+  uploadId: string,
+  kind: oneOf<ImportProgressKind>('progress', 'warning', 'completed', 'failed'),
+  phase: optional(oneOf<ImportPhase>('assembling', 'validating', 'parsing', 'persisting')),
+  current: number,
+  total: number,
+  line: optional(number),
+  message: optional(string),
+  fileUploadId: optional(string),
+  originalName: optional(string),
+  transactionsCount: optional(number),
+  skippedCount: optional(number),
+  timestamp: string
+})
+
+export const validationIssueSchema = object<ValidationIssue>({
+  line: number,
+  columnStart: number,
+  columnEnd: number,
+  field: string,
+  value: string,
+  expected: string,
+  severity: oneOf<ValidationSeverity>('error', 'warning'),
+  message: string
+})
+
+export const revertStoreImpactSchema = object<RevertStoreImpact>({
+  storeId: string,
+  ownerName: string,
+  storeName: string,
+  transactionCount: number,
+  incomeRemoved: number,
+  expenseRemoved: number,
+  currentBalance: number,
+  balanceChange: number,
+  balanceAfter: number,
+  storeRemoved: boolean
+})
+
+export const revertPreviewSchema = object<RevertPreview>({
+  fileUploadId: string,
+  originalName: string,
+  uploadedAt: string,
+  transactionCount: number,
+  stores: array(revertStoreImpactSchema)
+})
+
+export const storeChangeRecordSchema = object<StoreChangeRecord>({
+  id: string,
+  action: oneOf<StoreChangeAction>('merge', 'rename', 'split', 'group', 'ungroup'),
+  storeId: string,
+  description: string,
+  transactionCount: number,
+  changedBy: string,
+  changedAt: string
+})
+
+export const storeChangeListResponseSchema = object<StoreChangeListResponse>({
+  changes: array(storeChangeRecordSchema)
+})
+
+const alertRuleKindSchema = oneOf<AlertRuleKind>('balance-below', 'transaction-above', 'daily-volume', 'unknown-type')
+
+export const alertRuleSchema = object<AlertRule>({
+  id: string,
+  name: string,
+  kind: alertRuleKindSchema,
+  threshold: optional(number),
+  storeId: optional(string),
+  storeName: optional(string),
+  enabled: boolean,
+  createdAt: string
+})
+
+export const alertRuleListResponseSchema = object<AlertRuleListResponse>({
+  rules: array(alertRuleSchema)
+})
+
+export const alertNotificationSchema = object<AlertNotification>({
+  id: string,
+  ruleId: string,
+  ruleName: string,
+  kind: alertRuleKindSchema,
+  storeId: optional(string),
+  storeName: optional(string),
+  fileUploadId: optional(string),
+  message: string,
+  value: optional(number),
+  threshold: optional(number),
+  triggeredAt: string,
+  readAt: optional(string)
+})
+
+export const alertNotificationListResponseSchema = object<AlertNotificationListResponse>({
+  notifications: array(alertNotificationSchema),
+  unreadCount: number
+})
+
+export const markAllReadResponseSchema = object<MarkAllReadResponse>({
+  count: number
+})
+
+export const oidcConfigurationSchema = object<OidcConfiguration>({
+  issuer: string,
+  authorization_endpoint: string,
+  token_endpoint: string,
+  end_session_endpoint: optional(string)
+})
+
+export const oidcTokenResponseSchema = object<OidcTokenResponse>({
+  access_token: string,
+  id_token: optional(string),
+  token_type: string,
+  expires_in: optional(number)
+})
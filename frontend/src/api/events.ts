@@ -0,0 +1,55 @@
+import { importProgressEventSchema, type ImportProgressEvent, type ImportProgressKind } from './contracts'
+import { accessTokenFor } from './http'
+
+// Server-Sent Event streams of the import pipeline. Each subscribe function
+// returns a function that closes the stream.
+
+export type ImportProgressListener = (event: ImportProgressEvent) => void
+
+const EVENT_NAMES: ImportProgressKind[] = ['progress', 'warning', 'completed', 'failed']
+
+const openEventStream = (url: string, onEvent: ImportProgressListener, closeWhenFinished: boolean) => {
+  // Progress is a nice-to-have: without EventSource the upload still completes
+  if (typeof EventSource === 'undefined') return () => {}
+
+  // EventSource cannot send headers, so the token travels in the query string
+  const token = accessTokenFor(url)
+  const source = new EventSource(token ? `${url}?access_token=${encodeURIComponent(token)}` : url)
+
+  const handleMessage = (message: MessageEvent<string>) => {
+    let event: ImportProgressEvent
+    try {
+      event = importProgressEventSchema(JSON.parse(message.data))
+    } catch (err) {
+      console.warn('Ignoring malformed import event:', err)
+      return
+    }
+
+    // The server ends the stream after these; closing keeps EventSource from reconnecting
+    if (closeWhenFinished && (event.kind === 'completed' || event.kind === 'failed')) {
+      source.close()
+    }
+    onEvent(event)
+  }
+
+  for (const name of EVENT_NAMES) {
+    source.addEventListener(name, handleMessage)
+  }
+
+  return () => source.close()
+}
+
+/**
+ * GET /api/upload/{uploadId}/progress. Open it before completing the upload;
+ * events reported earlier are replayed.
+ */
+export const subscribeToImportProgress = (uploadId: string, onEvent: ImportProgressListener): (() => void) => {
+  return openEventStream(`/api/upload/${encodeURIComponent(uploadId)}/progress`, onEvent, true)
+}
+
+/**
+ * GET /api/upload/events. Receives a completed event whenever any import finishes.
+ */
+export const subscribeToImportCompletions = (onCompleted: ImportProgressListener): (() => void) => {
+  return openEventStream('/api/upload/events', onCompleted, false)
+}
@@ -0,0 +1,209 @@
+import { validationIssueSchema, type ValidationIssue } from './contracts'
+import { array, SchemaError, type Validator } from './schema'
+import { CACHED_AT_HEADER } from '@/utils/service-worker'
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'invalid-response'
+
+/**
+ * Error raised by the API client. For HTTP errors it keeps the backend's
+ * `{ error, details, issues }` body so views can show what the server actually said.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ApiErrorKind,
+    public readonly status: number = 0,
+    public readonly error?: string,
+    public readonly details?: string,
+    // Line-level problems of a rejected file
+    public readonly issues: ValidationIssue[] = []
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  get isValidationError(): boolean {
+    return this.kind === 'http' && this.status === 400
+  }
+
+  // Transient failures that are worth another attempt
+  get isRetryable(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true
+    return this.kind === 'http' && (this.status >= 500 || this.status === 408 || this.status === 429)
+  }
+}
+
+export interface FetchOptions {
+  signal?: AbortSignal
+  // Called with the fetch time when the service worker answered from its offline cache
+  onStale?: (cachedAt: string) => void
+}
+
+export interface RequestOptions<T> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  body?: BodyInit
+  headers?: HeadersInit
+  // Validates and types the parsed JSON body
+  schema: Validator<T>
+  signal?: AbortSignal
+  timeoutMs?: number
+  // Extra attempts after the first one; only safe for idempotent requests
+  retries?: number
+  retryDelayMs?: number
+  onStale?: (cachedAt: string) => void
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000
+export const DEFAULT_RETRY_DELAY_MS = 300
+
+// Set by main.ts once the session exists, so the client does not depend on the auth composable
+let accessTokenProvider: () => string | null = () => null
+let unauthorizedHandler: () => void = () => {}
+
+/**
+ * Source of the bearer token sent with every backend request
+ */
+export const setAccessTokenProvider = (provider: () => string | null) => {
+  accessTokenProvider = provider
+}
+
+/**
+ * Called when the backend answers 401, i.e. the token expired or was revoked
+ */
+export const setUnauthorizedHandler = (handler: () => void) => {
+  unauthorizedHandler = handler
+}
+
+// Only the backend gets the token; the OIDC issuer is another origin
+const isApiUrl = (url: string) => url.startsWith('/api/')
+
+/**
+ * Current access token for a backend URL, or null when signed out
+ */
+export const accessTokenFor = (url: string): string | null => {
+  return isApiUrl(url) ? accessTokenProvider() : null
+}
+
+const withAuthorization = (url: string, headers?: HeadersInit): HeadersInit | undefined => {
+  const token = accessTokenFor(url)
+  if (!token) return headers
+  const result = new Headers(headers)
+  result.set('Authorization', `Bearer ${token}`)
+  return result
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new ApiError('Request aborted', 'aborted'))
+    }
+    // Removed once the delay is over, so long-lived signals do not collect one per retry
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const readIssues = (value: unknown): ValidationIssue[] => {
+  try {
+    return value === undefined ? [] : array(validationIssueSchema)(value)
+  } catch {
+    // A malformed report should not hide the error message itself
+    return []
+  }
+}
+
+const readErrorBody = async (
+  response: Response
+): Promise<{ error?: string; details?: string; issues: ValidationIssue[] }> => {
+  try {
+    const body = await response.json()
+    return {
+      error: typeof body?.error === 'string' ? body.error : undefined,
+      details: typeof body?.details === 'string' ? body.details : undefined,
+      issues: readIssues(body?.issues)
+    }
+  } catch {
+    return { issues: [] }
+  }
+}
+
+const attempt = async <T>(url: string, options: RequestOptions<T>): Promise<T> => {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const onAbort = () => controller.abort()
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: options.method ?? 'GET',
+        body: options.body,
+        headers: withAuthorization(url, options.headers),
+        signal: controller.signal
+      })
+    } catch (err) {
+      if (timedOut) throw new ApiError(`Request to ${url} timed out`, 'timeout')
+      if (options.signal?.aborted) throw new ApiError('Request aborted', 'aborted')
+      throw new ApiError(err instanceof Error ? err.message : 'Network error', 'network')
+    }
+
+    if (!response.ok) {
+      if (response.status === 401 && isApiUrl(url)) unauthorizedHandler()
+      const { error, details, issues } = await readErrorBody(response)
+      const message = details || error || response.statusText || `HTTP ${response.status}`
+      throw new ApiError(message, 'http', response.status, error, details, issues)
+    }
+
+    const cachedAt = options.onStale ? response.headers.get(CACHED_AT_HEADER) : null
+    if (cachedAt) options.onStale?.(cachedAt)
+
+    let data: unknown
+    try {
+      data = await response.json()
+    } catch {
+      throw new ApiError(`Response from ${url} is not valid JSON`, 'invalid-response', response.status)
+    }
+
+    try {
+      return options.schema(data)
+    } catch (err) {
+      if (err instanceof SchemaError) {
+        throw new ApiError(err.message, 'invalid-response', response.status)
+      }
+      throw err
+    }
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Perform a JSON request with timeout, abort and retry with exponential backoff.
+ */
+export const request = async <T>(url: string, options: RequestOptions<T>): Promise<T> => {
+  const retries = options.retries ?? 0
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+
+  // An abort listener would never fire for a signal that is already aborted
+  if (options.signal?.aborted) throw new ApiError('Request aborted', 'aborted')
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt(url, options)
+    } catch (err) {
+      const canRetry = err instanceof ApiError && err.isRetryable && attemptIndex < retries
+      if (!canRetry) throw err
+      await sleep(retryDelayMs * 2 ** attemptIndex, options.signal)
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export { ApiError, request, setAccessTokenProvider, setUnauthorizedHandler } from './http'
+export type { ApiErrorKind, FetchOptions, RequestOptions } from './http'
+export * from './contracts'
+export * from './alerts'
+export * from './auth'
+export * from './events'
+export * from './stores'
+export * from './transaction-types'
+export * from './transactions'
+export * from './upload'
@@ -0,0 +1,70 @@
+// Minimal runtime validators for API responses. Each validator returns the
+// typed value or throws a SchemaError pointing at the offending path.
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, expected: string, received: unknown) {
+    super(`Invalid response at ${path}: expected ${expected}, received ${describe(received)}`)
+    this.name = 'SchemaError'
+  }
+}
+
+export type Validator<T> = (value: unknown, path?: string) => T
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+export const string: Validator<string> = (value, path = '$') => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value)
+  return value
+}
+
+export const number: Validator<number> = (value, path = '$') => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new SchemaError(path, 'number', value)
+  return value
+}
+
+export const boolean: Validator<boolean> = (value, path = '$') => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value)
+  return value
+}
+
+export const oneOf = <T extends string>(...values: T[]): Validator<T> => {
+  return (value, path = '$') => {
+    if (typeof value !== 'string' || !(values as string[]).includes(value)) {
+      throw new SchemaError(path, values.join(' | '), value)
+    }
+    return value as T
+  }
+}
+
+// The backend omits null properties, so optional fields accept both
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => {
+  return (value, path = '$') => (value === undefined || value === null ? undefined : validator(value, path))
+}
+
+export const array = <T>(validator: Validator<T>): Validator<T[]> => {
+  return (value, path = '$') => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value)
+    return value.map((item, index) => validator(item, `${path}[${index}]`))
+  }
+}
+
+export const object = <T extends object>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => {
+  return (value, path = '$') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value)
+    }
+    const source = value as Record<string, unknown>
+    const result = {} as T
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](source[key], `${path}.${key}`)
+      if (parsed !== undefined) {
+        result[key] = parsed
+      }
+    }
+    return result
+  }
+}
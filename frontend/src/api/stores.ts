@@ -0,0 +1,137 @@
+import { request, type FetchOptions, type RequestOptions } from './http'
+import {
+  storeChangeListResponseSchema,
+  storeChangeRecordSchema,
+  storeSummaryResponseSchema,
+  storeSummarySchema,
+  storeUploadListResponseSchema,
+  type MergeStoresRequest,
+  type RenameStoreRequest,
+  type SplitStoreRequest,
+  type StoreChangeRecord,
+  type StoreParentRequest,
+  type StoreSummary,
+  type StoreUpload
+} from './contracts'
+import type { TransactionQueryOptions } from './transactions'
+import { toApiQueryString } from '@/utils/transaction-filters'
+
+/**
+ * GET /api/stores/summary?from=&to=&types=&nature=&search=
+ */
+export const fetchStoreSummaries = async (options: TransactionQueryOptions = {}): Promise<StoreSummary[]> => {
+  const response = await request(`/api/stores/summary${toApiQueryString(options.filters)}`, {
+    schema: storeSummaryResponseSchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+  return response.stores
+}
+
+/**
+ * GET /api/stores/{storeId}?from=&to=&types=&nature=&search=
+ */
+export const fetchStoreSummary = async (
+  storeId: string,
+  options: TransactionQueryOptions = {}
+): Promise<StoreSummary> => {
+  return request(`/api/stores/${encodeURIComponent(storeId)}${toApiQueryString(options.filters)}`, {
+    schema: storeSummarySchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+}
+
+/**
+ * GET /api/stores/{storeId}/uploads
+ */
+export const fetchStoreUploads = async (storeId: string, options: FetchOptions = {}): Promise<StoreUpload[]> => {
+  const response = await request(`/api/stores/${encodeURIComponent(storeId)}/uploads`, {
+    schema: storeUploadListResponseSchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+  return response.uploads
+}
+
+// Store changes are not retried: after a lost response a second merge or split
+// would fail, or act on stores that no longer exist
+
+const changeStore = (
+  path: string,
+  method: RequestOptions<StoreChangeRecord>['method'],
+  body: object,
+  options: FetchOptions
+): Promise<StoreChangeRecord> => {
+  return request(path, {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+    schema: storeChangeRecordSchema,
+    signal: options.signal
+  })
+}
+
+/**
+ * POST /api/stores/{storeId}/merge. The source stores are folded into storeId and deleted.
+ */
+export const mergeStores = async (
+  storeId: string,
+  merge: MergeStoresRequest,
+  options: FetchOptions = {}
+): Promise<StoreChangeRecord> => {
+  return changeStore(`/api/stores/${encodeURIComponent(storeId)}/merge`, 'POST', merge, options)
+}
+
+/**
+ * PUT /api/stores/{storeId}/name
+ */
+export const renameStore = async (
+  storeId: string,
+  rename: RenameStoreRequest,
+  options: FetchOptions = {}
+): Promise<StoreChangeRecord> => {
+  return changeStore(`/api/stores/${encodeURIComponent(storeId)}/name`, 'PUT', rename, options)
+}
+
+/**
+ * POST /api/stores/{storeId}/split
+ */
+export const splitStore = async (
+  storeId: string,
+  split: SplitStoreRequest,
+  options: FetchOptions = {}
+): Promise<StoreChangeRecord> => {
+  return changeStore(`/api/stores/${encodeURIComponent(storeId)}/split`, 'POST', split, options)
+}
+
+/**
+ * PUT /api/stores/{storeId}/parent
+ */
+export const setStoreParent = async (
+  storeId: string,
+  parent: StoreParentRequest,
+  options: FetchOptions = {}
+): Promise<StoreChangeRecord> => {
+  return changeStore(`/api/stores/${encodeURIComponent(storeId)}/parent`, 'PUT', parent, options)
+}
+
+/**
+ * GET /api/stores/changes?storeId=
+ */
+export const fetchStoreChanges = async (
+  storeId?: string,
+  options: FetchOptions = {}
+): Promise<StoreChangeRecord[]> => {
+  const query = storeId ? `?storeId=${encodeURIComponent(storeId)}` : ''
+  const response = await request(`/api/stores/changes${query}`, {
+    schema: storeChangeListResponseSchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+  return response.changes
+}
@@ -0,0 +1,36 @@
+import { request, type FetchOptions } from './http'
+import {
+  transactionTypeListResponseSchema,
+  transactionTypeSchema,
+  type ApiTransactionType,
+  type TransactionTypeRequest
+} from './contracts'
+
+/**
+ * GET /api/transaction-types
+ */
+export const fetchTransactionTypes = async (options: FetchOptions = {}): Promise<ApiTransactionType[]> => {
+  const response = await request('/api/transaction-types', {
+    schema: transactionTypeListResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+  return response.transactionTypes
+}
+
+/**
+ * PUT /api/transaction-types/{code}. Adds the code when the catalog has none.
+ */
+export const saveTransactionType = async (
+  code: number,
+  type: TransactionTypeRequest,
+  options: FetchOptions = {}
+): Promise<ApiTransactionType> => {
+  return request(`/api/transaction-types/${code}`, {
+    method: 'PUT',
+    body: JSON.stringify(type),
+    headers: { 'Content-Type': 'application/json' },
+    schema: transactionTypeSchema,
+    signal: options.signal
+  })
+}
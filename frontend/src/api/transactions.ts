@@ -0,0 +1,134 @@
+import { request, type FetchOptions } from './http'
+import { array } from './schema'
+import {
+  piiRevealResponseSchema,
+  transactionListResponseSchema,
+  transactionPageResponseSchema,
+  transactionSchema,
+  type ApiTransaction,
+  type PiiRevealRequest,
+  type PiiRevealResponse,
+  type TransactionPageResponse
+} from './contracts'
+import { toApiQueryString } from '@/utils/transaction-filters'
+import { toSearchParams } from '@/utils/transaction-search'
+import type { SortState } from '@/types/table'
+import type { TransactionFilters, TransactionSearchCriteria, TransactionSortField } from '@/types/transaction'
+
+export interface TransactionQueryOptions extends FetchOptions {
+  filters?: TransactionFilters
+}
+
+export interface StoreTransactionOptions extends TransactionQueryOptions {
+  sort?: SortState<TransactionSortField>
+}
+
+export interface StoreTransactionPageOptions extends StoreTransactionOptions {
+  // 1-based
+  page: number
+  pageSize: number
+}
+
+export interface TransactionSearchOptions extends FetchOptions {
+  sort?: SortState<TransactionSortField>
+  // 1-based
+  page: number
+  pageSize: number
+}
+
+const storeTransactionsUrl = (storeId: string, options: StoreTransactionOptions | StoreTransactionPageOptions) => {
+  const params = new URLSearchParams(toApiQueryString(options.filters))
+  if (options.sort) {
+    params.set('sortBy', options.sort.key)
+    params.set('sortDirection', options.sort.direction)
+  }
+  if ('page' in options) {
+    params.set('page', String(options.page))
+    params.set('pageSize', String(options.pageSize))
+  }
+  const query = params.toString()
+  return `/api/transactions/store/${encodeURIComponent(storeId)}${query ? `?${query}` : ''}`
+}
+
+/**
+ * GET /api/transactions
+ */
+export const fetchAllTransactions = async (options: FetchOptions = {}): Promise<ApiTransaction[]> => {
+  return request('/api/transactions', {
+    schema: array(transactionSchema),
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * GET /api/transactions/store/{storeId}?from=&to=&types=&nature=&sortBy=&sortDirection=
+ * Every matching transaction, unpaged.
+ */
+export const fetchStoreTransactions = async (
+  storeId: string,
+  options: StoreTransactionOptions = {}
+): Promise<ApiTransaction[]> => {
+  const response = await request(storeTransactionsUrl(storeId, options), {
+    schema: transactionListResponseSchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+  return response.transactions
+}
+
+/**
+ * GET /api/transactions/store/{storeId}?page=&pageSize=&...
+ */
+export const fetchStoreTransactionPage = async (
+  storeId: string,
+  options: StoreTransactionPageOptions
+): Promise<TransactionPageResponse> => {
+  return request(storeTransactionsUrl(storeId, options), {
+    schema: transactionPageResponseSchema,
+    signal: options.signal,
+    onStale: options.onStale,
+    retries: 2
+  })
+}
+
+/**
+ * GET /api/transactions/search?cpf=&card=&owner=&store=&minValue=&maxValue=&from=&to=&page=&pageSize=&...
+ * Matches across every store, each with its store and source file.
+ */
+export const searchTransactions = async (
+  criteria: TransactionSearchCriteria,
+  options: TransactionSearchOptions
+): Promise<TransactionPageResponse> => {
+  const params = toSearchParams(criteria)
+  if (options.sort) {
+    params.set('sortBy', options.sort.key)
+    params.set('sortDirection', options.sort.direction)
+  }
+  params.set('page', String(options.page))
+  params.set('pageSize', String(options.pageSize))
+  return request(`/api/transactions/search?${params}`, {
+    schema: transactionPageResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * POST /api/transactions/{transactionId}/reveal. Unmasked CPF and card; the
+ * server records every reveal, so it is not retried.
+ */
+export const revealTransaction = async (
+  transactionId: string,
+  reveal: PiiRevealRequest,
+  options: FetchOptions = {}
+): Promise<PiiRevealResponse> => {
+  return request(`/api/transactions/${encodeURIComponent(transactionId)}/reveal`, {
+    method: 'POST',
+    body: JSON.stringify(reveal),
+    headers: { 'Content-Type': 'application/json' },
+    schema: piiRevealResponseSchema,
+    signal: options.signal
+  })
+}
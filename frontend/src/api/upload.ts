@@ -0,0 +1,160 @@
+import { request, type FetchOptions } from './http'
+import {
+  completeUploadResponseSchema,
+  duplicateCheckResponseSchema,
+  fileUploadSummarySchema,
+  revertPreviewSchema,
+  transactionListResponseSchema,
+  uploadChunkResponseSchema,
+  uploadHistoryResponseSchema,
+  type ApiTransaction,
+  type CompleteUploadRequest,
+  type CompleteUploadResponse,
+  type DuplicateCheckRequest,
+  type DuplicateCheckResponse,
+  type FileUploadSummary,
+  type RevertImportRequest,
+  type RevertPreview,
+  type UploadChunkRequest,
+  type UploadChunkResponse
+} from './contracts'
+
+/**
+ * POST /api/upload/chunk. The server overwrites a chunk with the same index,
+ * so retrying is safe.
+ */
+export const uploadChunk = async (
+  chunk: UploadChunkRequest,
+  options: FetchOptions = {}
+): Promise<UploadChunkResponse> => {
+  const formData = new FormData()
+  formData.append('chunk', chunk.chunk)
+  formData.append('uploadId', chunk.uploadId)
+  formData.append('chunkIndex', chunk.chunkIndex.toString())
+  formData.append('totalChunks', chunk.totalChunks.toString())
+  formData.append('fileName', chunk.fileName)
+
+  return request('/api/upload/chunk', {
+    method: 'POST',
+    body: formData,
+    schema: uploadChunkResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * POST /api/upload/complete. Not retried: the server deletes the chunks and
+ * stores the transactions, so a second attempt would fail or duplicate data.
+ */
+export const completeUpload = async (
+  upload: CompleteUploadRequest,
+  options: FetchOptions = {}
+): Promise<CompleteUploadResponse> => {
+  const formData = new FormData()
+  formData.append('uploadId', upload.uploadId)
+  formData.append('filename', upload.filename)
+  formData.append('totalChunks', upload.totalChunks.toString())
+  if (upload.duplicates) {
+    formData.append('duplicates', upload.duplicates)
+  }
+
+  return request('/api/upload/complete', {
+    method: 'POST',
+    body: formData,
+    schema: completeUploadResponseSchema,
+    signal: options.signal,
+    // Assembling and parsing a large file takes a while
+    timeoutMs: 120_000
+  })
+}
+
+/**
+ * POST /api/upload/duplicates. Only reads, so retrying is safe.
+ */
+export const checkDuplicates = async (
+  check: DuplicateCheckRequest,
+  options: FetchOptions = {}
+): Promise<DuplicateCheckResponse> => {
+  return request('/api/upload/duplicates', {
+    method: 'POST',
+    body: JSON.stringify(check),
+    headers: { 'Content-Type': 'application/json' },
+    schema: duplicateCheckResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * GET /api/upload
+ */
+export const fetchUploadHistory = async (options: FetchOptions = {}): Promise<FileUploadSummary[]> => {
+  const response = await request('/api/upload', {
+    schema: uploadHistoryResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+  return response.uploads
+}
+
+/**
+ * GET /api/upload/{fileUploadId}
+ */
+export const fetchUpload = async (
+  fileUploadId: string,
+  options: FetchOptions = {}
+): Promise<FileUploadSummary> => {
+  return request(`/api/upload/${encodeURIComponent(fileUploadId)}`, {
+    schema: fileUploadSummarySchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * GET /api/upload/{fileUploadId}/transactions
+ */
+export const fetchUploadTransactions = async (
+  fileUploadId: string,
+  options: FetchOptions = {}
+): Promise<ApiTransaction[]> => {
+  const response = await request(`/api/upload/${encodeURIComponent(fileUploadId)}/transactions`, {
+    schema: transactionListResponseSchema,
+    signal: options.signal,
+    retries: 2
+  })
+  return response.transactions
+}
+
+/**
+ * GET /api/upload/{fileUploadId}/revert. Dry run of revertUpload, changes nothing.
+ */
+export const fetchRevertPreview = async (
+  fileUploadId: string,
+  options: FetchOptions = {}
+): Promise<RevertPreview> => {
+  return request(`/api/upload/${encodeURIComponent(fileUploadId)}/revert`, {
+    schema: revertPreviewSchema,
+    signal: options.signal,
+    retries: 2
+  })
+}
+
+/**
+ * POST /api/upload/{fileUploadId}/revert. Not retried: a second attempt after
+ * a lost response would be rejected as already reverted.
+ */
+export const revertUpload = async (
+  fileUploadId: string,
+  revert: RevertImportRequest,
+  options: FetchOptions = {}
+): Promise<RevertPreview> => {
+  return request(`/api/upload/${encodeURIComponent(fileUploadId)}/revert`, {
+    method: 'POST',
+    body: JSON.stringify(revert),
+    headers: { 'Content-Type': 'application/json' },
+    schema: revertPreviewSchema,
+    signal: options.signal
+  })
+}
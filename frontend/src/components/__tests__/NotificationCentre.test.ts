@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import NotificationCentre from '../NotificationCentre.vue'
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToImportCompletions,
+  type AlertNotification
+} from '@/api'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchNotifications: vi.fn(),
+  markNotificationRead: vi.fn(),
+  markAllNotificationsRead: vi.fn(),
+  subscribeToImportCompletions: vi.fn(),
+}))
+
+describe('NotificationCentre', () => {
+  const mockFetch = vi.mocked(fetchNotifications)
+  const mockMarkRead = vi.mocked(markNotificationRead)
+  const mockMarkAllRead = vi.mocked(markAllNotificationsRead)
+  const mockSubscribe = vi.mocked(subscribeToImportCompletions)
+
+  const lowBalance: AlertNotification = {
+    id: 'n-1',
+    ruleId: 'rule-1',
+    ruleName: 'Low balance',
+    kind: 'balance-below',
+    storeId: 'bar',
+    storeName: 'BAR DO JOÃO',
+    fileUploadId: 'file-1',
+    message: 'Balance of -150.00 is below -100.00',
+    value: -150,
+    threshold: -100,
+    triggeredAt: '2024-04-01T12:00:00Z'
+  }
+
+  const rejected: AlertNotification = {
+    id: 'n-2',
+    ruleId: 'rule-2',
+    ruleName: 'Catalog gaps',
+    kind: 'unknown-type',
+    message: "'april.cnab' was rejected for unknown transaction type code(s): 0",
+    triggeredAt: '2024-04-01T11:00:00Z',
+    readAt: '2024-04-01T11:30:00Z'
+  }
+
+  const openCentre = async () => {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/', name: 'balance', component: { template: '<div />' } },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+      ],
+    })
+    router.push('/')
+    await router.isReady()
+
+    const wrapper = mount(NotificationCentre, { global: { plugins: [router] } })
+    await flushPromises()
+    return wrapper
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset().mockResolvedValue({ notifications: [lowBalance, rejected], unreadCount: 1 })
+    mockMarkRead.mockReset().mockResolvedValue({ ...lowBalance, readAt: '2024-04-01T13:00:00Z' })
+    mockMarkAllRead.mockReset().mockResolvedValue({ count: 1 })
+    mockSubscribe.mockReset().mockReturnValue(vi.fn())
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('shows the unread count and refreshes when an import completes', async () => {
+    const wrapper = await openCentre()
+
+    expect(wrapper.find('.unread-badge').text()).toBe('1')
+    expect(mockSubscribe).toHaveBeenCalledTimes(1)
+
+    mockFetch.mockResolvedValue({ notifications: [lowBalance, rejected], unreadCount: 3 })
+    mockSubscribe.mock.calls[0][0]({ kind: 'completed', uploadId: 'u-1', current: 1, total: 1 })
+    await flushPromises()
+
+    expect(wrapper.find('.unread-badge').text()).toBe('3')
+  })
+
+  it('lists the notifications with a translated summary', async () => {
+    const wrapper = await openCentre()
+    await wrapper.find('.bell-btn').trigger('click')
+    await flushPromises()
+
+    const items = wrapper.findAll('.notification')
+    expect(items).toHaveLength(2)
+    expect(items[0].classes()).toContain('unread')
+    expect(items[0].find('.kind-badge').text()).toBe('Low balance')
+    expect(items[0].find('.notification-store a').attributes('href')).toBe('/stores/bar')
+    expect(items[0].find('.notification-message').text()).toBe('Balance of -R$150.00 is below -R$100.00')
+    expect(items[1].find('.notification-message').text()).toBe(rejected.message)
+    expect(items[1].find('.mark-read-btn').exists()).toBe(false)
+  })
+
+  it('marks one or all notifications as read', async () => {
+    const wrapper = await openCentre()
+    await wrapper.find('.bell-btn').trigger('click')
+    await flushPromises()
+
+    await wrapper.find('.mark-read-btn').trigger('click')
+    await flushPromises()
+
+    expect(mockMarkRead).toHaveBeenCalledWith('n-1')
+    expect(wrapper.find('.unread-badge').exists()).toBe(false)
+    expect(wrapper.find('.notification.unread').exists()).toBe(false)
+    expect(wrapper.find('.mark-all-btn').attributes('disabled')).toBeDefined()
+
+    mockFetch.mockResolvedValue({ notifications: [{ ...lowBalance, id: 'n-3' }], unreadCount: 1 })
+    await wrapper.find('.bell-btn').trigger('click')
+    await wrapper.find('.bell-btn').trigger('click')
+    await flushPromises()
+    await wrapper.find('.mark-all-btn').trigger('click')
+    await flushPromises()
+
+    expect(mockMarkAllRead).toHaveBeenCalled()
+    expect(wrapper.find('.unread-badge').exists()).toBe(false)
+  })
+})
@@ -0,0 +1,178 @@
+import { computed, ref } from 'vue'
+import { exchangeAuthorizationCode, fetchOidcConfiguration, type OidcConfiguration } from '@/api'
+import { sessionFromTokens } from '@/utils/jwt'
+import { codeChallenge, randomUrlSafeString } from '@/utils/pkce'
+import { clearOfflineCache } from '@/utils/service-worker'
+import type { AuthSession, Role } from '@/types/auth'
+
+// OIDC settings, baked in at build time. The defaults match the stand-in
+// issuer of docker-compose.yml.
+export const authConfig = {
+  issuer: import.meta.env.VITE_OIDC_ISSUER || 'http://localhost:8080/default',
+  clientId: import.meta.env.VITE_OIDC_CLIENT_ID || 'literate-sniffle',
+  scope: import.meta.env.VITE_OIDC_SCOPE || 'openid profile',
+  // Dotted paths reach nested claims, e.g. realm_access.roles for Keycloak
+  rolesClaim: import.meta.env.VITE_OIDC_ROLES_CLAIM || 'roles'
+}
+
+// sessionStorage keeps the session per tab and drops it when the tab closes
+const SESSION_KEY = 'literate-sniffle.session'
+// The login started in this tab, checked when the issuer redirects back
+const LOGIN_KEY = 'literate-sniffle.login'
+
+interface PendingLogin {
+  state: string
+  codeVerifier: string
+  redirectTo: string
+}
+
+export interface LoginCallbackParams {
+  code?: string
+  state?: string
+  error?: string
+  errorDescription?: string
+}
+
+const readStored = <T>(key: string): T | null => {
+  try {
+    const raw = sessionStorage.getItem(key)
+    return raw ? JSON.parse(raw) as T : null
+  } catch {
+    return null
+  }
+}
+
+const isExpired = (value: AuthSession) => value.expiresAt <= Date.now()
+
+const restored = readStored<AuthSession>(SESSION_KEY)
+// Shared by the router guard, the API client and every view
+const session = ref<AuthSession | null>(restored && !isExpired(restored) ? restored : null)
+
+let configuration: Promise<OidcConfiguration> | null = null
+
+const discover = (): Promise<OidcConfiguration> => {
+  configuration ??= fetchOidcConfiguration(authConfig.issuer).catch(err => {
+    // Let the next attempt try again
+    configuration = null
+    throw err
+  })
+  return configuration
+}
+
+const redirectUri = () => `${window.location.origin}/auth/callback`
+
+const setSession = (value: AuthSession | null) => {
+  session.value = value
+  if (value) {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(value))
+  } else {
+    sessionStorage.removeItem(SESSION_KEY)
+  }
+}
+
+// An expired session counts as signed out
+const currentSession = (): AuthSession | null => {
+  if (session.value && isExpired(session.value)) setSession(null)
+  return session.value
+}
+
+/**
+ * Send the browser to the issuer's login page. After signing in the user
+ * comes back to `redirectTo`.
+ */
+const login = async (redirectTo = '/'): Promise<void> => {
+  const { authorization_endpoint: authorizationEndpoint } = await discover()
+  const pending: PendingLogin = {
+    state: randomUrlSafeString(),
+    codeVerifier: randomUrlSafeString(),
+    redirectTo
+  }
+  sessionStorage.setItem(LOGIN_KEY, JSON.stringify(pending))
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: authConfig.clientId,
+    redirect_uri: redirectUri(),
+    scope: authConfig.scope,
+    state: pending.state,
+    code_challenge: await codeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256'
+  })
+  window.location.assign(`${authorizationEndpoint}?${params}`)
+}
+
+/**
+ * Redeem the code the issuer redirected back with and start the session.
+ * Returns where the user was heading before logging in.
+ * @throws Error when the issuer reported an error or the response does not belong to this tab
+ */
+const completeLogin = async (params: LoginCallbackParams): Promise<string> => {
+  const pending = readStored<PendingLogin>(LOGIN_KEY)
+  sessionStorage.removeItem(LOGIN_KEY)
+
+  if (params.error) throw new Error(params.errorDescription || params.error)
+  if (!pending || !params.code || params.state !== pending.state) {
+    throw new Error('The login response does not match a login started in this tab')
+  }
+
+  const { token_endpoint: tokenEndpoint } = await discover()
+  const tokens = await exchangeAuthorizationCode({
+    tokenEndpoint,
+    clientId: authConfig.clientId,
+    code: params.code,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: redirectUri()
+  })
+  setSession(sessionFromTokens(tokens.access_token, tokens.id_token, authConfig.rolesClaim))
+  return pending.redirectTo
+}
+
+/**
+ * End the session here and, when the issuer supports it, at the issuer too.
+ * Returns whether the browser is being sent to the issuer.
+ */
+const logout = async (): Promise<boolean> => {
+  const idToken = session.value?.idToken
+  setSession(null)
+  // Balances kept for offline use belong to the user who fetched them
+  await clearOfflineCache()
+
+  let endSessionEndpoint: string | undefined
+  try {
+    endSessionEndpoint = (await discover()).end_session_endpoint
+  } catch (err) {
+    // Signed out here; the issuer session simply outlives it
+    console.warn('Could not reach the issuer to end its session:', err)
+  }
+  if (!endSessionEndpoint) return false
+
+  const params = new URLSearchParams({
+    client_id: authConfig.clientId,
+    post_logout_redirect_uri: `${window.location.origin}/login`
+  })
+  if (idToken) params.set('id_token_hint', idToken)
+  window.location.assign(`${endSessionEndpoint}?${params}`)
+  return true
+}
+
+/**
+ * Signed-in user, their roles, and the login flow
+ */
+export const useAuth = () => {
+  const user = computed(() => session.value?.user ?? null)
+
+  const hasAnyRole = (...roles: Role[]) => {
+    return roles.some(role => user.value?.roles.includes(role) ?? false)
+  }
+
+  return {
+    user,
+    isAuthenticated: computed(() => user.value !== null),
+    hasAnyRole,
+    currentSession,
+    setSession,
+    login,
+    completeLogin,
+    logout
+  }
+}
@@ -0,0 +1,18 @@
+import { computed } from 'vue'
+import { LOCALE_NAMES, currentLocale, localize, setLocale, translate } from '@/i18n'
+import { LOCALES } from '@/types/i18n'
+
+/**
+ * Current locale, the switcher's options, `t` for messages and `localize` for
+ * the messages utils/ build. Reading them or the formatters in a template
+ * re-renders it when the locale changes.
+ */
+export const useI18n = () => {
+  return {
+    locale: computed(currentLocale),
+    locales: LOCALES.map(code => ({ code, name: LOCALE_NAMES[code] })),
+    setLocale,
+    t: translate,
+    localize
+  }
+}
@@ -0,0 +1,59 @@
+import { computed, ref } from 'vue'
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type AlertNotification
+} from '@/api'
+
+// Shared by the header and the upload screen, so a finished upload refreshes the bell
+const notifications = ref<AlertNotification[]>([])
+const unreadCount = ref(0)
+const loadError = ref('')
+
+let pending: Promise<void> | null = null
+
+const load = (): Promise<void> => {
+  // Callers refreshing together share one request
+  pending ??= fetchNotifications()
+    .then(response => {
+      notifications.value = response.notifications
+      unreadCount.value = response.unreadCount
+      loadError.value = ''
+    })
+    .catch(err => {
+      // The last list stays in place; the next refresh tries again
+      loadError.value = err instanceof Error ? err.message : String(err)
+      console.error('Error fetching notifications:', err)
+    })
+    .finally(() => {
+      pending = null
+    })
+  return pending
+}
+
+const markRead = async (notificationId: string): Promise<void> => {
+  const wasUnread = notifications.value.some(notification => notification.id === notificationId && !notification.readAt)
+  const updated = await markNotificationRead(notificationId)
+  notifications.value = notifications.value.map(notification => notification.id === notificationId ? updated : notification)
+  if (wasUnread) unreadCount.value = Math.max(unreadCount.value - 1, 0)
+}
+
+const markAllRead = async (): Promise<void> => {
+  await markAllNotificationsRead()
+  const readAt = new Date().toISOString()
+  notifications.value = notifications.value.map(notification => ({ ...notification, readAt: notification.readAt ?? readAt }))
+  unreadCount.value = 0
+}
+
+/**
+ * Alert notifications raised by imports, newest first. Call load() to refresh.
+ */
+export const useNotifications = () => ({
+  notifications: computed(() => notifications.value),
+  unreadCount: computed(() => unreadCount.value),
+  loadError: computed(() => loadError.value),
+  load,
+  markRead,
+  markAllRead
+})
@@ -0,0 +1,30 @@
+import { ref } from 'vue'
+import type { PiiRevealResponse } from '@/api'
+import type { Role } from '@/types/auth'
+
+// Roles the server lets reveal by default ("Pii:RevealRoles"); the button is hidden for everyone else
+export const REVEAL_ROLES: readonly Role[] = ['admin']
+
+/**
+ * Unmasked CPF and card numbers revealed in one view, by transaction id.
+ * Nothing is kept once the view goes away.
+ */
+export const usePiiReveal = () => {
+  const revealed = ref<Record<string, PiiRevealResponse>>({})
+
+  const remember = (result: PiiRevealResponse) => {
+    revealed.value = { ...revealed.value, [result.transactionId]: result }
+  }
+
+  const hide = (transactionId: string) => {
+    const rest = { ...revealed.value }
+    delete rest[transactionId]
+    revealed.value = rest
+  }
+
+  const hideAll = () => {
+    revealed.value = {}
+  }
+
+  return { revealed, remember, hide, hideAll }
+}
@@ -0,0 +1,53 @@
+import { computed, ref } from 'vue'
+import { fetchTransactionTypes, saveTransactionType, type TransactionTypeRequest } from '@/api'
+import { translate } from '@/i18n'
+import { TRANSACTION_TYPES } from '@/utils/transaction-filters'
+import { toTransactionTypeInfo } from '@/utils/transaction-types'
+import type { TransactionTypeInfo } from '@/types/transaction'
+
+// Shared by every view, so a change made on the admin screen shows up everywhere
+const types = ref<TransactionTypeInfo[]>(TRANSACTION_TYPES)
+const loadError = ref('')
+// Bumped on every save; views that show balances refetch when it changes
+const revision = ref(0)
+
+let pending: Promise<void> | null = null
+
+const load = (): Promise<void> => {
+  // Views mounting together share one request
+  pending ??= fetchTransactionTypes()
+    .then(list => {
+      types.value = list.map(toTransactionTypeInfo)
+      loadError.value = ''
+    })
+    .catch(err => {
+      // The seeded types stay in place, so the views keep working
+      loadError.value = err instanceof Error
+        ? translate('transactionTypes.loadError', { message: err.message })
+        : translate('transactionTypes.loadErrorUnknown')
+      console.error('Error fetching transaction types:', err)
+    })
+    .finally(() => {
+      pending = null
+    })
+  return pending
+}
+
+const save = async (code: number, request: TransactionTypeRequest): Promise<TransactionTypeInfo> => {
+  const saved = toTransactionTypeInfo(await saveTransactionType(code, request))
+  types.value = [...types.value.filter(type => type.code !== code), saved].sort((a, b) => a.code - b.code)
+  revision.value++
+  return saved
+}
+
+/**
+ * The transaction type catalog. Call load() when a view mounts; until the
+ * first response the types seeded by the backend are used.
+ */
+export const useTransactionTypes = () => ({
+  types: computed(() => types.value),
+  loadError: computed(() => loadError.value),
+  revision: computed(() => revision.value),
+  load,
+  save
+})
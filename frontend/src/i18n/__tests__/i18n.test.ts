@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MESSAGES, currentLocale, detectLocale, messageKeys, setLocale, translate } from '..'
+import { formatCurrency, formatDateTime } from '@/utils/format'
+import { LOCALES, type MessageTree } from '@/types/i18n'
+
+const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort()
+
+const messageAt = (tree: MessageTree, key: string) => {
+  return key.split('.').reduce<string | MessageTree>((node, part) => (node as MessageTree)[part], tree) as string
+}
+
+describe('message catalogs', () => {
+  const reference = messageKeys(MESSAGES['en-US'])
+
+  it.each(LOCALES)('%s has every message and nothing extra', (locale) => {
+    const keys = messageKeys(MESSAGES[locale])
+
+    expect(reference.filter(key => !keys.includes(key)), 'missing keys').toEqual([])
+    expect(keys.filter(key => !reference.includes(key)), 'unknown keys').toEqual([])
+  })
+
+  it.each(LOCALES)('%s fills in the same placeholders and leaves no message empty', (locale) => {
+    for (const key of reference) {
+      const message = messageAt(MESSAGES[locale], key)
+      expect(message.trim(), key).not.toBe('')
+      expect(placeholders(message), key).toEqual(placeholders(messageAt(MESSAGES['en-US'], key)))
+    }
+  })
+})
+
+describe('detectLocale', () => {
+  it('prefers the saved choice', () => {
+    expect(detectLocale('en-US', ['pt-BR'])).toBe('en-US')
+  })
+
+  it('falls back to the browser languages, matching on the language alone', () => {
+    expect(detectLocale(null, ['fr-FR', 'en-GB'])).toBe('en-US')
+    expect(detectLocale('xx', ['pt-PT'])).toBe('pt-BR')
+  })
+
+  it('defaults to Portuguese', () => {
+    expect(detectLocale(null, ['fr-FR'])).toBe('pt-BR')
+    expect(detectLocale(null, [])).toBe('pt-BR')
+  })
+})
+
+describe('translate', () => {
+  afterEach(() => {
+    setLocale('en-US')
+    localStorage.clear()
+  })
+
+  it('fills in placeholders in the current locale', () => {
+    expect(translate('upload.uploadFiles', { count: 3 })).toBe('Upload 3 Files')
+
+    setLocale('pt-BR')
+    expect(translate('upload.uploadFiles', { count: 3 })).toBe('Enviar 3 Arquivos')
+  })
+
+  it('shows an unknown key as is', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(translate('upload.nope')).toBe('upload.nope')
+  })
+
+  it('remembers the choice and sets the document language', () => {
+    setLocale('pt-BR')
+
+    expect(currentLocale()).toBe('pt-BR')
+    expect(localStorage.getItem('locale')).toBe('pt-BR')
+    expect(document.documentElement.lang).toBe('pt-BR')
+  })
+
+  it('formats amounts in BRL and dates for the current locale', () => {
+    setLocale('pt-BR')
+    expect(formatCurrency(1234.5)).toBe('R$ 1.234,50')
+    expect(formatDateTime('2024-04-01T12:30:00Z')).toMatch(/^01\/04\/2024/)
+
+    setLocale('en-US')
+    expect(formatCurrency(1234.5)).toBe('R$1,234.50')
+    expect(formatDateTime('2024-04-01T12:30:00Z')).toMatch(/^04\/01\/2024/)
+  })
+})
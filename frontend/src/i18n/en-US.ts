@@ -0,0 +1,693 @@
+import type { MessageTree } from '@/types/i18n'
+
+const messages: MessageTree = {
+  app: {
+    language: 'Language',
+    noRole: 'no role',
+    signOut: 'Sign out'
+  },
+  nav: {
+    upload: 'Upload',
+    balance: 'Balances',
+    uploads: 'History',
+    search: 'Search',
+    transactionTypes: 'Types',
+    storeAdmin: 'Stores',
+    alertRules: 'Alerts'
+  },
+  offline: {
+    staleBanner: 'Offline: showing data as of {date}. It refreshes once you are back online.'
+  },
+  balance: {
+    title: 'Store Balances',
+    refresh: 'Refresh',
+    refreshing: 'Loading...',
+    importNotice: 'Updated after "{name}" was imported ({count} transaction(s)) at {date}',
+    loadError: 'Failed to fetch store balances: {message}',
+    loadErrorUnknown: 'Failed to load store balances',
+    loading: 'Loading store balances...',
+    noMatches: 'No stores match the current filters.',
+    empty: 'No stores found. Upload some CNAB files to see balances.',
+    columns: {
+      owner: 'Store Owner',
+      store: 'Store Name',
+      transactions: 'Transactions',
+      income: 'Income',
+      expense: 'Expense',
+      balance: 'Total Balance',
+      actions: 'Actions'
+    },
+    viewStore: 'View Store',
+    total: 'Total',
+    filteredTotal: 'Filtered total'
+  },
+  upload: {
+    title: 'File Upload',
+    dropHint: 'Drop CNAB files or folders here',
+    chooseFolder: 'Or choose a folder',
+    parallelUploads: 'Parallel uploads',
+    clearFinished: 'Clear finished',
+    showPreview: 'Show preview',
+    hidePreview: 'Hide preview',
+    previewOf: 'Preview of {name}',
+    uploadFile: 'Upload File',
+    uploadFiles: 'Upload {count} Files',
+    uploading: 'Uploading...',
+    overrideValidation: 'Upload anyway (the server validates the file again)',
+    warnings: '{count} warning(s) while processing',
+    status: {
+      ready: 'Ready',
+      checking: 'Checking',
+      duplicate: 'Duplicate',
+      queued: 'Queued',
+      uploading: 'Uploading',
+      paused: 'Paused',
+      completing: 'Processing',
+      done: 'Done',
+      failed: 'Failed',
+      cancelled: 'Cancelled',
+      offline: 'Waiting for network'
+    },
+    phases: {
+      assembling: 'Assembling',
+      validating: 'Validating',
+      parsing: 'Parsing',
+      persisting: 'Saving'
+    },
+    progress: {
+      assembling: 'Assembling chunk {current} of {total}...',
+      validating: 'Validating file...',
+      parsing: 'Parsing line {current} of {total}...',
+      persisting: 'Saving transaction {current} of {total}...',
+      processing: 'Processing file...'
+    },
+    actions: {
+      pause: 'Pause',
+      resume: 'Resume',
+      retry: 'Retry',
+      skipDuplicates: 'Skip duplicates',
+      importAnyway: 'Import anyway',
+      cancel: 'Cancel',
+      remove: 'Remove from queue'
+    },
+    messages: {
+      previewOnly: '{layout} file: the preview shows its transactions, but only {formats} files can be imported.',
+      imported: 'Imported',
+      importedFormat: 'Imported ({format})',
+      skippedSuffix: ', {count} duplicate(s) skipped',
+      completed: 'Upload completed successfully! {count} transaction(s) imported{skipped}. Format: {format}',
+      unknownFormat: 'Unknown',
+      validationFailed: 'CNAB validation failed: {details}',
+      failed: 'Upload failed: {details}',
+      failedUnknown: 'Upload failed.',
+      confirmResumeOnline: 'Upload failed due to network issues. Would you like to continue uploading when you\'re back online?',
+      confirmResume: 'Would you like to resume uploading "{name}"?',
+      savedForLater: 'Upload saved. Will resume when online.',
+      queuedOffline: 'Queued. Will upload when back online.',
+      alreadyUploaded: 'This file was already uploaded as "{name}" on {date}.',
+      duplicateLines: '{count} of {checked} transaction(s) already exist ({lines}).',
+      checkingDuplicates: 'Checking for duplicates...',
+      duplicateCheckFailed: 'Could not check for duplicates: {error}',
+      unknownError: 'unknown error',
+      blocked: 'Upload blocked: {count} line(s) failed validation. Fix the file or choose to upload anyway.',
+      paused: 'Paused after {sent} of {total} chunk(s)',
+      cancelled: 'Upload cancelled.'
+    },
+    lineList: {
+      one: 'line {lines}',
+      other: 'lines {lines}',
+      more: 'lines {lines} and {rest} more'
+    },
+    summary: {
+      title: 'Upload summary',
+      file: 'File',
+      result: 'Result',
+      transactions: 'Transactions',
+      total: 'Total imported'
+    }
+  },
+  reconciliation: {
+    title: 'Reconciliation',
+    storeCrumb: 'Store',
+    balancesCrumb: 'Balances',
+    intro: 'Match the transactions imported for this store against the acquirer\'s settlement report: a CSV with date, value, CPF, card and, optionally, store columns.',
+    ledgerFile: 'Settlement report (CSV)',
+    valueTolerance: 'Value tolerance (R$)',
+    timeWindow: 'Time window (minutes)',
+    loadingStore: 'Loading store...',
+    loadingTransactions: 'Loading transactions...',
+    storeNotFound: 'Store not found.',
+    loadError: 'Failed to load the store: {message}',
+    transactionsError: 'Failed to load the transactions: {message}',
+    readError: 'Could not read {name}.',
+    ledgerSummary: '{name}: {count} entry(ies) from {from} to {to}',
+    otherStores: '{count} entry(ies) for other stores were left out.',
+    noEntries: 'The report has no entries for this store.',
+    errors: {
+      empty: 'The file is empty.',
+      'missing-columns': 'Missing column(s): {value}',
+      'invalid-date': 'Line {line}: invalid date "{value}"',
+      'invalid-value': 'Line {line}: invalid value "{value}"'
+    },
+    buckets: {
+      matched: 'Matched',
+      missingInCnab: 'Missing in CNAB',
+      missingInLedger: 'Missing in ledger',
+      openExceptions: 'Open exceptions'
+    },
+    hints: {
+      missingInCnab: 'In the settlement report but not imported from any CNAB file.',
+      missingInLedger: 'Imported from a CNAB file but not in the settlement report.'
+    },
+    columns: {
+      line: 'Line',
+      date: 'Date',
+      time: 'Time',
+      value: 'Value',
+      cpf: 'CPF',
+      card: 'Card',
+      type: 'Type',
+      rule: 'Rule',
+      difference: 'Difference',
+      status: 'Status'
+    },
+    rules: {
+      exact: 'Exact',
+      fuzzy: 'Fuzzy'
+    },
+    apart: '{minutes} min apart',
+    none: 'None.',
+    resolve: 'Mark as resolved',
+    reopen: 'Reopen',
+    save: 'Save',
+    cancel: 'Cancel',
+    notePlaceholder: 'What was done about it?',
+    resolvedBy: 'Resolved by {name} on {date}',
+    unknownUser: 'unknown user',
+    hideResolved: 'Hide resolved exceptions'
+  },
+  statement: {
+    title: 'Statement',
+    storeCrumb: 'Store',
+    balancesCrumb: 'Balances',
+    loading: 'Loading statement...',
+    storeNotFound: 'Store not found.',
+    loadError: 'Failed to load the statement: {message}',
+    from: 'From',
+    to: 'To',
+    print: 'Print / save as PDF',
+    printHint: 'To get a PDF, choose "Save as PDF" as the printer.',
+    owner: 'Owner',
+    store: 'Store',
+    period: 'Period',
+    periodRange: '{from} to {to}',
+    beginning: 'first movement',
+    issuedAt: 'Issued on {date}',
+    openingBalance: 'Opening balance',
+    closingBalance: 'Closing balance',
+    movements: 'Movements',
+    noMovements: 'No movements in this period.',
+    totalsByType: 'Totals by type',
+    totalIncome: 'Total income',
+    totalExpense: 'Total expense',
+    columns: {
+      date: 'Date',
+      time: 'Time',
+      type: 'Type',
+      card: 'Card',
+      value: 'Value',
+      balance: 'Balance',
+      count: 'Movements',
+      total: 'Total'
+    }
+  },
+  storeAdmin: {
+    title: 'Store Management',
+    intro: 'Merge duplicate stores, fix their names, split off transactions that belong to another store and group branches under their head store. Files written with old names keep importing into the store they became, and every change is recorded below.',
+    changedBy: 'Your name',
+    loading: 'Loading stores...',
+    loadingUploads: 'Loading files...',
+    loadError: 'Failed to load the stores: {message}',
+    uploadsError: 'Failed to load the store\'s files: {message}',
+    changeError: 'The change was not saved: {message}',
+    mergeInto: 'Keep',
+    merge: 'Merge {count} store(s) into it',
+    mergeHint: 'The other selected stores are deleted and their transactions move to the kept one.',
+    standAlone: 'None',
+    rename: 'Rename',
+    split: 'Split',
+    renameTitle: 'Rename {name}',
+    splitTitle: 'Split {name}',
+    splitHint: 'Transactions imported from the selected files move to a new store.',
+    fileTransactions: '{count} transaction(s)',
+    newStore: 'New store',
+    groupTotal: 'Group total with {count} branch(es)',
+    save: 'Save',
+    saving: 'Saving...',
+    cancel: 'Cancel',
+    historyTitle: 'Change history',
+    noChanges: 'No store has been changed yet.',
+    changedByOn: 'by {name} on {date}',
+    movedTransactions: '{count} transaction(s) moved',
+    columns: {
+      store: 'Store',
+      owner: 'Owner',
+      transactions: 'Transactions',
+      balance: 'Balance',
+      headStore: 'Branch of'
+    },
+    actions: {
+      merge: 'Merge',
+      rename: 'Rename',
+      split: 'Split',
+      group: 'Group',
+      ungroup: 'Ungroup'
+    }
+  },
+  alerts: {
+    title: 'Notifications',
+    empty: 'No alerts yet.',
+    markRead: 'Mark as read',
+    markAllRead: 'Mark all as read',
+    loadError: 'Failed to load notifications: {message}',
+    markError: 'Failed to update notifications: {message}',
+    kinds: {
+      'balance-below': 'Low balance',
+      'transaction-above': 'Large transaction',
+      'daily-volume': 'Unusual volume',
+      'unknown-type': 'Unknown type'
+    },
+    notices: {
+      'balance-below': 'Balance of {value} is below {threshold}',
+      'transaction-above': 'Transaction of {value} is above {threshold}',
+      'daily-volume': 'Daily volume of {value} is over {threshold} the trailing average'
+    }
+  },
+  alertRules: {
+    title: 'Alert Rules',
+    intro: 'Rules are checked after every import. Alerts show in the notification bell and are sent to the configured webhook.',
+    loading: 'Loading alert rules...',
+    empty: 'No alert rule has been created yet.',
+    loadError: 'Failed to load alert rules: {message}',
+    saveError: 'Failed to save the alert rule: {message}',
+    newTitle: 'New rule',
+    editTitle: 'Edit rule',
+    amount: 'Amount (R$)',
+    multiple: 'Times the daily average',
+    allStores: 'All stores',
+    save: 'Save',
+    saving: 'Saving...',
+    cancel: 'Cancel',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: "Delete the alert rule '{name}'? Its notifications are kept.",
+    created: "Alert rule '{name}' created",
+    updated: "Alert rule '{name}' updated",
+    deleted: "Alert rule '{name}' deleted",
+    enabledMessage: "Alert rule '{name}' enabled",
+    disabledMessage: "Alert rule '{name}' disabled",
+    columns: {
+      name: 'Name',
+      kind: 'Condition',
+      threshold: 'Threshold',
+      store: 'Store',
+      enabled: 'Enabled'
+    },
+    hints: {
+      'balance-below': 'Alerts when an import leaves a store balance below the amount. The amount may be negative.',
+      'transaction-above': 'Alerts for every imported transaction worth more than the amount.',
+      'daily-volume': 'Alerts when a store moves more in a day than this many times its average over the previous 30 days (at least 3 days with transactions).',
+      'unknown-type': 'Alerts when a file is rejected for transaction type codes missing from the catalog.'
+    },
+    errors: {
+      nameRequired: 'Give the rule a name',
+      thresholdRequired: 'Enter a number for the threshold',
+      thresholdPositive: 'The threshold must be greater than zero'
+    }
+  },
+  natures: {
+    Income: 'Income',
+    Expense: 'Expense',
+    Unknown: 'Unknown'
+  },
+  breadcrumbs: {
+    label: 'Breadcrumb'
+  },
+  pagination: {
+    range: '{first}–{last} of {total}',
+    page: 'Page {page} of {pages}',
+    rows: 'Rows'
+  },
+  exportButtons: {
+    label: 'Export'
+  },
+  filters: {
+    from: 'From',
+    to: 'To',
+    nature: 'Nature',
+    allNatures: 'All',
+    store: 'Store',
+    storePlaceholder: 'Store name or owner',
+    clear: 'Clear filters'
+  },
+  storeDetail: {
+    balancesCrumb: 'Balances',
+    storeCrumb: 'Store',
+    loading: 'Loading store...',
+    storeNotFound: 'Store not found.',
+    loadError: 'Failed to load the store: {message}',
+    loadErrorUnknown: 'Failed to load the store',
+    reconcile: 'Reconcile with a settlement report',
+    statement: 'Print a statement',
+    kpis: {
+      balance: 'Balance',
+      income: 'Income',
+      expense: 'Expense',
+      transactions: 'Transactions'
+    },
+    transactions: 'Transactions',
+    showCharts: 'Show Charts',
+    hideCharts: 'Hide Charts',
+    loadingCharts: 'Loading charts...',
+    chartsError: 'Failed to load charts: {message}',
+    chartsErrorUnknown: 'Failed to load charts',
+    exportError: 'Failed to export transactions: {message}',
+    exportErrorUnknown: 'Failed to export transactions',
+    loadingTransactions: 'Loading transaction details...',
+    noTransactions: 'No transactions found for this store.',
+    unknownType: 'Unknown',
+    reveal: 'Reveal',
+    hide: 'Hide',
+    columns: {
+      date: 'Date',
+      time: 'Time',
+      type: 'Type',
+      value: 'Value',
+      cpf: 'CPF',
+      card: 'Card',
+      nature: 'Nature'
+    },
+    uploadsTitle: 'Contributing Files',
+    loadingUploads: 'Loading files...',
+    uploadsError: 'Failed to load the files of this store.',
+    noUploads: 'No uploaded files contain transactions of this store.',
+    uploadColumns: {
+      file: 'File',
+      format: 'Format',
+      uploaded: 'Uploaded',
+      transactions: 'Transactions'
+    }
+  },
+  analytics: {
+    empty: 'No transactions to chart.',
+    balanceTitle: 'Running balance',
+    balanceLabel: 'Running balance over time',
+    incomeExpenseTitle: 'Income vs expense',
+    incomeExpenseLabel: 'Income and expense per period',
+    groupBy: 'Group by',
+    periods: {
+      day: 'Day',
+      week: 'Week',
+      month: 'Month'
+    },
+    incomeOf: '{period} income: {value}',
+    expenseOf: '{period} expense: {value}',
+    income: 'Income',
+    expense: 'Expense',
+    byTypeTitle: 'By transaction type',
+    byTypeLabel: 'Totals per transaction type'
+  },
+  piiReveal: {
+    summary: 'Reveal the CPF and card of the {type} of {value} on {date}. The reveal is recorded as {name} ({role}) with your reason.',
+    reason: 'Reason',
+    reasonPlaceholder: 'e.g. chargeback dispute',
+    reveal: 'Reveal',
+    revealing: 'Revealing...',
+    cancel: 'Cancel',
+    error: 'Failed to reveal the data: {message}',
+    errorUnknown: 'Failed to reveal the data'
+  },
+  cnab: {
+    fields: {
+      type: 'Type',
+      occurrence: 'Occurrence',
+      date: 'Date',
+      value: 'Value',
+      cpf: 'CPF',
+      card: 'Card',
+      time: 'Time',
+      storeOwner: 'Store Owner',
+      storeName: 'Store Name',
+      bank: 'Bank',
+      batch: 'Batch',
+      recordType: 'Record type',
+      sequence: 'Sequence',
+      segment: 'Segment',
+      companyName: 'Company name',
+      generatedOn: 'Generated on',
+      recordCount: 'Record count',
+      batchCount: 'Batch count',
+      operation: 'Operation',
+      documentType: 'Document type',
+      documentPadding: 'Document padding'
+    },
+    segments: {
+      header: 'Header',
+      detail: 'Detail',
+      trailer: 'Trailer',
+      fileHeader: 'File header',
+      batchHeader: 'Batch header',
+      segmentA: 'Segment A',
+      batchTrailer: 'Batch trailer',
+      fileTrailer: 'File trailer'
+    },
+    expected: {
+      digits: '{length} digits',
+      cents: '{length} digits (cents)',
+      date: '{length} digits ({format})',
+      time: '6 digits (HHMMSS)',
+      card: '{length} digits or asterisks',
+      text: 'up to {length} characters',
+      requiredText: 'up to {length} characters, not blank',
+      codes: 'one of {codes}',
+      digit: 'digit 0-9',
+      values: '{values}',
+      lineLength: '{length} characters',
+      segments: '{segments} record',
+      validCpf: '{length} digits with valid check digits',
+      transaction: 'digit 0-8 for a transaction'
+    },
+    messages: {
+      recordLength: 'Invalid record length {length}, expected {expected}',
+      unknownRecord: 'Unknown {layout} record',
+      invalidFormat: 'Invalid {field} format \'{value}\', expected {expected}',
+      invalidValueFormat: 'Invalid value format \'{value}\', expected {expected}',
+      invalidDateFormat: 'Invalid date format \'{value}\', expected {expected}',
+      invalidDate: 'Invalid date \'{value}\'',
+      invalidTimeFormat: 'Invalid time format \'{value}\', expected {expected}',
+      invalidTime: 'Invalid time \'{value}\'',
+      invalidCardFormat: 'Invalid card format \'{value}\', expected {expected}',
+      empty: '{field} cannot be empty',
+      invalidType: 'Invalid type \'{value}\', expected {expected}',
+      invalidConstant: 'Invalid {field} \'{value}\', expected {expected}',
+      cpfCheckDigits: 'CPF {cpf} has invalid check digits',
+      trailerSkipped: 'Trailer record (type 9) skipped'
+    }
+  },
+  lists: {
+    or: '{items} or {last}'
+  },
+  cnabPreview: {
+    empty: 'No records found in this file.',
+    valid: '{count} valid',
+    invalid: '{count} with errors',
+    header: '{count} header',
+    trailer: '{count} trailer',
+    duplicates: '{count} already imported',
+    onlyErrors: 'Only lines with errors',
+    line: 'Line',
+    status: 'Status',
+    alreadyImported: 'Already imported',
+    ok: 'OK',
+    truncated: '{count} more line(s) not shown'
+  },
+  validationReport: {
+    columns: {
+      line: 'Line',
+      columns: 'Columns',
+      field: 'Field',
+      value: 'Value',
+      expected: 'Expected',
+      severity: 'Severity'
+    },
+    severities: {
+      error: 'error',
+      warning: 'warning'
+    },
+    summary: {
+      errorsOnLines: '{errors} on {lines}',
+      errors: {
+        one: '{count} error',
+        other: '{count} errors'
+      },
+      lines: {
+        one: '{count} line',
+        other: '{count} lines'
+      },
+      warnings: {
+        one: '{count} warning',
+        other: '{count} warnings'
+      }
+    },
+    truncated: '{count} more issue(s) not shown; download the report to see them all'
+  },
+  typeMapping: {
+    missing: 'The file uses type code(s) {codes}, which the transaction type catalog does not have.',
+    canMap: 'Map them to upload it.',
+    askAdmin: 'Ask an admin to add them to the catalog, then upload it again.',
+    namePlaceholder: 'Name',
+    save: 'Add type',
+    saving: 'Saving...',
+    nameRequired: 'Enter a name',
+    saveError: 'Could not save the type'
+  },
+  uploads: {
+    title: 'Upload History',
+    refresh: 'Refresh',
+    refreshing: 'Loading...',
+    loading: 'Loading upload history...',
+    loadError: 'Failed to fetch upload history: {message}',
+    loadErrorUnknown: 'Failed to load upload history',
+    empty: 'No files uploaded yet.',
+    columns: {
+      file: 'File',
+      size: 'Size',
+      format: 'Format',
+      transactions: 'Transactions',
+      uploaded: 'Uploaded',
+      stores: 'Stores',
+      actions: 'Actions'
+    },
+    viewTransactions: 'View Transactions',
+    hideTransactions: 'Hide Transactions',
+    revert: 'Revert',
+    revertedBadge: 'Reverted by {name} on {date} ({count} transaction(s) deleted)',
+    reverted: 'Reverted "{name}": {count} transaction(s) deleted.',
+    uploadedFile: 'Uploaded file',
+    storeTransactions: '{count} transaction(s)',
+    loadingTransactions: 'Loading transactions...',
+    fileNotFound: 'Uploaded file not found.',
+    transactionsError: 'Failed to load the transactions of this file.',
+    noTransactions: 'No transactions found for this file.',
+    transactionColumns: {
+      date: 'Date',
+      time: 'Time',
+      store: 'Store',
+      type: 'Type',
+      value: 'Value',
+      cpf: 'CPF',
+      card: 'Card'
+    }
+  },
+  revert: {
+    title: 'Revert "{name}"',
+    calculating: 'Calculating balance changes...',
+    summary: 'Reverting deletes the {count} transaction(s) imported from this file. Nothing changes until you confirm.',
+    columns: {
+      store: 'Store',
+      owner: 'Owner',
+      transactions: 'Transactions',
+      currentBalance: 'Current balance',
+      change: 'Change',
+      balanceAfter: 'Balance after'
+    },
+    storeRemoved: 'Store removed',
+    revertedBy: 'Reverted by',
+    namePlaceholder: 'Your name',
+    confirm: 'Revert import',
+    reverting: 'Reverting...',
+    cancel: 'Cancel',
+    close: 'Close',
+    previewError: 'Failed to preview the revert: {message}',
+    previewErrorUnknown: 'Failed to preview the revert',
+    revertError: 'Failed to revert the import: {message}',
+    revertErrorUnknown: 'Failed to revert the import'
+  },
+  search: {
+    title: 'Search Transactions',
+    fields: {
+      cpf: 'CPF',
+      card: 'Card',
+      owner: 'Owner',
+      store: 'Store',
+      minValue: 'Min value',
+      maxValue: 'Max value',
+      from: 'From',
+      to: 'To'
+    },
+    clear: 'Clear',
+    hints: {
+      cpf: 'Type all {count} digits of the CPF.',
+      card: 'Type at least {count} characters of the card.',
+      values: 'The minimum value is above the maximum.',
+      dates: 'The start date is after the end date.'
+    },
+    error: 'Search failed: {message}',
+    errorUnknown: 'Search failed',
+    intro: 'Search by CPF, card, owner, store, value or date to find transactions across every store.',
+    searching: 'Searching...',
+    noMatches: 'No transactions match the search.',
+    columns: {
+      date: 'Date',
+      time: 'Time',
+      store: 'Store',
+      owner: 'Owner',
+      type: 'Type',
+      value: 'Value',
+      cpf: 'CPF',
+      card: 'Card',
+      file: 'File'
+    },
+    sourceFile: 'Source file'
+  },
+  transactionTypes: {
+    title: 'Transaction Types',
+    intro: 'Each CNAB type code maps to a name and a nature. Income adds to a store\'s balance and expense subtracts from it, so changing a nature changes the balances of every transaction of that type.',
+    loading: 'Loading transaction types...',
+    loadError: 'Failed to load transaction types: {message}',
+    loadErrorUnknown: 'Failed to load transaction types',
+    columns: {
+      code: 'Code',
+      name: 'Name',
+      nature: 'Nature',
+      description: 'Description',
+      color: 'Colour'
+    },
+    namePlaceholder: 'Name',
+    descriptionPlaceholder: 'Description',
+    save: 'Save',
+    saving: 'Saving...',
+    add: 'Add type',
+    adding: 'Adding...',
+    nameRequired: 'Name is required',
+    saved: 'Saved type {code} ({name}). Balances now use the updated catalog.',
+    added: 'Added type {code} ({name}).',
+    saveError: 'Could not save the type',
+    addError: 'Could not add the type'
+  },
+  login: {
+    title: 'Sign in',
+    denied: 'You are signed in as {name}, but your account has no role in this application. Ask an administrator for the viewer, uploader or admin role.',
+    signOut: 'Sign out',
+    completing: 'Completing sign-in...',
+    intro: 'Sign in with your organisation account to upload files and see store balances.',
+    signIn: 'Sign in',
+    redirecting: 'Redirecting...',
+    unreachable: 'Could not reach the login service: {message}',
+    unreachableUnknown: 'Could not reach the login service',
+    failed: 'Login failed: {message}',
+    failedUnknown: 'Login failed'
+  }
+}
+
+export default messages
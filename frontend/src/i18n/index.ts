@@ -0,0 +1,130 @@
+// Current locale and message lookup. Kept out of the composable so the
+// formatting helpers in utils/ can follow the locale too.
+
+import { ref } from 'vue'
+import enUS from './en-US'
+import ptBR from './pt-BR'
+import {
+  LOCALES,
+  type LocalizedMessage,
+  type LocalizedParam,
+  type Locale,
+  type MessageParams,
+  type MessageTree
+} from '@/types/i18n'
+
+export const MESSAGES: Record<Locale, MessageTree> = {
+  'pt-BR': ptBR,
+  'en-US': enUS
+}
+
+// Each language in its own words, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português (Brasil)',
+  'en-US': 'English (US)'
+}
+
+// The CNAB data and most operators are Brazilian
+export const DEFAULT_LOCALE: Locale = 'pt-BR'
+
+const STORAGE_KEY = 'locale'
+
+export const isLocale = (value: unknown): value is Locale => {
+  return LOCALES.includes(value as Locale)
+}
+
+/**
+ * The saved choice, else the first browser language we have (pt-PT counts as
+ * pt-BR), else the default
+ */
+export const detectLocale = (saved: string | null, preferred: readonly string[]): Locale => {
+  if (isLocale(saved)) return saved
+  for (const language of preferred) {
+    const match = LOCALES.find(locale => locale === language) ??
+      LOCALES.find(locale => locale.split('-')[0] === language.split('-')[0])
+    if (match) return match
+  }
+  return DEFAULT_LOCALE
+}
+
+const readSavedLocale = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+const browserLanguages = (): readonly string[] => {
+  if (typeof navigator === 'undefined') return []
+  return navigator.languages?.length ? navigator.languages : [navigator.language]
+}
+
+const locale = ref<Locale>(detectLocale(readSavedLocale(), browserLanguages()))
+
+if (typeof document !== 'undefined') document.documentElement.lang = locale.value
+
+export const currentLocale = (): Locale => locale.value
+
+/**
+ * Switch the UI language and remember it for the next visit
+ */
+export const setLocale = (next: Locale) => {
+  locale.value = next
+  document.documentElement.lang = next
+  try {
+    localStorage.setItem(STORAGE_KEY, next)
+  } catch {
+    // Private mode: the choice lasts until the tab closes
+  }
+}
+
+const lookup = (tree: MessageTree, key: string): string | undefined => {
+  let node: string | MessageTree | undefined = tree
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object') return undefined
+    node = node[part]
+  }
+  return typeof node === 'string' ? node : undefined
+}
+
+/**
+ * Message for a dotted key in the current locale, with {placeholders} filled
+ * in. An unknown key comes back as is, so it shows up on screen.
+ */
+export const translate = (key: string, params: MessageParams = {}): string => {
+  const message = lookup(MESSAGES[locale.value], key)
+  if (message === undefined) {
+    console.warn(`Missing ${locale.value} message: ${key}`)
+    return key
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    return name in params ? String(params[name]) : placeholder
+  })
+}
+
+const localizeParam = (value: LocalizedParam): string | number => {
+  if (!Array.isArray(value)) return typeof value === 'object' ? localize(value) : value
+  const items = value.map(item => String(localizeParam(item)))
+  return items.length > 1
+    ? translate('lists.or', { items: items.slice(0, -1).join(', '), last: items[items.length - 1] })
+    : items.join('')
+}
+
+/**
+ * Text of a message built by the helpers in utils/, in the current locale
+ */
+export const localize = (message: LocalizedMessage): string => {
+  const params = Object.entries(message.params ?? {}).map(([name, value]) => [name, localizeParam(value)])
+  return translate(message.key, Object.fromEntries(params))
+}
+
+/**
+ * Every dotted key of a catalog, e.g. ['nav.upload', 'nav.balance', ...]
+ */
+export const messageKeys = (tree: MessageTree, prefix = ''): string[] => {
+  return Object.entries(tree).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    return typeof value === 'string' ? [path] : messageKeys(value, path)
+  })
+}
@@ -0,0 +1,693 @@
+import type { MessageTree } from '@/types/i18n'
+
+const messages: MessageTree = {
+  app: {
+    language: 'Idioma',
+    noRole: 'sem perfil',
+    signOut: 'Sair'
+  },
+  nav: {
+    upload: 'Envio',
+    balance: 'Saldos',
+    uploads: 'Histórico',
+    search: 'Busca',
+    transactionTypes: 'Tipos',
+    storeAdmin: 'Lojas',
+    alertRules: 'Alertas'
+  },
+  offline: {
+    staleBanner: 'Sem conexão: exibindo dados de {date}. Eles serão atualizados quando a conexão voltar.'
+  },
+  balance: {
+    title: 'Saldos das Lojas',
+    refresh: 'Atualizar',
+    refreshing: 'Carregando...',
+    importNotice: 'Atualizado após a importação de "{name}" ({count} transação(ões)) em {date}',
+    loadError: 'Falha ao buscar os saldos das lojas: {message}',
+    loadErrorUnknown: 'Falha ao carregar os saldos das lojas',
+    loading: 'Carregando saldos das lojas...',
+    noMatches: 'Nenhuma loja corresponde aos filtros atuais.',
+    empty: 'Nenhuma loja encontrada. Envie arquivos CNAB para ver os saldos.',
+    columns: {
+      owner: 'Dono da Loja',
+      store: 'Nome da Loja',
+      transactions: 'Transações',
+      income: 'Entradas',
+      expense: 'Saídas',
+      balance: 'Saldo Total',
+      actions: 'Ações'
+    },
+    viewStore: 'Ver Loja',
+    total: 'Total',
+    filteredTotal: 'Total filtrado'
+  },
+  upload: {
+    title: 'Envio de Arquivos',
+    dropHint: 'Solte aqui arquivos ou pastas CNAB',
+    chooseFolder: 'Ou escolha uma pasta',
+    parallelUploads: 'Envios em paralelo',
+    clearFinished: 'Limpar concluídos',
+    showPreview: 'Mostrar prévia',
+    hidePreview: 'Ocultar prévia',
+    previewOf: 'Prévia de {name}',
+    uploadFile: 'Enviar Arquivo',
+    uploadFiles: 'Enviar {count} Arquivos',
+    uploading: 'Enviando...',
+    overrideValidation: 'Enviar mesmo assim (o servidor valida o arquivo novamente)',
+    warnings: '{count} aviso(s) durante o processamento',
+    status: {
+      ready: 'Pronto',
+      checking: 'Verificando',
+      duplicate: 'Duplicado',
+      queued: 'Na fila',
+      uploading: 'Enviando',
+      paused: 'Pausado',
+      completing: 'Processando',
+      done: 'Concluído',
+      failed: 'Falhou',
+      cancelled: 'Cancelado',
+      offline: 'Aguardando conexão'
+    },
+    phases: {
+      assembling: 'Montagem',
+      validating: 'Validação',
+      parsing: 'Leitura',
+      persisting: 'Gravação'
+    },
+    progress: {
+      assembling: 'Montando parte {current} de {total}...',
+      validating: 'Validando arquivo...',
+      parsing: 'Lendo linha {current} de {total}...',
+      persisting: 'Gravando transação {current} de {total}...',
+      processing: 'Processando arquivo...'
+    },
+    actions: {
+      pause: 'Pausar',
+      resume: 'Retomar',
+      retry: 'Tentar novamente',
+      skipDuplicates: 'Ignorar duplicadas',
+      importAnyway: 'Importar mesmo assim',
+      cancel: 'Cancelar',
+      remove: 'Remover da fila'
+    },
+    messages: {
+      previewOnly: 'Arquivo {layout}: a prévia mostra as transações, mas só arquivos {formats} podem ser importados.',
+      imported: 'Importado',
+      importedFormat: 'Importado ({format})',
+      skippedSuffix: ', {count} duplicada(s) ignorada(s)',
+      completed: 'Envio concluído com sucesso! {count} transação(ões) importada(s){skipped}. Formato: {format}',
+      unknownFormat: 'Desconhecido',
+      validationFailed: 'Falha na validação CNAB: {details}',
+      failed: 'Falha no envio: {details}',
+      failedUnknown: 'Falha no envio.',
+      confirmResumeOnline: 'O envio falhou por problemas de rede. Deseja continuar o envio quando a conexão voltar?',
+      confirmResume: 'Deseja retomar o envio de "{name}"?',
+      savedForLater: 'Envio salvo. Será retomado quando a conexão voltar.',
+      queuedOffline: 'Na fila. Será enviado quando a conexão voltar.',
+      alreadyUploaded: 'Este arquivo já foi enviado como "{name}" em {date}.',
+      duplicateLines: '{count} de {checked} transação(ões) já existem ({lines}).',
+      checkingDuplicates: 'Verificando duplicidades...',
+      duplicateCheckFailed: 'Não foi possível verificar duplicidades: {error}',
+      unknownError: 'erro desconhecido',
+      blocked: 'Envio bloqueado: {count} linha(s) falharam na validação. Corrija o arquivo ou escolha enviar mesmo assim.',
+      paused: 'Pausado após {sent} de {total} parte(s)',
+      cancelled: 'Envio cancelado.'
+    },
+    lineList: {
+      one: 'linha {lines}',
+      other: 'linhas {lines}',
+      more: 'linhas {lines} e mais {rest}'
+    },
+    summary: {
+      title: 'Resumo do envio',
+      file: 'Arquivo',
+      result: 'Resultado',
+      transactions: 'Transações',
+      total: 'Total importado'
+    }
+  },
+  reconciliation: {
+    title: 'Conciliação',
+    storeCrumb: 'Loja',
+    balancesCrumb: 'Saldos',
+    intro: 'Confronte as transações importadas desta loja com o relatório de liquidação da adquirente: um CSV com as colunas data, valor, CPF, cartão e, opcionalmente, loja.',
+    ledgerFile: 'Relatório de liquidação (CSV)',
+    valueTolerance: 'Tolerância de valor (R$)',
+    timeWindow: 'Janela de tempo (minutos)',
+    loadingStore: 'Carregando loja...',
+    loadingTransactions: 'Carregando transações...',
+    storeNotFound: 'Loja não encontrada.',
+    loadError: 'Falha ao carregar a loja: {message}',
+    transactionsError: 'Falha ao carregar as transações: {message}',
+    readError: 'Não foi possível ler {name}.',
+    ledgerSummary: '{name}: {count} lançamento(s) de {from} a {to}',
+    otherStores: '{count} lançamento(s) de outras lojas foram desconsiderados.',
+    noEntries: 'O relatório não tem lançamentos desta loja.',
+    errors: {
+      empty: 'O arquivo está vazio.',
+      'missing-columns': 'Coluna(s) ausente(s): {value}',
+      'invalid-date': 'Linha {line}: data inválida "{value}"',
+      'invalid-value': 'Linha {line}: valor inválido "{value}"'
+    },
+    buckets: {
+      matched: 'Conciliadas',
+      missingInCnab: 'Ausentes no CNAB',
+      missingInLedger: 'Ausentes no relatório',
+      openExceptions: 'Exceções em aberto'
+    },
+    hints: {
+      missingInCnab: 'No relatório de liquidação, mas não importadas de nenhum arquivo CNAB.',
+      missingInLedger: 'Importadas de um arquivo CNAB, mas fora do relatório de liquidação.'
+    },
+    columns: {
+      line: 'Linha',
+      date: 'Data',
+      time: 'Hora',
+      value: 'Valor',
+      cpf: 'CPF',
+      card: 'Cartão',
+      type: 'Tipo',
+      rule: 'Regra',
+      difference: 'Diferença',
+      status: 'Situação'
+    },
+    rules: {
+      exact: 'Exata',
+      fuzzy: 'Aproximada'
+    },
+    apart: '{minutes} min de diferença',
+    none: 'Nenhuma.',
+    resolve: 'Marcar como resolvida',
+    reopen: 'Reabrir',
+    save: 'Salvar',
+    cancel: 'Cancelar',
+    notePlaceholder: 'O que foi feito a respeito?',
+    resolvedBy: 'Resolvida por {name} em {date}',
+    unknownUser: 'usuário desconhecido',
+    hideResolved: 'Ocultar exceções resolvidas'
+  },
+  statement: {
+    title: 'Extrato',
+    storeCrumb: 'Loja',
+    balancesCrumb: 'Saldos',
+    loading: 'Carregando extrato...',
+    storeNotFound: 'Loja não encontrada.',
+    loadError: 'Falha ao carregar o extrato: {message}',
+    from: 'De',
+    to: 'Até',
+    print: 'Imprimir / salvar em PDF',
+    printHint: 'Para obter um PDF, escolha "Salvar como PDF" como impressora.',
+    owner: 'Proprietário',
+    store: 'Loja',
+    period: 'Período',
+    periodRange: '{from} a {to}',
+    beginning: 'primeira movimentação',
+    issuedAt: 'Emitido em {date}',
+    openingBalance: 'Saldo inicial',
+    closingBalance: 'Saldo final',
+    movements: 'Movimentações',
+    noMovements: 'Nenhuma movimentação no período.',
+    totalsByType: 'Totais por tipo',
+    totalIncome: 'Total de entradas',
+    totalExpense: 'Total de saídas',
+    columns: {
+      date: 'Data',
+      time: 'Hora',
+      type: 'Tipo',
+      card: 'Cartão',
+      value: 'Valor',
+      balance: 'Saldo',
+      count: 'Movimentações',
+      total: 'Total'
+    }
+  },
+  storeAdmin: {
+    title: 'Gestão de Lojas',
+    intro: 'Una lojas duplicadas, corrija seus nomes, separe transações que pertencem a outra loja e agrupe filiais sob a matriz. Arquivos com os nomes antigos continuam sendo importados na loja resultante, e cada alteração fica registrada abaixo.',
+    changedBy: 'Seu nome',
+    loading: 'Carregando lojas...',
+    loadingUploads: 'Carregando arquivos...',
+    loadError: 'Falha ao carregar as lojas: {message}',
+    uploadsError: 'Falha ao carregar os arquivos da loja: {message}',
+    changeError: 'A alteração não foi salva: {message}',
+    mergeInto: 'Manter',
+    merge: 'Unir {count} loja(s) a ela',
+    mergeHint: 'As demais lojas selecionadas são excluídas e suas transações passam para a loja mantida.',
+    standAlone: 'Nenhuma',
+    rename: 'Renomear',
+    split: 'Separar',
+    renameTitle: 'Renomear {name}',
+    splitTitle: 'Separar {name}',
+    splitHint: 'As transações importadas dos arquivos selecionados passam para uma nova loja.',
+    fileTransactions: '{count} transação(ões)',
+    newStore: 'Nova loja',
+    groupTotal: 'Total do grupo com {count} filial(is)',
+    save: 'Salvar',
+    saving: 'Salvando...',
+    cancel: 'Cancelar',
+    historyTitle: 'Histórico de alterações',
+    noChanges: 'Nenhuma loja foi alterada ainda.',
+    changedByOn: 'por {name} em {date}',
+    movedTransactions: '{count} transação(ões) movida(s)',
+    columns: {
+      store: 'Loja',
+      owner: 'Proprietário',
+      transactions: 'Transações',
+      balance: 'Saldo',
+      headStore: 'Filial de'
+    },
+    actions: {
+      merge: 'União',
+      rename: 'Renomeação',
+      split: 'Separação',
+      group: 'Agrupamento',
+      ungroup: 'Desagrupamento'
+    }
+  },
+  alerts: {
+    title: 'Notificações',
+    empty: 'Nenhum alerta ainda.',
+    markRead: 'Marcar como lida',
+    markAllRead: 'Marcar todas como lidas',
+    loadError: 'Falha ao carregar as notificações: {message}',
+    markError: 'Falha ao atualizar as notificações: {message}',
+    kinds: {
+      'balance-below': 'Saldo baixo',
+      'transaction-above': 'Transação alta',
+      'daily-volume': 'Volume incomum',
+      'unknown-type': 'Tipo desconhecido'
+    },
+    notices: {
+      'balance-below': 'Saldo de {value} está abaixo de {threshold}',
+      'transaction-above': 'Transação de {value} está acima de {threshold}',
+      'daily-volume': 'Volume diário de {value} passa de {threshold} a média recente'
+    }
+  },
+  alertRules: {
+    title: 'Regras de Alerta',
+    intro: 'As regras são verificadas após cada importação. Os alertas aparecem no sino de notificações e são enviados ao webhook configurado.',
+    loading: 'Carregando regras de alerta...',
+    empty: 'Nenhuma regra de alerta foi criada ainda.',
+    loadError: 'Falha ao carregar as regras de alerta: {message}',
+    saveError: 'Falha ao salvar a regra de alerta: {message}',
+    newTitle: 'Nova regra',
+    editTitle: 'Editar regra',
+    amount: 'Valor (R$)',
+    multiple: 'Vezes a média diária',
+    allStores: 'Todas as lojas',
+    save: 'Salvar',
+    saving: 'Salvando...',
+    cancel: 'Cancelar',
+    edit: 'Editar',
+    delete: 'Excluir',
+    confirmDelete: "Excluir a regra de alerta '{name}'? As notificações dela são mantidas.",
+    created: "Regra de alerta '{name}' criada",
+    updated: "Regra de alerta '{name}' atualizada",
+    deleted: "Regra de alerta '{name}' excluída",
+    enabledMessage: "Regra de alerta '{name}' ativada",
+    disabledMessage: "Regra de alerta '{name}' desativada",
+    columns: {
+      name: 'Nome',
+      kind: 'Condição',
+      threshold: 'Limite',
+      store: 'Loja',
+      enabled: 'Ativa'
+    },
+    hints: {
+      'balance-below': 'Alerta quando uma importação deixa o saldo de uma loja abaixo do valor. O valor pode ser negativo.',
+      'transaction-above': 'Alerta para cada transação importada acima do valor.',
+      'daily-volume': 'Alerta quando uma loja movimenta num dia mais que esta quantidade de vezes a sua média dos 30 dias anteriores (com pelo menos 3 dias com transações).',
+      'unknown-type': 'Alerta quando um arquivo é rejeitado por códigos de tipo de transação ausentes do catálogo.'
+    },
+    errors: {
+      nameRequired: 'Dê um nome à regra',
+      thresholdRequired: 'Informe um número para o limite',
+      thresholdPositive: 'O limite deve ser maior que zero'
+    }
+  },
+  natures: {
+    Income: 'Entrada',
+    Expense: 'Saída',
+    Unknown: 'Desconhecida'
+  },
+  breadcrumbs: {
+    label: 'Trilha de navegação'
+  },
+  pagination: {
+    range: '{first}–{last} de {total}',
+    page: 'Página {page} de {pages}',
+    rows: 'Linhas'
+  },
+  exportButtons: {
+    label: 'Exportar'
+  },
+  filters: {
+    from: 'De',
+    to: 'Até',
+    nature: 'Natureza',
+    allNatures: 'Todas',
+    store: 'Loja',
+    storePlaceholder: 'Nome da loja ou do dono',
+    clear: 'Limpar filtros'
+  },
+  storeDetail: {
+    balancesCrumb: 'Saldos',
+    storeCrumb: 'Loja',
+    loading: 'Carregando loja...',
+    storeNotFound: 'Loja não encontrada.',
+    loadError: 'Falha ao carregar a loja: {message}',
+    loadErrorUnknown: 'Falha ao carregar a loja',
+    reconcile: 'Conciliar com um relatório de liquidação',
+    statement: 'Imprimir um extrato',
+    kpis: {
+      balance: 'Saldo',
+      income: 'Entradas',
+      expense: 'Saídas',
+      transactions: 'Transações'
+    },
+    transactions: 'Transações',
+    showCharts: 'Mostrar Gráficos',
+    hideCharts: 'Ocultar Gráficos',
+    loadingCharts: 'Carregando gráficos...',
+    chartsError: 'Falha ao carregar os gráficos: {message}',
+    chartsErrorUnknown: 'Falha ao carregar os gráficos',
+    exportError: 'Falha ao exportar as transações: {message}',
+    exportErrorUnknown: 'Falha ao exportar as transações',
+    loadingTransactions: 'Carregando transações...',
+    noTransactions: 'Nenhuma transação encontrada para esta loja.',
+    unknownType: 'Desconhecido',
+    reveal: 'Revelar',
+    hide: 'Ocultar',
+    columns: {
+      date: 'Data',
+      time: 'Hora',
+      type: 'Tipo',
+      value: 'Valor',
+      cpf: 'CPF',
+      card: 'Cartão',
+      nature: 'Natureza'
+    },
+    uploadsTitle: 'Arquivos de Origem',
+    loadingUploads: 'Carregando arquivos...',
+    uploadsError: 'Falha ao carregar os arquivos desta loja.',
+    noUploads: 'Nenhum arquivo enviado contém transações desta loja.',
+    uploadColumns: {
+      file: 'Arquivo',
+      format: 'Formato',
+      uploaded: 'Enviado em',
+      transactions: 'Transações'
+    }
+  },
+  analytics: {
+    empty: 'Nenhuma transação para exibir nos gráficos.',
+    balanceTitle: 'Saldo acumulado',
+    balanceLabel: 'Saldo acumulado ao longo do tempo',
+    incomeExpenseTitle: 'Entradas e saídas',
+    incomeExpenseLabel: 'Entradas e saídas por período',
+    groupBy: 'Agrupar por',
+    periods: {
+      day: 'Dia',
+      week: 'Semana',
+      month: 'Mês'
+    },
+    incomeOf: 'Entradas em {period}: {value}',
+    expenseOf: 'Saídas em {period}: {value}',
+    income: 'Entradas',
+    expense: 'Saídas',
+    byTypeTitle: 'Por tipo de transação',
+    byTypeLabel: 'Totais por tipo de transação'
+  },
+  piiReveal: {
+    summary: 'Revelar o CPF e o cartão da transação {type} de {value} em {date}. A revelação fica registrada como {name} ({role}) com o seu motivo.',
+    reason: 'Motivo',
+    reasonPlaceholder: 'ex.: contestação de compra',
+    reveal: 'Revelar',
+    revealing: 'Revelando...',
+    cancel: 'Cancelar',
+    error: 'Falha ao revelar os dados: {message}',
+    errorUnknown: 'Falha ao revelar os dados'
+  },
+  cnab: {
+    fields: {
+      type: 'Tipo',
+      occurrence: 'Ocorrência',
+      date: 'Data',
+      value: 'Valor',
+      cpf: 'CPF',
+      card: 'Cartão',
+      time: 'Hora',
+      storeOwner: 'Dono da Loja',
+      storeName: 'Nome da Loja',
+      bank: 'Banco',
+      batch: 'Lote',
+      recordType: 'Tipo de registro',
+      sequence: 'Sequencial',
+      segment: 'Segmento',
+      companyName: 'Nome da empresa',
+      generatedOn: 'Data de geração',
+      recordCount: 'Quantidade de registros',
+      batchCount: 'Quantidade de lotes',
+      operation: 'Operação',
+      documentType: 'Tipo de documento',
+      documentPadding: 'Complemento do documento'
+    },
+    segments: {
+      header: 'Header',
+      detail: 'Detalhe',
+      trailer: 'Trailer',
+      fileHeader: 'Header de arquivo',
+      batchHeader: 'Header de lote',
+      segmentA: 'Segmento A',
+      batchTrailer: 'Trailer de lote',
+      fileTrailer: 'Trailer de arquivo'
+    },
+    expected: {
+      digits: '{length} dígitos',
+      cents: '{length} dígitos (centavos)',
+      date: '{length} dígitos ({format})',
+      time: '6 dígitos (HHMMSS)',
+      card: '{length} dígitos ou asteriscos',
+      text: 'até {length} caracteres',
+      requiredText: 'até {length} caracteres, não em branco',
+      codes: 'um de {codes}',
+      digit: 'dígito de 0 a 9',
+      values: '{values}',
+      lineLength: '{length} caracteres',
+      segments: 'registro {segments}',
+      validCpf: '{length} dígitos com dígitos verificadores válidos',
+      transaction: 'dígito de 0 a 8 para uma transação'
+    },
+    messages: {
+      recordLength: 'Tamanho de registro inválido: {length}, esperado {expected}',
+      unknownRecord: 'Registro {layout} desconhecido',
+      invalidFormat: 'Formato de {field} inválido \'{value}\', esperado {expected}',
+      invalidValueFormat: 'Formato de valor inválido \'{value}\', esperado {expected}',
+      invalidDateFormat: 'Formato de data inválido \'{value}\', esperado {expected}',
+      invalidDate: 'Data inválida \'{value}\'',
+      invalidTimeFormat: 'Formato de hora inválido \'{value}\', esperado {expected}',
+      invalidTime: 'Hora inválida \'{value}\'',
+      invalidCardFormat: 'Formato de cartão inválido \'{value}\', esperado {expected}',
+      empty: '{field} não pode ficar em branco',
+      invalidType: 'Tipo inválido \'{value}\', esperado {expected}',
+      invalidConstant: '{field} inválido \'{value}\', esperado {expected}',
+      cpfCheckDigits: 'O CPF {cpf} tem dígitos verificadores inválidos',
+      trailerSkipped: 'Registro trailer (tipo 9) ignorado'
+    }
+  },
+  lists: {
+    or: '{items} ou {last}'
+  },
+  cnabPreview: {
+    empty: 'Nenhum registro encontrado neste arquivo.',
+    valid: '{count} válido(s)',
+    invalid: '{count} com erros',
+    header: '{count} cabeçalho(s)',
+    trailer: '{count} trailer(s)',
+    duplicates: '{count} já importado(s)',
+    onlyErrors: 'Somente linhas com erros',
+    line: 'Linha',
+    status: 'Situação',
+    alreadyImported: 'Já importada',
+    ok: 'OK',
+    truncated: 'Mais {count} linha(s) não exibida(s)'
+  },
+  validationReport: {
+    columns: {
+      line: 'Linha',
+      columns: 'Colunas',
+      field: 'Campo',
+      value: 'Valor',
+      expected: 'Esperado',
+      severity: 'Gravidade'
+    },
+    severities: {
+      error: 'erro',
+      warning: 'aviso'
+    },
+    summary: {
+      errorsOnLines: '{errors} em {lines}',
+      errors: {
+        one: '{count} erro',
+        other: '{count} erros'
+      },
+      lines: {
+        one: '{count} linha',
+        other: '{count} linhas'
+      },
+      warnings: {
+        one: '{count} aviso',
+        other: '{count} avisos'
+      }
+    },
+    truncated: 'Mais {count} problema(s) não exibido(s); baixe o relatório para ver todos'
+  },
+  typeMapping: {
+    missing: 'O arquivo usa o(s) código(s) de tipo {codes}, que o catálogo de tipos de transação não tem.',
+    canMap: 'Mapeie-os para enviá-lo.',
+    askAdmin: 'Peça a um administrador que os inclua no catálogo e envie o arquivo novamente.',
+    namePlaceholder: 'Nome',
+    save: 'Incluir tipo',
+    saving: 'Salvando...',
+    nameRequired: 'Informe um nome',
+    saveError: 'Não foi possível salvar o tipo'
+  },
+  uploads: {
+    title: 'Histórico de Envios',
+    refresh: 'Atualizar',
+    refreshing: 'Carregando...',
+    loading: 'Carregando histórico de envios...',
+    loadError: 'Falha ao buscar o histórico de envios: {message}',
+    loadErrorUnknown: 'Falha ao carregar o histórico de envios',
+    empty: 'Nenhum arquivo enviado ainda.',
+    columns: {
+      file: 'Arquivo',
+      size: 'Tamanho',
+      format: 'Formato',
+      transactions: 'Transações',
+      uploaded: 'Enviado em',
+      stores: 'Lojas',
+      actions: 'Ações'
+    },
+    viewTransactions: 'Ver Transações',
+    hideTransactions: 'Ocultar Transações',
+    revert: 'Reverter',
+    revertedBadge: 'Revertido por {name} em {date} ({count} transação(ões) excluída(s))',
+    reverted: '"{name}" revertido: {count} transação(ões) excluída(s).',
+    uploadedFile: 'Arquivo enviado',
+    storeTransactions: '{count} transação(ões)',
+    loadingTransactions: 'Carregando transações...',
+    fileNotFound: 'Arquivo enviado não encontrado.',
+    transactionsError: 'Falha ao carregar as transações deste arquivo.',
+    noTransactions: 'Nenhuma transação encontrada para este arquivo.',
+    transactionColumns: {
+      date: 'Data',
+      time: 'Hora',
+      store: 'Loja',
+      type: 'Tipo',
+      value: 'Valor',
+      cpf: 'CPF',
+      card: 'Cartão'
+    }
+  },
+  revert: {
+    title: 'Reverter "{name}"',
+    calculating: 'Calculando as mudanças de saldo...',
+    summary: 'Reverter exclui a(s) {count} transação(ões) importada(s) deste arquivo. Nada muda até você confirmar.',
+    columns: {
+      store: 'Loja',
+      owner: 'Proprietário',
+      transactions: 'Transações',
+      currentBalance: 'Saldo atual',
+      change: 'Variação',
+      balanceAfter: 'Saldo depois'
+    },
+    storeRemoved: 'Loja removida',
+    revertedBy: 'Revertido por',
+    namePlaceholder: 'Seu nome',
+    confirm: 'Reverter importação',
+    reverting: 'Revertendo...',
+    cancel: 'Cancelar',
+    close: 'Fechar',
+    previewError: 'Falha ao simular a reversão: {message}',
+    previewErrorUnknown: 'Falha ao simular a reversão',
+    revertError: 'Falha ao reverter a importação: {message}',
+    revertErrorUnknown: 'Falha ao reverter a importação'
+  },
+  search: {
+    title: 'Busca de Transações',
+    fields: {
+      cpf: 'CPF',
+      card: 'Cartão',
+      owner: 'Proprietário',
+      store: 'Loja',
+      minValue: 'Valor mínimo',
+      maxValue: 'Valor máximo',
+      from: 'De',
+      to: 'Até'
+    },
+    clear: 'Limpar',
+    hints: {
+      cpf: 'Digite os {count} dígitos do CPF.',
+      card: 'Digite ao menos {count} caracteres do cartão.',
+      values: 'O valor mínimo é maior que o máximo.',
+      dates: 'A data inicial é posterior à data final.'
+    },
+    error: 'A busca falhou: {message}',
+    errorUnknown: 'A busca falhou',
+    intro: 'Busque por CPF, cartão, proprietário, loja, valor ou data para encontrar transações em todas as lojas.',
+    searching: 'Buscando...',
+    noMatches: 'Nenhuma transação corresponde à busca.',
+    columns: {
+      date: 'Data',
+      time: 'Hora',
+      store: 'Loja',
+      owner: 'Proprietário',
+      type: 'Tipo',
+      value: 'Valor',
+      cpf: 'CPF',
+      card: 'Cartão',
+      file: 'Arquivo'
+    },
+    sourceFile: 'Arquivo de origem'
+  },
+  transactionTypes: {
+    title: 'Tipos de Transação',
+    intro: 'Cada código de tipo CNAB corresponde a um nome e a uma natureza. Entradas somam ao saldo da loja e saídas subtraem dele, então mudar uma natureza muda os saldos de todas as transações daquele tipo.',
+    loading: 'Carregando tipos de transação...',
+    loadError: 'Falha ao carregar os tipos de transação: {message}',
+    loadErrorUnknown: 'Falha ao carregar os tipos de transação',
+    columns: {
+      code: 'Código',
+      name: 'Nome',
+      nature: 'Natureza',
+      description: 'Descrição',
+      color: 'Cor'
+    },
+    namePlaceholder: 'Nome',
+    descriptionPlaceholder: 'Descrição',
+    save: 'Salvar',
+    saving: 'Salvando...',
+    add: 'Incluir tipo',
+    adding: 'Incluindo...',
+    nameRequired: 'O nome é obrigatório',
+    saved: 'Tipo {code} ({name}) salvo. Os saldos já usam o catálogo atualizado.',
+    added: 'Tipo {code} ({name}) incluído.',
+    saveError: 'Não foi possível salvar o tipo',
+    addError: 'Não foi possível incluir o tipo'
+  },
+  login: {
+    title: 'Entrar',
+    denied: 'Você entrou como {name}, mas sua conta não tem perfil nesta aplicação. Peça a um administrador o perfil viewer, uploader ou admin.',
+    signOut: 'Sair',
+    completing: 'Concluindo a entrada...',
+    intro: 'Entre com a conta da sua organização para enviar arquivos e ver os saldos das lojas.',
+    signIn: 'Entrar',
+    redirecting: 'Redirecionando...',
+    unreachable: 'Não foi possível acessar o serviço de login: {message}',
+    unreachableUnknown: 'Não foi possível acessar o serviço de login',
+    failed: 'Falha no login: {message}',
+    failedUnknown: 'Falha no login'
+  }
+}
+
+export default messages
@@ -1,11 +1,29 @@
 import { createApp } from 'vue'
 import App from './App.vue'
 import router from './router'
+import { setAccessTokenProvider, setUnauthorizedHandler } from './api'
+import { useAuth } from './composables/useAuth'
+import { registerServiceWorker } from './utils/service-worker'
 
 import './assets/main.css'
 
+const auth = useAuth()
+
+setAccessTokenProvider(() => auth.currentSession()?.accessToken ?? null)
+// The token expired or was revoked: sign in again and come back to the same screen
+setUnauthorizedHandler(() => {
+  auth.setSession(null)
+  const { fullPath, meta } = router.currentRoute.value
+  if (!meta.public) router.push({ name: 'login', query: { redirect: fullPath } })
+})
+
 const app = createApp(App)
 
 app.use(router)
 
-app.mount('#app')
\ No newline at end of file
+app.mount('#app')
+
+// Offline support only in builds; in development it would serve stale modules
+if (import.meta.env.PROD) {
+  registerServiceWorker({ accessToken: () => auth.currentSession()?.accessToken ?? null })
+}
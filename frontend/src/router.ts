@@ -1,23 +1,120 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import UploadView from './views/UploadView.vue'
 import BalanceView from './views/BalanceView.vue'
+import StoreDetailView from './views/StoreDetailView.vue'
+import ReconciliationView from './views/ReconciliationView.vue'
+import StatementView from './views/StatementView.vue'
+import UploadHistoryView from './views/UploadHistoryView.vue'
+import TransactionSearchView from './views/TransactionSearchView.vue'
+import TransactionTypesView from './views/TransactionTypesView.vue'
+import StoreAdminView from './views/StoreAdminView.vue'
+import AlertRulesView from './views/AlertRulesView.vue'
+import LoginView from './views/LoginView.vue'
+import { useAuth } from './composables/useAuth'
+import { guardNavigation, type GuardedScreen } from './utils/route-access'
+import { ROLES, type Role } from './types/auth'
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    public?: boolean
+    roles?: readonly Role[]
+  }
+}
+
+const UPLOADERS: readonly Role[] = ['uploader', 'admin']
+const ADMINS: readonly Role[] = ['admin']
 
 const routes = [
   {
     path: '/',
     name: 'upload',
-    component: UploadView
+    component: UploadView,
+    meta: { roles: UPLOADERS }
   },
   {
     path: '/balance',
     name: 'balance',
-    component: BalanceView
+    component: BalanceView,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/stores/:storeId',
+    name: 'store',
+    component: StoreDetailView,
+    props: true,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/stores/:storeId/reconciliation',
+    name: 'reconciliation',
+    component: ReconciliationView,
+    props: true,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/stores/:storeId/statement',
+    name: 'statement',
+    component: StatementView,
+    props: true,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/uploads/:fileId?',
+    name: 'uploads',
+    component: UploadHistoryView,
+    props: true,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/search',
+    name: 'search',
+    component: TransactionSearchView,
+    meta: { roles: ROLES }
+  },
+  {
+    path: '/transaction-types',
+    name: 'transaction-types',
+    component: TransactionTypesView,
+    meta: { roles: ADMINS }
+  },
+  {
+    path: '/store-admin',
+    name: 'store-admin',
+    component: StoreAdminView,
+    meta: { roles: ADMINS }
+  },
+  {
+    path: '/alert-rules',
+    name: 'alert-rules',
+    component: AlertRulesView,
+    meta: { roles: ADMINS }
+  },
+  {
+    path: '/login',
+    name: 'login',
+    component: LoginView,
+    meta: { public: true }
+  },
+  {
+    // The issuer redirects here with the authorization code
+    path: '/auth/callback',
+    name: 'auth-callback',
+    component: LoginView,
+    meta: { public: true }
   }
 ]
 
+// Screens in navigation order, for the guard and the header links
+export const screens: GuardedScreen[] = routes.map(({ name, meta }) => ({ name, access: meta }))
+
 const router = createRouter({
   history: createWebHistory(),
   routes
 })
 
-export default router
\ No newline at end of file
+router.beforeEach(to => {
+  const user = useAuth().currentSession()?.user ?? null
+  return guardNavigation({ fullPath: to.fullPath, access: to.meta }, user, screens)
+})
+
+export default router
@@ -0,0 +1,22 @@
+// Signed-in user and the roles that decide which screens they can reach
+
+// viewer: balances and upload history
+// uploader: everything a viewer sees, plus uploading files
+// admin: everything, including the type catalog, reverting imports and revealing personal data
+export const ROLES = ['viewer', 'uploader', 'admin'] as const
+
+export type Role = typeof ROLES[number]
+
+export interface AuthUser {
+  name: string
+  roles: Role[]
+}
+
+export interface AuthSession {
+  accessToken: string
+  // Sent back to the issuer on logout so it can end its own session
+  idToken?: string
+  // Epoch milliseconds, from the access token's exp claim
+  expiresAt: number
+  user: AuthUser
+}
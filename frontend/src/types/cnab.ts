@@ -0,0 +1,125 @@
+// Types shared by the client-side CNAB parser and the upload preview
+
+import type { LocalizedMessage } from './i18n'
+
+export type CnabFieldName =
+  | 'type'
+  | 'date'
+  | 'value'
+  | 'cpf'
+  | 'card'
+  | 'time'
+  | 'storeOwner'
+  | 'storeName'
+
+export type CnabFormatId = 'cnab80' | 'cnab240' | 'cnab400'
+
+// numeric: digits only; amount: digits holding cents; card: digits or masking asterisks;
+// transactionType: a type code 0-9, or a bank code translated through `codes`;
+// constant: one of `values`, e.g. a record type or segment letter
+export type CnabFieldType =
+  | 'numeric'
+  | 'amount'
+  | 'date'
+  | 'time'
+  | 'card'
+  | 'text'
+  | 'transactionType'
+  | 'constant'
+
+export type CnabDateFormat = 'YYYYMMDD' | 'DDMMYYYY' | 'DDMMYY'
+
+export interface CnabLayoutField {
+  // Fields named after a transaction field (type, date, value, ...) fill it
+  name: string
+  // Message key, e.g. cnab.fields.recordType
+  label: string
+  // 0-based offset into the line
+  start: number
+  length: number
+  type: CnabFieldType
+  dateFormat?: CnabDateFormat
+  // Text fields that may not be blank
+  required?: boolean
+  // Bank code to CNAB type 0-9, for transactionType fields
+  codes?: Record<string, number>
+  values?: string[]
+}
+
+export type CnabSegmentKind = 'header' | 'detail' | 'trailer'
+
+export interface CnabLayoutSegment {
+  kind: CnabSegmentKind
+  // Message key, e.g. cnab.segments.fileHeader
+  name: string
+  // Text a line must have at these offsets to be of this segment; empty matches any line
+  match: { start: number; value: string }[]
+  fields: CnabLayoutField[]
+}
+
+export interface CnabLayout {
+  id: CnabFormatId
+  // As the server reports it, e.g. "CNAB 80"
+  label: string
+  lineLength: number
+  // Text the first line has at these offsets; empty means the line length alone decides
+  detect: { start: number; value: string }[]
+  // Segments are tried in order, so put catch-all segments last
+  segments: CnabLayoutSegment[]
+  // Raw values for transaction fields the layout does not carry
+  defaults?: Partial<Record<CnabFieldName, string>>
+  // The server imports files in this layout; others can only be previewed
+  importable: boolean
+}
+
+export interface CnabFieldError {
+  // Layout field name, or 'line' when the whole record is wrong
+  field: string
+  // 0-based column range [start, end) of the offending text
+  start: number
+  end: number
+  value: string
+  // Format the field should have, e.g. "8 digits (YYYYMMDD)"
+  expected: LocalizedMessage
+  message: LocalizedMessage
+}
+
+export interface CnabRecord {
+  type: number
+  // ISO date, YYYY-MM-DD
+  date: string
+  valueCents: number
+  value: number
+  cpf: string
+  card: string
+  // HH:MM:SS
+  time: string
+  storeOwner: string
+  storeName: string
+}
+
+export interface CnabParsedLine {
+  lineNumber: number
+  raw: string
+  // null when the line matches no segment of the layout
+  kind: CnabSegmentKind | null
+  // Message key of the segment's name
+  segment: string | null
+  // Trailers carry no transaction; in CNAB 80 these are the type 9 lines the server skips
+  isTrailer: boolean
+  // Raw text of the transaction fields
+  fields: Partial<Record<CnabFieldName, string>>
+  record: CnabRecord | null
+  errors: CnabFieldError[]
+  // Problems that leave the line importable, e.g. a CPF with wrong check digits
+  warnings: CnabFieldError[]
+}
+
+export interface CnabParseResult {
+  format: CnabFormatId
+  lines: CnabParsedLine[]
+  validCount: number
+  invalidCount: number
+  headerCount: number
+  trailerCount: number
+}
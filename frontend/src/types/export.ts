@@ -0,0 +1,19 @@
+// Tabular data handed to the CSV / XLSX / OFX writers
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx' | 'json'
+
+// Currency columns hold signed BRL amounts
+export type ExportColumnType = 'text' | 'number' | 'currency'
+
+export interface ExportColumn {
+  header: string
+  type: ExportColumnType
+}
+
+export type ExportCell = string | number
+
+export interface ExportSheet {
+  name: string
+  columns: ExportColumn[]
+  rows: ExportCell[][]
+}
@@ -0,0 +1,23 @@
+// Languages the UI is translated into. Amounts stay in BRL whatever the locale.
+
+export const LOCALES = ['pt-BR', 'en-US'] as const
+
+export type Locale = typeof LOCALES[number]
+
+// Messages grouped by screen, e.g. upload.status.offline
+export interface MessageTree {
+  [key: string]: string | MessageTree
+}
+
+// Values for the {placeholders} of a message
+export type MessageParams = Record<string, string | number>
+
+// A message built ahead of the screen that shows it, e.g. a parser error: translated
+// when rendered, so it follows the locale. A parameter can be a message itself, or a
+// list shown as alternatives ("'0' or '1'").
+export interface LocalizedMessage {
+  key: string
+  params?: Record<string, LocalizedParam>
+}
+
+export type LocalizedParam = string | number | LocalizedMessage | LocalizedParam[]
@@ -0,0 +1,7 @@
+import type { RouteLocationRaw } from 'vue-router'
+
+// Trail of pages above the current one; the last crumb is the current page and has no link
+export interface Breadcrumb {
+  label: string
+  to?: RouteLocationRaw
+}
@@ -0,0 +1,67 @@
+// Reconciliation of a store's imported transactions against the acquirer's settlement report
+
+import type { TransactionDetail } from './transaction'
+
+// One row of the settlement report (ledger) CSV
+export interface LedgerEntry {
+  // Line in the CSV, the header being line 1
+  line: number
+  // Local timestamp without offset, like TransactionDetail.datetime
+  datetime: string
+  // Always positive: the report's sign is not compared, the CNAB nature already carries it
+  value: number
+  // Masked like the API masks them, so both sides compare the same digits
+  cpf: string
+  card: string
+  store: string
+}
+
+// missing-columns: the header lacks a required column, listed in `value`
+export type LedgerErrorCode = 'empty' | 'missing-columns' | 'invalid-date' | 'invalid-value'
+
+export interface LedgerParseError {
+  line: number
+  code: LedgerErrorCode
+  // The offending text, shown next to the message
+  value: string
+}
+
+export interface LedgerParseResult {
+  entries: LedgerEntry[]
+  errors: LedgerParseError[]
+}
+
+export interface ReconciliationRules {
+  // Largest difference in reais still accepted by a fuzzy match
+  valueTolerance: number
+  // Largest difference in minutes still accepted by a fuzzy match
+  timeWindowMinutes: number
+}
+
+// exact: same time, value, CPF and card; fuzzy: same CPF and card within the tolerances
+export type MatchRule = 'exact' | 'fuzzy'
+
+export interface ReconciliationMatch {
+  entry: LedgerEntry
+  transaction: TransactionDetail
+  rule: MatchRule
+  // Ledger minus CNAB
+  valueDifference: number
+  minutesApart: number
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationMatch[]
+  // In the ledger but not imported from any CNAB file
+  missingInCnab: LedgerEntry[]
+  // Imported but not in the ledger
+  missingInLedger: TransactionDetail[]
+}
+
+// A reviewed exception, kept per store in the browser
+export interface ExceptionResolution {
+  note: string
+  resolvedBy: string
+  // ISO timestamp
+  resolvedAt: string
+}
@@ -0,0 +1,29 @@
+// Printable statement of a store's movements over a period
+
+import type { TransactionDetail } from './transaction'
+
+export interface StatementLine {
+  transaction: TransactionDetail
+  // Store balance right after this movement
+  balance: number
+}
+
+export interface StatementTypeTotal {
+  code: number
+  name: string
+  nature: string
+  count: number
+  // Sum of the movements' values, always positive; the nature gives the direction
+  total: number
+}
+
+export interface Statement {
+  openingBalance: number
+  // Oldest first
+  lines: StatementLine[]
+  // Ordered by type code
+  totalsByType: StatementTypeTotal[]
+  totalIncome: number
+  totalExpense: number
+  closingBalance: number
+}
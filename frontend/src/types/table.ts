@@ -0,0 +1,8 @@
+// Sorting and paging state shared by the data tables
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface SortState<K extends string = string> {
+  key: K
+  direction: SortDirection
+}
@@ -0,0 +1,65 @@
+// Transaction shape used by the views, derived from the API's ApiTransaction
+
+export interface TransactionDetail {
+  id: string
+  transactionType: string
+  transactionCode: number
+  nature: string
+  sign: string
+  // Timestamp as received from the API (CNAB local time, no offset)
+  datetime: string
+  date: string
+  value: number
+  cpf: string
+  card: string
+  time: string
+  storeName: string
+  storeOwner: string
+  storeId: string
+  fileId: string
+  // Original name of the source file, when the API included it
+  fileName: string
+}
+
+export type TransactionNature = 'Income' | 'Expense'
+
+// Entry of the transaction type catalog, which maps a CNAB type code to a name and nature
+export interface TransactionTypeInfo {
+  code: number
+  name: string
+  nature: TransactionNature
+  description?: string
+  // Badge colour (#rrggbb); without one the colour of the nature is used
+  color?: string
+}
+
+// Criteria shared by the Balances page, its URL query and the API
+export interface TransactionFilters {
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from?: string
+  to?: string
+  // CNAB type codes 0-9; empty means every type
+  types: number[]
+  nature?: TransactionNature
+  // Matches the store name or owner
+  search?: string
+}
+
+// Criteria of the cross-store search, shared by its URL query and the API
+export interface TransactionSearchCriteria {
+  // Every digit of the CPF; partial CPFs are not searched
+  cpf?: string
+  // Part of the card number as it appears in the CNAB file, e.g. 3153 or 4753****3153
+  card?: string
+  owner?: string
+  store?: string
+  // Inclusive value range in reais
+  minValue?: number
+  maxValue?: number
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from?: string
+  to?: string
+}
+
+// Columns the transaction endpoints can sort by
+export type TransactionSortField = 'date' | 'time' | 'type' | 'value' | 'nature'
@@ -0,0 +1,62 @@
+// State of one file in the upload queue
+
+import type { DuplicateCheckResponse, DuplicateHandling, ImportProgressEvent, ValidationIssue } from '@/api'
+import type { CnabParseResult } from './cnab'
+import type { LocalizedMessage } from './i18n'
+
+// ready: added, waiting for the user to start it
+// checking: asking the server whether the file or its lines were imported before
+// duplicate: waiting for the user to skip the duplicates, import anyway or cancel
+// queued: started, waiting for a free upload slot
+// offline: saved in IndexedDB, resumes when the browser is back online
+export type UploadQueueStatus =
+  | 'ready'
+  | 'checking'
+  | 'duplicate'
+  | 'queued'
+  | 'uploading'
+  | 'paused'
+  | 'completing'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+  | 'offline'
+
+// What the user sees of an upload; styling derives from it instead of from the status message
+export type UploadPhase = 'idle' | 'selected' | 'uploading' | 'processing' | 'success' | 'error'
+
+export type StatusTone = 'info' | 'success' | 'warning' | 'error'
+
+export interface UploadQueueItem {
+  id: string
+  file: File
+  // Relative path when the file came from a folder
+  path: string
+  status: UploadQueueStatus
+  uploadedChunks: number
+  totalChunks: number
+  parseResult: CnabParseResult | null
+  // Upload even though the local preview found invalid lines
+  overrideValidation: boolean
+  message: string
+  // SHA-256 of the file, computed with the preview
+  contentHash: string | null
+  duplicates: DuplicateCheckResponse | null
+  // Chosen once the duplicate check is done; null means not checked yet
+  duplicateMode: DuplicateHandling | null
+  transactionsCount: number | null
+  skippedCount: number | null
+  format: string | null
+  // Latest server-side phase while the file is being processed
+  importProgress: ImportProgressEvent | null
+  importWarnings: string[]
+  // Line-level problems the server reported when it rejected the file
+  issues: ReportIssue[]
+}
+
+// A server issue, whose texts are shown as they come, or one from the local preview,
+// whose texts are translated when the report renders
+export type ReportIssue = Omit<ValidationIssue, 'expected' | 'message'> & {
+  expected: string | LocalizedMessage
+  message: string | LocalizedMessage
+}
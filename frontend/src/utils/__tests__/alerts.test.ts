@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { emptyRuleForm, formatThreshold, ruleToForm, toRuleRequest } from '../alerts'
+
+describe('formatThreshold', () => {
+  it('shows amounts as currency and daily volume as a multiple', () => {
+    expect(formatThreshold('balance-below', -500)).toBe('-R$500.00')
+    expect(formatThreshold('transaction-above', 1000)).toBe('R$1,000.00')
+    expect(formatThreshold('daily-volume', 2.5)).toBe('2.5×')
+  })
+
+  it('shows nothing for unknown type rules', () => {
+    expect(formatThreshold('unknown-type', 10)).toBe('')
+    expect(formatThreshold('balance-below')).toBe('')
+  })
+})
+
+describe('toRuleRequest', () => {
+  it('reads the threshold with a comma or a point', () => {
+    const form = { ...emptyRuleForm(), name: ' Large ', kind: 'transaction-above' as const, threshold: '1500,50', storeId: 'store-1' }
+
+    expect(toRuleRequest(form)).toEqual({
+      request: { name: 'Large', kind: 'transaction-above', threshold: 1500.5, storeId: 'store-1', enabled: true }
+    })
+    expect(toRuleRequest({ ...form, threshold: '1500.50', storeId: '' })).toEqual({
+      request: { name: 'Large', kind: 'transaction-above', threshold: 1500.5, storeId: undefined, enabled: true }
+    })
+  })
+
+  it('allows a negative balance but no other non-positive threshold', () => {
+    const form = { ...emptyRuleForm(), name: 'Watch', threshold: '-200' }
+
+    expect(toRuleRequest(form)).toMatchObject({ request: { threshold: -200 } })
+    expect(toRuleRequest({ ...form, kind: 'daily-volume' })).toEqual({ error: 'alertRules.errors.thresholdPositive' })
+    expect(toRuleRequest({ ...form, threshold: 'abc' })).toEqual({ error: 'alertRules.errors.thresholdRequired' })
+    expect(toRuleRequest({ ...form, name: ' ' })).toEqual({ error: 'alertRules.errors.nameRequired' })
+  })
+
+  it('leaves out the threshold and store of unknown type rules', () => {
+    const form = { ...emptyRuleForm(), name: 'Gaps', kind: 'unknown-type' as const, threshold: '', storeId: 'store-1' }
+
+    expect(toRuleRequest(form)).toEqual({ request: { name: 'Gaps', kind: 'unknown-type', enabled: true } })
+  })
+})
+
+describe('ruleToForm', () => {
+  it('fills the form from a saved rule', () => {
+    expect(ruleToForm({
+      id: 'rule-1',
+      name: 'Gaps',
+      kind: 'unknown-type',
+      enabled: false,
+      createdAt: '2024-04-01T12:00:00Z'
+    })).toEqual({ name: 'Gaps', kind: 'unknown-type', threshold: '', storeId: '', enabled: false })
+  })
+})
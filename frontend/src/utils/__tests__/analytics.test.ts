@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { breakdownByType, incomeExpenseByPeriod, isoWeekKey, runningBalance } from '../analytics'
+import type { TransactionDetail } from '@/types/transaction'
+
+let nextId = 1
+
+const transaction = (datetime: string, code: number, value: number): TransactionDetail => {
+  const nature = [2, 3, 9].includes(code) ? 'Expense' : 'Income'
+  return {
+    id: String(nextId++),
+    transactionType: `Type ${code}`,
+    transactionCode: code,
+    nature,
+    sign: nature === 'Income' ? '+' : '-',
+    datetime,
+    date: datetime.slice(0, 10),
+    value,
+    cpf: '09620676017',
+    card: '4753****3153',
+    time: datetime.slice(11, 19),
+    storeName: 'BAR DO JOÃO',
+    storeOwner: 'JOÃO MACEDO',
+    storeId: 'store-1',
+    fileId: 'file-1'
+  }
+}
+
+// Mixed order on purpose: aggregation must not depend on input order
+const TRANSACTIONS = [
+  transaction('2019-03-04T10:00:00', 3, 142),
+  transaction('2019-03-01T15:34:53', 1, 200),
+  transaction('2019-03-01T23:59:59', 2, 50.1),
+  transaction('2019-04-01T00:00:00', 6, 0.2),
+  transaction('2019-03-03T08:00:00', 4, 10)
+]
+
+describe('analytics', () => {
+  describe('runningBalance', () => {
+    it('should return the end-of-day balance for each day with transactions', () => {
+      expect(runningBalance(TRANSACTIONS)).toEqual([
+        { date: '2019-03-01', change: 149.9, balance: 149.9 },
+        { date: '2019-03-03', change: 10, balance: 159.9 },
+        { date: '2019-03-04', change: -142, balance: 17.9 },
+        { date: '2019-04-01', change: 0.2, balance: 18.1 }
+      ])
+    })
+
+    it('should use the CNAB date regardless of the browser time zone', () => {
+      const [point] = runningBalance([transaction('2019-03-01T23:59:59', 1, 1)])
+      expect(point.date).toBe('2019-03-01')
+    })
+
+    it('should return no points without transactions', () => {
+      expect(runningBalance([])).toEqual([])
+    })
+  })
+
+  describe('incomeExpenseByPeriod', () => {
+    it('should total income and expense per day', () => {
+      expect(incomeExpenseByPeriod(TRANSACTIONS, 'day')).toEqual([
+        { key: '2019-03-01', label: '01/03/2019', income: 200, expense: 50.1 },
+        { key: '2019-03-03', label: '03/03/2019', income: 10, expense: 0 },
+        { key: '2019-03-04', label: '04/03/2019', income: 0, expense: 142 },
+        { key: '2019-04-01', label: '01/04/2019', income: 0.2, expense: 0 }
+      ])
+    })
+
+    it('should group by ISO week, which starts on Monday', () => {
+      // 2019-03-03 is a Sunday and 2019-03-04 a Monday
+      expect(incomeExpenseByPeriod(TRANSACTIONS, 'week')).toEqual([
+        { key: '2019-W09', label: '2019-W09', income: 210, expense: 50.1 },
+        { key: '2019-W10', label: '2019-W10', income: 0, expense: 142 },
+        { key: '2019-W14', label: '2019-W14', income: 0.2, expense: 0 }
+      ])
+    })
+
+    it('should group by month', () => {
+      expect(incomeExpenseByPeriod(TRANSACTIONS, 'month')).toEqual([
+        { key: '2019-03', label: '03/2019', income: 210, expense: 192.1 },
+        { key: '2019-04', label: '04/2019', income: 0.2, expense: 0 }
+      ])
+    })
+  })
+
+  describe('isoWeekKey', () => {
+    it('should assign days around new year to the week holding their Thursday', () => {
+      expect(isoWeekKey('2018-12-31')).toBe('2019-W01')
+      expect(isoWeekKey('2021-01-03')).toBe('2020-W53')
+      expect(isoWeekKey('2019-12-29')).toBe('2019-W52')
+    })
+  })
+
+  describe('breakdownByType', () => {
+    it('should list all nine CNAB types with counts and totals', () => {
+      const breakdown = breakdownByType(TRANSACTIONS)
+
+      expect(breakdown.map(entry => entry.code)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9])
+      expect(breakdown[0]).toEqual({ code: 1, name: 'Debit', nature: 'Income', count: 1, total: 200 })
+      expect(breakdown[2]).toEqual({ code: 3, name: 'Financing', nature: 'Expense', count: 1, total: 142 })
+      expect(breakdown[8]).toEqual({ code: 9, name: 'Rent', nature: 'Expense', count: 0, total: 0 })
+    })
+
+    it('should ignore unknown type codes', () => {
+      const breakdown = breakdownByType([transaction('2019-03-01T00:00:00', 0, 5)])
+      expect(breakdown.every(entry => entry.count === 0)).toBe(true)
+    })
+  })
+})
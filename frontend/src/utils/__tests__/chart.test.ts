@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { linearScale, linePath, niceTicks } from '../chart'
+
+describe('chart', () => {
+  it('should map a domain onto a range, including inverted ranges', () => {
+    const y = linearScale([0, 100], [200, 0])
+    expect(y(0)).toBe(200)
+    expect(y(25)).toBe(150)
+    expect(y(100)).toBe(0)
+  })
+
+  it('should center a flat domain', () => {
+    expect(linearScale([5, 5], [0, 100])(5)).toBe(50)
+  })
+
+  it('should produce round ticks that cover the values', () => {
+    expect(niceTicks(0, 95)).toEqual([0, 20, 40, 60, 80, 100])
+    expect(niceTicks(-142, 200)).toEqual([-200, -100, 0, 100, 200])
+    expect(niceTicks(0, 0.3)).toEqual([0, 0.1, 0.2, 0.3])
+  })
+
+  it('should include zero for a single non-zero value', () => {
+    expect(niceTicks(50, 50)).toEqual([0, 10, 20, 30, 40, 50])
+    expect(niceTicks(0, 0)).toEqual([0, 1])
+  })
+
+  it('should build an SVG path', () => {
+    expect(linePath([{ x: 0, y: 10 }, { x: 5.25, y: 2 }])).toBe('M0.0,10.0 L5.3,2.0')
+  })
+})
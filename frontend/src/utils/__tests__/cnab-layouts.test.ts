@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import cnab80File from './fixtures/cnab80.txt?raw'
+import cnab240File from './fixtures/cnab240.txt?raw'
+import cnab400File from './fixtures/cnab400.txt?raw'
+import { detectLayout, parseCnab } from '../cnab-parser'
+import { localize, translate } from '@/i18n'
+import type { CnabLayout } from '@/types/cnab'
+
+// The same three transactions in every fixture
+const FIXTURE_RECORDS = [
+  {
+    type: 3,
+    date: '2019-03-01',
+    valueCents: 14200,
+    value: 142,
+    cpf: '09620676017',
+    card: '4753****3153',
+    time: '15:34:53',
+    storeOwner: 'JOÃO MACEDO',
+    storeName: 'BAR DO JOÃO'
+  },
+  {
+    type: 5,
+    date: '2019-03-01',
+    valueCents: 13200,
+    value: 132,
+    cpf: '55641815063',
+    card: '3123****7687',
+    time: '14:56:07',
+    storeOwner: 'MARIA JOSEFINA',
+    storeName: 'LOJA DO Ó - MATRIZ'
+  },
+  {
+    type: 3,
+    date: '2019-03-01',
+    valueCents: 12200,
+    value: 122,
+    cpf: '84515254073',
+    card: '6777****1313',
+    time: '17:27:12',
+    storeOwner: 'MARCOS PEREIRA',
+    storeName: 'MERCADO DA AVENIDA'
+  }
+]
+
+const records = (content: string) => parseCnab(content).lines.flatMap(line => line.record ? [line.record] : [])
+
+const replaceAt = (line: string, start: number, text: string) => {
+  return line.slice(0, start) + text + line.slice(start + text.length)
+}
+
+describe('cnab-layouts', () => {
+  it.each([
+    ['cnab80', cnab80File, 0, 1],
+    ['cnab240', cnab240File, 2, 2],
+    ['cnab400', cnab400File, 1, 1]
+  ])('should detect and parse the %s fixture into the transaction model', (format, content, headers, trailers) => {
+    const result = parseCnab(content)
+
+    expect(detectLayout(content).id).toBe(format)
+    expect(result.format).toBe(format)
+    expect(result.invalidCount).toBe(0)
+    expect(result.validCount).toBe(3)
+    expect(result.headerCount).toBe(headers)
+    expect(result.trailerCount).toBe(trailers)
+    expect(records(content)).toEqual(FIXTURE_RECORDS)
+  })
+
+  it('should name the segment of each CNAB 240 line', () => {
+    const result = parseCnab(cnab240File)
+
+    expect(result.lines.map(line => translate(line.segment ?? ''))).toEqual([
+      'File header',
+      'Batch header',
+      'Segment A',
+      'Segment A',
+      'Segment A',
+      'Batch trailer',
+      'File trailer'
+    ])
+  })
+
+  it('should report CNAB 240 field errors at their own offsets', () => {
+    const lines = cnab240File.split('\r\n')
+    // 31 February, and a record type no segment has
+    lines[2] = replaceAt(lines[2], 15, '31022019')
+    lines[3] = replaceAt(lines[3], 7, '4')
+
+    const result = parseCnab(lines.join('\r\n'))
+
+    expect(result.format).toBe('cnab240')
+    const [error] = result.lines[2].errors
+    expect(result.lines[2].errors).toHaveLength(1)
+    expect(error).toMatchObject({ field: 'date', start: 15, end: 23, value: '31022019' })
+    expect(localize(error.expected)).toBe('8 digits (DDMMYYYY)')
+    expect(localize(error.message)).toBe("Invalid date '31022019'")
+    expect(result.lines[3]).toMatchObject({ kind: null, record: null })
+    expect(localize(result.lines[3].errors[0].message)).toBe('Unknown CNAB 240 record')
+    expect(localize(result.lines[3].errors[0].expected))
+      .toBe('File header, Batch header, Segment A, Batch trailer or File trailer record')
+  })
+
+  it('should translate CNAB 400 occurrence codes and reject unknown ones', () => {
+    const lines = cnab400File.split('\n')
+    lines[1] = replaceAt(lines[1], 108, '42')
+
+    const [detail] = parseCnab(lines.join('\n')).lines.slice(1)
+
+    expect(detail.errors.map(error => error.field)).toEqual(['type'])
+    expect(localize(detail.errors[0].expected)).toBe('one of 01, 02, 03, 04, 05, 06, 07, 08, 09')
+  })
+
+  it('should fall back to CNAB 80 for files no layout recognises', () => {
+    expect(detectLayout('not a bank file').id).toBe('cnab80')
+    expect(detectLayout('').id).toBe('cnab80')
+    // A 240-column file without its header is still judged by its line length
+    expect(detectLayout(cnab240File.split('\r\n').slice(2).join('\n')).id).toBe('cnab240')
+  })
+
+  it('should parse a layout declared as data', () => {
+    const layout: CnabLayout = {
+      id: 'cnab80',
+      label: 'Tiny',
+      lineLength: 30,
+      detect: [],
+      importable: false,
+      defaults: { card: '************', time: '000000', cpf: '00000000000' },
+      segments: [{
+        kind: 'detail',
+        name: 'cnab.segments.detail',
+        match: [],
+        fields: [
+          { name: 'type', label: 'cnab.fields.type', start: 0, length: 1, type: 'transactionType' },
+          { name: 'date', label: 'cnab.fields.date', start: 1, length: 6, type: 'date', dateFormat: 'DDMMYY' },
+          { name: 'value', label: 'cnab.fields.value', start: 7, length: 5, type: 'amount' },
+          { name: 'storeOwner', label: 'cnab.fields.storeOwner', start: 12, length: 9, type: 'text', required: true },
+          { name: 'storeName', label: 'cnab.fields.storeName', start: 21, length: 9, type: 'text', required: true }
+        ]
+      }]
+    }
+
+    const result = parseCnab('115052412345ANA      BANCA    ', layout)
+
+    expect(result.invalidCount).toBe(0)
+    expect(result.lines[0].record).toEqual({
+      type: 1,
+      date: '2024-05-15',
+      valueCents: 12345,
+      value: 123.45,
+      cpf: '00000000000',
+      card: '************',
+      time: '00:00:00',
+      storeOwner: 'ANA',
+      storeName: 'BANCA'
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { parseCnab80, parseCnab80Line } from '../cnab-parser'
+import { localize, setLocale } from '@/i18n'
+
+const VALID_LINE = '3201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+const TRAILER_LINE = '9201903010000010200556418150636228****9090000000MARIA JOSEFINALOJA DO Ó - MATRIZ'
+
+describe('cnab-parser', () => {
+  afterEach(() => {
+    setLocale('en-US')
+  })
+
+  it('should parse every field of a valid detail line', () => {
+    const line = parseCnab80Line(VALID_LINE, 1)
+
+    expect(line.errors).toEqual([])
+    expect(line.record).toEqual({
+      type: 3,
+      date: '2019-03-01',
+      valueCents: 14200,
+      value: 142,
+      cpf: '09620676017',
+      card: '4753****3153',
+      time: '15:34:53',
+      storeOwner: 'JOÃO MACEDO',
+      storeName: 'BAR DO JOÃO'
+    })
+  })
+
+  it('should report every invalid field with its column range', () => {
+    const broken = 'X' + '20190231' + '00000142AB' + VALID_LINE.slice(19, 42) + '256000' + VALID_LINE.slice(48)
+    const line = parseCnab80Line(broken, 7)
+
+    expect(line.record).toBeNull()
+    expect(line.errors.map(error => error.field)).toEqual(['type', 'date', 'value', 'time'])
+    expect(line.errors[1]).toMatchObject({ start: 1, end: 9, value: '20190231' })
+    expect(localize(line.errors[2].message)).toContain('expected 10 digits')
+  })
+
+  it('should warn about a CPF with wrong check digits but keep the record', () => {
+    // 09620676017 with its last check digit changed
+    const line = parseCnab80Line(VALID_LINE.slice(0, 29) + '8' + VALID_LINE.slice(30), 1)
+
+    expect(line.errors).toEqual([])
+    expect(line.record?.cpf).toBe('09620676018')
+    expect(line.warnings).toEqual([expect.objectContaining({ field: 'cpf', start: 19, end: 30, value: '09620676018' })])
+    expect(localize(line.warnings[0].expected)).toBe('11 digits with valid check digits')
+    expect(localize(line.warnings[0].message)).toBe('CPF ***.***.***-18 has invalid check digits')
+    expect(parseCnab80Line(VALID_LINE, 1).warnings).toEqual([])
+  })
+
+  it('should flag lines with the wrong length', () => {
+    const line = parseCnab80Line(VALID_LINE + 'X', 1)
+
+    expect(line.errors[0]).toMatchObject({ field: 'line', start: 80, end: 81 })
+  })
+
+  it('should flag empty store owner and name', () => {
+    const line = parseCnab80Line(VALID_LINE.slice(0, 48) + ' '.repeat(32), 1)
+
+    expect(line.errors.map(error => error.field)).toEqual(['storeOwner', 'storeName'])
+  })
+
+  it('should describe problems in the locale they are shown in', () => {
+    const line = parseCnab80Line('3201913010000014200096206760X74753****3153153453' + ' '.repeat(32), 1)
+    const [date, cpf, owner] = line.errors
+
+    expect(localize(cpf.message)).toBe("Invalid CPF format '096206760X7', expected 11 digits")
+    expect(localize(owner.message)).toBe('Store Owner cannot be empty')
+
+    setLocale('pt-BR')
+
+    expect(localize(date.message)).toBe("Data inválida '20191301'")
+    expect(localize(date.expected)).toBe('8 dígitos (YYYYMMDD)')
+    expect(localize(cpf.message)).toBe("Formato de CPF inválido '096206760X7', esperado 11 dígitos")
+    expect(localize(owner.message)).toBe('Dono da Loja não pode ficar em branco')
+  })
+
+  it('should treat type 9 lines as trailers without a record', () => {
+    const line = parseCnab80Line(TRAILER_LINE, 1)
+
+    expect(line.isTrailer).toBe(true)
+    expect(line.errors).toEqual([])
+    expect(line.record).toBeNull()
+  })
+
+  it('should skip blank lines but keep original line numbers', () => {
+    const result = parseCnab80(`${VALID_LINE}\r\n\r\nSHORT\n${TRAILER_LINE}\n`)
+
+    expect(result.lines.map(line => line.lineNumber)).toEqual([1, 3, 4])
+    expect(result.validCount).toBe(1)
+    expect(result.invalidCount).toBe(1)
+    expect(result.trailerCount).toBe(1)
+  })
+})
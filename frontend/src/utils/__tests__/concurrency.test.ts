@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { createLimiter } from '../concurrency'
+
+const deferred = () => {
+  let resolve!: () => void
+  const promise = new Promise<void>(done => { resolve = done })
+  return { promise, resolve }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('concurrency', () => {
+  it('should run at most the given number of tasks at once', async () => {
+    const limiter = createLimiter(2)
+    const gates = [deferred(), deferred(), deferred()]
+    const started: number[] = []
+
+    const runs = gates.map((gate, index) => limiter.run(async () => {
+      started.push(index)
+      await gate.promise
+      return index
+    }))
+    await tick()
+
+    expect(started).toEqual([0, 1])
+    expect(limiter.active).toBe(2)
+    expect(limiter.pending).toBe(1)
+
+    gates[0].resolve()
+    await tick()
+    expect(started).toEqual([0, 1, 2])
+
+    gates[1].resolve()
+    gates[2].resolve()
+    expect(await Promise.all(runs)).toEqual([0, 1, 2])
+    expect(limiter.active).toBe(0)
+  })
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = createLimiter(1)
+
+    await expect(limiter.run(async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next')
+  })
+
+  it('should start waiting tasks when the limit is raised', async () => {
+    const limiter = createLimiter(1)
+    const gate = deferred()
+    const started: number[] = []
+
+    const runs = [0, 1, 2].map(index => limiter.run(async () => {
+      started.push(index)
+      await gate.promise
+    }))
+    await tick()
+    expect(started).toEqual([0])
+
+    limiter.setLimit(3)
+    await tick()
+    expect(started).toEqual([0, 1, 2])
+
+    gate.resolve()
+    await Promise.all(runs)
+  })
+
+  it('should never go below one slot', () => {
+    expect(createLimiter(0).limit).toBe(1)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { filesFromDataTransfer, filesFromList } from '../dropped-files'
+
+const fileEntry = (name: string) => ({
+  name,
+  isFile: true,
+  isDirectory: false,
+  file: (resolve: (file: File) => void) => resolve(new File([name], name))
+})
+
+// readEntries hands out the children in batches, then an empty list
+const directoryEntry = (name: string, children: unknown[]) => ({
+  name,
+  isFile: false,
+  isDirectory: true,
+  createReader: () => {
+    const batches = [children.slice(0, 1), children.slice(1), []]
+    return { readEntries: (resolve: (entries: unknown[]) => void) => resolve(batches.shift() ?? []) }
+  }
+})
+
+const dataTransfer = (entries: unknown[], files: File[] = []) => ({
+  items: entries.map(entry => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+  files
+}) as unknown as DataTransfer
+
+describe('dropped-files', () => {
+  it('should walk into dropped folders and keep the relative path', async () => {
+    const dropped = await filesFromDataTransfer(dataTransfer([
+      fileEntry('top.txt'),
+      directoryEntry('march', [
+        fileEntry('b.txt'),
+        fileEntry('.DS_Store'),
+        directoryEntry('week1', [fileEntry('a.txt')])
+      ])
+    ]))
+
+    expect(dropped.map(entry => entry.path)).toEqual(['top.txt', 'march/b.txt', 'march/week1/a.txt'])
+    expect(dropped[0].file.name).toBe('top.txt')
+  })
+
+  it('should fall back to the plain file list without the entries API', async () => {
+    const file = new File(['x'], 'cnab.txt')
+    const transfer = { items: [{ kind: 'file' }], files: [file] } as unknown as DataTransfer
+
+    const dropped = await filesFromDataTransfer(transfer)
+
+    expect(dropped).toEqual([{ file, path: 'cnab.txt' }])
+  })
+
+  it('should skip hidden files picked through a folder input', () => {
+    const visible = new File(['x'], 'a.txt')
+    Object.defineProperty(visible, 'webkitRelativePath', { value: 'march/a.txt' })
+    const hidden = new File(['x'], '.DS_Store')
+    Object.defineProperty(hidden, 'webkitRelativePath', { value: 'march/.DS_Store' })
+
+    expect(filesFromList([visible, hidden]).map(entry => entry.path)).toEqual(['march/a.txt'])
+  })
+})
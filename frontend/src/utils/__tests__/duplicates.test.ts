@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseCnab80 } from '../cnab-parser'
+import { localize, setLocale } from '@/i18n'
+import { describeDuplicateLines, duplicateCheckLines, hasDuplicates, sha256Hex } from '../duplicates'
+
+const VALID_LINE = '3201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+const INVALID_LINE = '3201913010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+const TRAILER_LINE = '9' + ' '.repeat(79)
+
+describe('duplicates', () => {
+  it('should hash content as lowercase hex SHA-256', async () => {
+    const content = new TextEncoder().encode('abc').buffer
+
+    expect(await sha256Hex(content)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('should only send valid transaction lines with their original line numbers', () => {
+    const result = parseCnab80([INVALID_LINE, '', VALID_LINE, TRAILER_LINE].join('\n'))
+
+    expect(duplicateCheckLines(result)).toEqual([{
+      line: 3,
+      type: 3,
+      datetime: '2019-03-01T15:34:53',
+      value: 142,
+      cpf: '09620676017',
+      card: '4753****3153',
+      storeOwner: 'JOÃO MACEDO',
+      storeName: 'BAR DO JOÃO'
+    }])
+    expect(duplicateCheckLines(null)).toEqual([])
+  })
+
+  it('should tell whether a report found anything', () => {
+    expect(hasDuplicates(null)).toBe(false)
+    expect(hasDuplicates({ duplicateFiles: [], duplicateLines: [], checkedCount: 3 })).toBe(false)
+    expect(hasDuplicates({ duplicateFiles: [], duplicateLines: [2], checkedCount: 3 })).toBe(true)
+  })
+
+  it('should list the first duplicate lines and count the rest', () => {
+    const twelve = describeDuplicateLines(Array.from({ length: 12 }, (_, i) => i + 1))
+
+    expect(localize(describeDuplicateLines([4]))).toBe('line 4')
+    expect(localize(describeDuplicateLines([1, 2, 3]))).toBe('lines 1, 2, 3')
+    expect(localize(twelve)).toBe('lines 1, 2, 3, 4, 5, 6, 7, 8, 9, 10 and 2 more')
+
+    setLocale('pt-BR')
+    try {
+      expect(localize(twelve)).toBe('linhas 1, 2, 3, 4, 5, 6, 7, 8, 9, 10 e mais 2')
+    } finally {
+      setLocale('en-US')
+    }
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildStoreSummarySheet,
+  buildTransactionSheet,
+  exportFileName,
+  toCsv,
+  toOfx,
+  toXlsx
+} from '../export'
+import { crc32 } from '../zip'
+import type { TransactionDetail } from '@/types/transaction'
+
+const transaction = (overrides: Partial<TransactionDetail>): TransactionDetail => ({
+  id: 't1',
+  transactionType: 'Debit',
+  transactionCode: 1,
+  nature: 'Income',
+  sign: '+',
+  datetime: '2019-03-01T15:34:53',
+  date: '2019-03-01',
+  value: 142,
+  cpf: '09620676017',
+  card: '4753****3153',
+  time: '15:34:53',
+  storeName: 'BAR DO JOÃO',
+  storeOwner: 'JOÃO MACEDO',
+  storeId: 'store-1',
+  fileId: 'file-1',
+  ...overrides
+})
+
+const TRANSACTIONS = [
+  transaction({}),
+  transaction({
+    id: 't2',
+    transactionType: 'Boleto',
+    transactionCode: 2,
+    nature: 'Expense',
+    sign: '-',
+    datetime: '2019-03-02T09:00:00',
+    value: 50.5
+  })
+]
+
+const STORES = [
+  {
+    storeId: 'store-1',
+    ownerName: 'JOÃO MACEDO',
+    storeName: 'BAR DO JOÃO',
+    transactionCount: 2,
+    totalIncome: 142,
+    totalExpense: 50.5,
+    balance: 91.5
+  },
+  {
+    storeId: 'store-2',
+    ownerName: 'Silva, Maria',
+    storeName: 'Loja "Central"',
+    transactionCount: 0,
+    totalIncome: 0,
+    totalExpense: 0,
+    balance: 0
+  }
+]
+
+// Read the file names and contents of a stored (uncompressed) ZIP archive
+const readZip = (zip: Uint8Array): Record<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  const decoder = new TextDecoder()
+  const files: Record<string, string> = {}
+  let offset = 0
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength))
+    const start = offset + 30 + nameLength
+    const data = zip.subarray(start, start + size)
+    expect(view.getUint32(offset + 14, true)).toBe(crc32(data))
+    files[name] = decoder.decode(data)
+    offset = start + size
+  }
+  return files
+}
+
+describe('export', () => {
+  it('should sign transaction amounts by nature and use ISO dates', () => {
+    const sheet = buildTransactionSheet(TRANSACTIONS)
+
+    expect(sheet.rows).toEqual([
+      ['2019-03-01T15:34:53', 1, 'Debit', 'Income', 142, '***.***.***-17', '********3153'],
+      ['2019-03-02T09:00:00', 2, 'Boleto', 'Expense', -50.5, '***.***.***-17', '********3153']
+    ])
+  })
+
+  it('should export store expenses as negative amounts', () => {
+    const sheet = buildStoreSummarySheet(STORES)
+
+    expect(sheet.rows[0]).toEqual(['JOÃO MACEDO', 'BAR DO JOÃO', 2, 142, -50.5, 91.5])
+  })
+
+  it('should write CSV with a BOM, quoted fields and two-decimal amounts', () => {
+    const csv = toCsv(buildStoreSummarySheet(STORES))
+    const lines = csv.split('\r\n')
+
+    expect(csv.startsWith('\uFEFF')).toBe(true)
+    expect(lines[0]).toBe('\uFEFFStore Owner,Store Name,Transactions,Income (BRL),Expense (BRL),Balance (BRL)')
+    expect(lines[1]).toBe('JOÃO MACEDO,BAR DO JOÃO,2,142.00,-50.50,91.50')
+    expect(lines[2]).toBe('"Silva, Maria","Loja ""Central""",0,0.00,0.00,0.00')
+  })
+
+  it('should keep CSV text cells from running as spreadsheet formulas', () => {
+    const csv = toCsv(buildStoreSummarySheet([
+      { ...STORES[0], ownerName: '=HYPERLINK("http://evil.example","x")', storeName: '@SUM(A1)' },
+      { ...STORES[0], ownerName: '+55 11', storeName: '-loja' },
+      { ...STORES[0], ownerName: '\tTAB', storeName: '\rCR' }
+    ]))
+    const lines = csv.split('\r\n')
+
+    expect(lines[1]).toBe(`"'=HYPERLINK(""http://evil.example"",""x"")",'@SUM(A1),2,142.00,-50.50,91.50`)
+    expect(lines[2]).toBe("'+55 11,'-loja,2,142.00,-50.50,91.50")
+    expect(csv).toContain("'\tTAB,\"'\rCR\"")
+  })
+
+  it('should build a valid XLSX package with numeric BRL cells', () => {
+    const files = readZip(toXlsx(buildTransactionSheet(TRANSACTIONS)))
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ])
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Transactions"')
+
+    const sheet = files['xl/worksheets/sheet1.xml']
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Date</t></is></c>')
+    expect(sheet).toContain('<c r="E3" s="2"><v>-50.5</v></c>')
+    expect(sheet).toContain('<t xml:space="preserve">2019-03-01T15:34:53</t>')
+  })
+
+  it('should write an OFX statement with signed amounts and a ledger balance', () => {
+    const ofx = toOfx([...TRANSACTIONS].reverse(), 'store-1', new Date('2024-01-01T12:00:00Z'))
+
+    expect(ofx).toContain('<CURDEF>BRL</CURDEF>')
+    expect(ofx).toContain('<ACCTID>store-1</ACCTID>')
+    expect(ofx).toContain('<DTSTART>20190301153453</DTSTART>')
+    expect(ofx).toContain('<DTEND>20190302090000</DTEND>')
+    expect(ofx).toContain('<LEDGERBAL><BALAMT>91.50</BALAMT>')
+
+    const entries = ofx.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/g) ?? []
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toContain('<TRNTYPE>CREDIT</TRNTYPE>')
+    expect(entries[0]).toContain('<TRNAMT>142.00</TRNAMT>')
+    expect(entries[1]).toContain('<TRNTYPE>DEBIT</TRNTYPE>')
+    expect(entries[1]).toContain('<TRNAMT>-50.50</TRNAMT>')
+    expect(entries[1]).toContain('<FITID>t2</FITID>')
+  })
+
+  it('should name files after the store and filtered period', () => {
+    expect(exportFileName('store-balances', { types: [] }, 'csv')).toBe('store-balances.csv')
+    expect(exportFileName('transactions-BAR DO JOÃO', { types: [], from: '2019-03-01', to: '2019-03-31' }, 'ofx'))
+      .toBe('transactions-bar-do-joao_2019-03-01_2019-03-31.ofx')
+  })
+
+  it('should compute the standard CRC-32 checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+  })
+})
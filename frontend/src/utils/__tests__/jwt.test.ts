@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { decodeJwtClaims, rolesFromClaims, sessionFromTokens, userFromClaims } from '../jwt'
+
+const encode = (value: unknown) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const token = (claims: Record<string, unknown>) => `${encode({ alg: 'RS256' })}.${encode(claims)}.signature`
+
+describe('jwt', () => {
+  it('should decode the payload, including non-ASCII names', () => {
+    expect(decodeJwtClaims(token({ sub: 'ana', name: 'João Macedo' }))).toEqual({ sub: 'ana', name: 'João Macedo' })
+    expect(() => decodeJwtClaims('opaque-token')).toThrow('Token is not a JWT')
+    expect(() => decodeJwtClaims(`x.${encode([1, 2])}.y`)).toThrow('Token payload is not an object')
+  })
+
+  it('should keep only known roles from lists, strings and nested claims', () => {
+    expect(rolesFromClaims({ roles: ['Admin', 'auditor', 'viewer'] }, 'roles')).toEqual(['viewer', 'admin'])
+    expect(rolesFromClaims({ scope: 'openid uploader' }, 'scope')).toEqual(['uploader'])
+    expect(rolesFromClaims({ realm_access: { roles: ['viewer'] } }, 'realm_access.roles')).toEqual(['viewer'])
+    expect(rolesFromClaims({ roles: 42 }, 'roles')).toEqual([])
+  })
+
+  it('should name the user after the first name claim present', () => {
+    expect(userFromClaims({ sub: 'u-1', preferred_username: 'ana', name: 'Ana Souza' }, 'roles').name).toBe('Ana Souza')
+    expect(userFromClaims({ sub: 'u-1', name: '' }, 'roles').name).toBe('u-1')
+    expect(userFromClaims({}, 'roles').name).toBe('unknown')
+  })
+
+  it('should build a session with roles from the access token and the name from the ID token', () => {
+    const accessToken = token({ sub: 'u-1', roles: ['uploader'], exp: 1_700_000_000 })
+    const idToken = token({ sub: 'u-1', name: 'Ana Souza' })
+
+    expect(sessionFromTokens(accessToken, idToken, 'roles')).toEqual({
+      accessToken,
+      idToken,
+      expiresAt: 1_700_000_000_000,
+      user: { name: 'Ana Souza', roles: ['uploader'] },
+    })
+    expect(sessionFromTokens(token({ sub: 'u-1' }), undefined, 'roles', 1_000).expiresAt).toBe(3_601_000)
+  })
+})
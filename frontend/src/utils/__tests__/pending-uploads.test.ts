@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  createUploadId,
+  deletePendingUpload,
+  getPendingUpload,
+  listPendingUploads,
+  needsDuplicateCheck,
+  savePendingUpload,
+  updatePendingUpload,
+  type PendingUpload
+} from '../pending-uploads'
+
+const buildUpload = (overrides: Partial<PendingUpload> = {}): PendingUpload => ({
+  uploadId: createUploadId(),
+  fileName: 'cnab.txt',
+  originalName: 'cnab.txt',
+  data: new TextEncoder().encode('file contents').buffer,
+  chunkSize: 4,
+  totalChunks: 4,
+  uploadedChunks: [],
+  timestamp: 1,
+  autoResume: false,
+  prompted: false,
+  ...overrides
+})
+
+describe('pending-uploads', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+  })
+
+  it('should persist the file data with the upload state', async () => {
+    const upload = buildUpload({ uploadedChunks: [0, 1] })
+
+    await savePendingUpload(upload)
+    const stored = await getPendingUpload(upload.uploadId)
+
+    expect(stored?.uploadedChunks).toEqual([0, 1])
+    expect(new TextDecoder().decode(stored?.data)).toBe('file contents')
+  })
+
+  it('should list pending uploads oldest first', async () => {
+    await savePendingUpload(buildUpload({ uploadId: 'b', timestamp: 2 }))
+    await savePendingUpload(buildUpload({ uploadId: 'a', timestamp: 1 }))
+
+    const uploads = await listPendingUploads()
+
+    expect(uploads.map(upload => upload.uploadId)).toEqual(['a', 'b'])
+  })
+
+  it('should update an upload without changing its id', async () => {
+    const upload = buildUpload()
+    await savePendingUpload(upload)
+
+    await updatePendingUpload(upload.uploadId, { uploadedChunks: [0], autoResume: true })
+    const stored = await getPendingUpload(upload.uploadId)
+
+    expect(stored).toMatchObject({ uploadId: upload.uploadId, uploadedChunks: [0], autoResume: true })
+  })
+
+  it('should ignore updates for unknown uploads', async () => {
+    await updatePendingUpload('missing', { prompted: true })
+
+    expect(await listPendingUploads()).toEqual([])
+  })
+
+  it('should delete a pending upload', async () => {
+    const upload = buildUpload()
+    await savePendingUpload(upload)
+
+    await deletePendingUpload(upload.uploadId)
+
+    expect(await getPendingUpload(upload.uploadId)).toBeUndefined()
+  })
+
+  it('should need a duplicate check until the user chose how to treat duplicates', () => {
+    expect(needsDuplicateCheck(buildUpload())).toBe(true)
+    expect(needsDuplicateCheck(buildUpload({ duplicates: 'skip' }))).toBe(false)
+  })
+
+  it('should create unique upload ids', () => {
+    expect(createUploadId()).not.toBe(createUploadId())
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { formatCpf, isValidCpf, maskCard, maskCpf } from '../pii'
+
+describe('pii', () => {
+  it('should keep only the check digits of a CPF', () => {
+    expect(maskCpf('09620676017')).toBe('***.***.***-17')
+    // Masked values and placeholders come back unchanged
+    expect(maskCpf('***.***.***-17')).toBe('***.***.***-17')
+    expect(maskCpf('N/A')).toBe('N/A')
+  })
+
+  it('should keep only the last four characters of a card', () => {
+    expect(maskCard('4753****3153')).toBe('********3153')
+    expect(maskCard('N/A')).toBe('N/A')
+  })
+
+  it('should format a revealed CPF', () => {
+    expect(formatCpf('09620676017')).toBe('096.206.760-17')
+    expect(formatCpf('0962067601X')).toBe('0962067601X')
+  })
+
+  it('should check both CPF check digits', () => {
+    expect(isValidCpf('09620676017')).toBe(true)
+    expect(isValidCpf('55641815063')).toBe(true)
+    expect(isValidCpf('09620676018')).toBe(false)
+    expect(isValidCpf('09620676007')).toBe(false)
+    expect(isValidCpf('11111111111')).toBe(false)
+    expect(isValidCpf('0962067601')).toBe(false)
+  })
+})
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  entriesForStore,
+  ledgerExceptionKey,
+  ledgerPeriod,
+  loadResolutions,
+  parseLedgerCsv,
+  parseLedgerDate,
+  parseLedgerValue,
+  reconcile,
+  saveResolutions
+} from '../reconciliation'
+import type { LedgerEntry } from '@/types/reconciliation'
+import type { TransactionDetail } from '@/types/transaction'
+
+const transaction = (id: string, datetime: string, value: number, overrides: Partial<TransactionDetail> = {}): TransactionDetail => ({
+  id,
+  transactionType: 'Débito',
+  transactionCode: 1,
+  nature: 'Income',
+  sign: '+',
+  datetime,
+  date: datetime.slice(0, 10),
+  value,
+  // Masked, as the API returns them
+  cpf: '***.***.***-17',
+  card: '********3153',
+  time: datetime.slice(11, 19),
+  storeName: 'BAR DO JOÃO',
+  storeOwner: 'JOÃO MACEDO',
+  storeId: 'store-1',
+  fileId: 'file-1',
+  fileName: 'march.cnab',
+  ...overrides
+})
+
+const entry = (line: number, datetime: string, value: number, overrides: Partial<LedgerEntry> = {}): LedgerEntry => ({
+  line,
+  datetime,
+  value,
+  cpf: '***.***.***-17',
+  card: '********3153',
+  store: 'BAR DO JOÃO',
+  ...overrides
+})
+
+describe('parseLedgerValue', () => {
+  it('reads dot and comma decimals, thousands separators and currency signs', () => {
+    expect(parseLedgerValue('142.00')).toBe(142)
+    expect(parseLedgerValue('1.234,50')).toBe(1234.5)
+    expect(parseLedgerValue('1,234.50')).toBe(1234.5)
+    expect(parseLedgerValue('R$ 80,2')).toBe(80.2)
+    expect(parseLedgerValue('-112,00')).toBe(112)
+  })
+
+  it('rejects text that is not an amount', () => {
+    expect(parseLedgerValue('')).toBeUndefined()
+    expect(parseLedgerValue('abc')).toBeUndefined()
+    expect(parseLedgerValue('12,3,4')).toBeUndefined()
+  })
+})
+
+describe('parseLedgerDate', () => {
+  it('reads ISO and Brazilian timestamps', () => {
+    expect(parseLedgerDate('2019-03-01 15:34:53')).toBe('2019-03-01T15:34:53')
+    expect(parseLedgerDate('2019-03-01T15:34')).toBe('2019-03-01T15:34:00')
+    expect(parseLedgerDate('01/03/2019 15:34:53')).toBe('2019-03-01T15:34:53')
+  })
+
+  it('rejects dates without a time and impossible dates', () => {
+    expect(parseLedgerDate('2019-03-01')).toBeUndefined()
+    expect(parseLedgerDate('2019-02-30 10:00')).toBeUndefined()
+    expect(parseLedgerDate('2019-03-01 25:00')).toBeUndefined()
+  })
+})
+
+describe('parseLedgerCsv', () => {
+  it('reads the columns by header name and masks CPF and card', () => {
+    const result = parseLedgerCsv([
+      'store,date,value,cpf,card',
+      'BAR DO JOÃO,2019-03-01 15:34:53,142.00,096.206.760-17,4753****3153',
+      ''
+    ].join('\n'))
+
+    expect(result.errors).toEqual([])
+    expect(result.entries).toEqual([{
+      line: 2,
+      datetime: '2019-03-01T15:34:53',
+      value: 142,
+      cpf: '***.***.***-17',
+      card: '********3153',
+      store: 'BAR DO JOÃO'
+    }])
+  })
+
+  it('accepts Portuguese headers, semicolons and quoted fields', () => {
+    const result = parseLedgerCsv([
+      '\uFEFFData;Valor;CPF;Cartão;Loja',
+      '01/03/2019 15:34:53;"1.234,50";09620676017;475300003153;"BAR; DO JOÃO"'
+    ].join('\r\n'))
+
+    expect(result.entries).toHaveLength(1)
+    expect(result.entries[0]).toMatchObject({ value: 1234.5, store: 'BAR; DO JOÃO', card: '********3153' })
+  })
+
+  it('reports unreadable rows by line and keeps the others', () => {
+    const result = parseLedgerCsv([
+      'date,value,cpf,card',
+      'yesterday,10.00,09620676017,3153',
+      '2019-03-01 10:00,ten,09620676017,3153',
+      '2019-03-01 11:00,10.00,09620676017,3153'
+    ].join('\n'))
+
+    expect(result.errors).toEqual([
+      { line: 2, code: 'invalid-date', value: 'yesterday' },
+      { line: 3, code: 'invalid-value', value: 'ten' }
+    ])
+    expect(result.entries.map(entry => entry.line)).toEqual([4])
+  })
+
+  it('reports missing columns and empty files', () => {
+    expect(parseLedgerCsv('date,value\n2019-03-01 10:00,1').errors)
+      .toEqual([{ line: 1, code: 'missing-columns', value: 'cpf, card' }])
+    expect(parseLedgerCsv('').errors).toEqual([{ line: 1, code: 'empty', value: '' }])
+  })
+})
+
+describe('entriesForStore', () => {
+  it('keeps entries of the store, ignoring case and accents, and entries without a store', () => {
+    const entries = [
+      entry(2, '2019-03-01T10:00:00', 1, { store: 'bar do joao' }),
+      entry(3, '2019-03-01T10:00:00', 1, { store: 'MERCADO DA AVENIDA' }),
+      entry(4, '2019-03-01T10:00:00', 1, { store: '' })
+    ]
+
+    expect(entriesForStore(entries, 'BAR DO JOÃO').map(e => e.line)).toEqual([2, 4])
+  })
+})
+
+describe('ledgerPeriod', () => {
+  it('spans the days of the first and last entries', () => {
+    expect(ledgerPeriod([
+      entry(2, '2019-03-02T23:59:00', 1),
+      entry(3, '2019-03-01T00:01:00', 1)
+    ])).toEqual({ from: '2019-03-01', to: '2019-03-02' })
+    expect(ledgerPeriod([])).toBeNull()
+  })
+})
+
+describe('reconcile', () => {
+  const rules = { valueTolerance: 0.5, timeWindowMinutes: 30 }
+
+  it('matches identical transactions exactly', () => {
+    const transactions = [transaction('t1', '2019-03-01T15:34:53', 142)]
+    const result = reconcile(transactions, [entry(2, '2019-03-01T15:34:53', 142)], rules)
+
+    expect(result.matched).toHaveLength(1)
+    expect(result.matched[0]).toMatchObject({ rule: 'exact', valueDifference: 0, minutesApart: 0 })
+    expect(result.missingInCnab).toEqual([])
+    expect(result.missingInLedger).toEqual([])
+  })
+
+  it('matches within the value tolerance and time window', () => {
+    const transactions = [transaction('t1', '2019-03-01T15:34:00', 142)]
+    const result = reconcile(transactions, [entry(2, '2019-03-01T15:50:00', 142.3)], rules)
+
+    expect(result.matched).toHaveLength(1)
+    expect(result.matched[0]).toMatchObject({ rule: 'fuzzy', valueDifference: 0.3, minutesApart: 16 })
+  })
+
+  it('leaves both sides unmatched outside the tolerances or with another card', () => {
+    const transactions = [
+      transaction('late', '2019-03-01T12:00:00', 100),
+      transaction('pricier', '2019-03-01T10:00:00', 101),
+      transaction('other-card', '2019-03-01T10:00:00', 100, { card: '********9999' })
+    ]
+    const result = reconcile(transactions, [entry(2, '2019-03-01T10:00:00', 100)], rules)
+
+    expect(result.matched).toEqual([])
+    expect(result.missingInCnab.map(e => e.line)).toEqual([2])
+    expect(result.missingInLedger.map(t => t.id)).toEqual(['late', 'pricier', 'other-card'])
+  })
+
+  it('uses each transaction once and prefers exact, then the nearest match', () => {
+    const transactions = [
+      transaction('near', '2019-03-01T10:05:00', 100),
+      transaction('exact', '2019-03-01T10:00:00', 100),
+      transaction('far', '2019-03-01T10:20:00', 100)
+    ]
+    const result = reconcile(transactions, [
+      entry(2, '2019-03-01T10:00:00', 100),
+      entry(3, '2019-03-01T10:00:00', 100),
+      entry(4, '2019-03-01T10:00:00', 100),
+      entry(5, '2019-03-01T10:00:00', 100)
+    ], rules)
+
+    expect(result.matched.map(match => [match.entry.line, match.transaction.id, match.rule])).toEqual([
+      [2, 'exact', 'exact'],
+      [3, 'near', 'fuzzy'],
+      [4, 'far', 'fuzzy']
+    ])
+    expect(result.missingInCnab.map(e => e.line)).toEqual([5])
+    expect(result.missingInLedger).toEqual([])
+  })
+})
+
+describe('resolutions', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('are saved per store and survive a reload', () => {
+    const key = ledgerExceptionKey(entry(2, '2019-03-01T10:00:00', 100))
+    const resolution = { note: 'Chargeback', resolvedBy: 'Ana', resolvedAt: '2024-04-01T12:00:00Z' }
+
+    saveResolutions('store-1', { [key]: resolution })
+
+    expect(loadResolutions('store-1')).toEqual({ [key]: resolution })
+    expect(loadResolutions('store-2')).toEqual({})
+  })
+
+  it('ignore unreadable saved data', () => {
+    localStorage.setItem('reconciliation-resolutions:store-1', '{oops')
+
+    expect(loadResolutions('store-1')).toEqual({})
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { canAccess, guardNavigation, type GuardedScreen } from '../route-access'
+import type { AuthUser } from '@/types/auth'
+
+const screens: GuardedScreen[] = [
+  { name: 'upload', access: { roles: ['uploader', 'admin'] } },
+  { name: 'balance', access: { roles: ['viewer', 'uploader', 'admin'] } },
+  { name: 'transaction-types', access: { roles: ['admin'] } },
+  { name: 'login', access: { public: true } },
+]
+
+const viewer: AuthUser = { name: 'Ana', roles: ['viewer'] }
+
+describe('route-access', () => {
+  it('should let public screens through and require a listed role for the rest', () => {
+    expect(canAccess({ public: true }, null)).toBe(true)
+    expect(canAccess({ roles: ['viewer'] }, null)).toBe(false)
+    expect(canAccess({ roles: ['uploader', 'admin'] }, viewer)).toBe(false)
+    expect(canAccess({ roles: ['viewer', 'admin'] }, viewer)).toBe(true)
+    // A screen that lists no roles is closed rather than open to everyone
+    expect(canAccess({}, viewer)).toBe(false)
+  })
+
+  it('should send signed-out users to the login page and back afterwards', () => {
+    const result = guardNavigation({ fullPath: '/balance?page=2', access: screens[1].access }, null, screens)
+
+    expect(result).toEqual({ name: 'login', query: { redirect: '/balance?page=2' } })
+  })
+
+  it('should send users lacking the role to the first screen they may open', () => {
+    expect(guardNavigation({ fullPath: '/', access: screens[0].access }, viewer, screens)).toEqual({ name: 'balance' })
+    expect(guardNavigation({ fullPath: '/balance', access: screens[1].access }, viewer, screens)).toBe(true)
+  })
+
+  it('should tell users without any role that access was denied', () => {
+    const nobody: AuthUser = { name: 'Bia', roles: [] }
+
+    expect(guardNavigation({ fullPath: '/', access: screens[0].access }, nobody, screens))
+      .toEqual({ name: 'login', query: { denied: '1' } })
+    expect(guardNavigation({ fullPath: '/login', access: { public: true } }, nobody, screens)).toBe(true)
+  })
+})
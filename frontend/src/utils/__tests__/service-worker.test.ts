@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  UPLOAD_SYNC_TAG,
+  registerServiceWorker,
+  replyToUploadSync,
+  requestUploadSync,
+  setUploadSyncHandler
+} from '../service-worker'
+
+const stubServiceWorker = (container: Record<string, unknown>) => {
+  Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: container })
+}
+
+describe('service worker', () => {
+  afterEach(() => {
+    setUploadSyncHandler(null)
+    Reflect.deleteProperty(navigator, 'serviceWorker')
+    vi.restoreAllMocks()
+  })
+
+  describe('replyToUploadSync', () => {
+    it('hands the queue and a token to the worker when no screen takes it', () => {
+      expect(replyToUploadSync(() => 'token')).toEqual({ handled: false, accessToken: 'token' })
+    })
+
+    it('lets the upload screen take the queue without sharing the token', () => {
+      const handler = vi.fn()
+      setUploadSyncHandler(handler)
+
+      expect(replyToUploadSync(() => 'token')).toEqual({ handled: true, accessToken: null })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('requestUploadSync', () => {
+    it('registers the upload sync tag', async () => {
+      const register = vi.fn().mockResolvedValue(undefined)
+      stubServiceWorker({ getRegistration: vi.fn().mockResolvedValue({ sync: { register } }) })
+
+      expect(await requestUploadSync()).toBe(true)
+      expect(register).toHaveBeenCalledWith(UPLOAD_SYNC_TAG)
+    })
+
+    it('reports when Background Sync is not available', async () => {
+      expect(await requestUploadSync()).toBe(false)
+
+      stubServiceWorker({ getRegistration: vi.fn().mockResolvedValue({}) })
+      expect(await requestUploadSync()).toBe(false)
+    })
+
+    it('reports a failed registration instead of throwing', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const register = vi.fn().mockRejectedValue(new Error('denied'))
+      stubServiceWorker({ getRegistration: vi.fn().mockResolvedValue({ sync: { register } }) })
+
+      expect(await requestUploadSync()).toBe(false)
+    })
+  })
+
+  describe('registerServiceWorker', () => {
+    it('registers the worker and answers its sync requests', async () => {
+      const listeners: Array<(event: MessageEvent) => void> = []
+      const register = vi.fn().mockResolvedValue({})
+      stubServiceWorker({
+        register,
+        addEventListener: (_type: string, listener: (event: MessageEvent) => void) => listeners.push(listener)
+      })
+
+      await registerServiceWorker({ accessToken: () => 'token' })
+
+      expect(register).toHaveBeenCalledWith('/sw.js')
+
+      const port = { postMessage: vi.fn() }
+      listeners.forEach(listener => listener({ data: { type: 'sync-uploads' }, ports: [port] } as unknown as MessageEvent))
+      expect(port.postMessage).toHaveBeenCalledWith({ handled: false, accessToken: 'token' })
+    })
+  })
+})
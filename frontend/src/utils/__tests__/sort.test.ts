@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { nextSort, pageCount, sortRows } from '../sort'
+
+describe('sort', () => {
+  it('should start a new column with its initial direction and flip the active one', () => {
+    expect(nextSort(null, 'balance', 'desc')).toEqual({ key: 'balance', direction: 'desc' })
+    expect(nextSort({ key: 'balance', direction: 'desc' }, 'balance')).toEqual({ key: 'balance', direction: 'asc' })
+    expect(nextSort({ key: 'balance', direction: 'asc' }, 'storeName')).toEqual({ key: 'storeName', direction: 'asc' })
+  })
+
+  it('should sort numbers and keep the original order of ties', () => {
+    const rows = [
+      { id: 'a', value: 2 },
+      { id: 'b', value: 1 },
+      { id: 'c', value: 2 }
+    ]
+
+    expect(sortRows(rows, row => row.value, 'asc').map(row => row.id)).toEqual(['b', 'a', 'c'])
+    expect(sortRows(rows, row => row.value, 'desc').map(row => row.id)).toEqual(['a', 'c', 'b'])
+  })
+
+  it('should sort accented names alphabetically', () => {
+    const names = ['Óticas', 'Bar', 'Ótica', 'açougue']
+
+    expect(sortRows(names, name => name, 'asc')).toEqual(['açougue', 'Bar', 'Ótica', 'Óticas'])
+  })
+
+  it('should not mutate the input', () => {
+    const rows = [3, 1, 2]
+    sortRows(rows, row => row, 'asc')
+    expect(rows).toEqual([3, 1, 2])
+  })
+
+  it('should count at least one page', () => {
+    expect(pageCount(0, 25)).toBe(1)
+    expect(pageCount(25, 25)).toBe(1)
+    expect(pageCount(26, 25)).toBe(2)
+  })
+})
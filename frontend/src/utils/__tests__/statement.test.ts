@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { buildStatement, previousDay, statementFileName } from '../statement'
+import type { TransactionDetail } from '@/types/transaction'
+
+const transaction = (id: string, datetime: string, value: number, overrides: Partial<TransactionDetail> = {}): TransactionDetail => ({
+  id,
+  transactionType: 'Débito',
+  transactionCode: 1,
+  nature: 'Income',
+  sign: '+',
+  datetime,
+  date: datetime.slice(0, 10),
+  value,
+  cpf: '***.***.***-17',
+  card: '********3153',
+  time: datetime.slice(11, 19),
+  storeName: 'BAR DO JOÃO',
+  storeOwner: 'JOÃO MACEDO',
+  storeId: 'store-1',
+  fileId: 'file-1',
+  fileName: 'march.cnab',
+  ...overrides
+})
+
+const boleto = { transactionType: 'Boleto', transactionCode: 2, nature: 'Expense', sign: '-' }
+
+describe('previousDay', () => {
+  it('steps back across month and year boundaries', () => {
+    expect(previousDay('2019-03-15')).toBe('2019-03-14')
+    expect(previousDay('2019-03-01')).toBe('2019-02-28')
+    expect(previousDay('2020-01-01')).toBe('2019-12-31')
+  })
+})
+
+describe('buildStatement', () => {
+  it('lists the movements oldest first with the balance after each one', () => {
+    const statement = buildStatement([
+      transaction('late', '2019-03-02T09:00:00', 50.10),
+      transaction('bill', '2019-03-01T18:00:00', 112.00, boleto),
+      transaction('early', '2019-03-01T15:34:53', 142.00)
+    ], 100)
+
+    expect(statement.lines.map(line => line.transaction.id)).toEqual(['early', 'bill', 'late'])
+    expect(statement.lines.map(line => line.balance)).toEqual([242, 130, 180.1])
+    expect(statement.openingBalance).toBe(100)
+    expect(statement.closingBalance).toBe(180.1)
+  })
+
+  it('totals the movements by type and by nature', () => {
+    const statement = buildStatement([
+      transaction('bill', '2019-03-01T18:00:00', 112.00, boleto),
+      transaction('a', '2019-03-01T15:34:53', 0.10),
+      transaction('b', '2019-03-01T16:00:00', 0.20),
+      transaction('rent', '2019-03-03T10:00:00', 80.00, { transactionType: 'Aluguel', transactionCode: 9, nature: 'Expense', sign: '-' })
+    ], 0)
+
+    expect(statement.totalsByType).toEqual([
+      { code: 1, name: 'Débito', nature: 'Income', count: 2, total: 0.3 },
+      { code: 2, name: 'Boleto', nature: 'Expense', count: 1, total: 112 },
+      { code: 9, name: 'Aluguel', nature: 'Expense', count: 1, total: 80 }
+    ])
+    expect(statement.totalIncome).toBe(0.3)
+    expect(statement.totalExpense).toBe(192)
+    expect(statement.closingBalance).toBe(-191.7)
+  })
+
+  it('closes at the opening balance when the period has no movements', () => {
+    const statement = buildStatement([], -25.5)
+
+    expect(statement.lines).toEqual([])
+    expect(statement.totalsByType).toEqual([])
+    expect(statement.closingBalance).toBe(-25.5)
+  })
+})
+
+describe('statementFileName', () => {
+  it('names the file after the store and the period', () => {
+    expect(statementFileName('BAR DO JOÃO', '2019-03-01', '2019-03-31')).toBe('statement-bar-do-joao_2019-03-01_2019-03-31')
+    expect(statementFileName('BAR DO JOÃO', '2019-03-01')).toBe('statement-bar-do-joao_2019-03-01_today')
+    expect(statementFileName('')).toBe('statement-store')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { groupStores, headCandidates } from '../store-groups'
+import type { StoreSummary } from '@/api'
+
+const store = (storeId: string, storeName: string, balance: number, parentStoreId?: string): StoreSummary => ({
+  storeId,
+  ownerName: 'MARIA JOSEFINA',
+  storeName,
+  parentStoreId,
+  transactionCount: 2,
+  totalIncome: balance > 0 ? balance : 0,
+  totalExpense: balance < 0 ? -balance : 0,
+  balance
+})
+
+const matriz = store('matriz', 'LOJA DO Ó - MATRIZ', 230.1)
+const filialB = store('filial-b', 'LOJA DO Ó - FILIAL B', -10.2, 'matriz')
+const filialA = store('filial-a', 'LOJA DO Ó - FILIAL A', 50, 'matriz')
+const bar = store('bar', 'BAR DO JOÃO', 152.32)
+
+describe('groupStores', () => {
+  it('puts branches under their head store and rolls up the totals', () => {
+    const groups = groupStores([filialB, matriz, bar, filialA])
+
+    expect(groups.map(group => group.head.storeId)).toEqual(['bar', 'matriz'])
+    expect(groups[1].branches.map(branch => branch.storeId)).toEqual(['filial-a', 'filial-b'])
+    expect(groups[1].total).toEqual({
+      transactionCount: 6,
+      totalIncome: 280.1,
+      totalExpense: 10.2,
+      balance: 269.9
+    })
+    expect(groups[0].branches).toEqual([])
+    expect(groups[0].total.balance).toBe(152.32)
+  })
+
+  it('shows a branch on its own when its head store is not listed', () => {
+    const groups = groupStores([filialA, bar])
+
+    expect(groups.map(group => group.head.storeId)).toEqual(['bar', 'filial-a'])
+  })
+})
+
+describe('headCandidates', () => {
+  const stores = [matriz, filialA, filialB, bar]
+
+  it('offers stand-alone and head stores other than the store itself', () => {
+    expect(headCandidates(stores, filialA).map(candidate => candidate.storeId)).toEqual(['bar', 'matriz'])
+    expect(headCandidates(stores, bar).map(candidate => candidate.storeId)).toEqual(['matriz'])
+  })
+
+  it('offers nothing for a store that has branches', () => {
+    expect(headCandidates(stores, matriz)).toEqual([])
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createEmptyFilters,
+  hasActiveFilters,
+  parseFilterQuery,
+  toApiQueryString,
+  toFilterQuery
+} from '../transaction-filters'
+
+describe('parseFilterQuery', () => {
+  it('reads every criterion from the query', () => {
+    const filters = parseFilterQuery({
+      from: '2019-03-01',
+      to: '2019-03-31',
+      types: '3,1',
+      nature: 'Expense',
+      search: '  bar do  '
+    })
+
+    expect(filters).toEqual({
+      from: '2019-03-01',
+      to: '2019-03-31',
+      types: [1, 3],
+      nature: 'Expense',
+      search: 'bar do'
+    })
+  })
+
+  it('returns empty filters for an empty query', () => {
+    expect(parseFilterQuery({})).toEqual(createEmptyFilters())
+  })
+
+  it('accepts repeated type parameters and drops duplicates', () => {
+    expect(parseFilterQuery({ types: ['2', '1,2'] }).types).toEqual([1, 2])
+  })
+
+  it('reads type 0 but not an empty type list', () => {
+    expect(parseFilterQuery({ types: '0' }).types).toEqual([0])
+    expect(parseFilterQuery({ types: '' }).types).toEqual([])
+    expect(parseFilterQuery({ types: '1,,2' }).types).toEqual([1, 2])
+  })
+
+  it('drops malformed values instead of failing', () => {
+    const filters = parseFilterQuery({
+      from: '2019-02-30',
+      to: 'yesterday',
+      types: '-1,4,10,x',
+      nature: 'Refund'
+    })
+
+    expect(filters).toEqual({ types: [4] })
+  })
+
+  it('drops the end of a reversed date range', () => {
+    expect(parseFilterQuery({ from: '2019-03-31', to: '2019-03-01' })).toEqual({
+      from: '2019-03-31',
+      types: []
+    })
+  })
+})
+
+describe('toFilterQuery', () => {
+  it('leaves out empty criteria', () => {
+    expect(toFilterQuery(createEmptyFilters())).toEqual({})
+    expect(toFilterQuery({ types: [], search: '   ' })).toEqual({})
+  })
+
+  it('round-trips through parseFilterQuery', () => {
+    const filters = { from: '2019-03-01', types: [2, 9], nature: 'Expense' as const, search: 'loja' }
+    const query = toFilterQuery(filters)
+
+    expect(query).toEqual({ from: '2019-03-01', types: '2,9', nature: 'Expense', search: 'loja' })
+    expect(parseFilterQuery(query as Record<string, string>)).toEqual(filters)
+  })
+})
+
+describe('toApiQueryString', () => {
+  it('repeats the types parameter for the backend model binder', () => {
+    expect(toApiQueryString({ from: '2019-03-01', types: [1, 4], nature: 'Income' }))
+      .toBe('?from=2019-03-01&types=1&types=4&nature=Income')
+  })
+
+  it('is empty without criteria', () => {
+    expect(toApiQueryString(undefined)).toBe('')
+    expect(toApiQueryString(createEmptyFilters())).toBe('')
+  })
+
+  it('encodes the search term', () => {
+    expect(toApiQueryString({ types: [], search: 'LOJA DO Ó' })).toBe('?search=LOJA+DO+%C3%93')
+  })
+})
+
+describe('hasActiveFilters', () => {
+  it('detects any criterion', () => {
+    expect(hasActiveFilters(createEmptyFilters())).toBe(false)
+    expect(hasActiveFilters({ types: [5] })).toBe(true)
+    expect(hasActiveFilters({ types: [], to: '2019-03-01' })).toBe(true)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { parseSearchQuery, toSearchParams, toSearchQuery, toSearchRequest } from '../transaction-search'
+
+describe('parseSearchQuery', () => {
+  it('reads every criterion from the query', () => {
+    expect(parseSearchQuery({
+      cpf: ' 096.206.760-17 ',
+      card: '3153',
+      owner: 'joão',
+      store: 'bar',
+      minValue: '10,5',
+      maxValue: '200',
+      from: '2019-03-01',
+      to: '2019-03-31'
+    })).toEqual({
+      cpf: '096.206.760-17',
+      card: '3153',
+      owner: 'joão',
+      store: 'bar',
+      minValue: 10.5,
+      maxValue: 200,
+      from: '2019-03-01',
+      to: '2019-03-31'
+    })
+  })
+
+  it('drops blank text, malformed values and malformed dates', () => {
+    expect(parseSearchQuery({
+      owner: '   ',
+      minValue: 'abc',
+      maxValue: '-5',
+      from: '01/03/2019',
+      to: '2019-02-30'
+    })).toEqual({})
+  })
+
+  it('uses the first of repeated parameters', () => {
+    expect(parseSearchQuery({ store: ['bar', 'loja'] })).toEqual({ store: 'bar' })
+  })
+})
+
+describe('toSearchQuery', () => {
+  it('round-trips through parseSearchQuery', () => {
+    const criteria = { card: '3153', minValue: 0, to: '2019-03-31' }
+
+    expect(toSearchQuery(criteria)).toEqual({ card: '3153', minValue: '0', to: '2019-03-31' })
+    expect(parseSearchQuery(toSearchQuery(criteria) as Record<string, string>)).toEqual(criteria)
+  })
+})
+
+describe('toSearchRequest', () => {
+  it('returns null without criteria', () => {
+    expect(toSearchRequest({})).toBeNull()
+  })
+
+  it('sends the CPF as digits once it is complete', () => {
+    expect(toSearchRequest({ cpf: '096.206.760-17' })).toEqual({ cpf: '09620676017' })
+    expect(toSearchRequest({ cpf: '096.206' })).toBeNull()
+  })
+
+  it('waits for enough of the card number', () => {
+    expect(toSearchRequest({ card: '315' })).toBeNull()
+    expect(toSearchRequest({ card: '315', owner: 'joão' })).toEqual({ owner: 'joão' })
+    expect(toSearchRequest({ card: '3153' })).toEqual({ card: '3153' })
+  })
+
+  it('leaves out reversed ranges', () => {
+    expect(toSearchRequest({ minValue: 50, maxValue: 10 })).toBeNull()
+    expect(toSearchRequest({ from: '2019-03-31', to: '2019-03-01', store: 'bar' })).toEqual({ store: 'bar' })
+    expect(toSearchRequest({ minValue: 10, maxValue: 10 })).toEqual({ minValue: 10, maxValue: 10 })
+  })
+})
+
+describe('toSearchParams', () => {
+  it('builds the API query string', () => {
+    expect(toSearchParams({ owner: 'João Silva', minValue: 1.5 }).toString())
+      .toBe('owner=Jo%C3%A3o+Silva&minValue=1.5')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest'
+import { canTransition, STATUS_PHASE, statusTone, transition } from '../upload-state'
+
+describe('upload-state', () => {
+  it('should allow the moves of a normal upload', () => {
+    expect(canTransition('ready', 'checking')).toBe(true)
+    expect(canTransition('checking', 'queued')).toBe(true)
+    expect(canTransition('queued', 'uploading')).toBe(true)
+    expect(canTransition('uploading', 'completing')).toBe(true)
+    expect(canTransition('completing', 'done')).toBe(true)
+  })
+
+  it('should not leave the done status or cancel a file being processed', () => {
+    expect(canTransition('done', 'queued')).toBe(false)
+    expect(canTransition('completing', 'cancelled')).toBe(false)
+    expect(canTransition('ready', 'paused')).toBe(false)
+  })
+
+  it('should ignore a move the machine does not allow', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const item = { status: 'cancelled' as const }
+
+    expect(transition(item, 'done')).toBe(false)
+    expect(item.status).toBe('cancelled')
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('should derive the tone from the phase', () => {
+    expect(STATUS_PHASE.completing).toBe('processing')
+    expect(statusTone('done')).toBe('success')
+    expect(statusTone('failed')).toBe('error')
+    expect(statusTone('uploading')).toBe('info')
+    expect(statusTone('duplicate')).toBe('warning')
+    expect(statusTone('ready')).toBe('info')
+    expect(statusTone('ready', true)).toBe('error')
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { parseCnab80 } from '../cnab-parser'
+import { toCsv } from '../export'
+import {
+  buildIssueSheet,
+  describeIssues,
+  highlightIssue,
+  issuesFromParseResult,
+  issueSortValue,
+  issueText
+} from '../validation-report'
+
+const VALID_LINE = '3201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+// Month 13 and a letter in the CPF
+const INVALID_LINE = '3201913010000014200096206760X74753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+const TRAILER_LINE = '9' + ' '.repeat(79)
+
+describe('validation-report', () => {
+  it('should report every field error with 1-based inclusive columns', () => {
+    const issues = issuesFromParseResult(parseCnab80(['', INVALID_LINE, VALID_LINE].join('\n')))
+      .map(issue => ({ ...issue, expected: issueText(issue.expected), message: issueText(issue.message) }))
+
+    expect(issues).toEqual([
+      {
+        line: 2,
+        columnStart: 2,
+        columnEnd: 9,
+        field: 'date',
+        value: '20191301',
+        expected: '8 digits (YYYYMMDD)',
+        severity: 'error',
+        message: "Invalid date '20191301'"
+      },
+      {
+        line: 2,
+        columnStart: 20,
+        columnEnd: 30,
+        field: 'cpf',
+        value: '096206760X7',
+        expected: '11 digits',
+        severity: 'error',
+        message: "Invalid CPF format '096206760X7', expected 11 digits"
+      }
+    ])
+  })
+
+  it('should report trailers as warnings and short lines as line errors', () => {
+    const issues = issuesFromParseResult(parseCnab80([TRAILER_LINE, VALID_LINE.slice(0, 70)].join('\n')))
+
+    expect(issues[0]).toMatchObject({ line: 1, field: 'type', severity: 'warning' })
+    expect(issueText(issues[0].message)).toBe('Trailer record (type 9) skipped')
+    expect(issues[1]).toMatchObject({ line: 2, field: 'line', columnStart: 71, columnEnd: 80 })
+    expect(issueText(issues[1].expected)).toBe('80 characters')
+    expect(issuesFromParseResult(null)).toEqual([])
+  })
+
+  it('should report CPFs with wrong check digits as warnings', () => {
+    const issues = issuesFromParseResult(parseCnab80(VALID_LINE.slice(0, 29) + '8' + VALID_LINE.slice(30)))
+
+    expect(issues).toEqual([expect.objectContaining({ line: 1, field: 'cpf', columnStart: 20, columnEnd: 30, severity: 'warning' })])
+  })
+
+  it('should highlight the columns of an issue within its line', () => {
+    const [date] = issuesFromParseResult(parseCnab80(INVALID_LINE))
+
+    expect(highlightIssue(INVALID_LINE, date)).toEqual({
+      before: '3',
+      match: '20191301',
+      after: INVALID_LINE.slice(9)
+    })
+    // Nothing to highlight past the end of a short line
+    expect(highlightIssue('3201903', { ...date, columnStart: 71, columnEnd: 80 }).match).toBe('')
+  })
+
+  it('should sort by position, field or severity', () => {
+    const issues = issuesFromParseResult(parseCnab80([INVALID_LINE, TRAILER_LINE].join('\n')))
+    const [date, cpf, trailer] = issues
+
+    expect(issueSortValue(date, 'line')).toBeLessThan(issueSortValue(cpf, 'line') as number)
+    expect(issueSortValue(cpf, 'line')).toBeLessThan(issueSortValue(trailer, 'line') as number)
+    expect(issueSortValue(cpf, 'field')).toBe('cpf')
+    expect(issueSortValue(date, 'severity')).toBeLessThan(issueSortValue(trailer, 'severity') as number)
+  })
+
+  it('should summarise and export the report', () => {
+    const issues = issuesFromParseResult(parseCnab80([INVALID_LINE, TRAILER_LINE].join('\n')))
+
+    expect(describeIssues(issues)).toBe('2 errors on 1 line, 1 warning')
+    expect(toCsv(buildIssueSheet(issues)).split('\r\n')[1])
+      .toBe("1,2-9,date,20191301,8 digits (YYYYMMDD),error,Invalid date '20191301'")
+  })
+})
@@ -0,0 +1,70 @@
+import type { AlertRule, AlertRuleKind, AlertRuleRequest } from '@/api'
+import { formatCurrency } from './format'
+
+// Alert rule thresholds as shown and edited on screen. Balance and transaction
+// thresholds are amounts in reais; daily-volume's is a multiple of the store's
+// trailing daily average; unknown-type rules have none.
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['balance-below', 'transaction-above', 'daily-volume', 'unknown-type']
+
+export interface AlertRuleForm {
+  name: string
+  kind: AlertRuleKind
+  // As typed; a comma is accepted as the decimal separator
+  threshold: string
+  // Empty for every store
+  storeId: string
+  enabled: boolean
+}
+
+export const hasThreshold = (kind: AlertRuleKind): boolean => kind !== 'unknown-type'
+
+export const formatThreshold = (kind: AlertRuleKind, threshold?: number): string => {
+  if (threshold === undefined || !hasThreshold(kind)) return ''
+  return kind === 'daily-volume' ? `${threshold}×` : formatCurrency(threshold)
+}
+
+export const emptyRuleForm = (): AlertRuleForm => ({
+  name: '',
+  kind: 'balance-below',
+  threshold: '0',
+  storeId: '',
+  enabled: true
+})
+
+export const ruleToForm = (rule: AlertRule): AlertRuleForm => ({
+  name: rule.name,
+  kind: rule.kind,
+  threshold: rule.threshold === undefined ? '' : String(rule.threshold),
+  storeId: rule.storeId ?? '',
+  enabled: rule.enabled
+})
+
+/**
+ * The form as a request, or the i18n key of the first problem. Mirrors the
+ * server's checks so most mistakes are caught before saving.
+ */
+export const toRuleRequest = (form: AlertRuleForm): { request: AlertRuleRequest } | { error: string } => {
+  const name = form.name.trim()
+  if (!name) return { error: 'alertRules.errors.nameRequired' }
+
+  if (!hasThreshold(form.kind)) {
+    return { request: { name, kind: form.kind, enabled: form.enabled } }
+  }
+
+  const text = form.threshold.trim().replace(',', '.')
+  const threshold = Number(text)
+  if (!text || !Number.isFinite(threshold)) return { error: 'alertRules.errors.thresholdRequired' }
+  // A balance may be watched below zero; the other thresholds must be positive
+  if (form.kind !== 'balance-below' && threshold <= 0) return { error: 'alertRules.errors.thresholdPositive' }
+
+  return {
+    request: {
+      name,
+      kind: form.kind,
+      threshold,
+      storeId: form.storeId || undefined,
+      enabled: form.enabled
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { TRANSACTION_TYPES } from './transaction-filters'
+import { signedAmount } from './transactions'
+import type { TransactionDetail, TransactionNature, TransactionTypeInfo } from '@/types/transaction'
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month'
+
+export interface BalancePoint {
+  // YYYY-MM-DD
+  date: string
+  // Net change on that day
+  change: number
+  // Running balance at the end of that day
+  balance: number
+}
+
+export interface PeriodTotals {
+  // Sortable key: 2019-03-01, 2019-W09 or 2019-03
+  key: string
+  label: string
+  income: number
+  expense: number
+}
+
+export interface TypeBreakdown {
+  code: number
+  name: string
+  nature: TransactionNature
+  count: number
+  total: number
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+// The CNAB timestamp has no offset, so the date is read from the string
+// instead of going through Date and the browser's time zone
+const dayOf = (transaction: TransactionDetail): string => transaction.datetime.slice(0, 10)
+
+/**
+ * ISO 8601 week of a YYYY-MM-DD date, e.g. 2019-W09. Weeks start on Monday
+ * and belong to the year that holds their Thursday.
+ */
+export const isoWeekKey = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`)
+  const weekday = day.getUTCDay() || 7
+  day.setUTCDate(day.getUTCDate() + 4 - weekday)
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+const periodKey = (date: string, period: AnalyticsPeriod): string => {
+  if (period === 'week') return isoWeekKey(date)
+  if (period === 'month') return date.slice(0, 7)
+  return date
+}
+
+const periodLabel = (key: string, period: AnalyticsPeriod): string => {
+  if (period === 'day') return `${key.slice(8, 10)}/${key.slice(5, 7)}/${key.slice(0, 4)}`
+  if (period === 'month') return `${key.slice(5, 7)}/${key.slice(0, 4)}`
+  return key
+}
+
+/**
+ * End-of-day running balance, one point per day that has transactions.
+ */
+export const runningBalance = (transactions: TransactionDetail[]): BalancePoint[] => {
+  const changes = new Map<string, number>()
+  for (const transaction of transactions) {
+    const date = dayOf(transaction)
+    changes.set(date, (changes.get(date) ?? 0) + signedAmount(transaction))
+  }
+
+  let balance = 0
+  return [...changes.keys()].sort().map(date => {
+    const change = roundCents(changes.get(date) ?? 0)
+    balance = roundCents(balance + change)
+    return { date, change, balance }
+  })
+}
+
+/**
+ * Income and expense totals per day, ISO week or month, oldest first.
+ * Expenses are positive here; the chart draws them next to income.
+ */
+export const incomeExpenseByPeriod = (
+  transactions: TransactionDetail[],
+  period: AnalyticsPeriod
+): PeriodTotals[] => {
+  const totals = new Map<string, PeriodTotals>()
+  for (const transaction of transactions) {
+    const key = periodKey(dayOf(transaction), period)
+    const entry = totals.get(key) ?? { key, label: periodLabel(key, period), income: 0, expense: 0 }
+    if (transaction.sign === '+') entry.income = roundCents(entry.income + transaction.value)
+    if (transaction.sign === '-') entry.expense = roundCents(entry.expense + transaction.value)
+    totals.set(key, entry)
+  }
+  return [...totals.values()].sort((a, b) => a.key.localeCompare(b.key))
+}
+
+/**
+ * Count and total per CNAB transaction type. Every type of the catalog is listed,
+ * including the ones without transactions, so the chart keeps a fixed layout.
+ */
+export const breakdownByType = (
+  transactions: TransactionDetail[],
+  types: TransactionTypeInfo[] = TRANSACTION_TYPES
+): TypeBreakdown[] => {
+  const breakdown = new Map<number, TypeBreakdown>(
+    types.map(({ code, name, nature }) => [code, { code, name, nature, count: 0, total: 0 }])
+  )
+  for (const transaction of transactions) {
+    const entry = breakdown.get(transaction.transactionCode)
+    if (!entry) continue
+    entry.count++
+    entry.total = roundCents(entry.total + transaction.value)
+  }
+  return [...breakdown.values()]
+}
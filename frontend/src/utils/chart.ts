@@ -0,0 +1,55 @@
+// Small helpers for the hand-drawn SVG charts
+
+import { currentLocale } from '@/i18n'
+
+export type Scale = (value: number) => number
+
+export const linearScale = (
+  [domainMin, domainMax]: [number, number],
+  [rangeMin, rangeMax]: [number, number]
+): Scale => {
+  const span = domainMax - domainMin
+  // A flat series is drawn across the middle of the range
+  if (span === 0) return () => (rangeMin + rangeMax) / 2
+  return value => rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin)
+}
+
+/**
+ * Evenly spaced "round" tick values (1, 2 or 5 times a power of ten) that
+ * cover [min, max]. Always includes the bounds of the returned domain.
+ */
+export const niceTicks = (min: number, max: number, count = 4): number[] => {
+  if (min === max) {
+    if (min === 0) return [0, 1]
+    min = Math.min(0, min)
+    max = Math.max(0, max)
+  }
+
+  // Same step selection as d3's ticks(): pick the 1/2/5/10 multiple closest to the rough step
+  const rough = (max - min) / count
+  const magnitude = 10 ** Math.floor(Math.log10(rough))
+  const error = rough / magnitude
+  const factor = error >= Math.sqrt(50) ? 10 : error >= Math.sqrt(10) ? 5 : error >= Math.sqrt(2) ? 2 : 1
+  const step = factor * magnitude
+
+  const ticks: number[] = []
+  for (let tick = Math.floor(min / step) * step; tick <= Math.ceil(max / step) * step + step / 2; tick += step) {
+    // Avoid floating point noise such as 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)))
+  }
+  return ticks
+}
+
+export const linePath = (points: { x: number; y: number }[]): string => {
+  return points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')
+}
+
+// Compact BRL label for axes, e.g. R$ 1,2 mil
+export const formatAxisCurrency = (value: number): string => {
+  return new Intl.NumberFormat(currentLocale(), {
+    style: 'currency',
+    currency: 'BRL',
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(value)
+}
@@ -0,0 +1,175 @@
+// Fixed-width layouts of the bank files the upload accepts. A new layout is a
+// new entry in CNAB_LAYOUTS: the parser, format detection and preview only read
+// these definitions.
+
+import type { CnabLayout, CnabLayoutField } from '@/types/cnab'
+
+const field = (
+  name: string,
+  label: string,
+  start: number,
+  length: number,
+  type: CnabLayoutField['type'],
+  options: Partial<CnabLayoutField> = {}
+): CnabLayoutField => ({ name, label, start, length, type, ...options })
+
+// Custom 80-column layout, mirroring CNABParserService
+export const CNAB80_LAYOUT: CnabLayout = {
+  id: 'cnab80',
+  label: 'CNAB 80',
+  lineLength: 80,
+  detect: [],
+  importable: true,
+  segments: [
+    {
+      kind: 'trailer',
+      name: 'cnab.segments.trailer',
+      match: [{ start: 0, value: '9' }],
+      // The server only checks the type code of trailer records
+      fields: [field('type', 'cnab.fields.type', 0, 1, 'transactionType')]
+    },
+    {
+      kind: 'detail',
+      name: 'cnab.segments.detail',
+      match: [],
+      fields: [
+        field('type', 'cnab.fields.type', 0, 1, 'transactionType'),
+        field('date', 'cnab.fields.date', 1, 8, 'date', { dateFormat: 'YYYYMMDD' }),
+        field('value', 'cnab.fields.value', 9, 10, 'amount'),
+        field('cpf', 'cnab.fields.cpf', 19, 11, 'numeric'),
+        field('card', 'cnab.fields.card', 30, 12, 'card'),
+        field('time', 'cnab.fields.time', 42, 6, 'time'),
+        field('storeOwner', 'cnab.fields.storeOwner', 48, 14, 'text', { required: true }),
+        field('storeName', 'cnab.fields.storeName', 62, 18, 'text', { required: true })
+      ]
+    }
+  ]
+}
+
+// FEBRABAN framing shared by every CNAB 240 record: bank, batch and record type
+const cnab240Frame = (recordType: string): CnabLayoutField[] => [
+  field('bank', 'cnab.fields.bank', 0, 3, 'numeric'),
+  field('batch', 'cnab.fields.batch', 3, 4, 'numeric'),
+  field('recordType', 'cnab.fields.recordType', 7, 1, 'constant', { values: [recordType] })
+]
+
+// FEBRABAN CNAB 240 return file; segment A details carry the transaction
+export const CNAB240_LAYOUT: CnabLayout = {
+  id: 'cnab240',
+  label: 'CNAB 240',
+  lineLength: 240,
+  detect: [{ start: 7, value: '0' }],
+  importable: false,
+  segments: [
+    {
+      kind: 'header',
+      name: 'cnab.segments.fileHeader',
+      match: [{ start: 7, value: '0' }],
+      fields: [
+        ...cnab240Frame('0'),
+        field('companyName', 'cnab.fields.companyName', 72, 30, 'text'),
+        field('generatedOn', 'cnab.fields.generatedOn', 143, 8, 'date', { dateFormat: 'DDMMYYYY' })
+      ]
+    },
+    {
+      kind: 'header',
+      name: 'cnab.segments.batchHeader',
+      match: [{ start: 7, value: '1' }],
+      fields: cnab240Frame('1')
+    },
+    {
+      kind: 'detail',
+      name: 'cnab.segments.segmentA',
+      match: [{ start: 7, value: '3' }, { start: 13, value: 'A' }],
+      fields: [
+        ...cnab240Frame('3'),
+        field('sequence', 'cnab.fields.sequence', 8, 5, 'numeric'),
+        field('segment', 'cnab.fields.segment', 13, 1, 'constant', { values: ['A'] }),
+        field('type', 'cnab.fields.type', 14, 1, 'transactionType'),
+        field('date', 'cnab.fields.date', 15, 8, 'date', { dateFormat: 'DDMMYYYY' }),
+        field('time', 'cnab.fields.time', 23, 6, 'time'),
+        field('value', 'cnab.fields.value', 29, 15, 'amount'),
+        field('cpf', 'cnab.fields.cpf', 44, 11, 'numeric'),
+        field('card', 'cnab.fields.card', 55, 12, 'card'),
+        field('storeOwner', 'cnab.fields.storeOwner', 67, 30, 'text', { required: true }),
+        field('storeName', 'cnab.fields.storeName', 97, 30, 'text', { required: true })
+      ]
+    },
+    {
+      kind: 'trailer',
+      name: 'cnab.segments.batchTrailer',
+      match: [{ start: 7, value: '5' }],
+      fields: [...cnab240Frame('5'), field('recordCount', 'cnab.fields.recordCount', 17, 6, 'numeric')]
+    },
+    {
+      kind: 'trailer',
+      name: 'cnab.segments.fileTrailer',
+      match: [{ start: 7, value: '9' }],
+      fields: [
+        ...cnab240Frame('9'),
+        field('batchCount', 'cnab.fields.batchCount', 17, 6, 'numeric'),
+        field('recordCount', 'cnab.fields.recordCount', 23, 6, 'numeric')
+      ]
+    }
+  ]
+}
+
+// CNAB 400 occurrence codes 01-09 stand for the CNAB types 1-9
+const CNAB400_OCCURRENCES: Record<string, number> = Object.fromEntries(
+  Array.from({ length: 9 }, (_, index) => [String(index + 1).padStart(2, '0'), index + 1])
+)
+
+// FEBRABAN CNAB 400 return file with one transaction per detail record
+export const CNAB400_LAYOUT: CnabLayout = {
+  id: 'cnab400',
+  label: 'CNAB 400',
+  lineLength: 400,
+  detect: [{ start: 0, value: '02RETORNO' }],
+  importable: false,
+  segments: [
+    {
+      kind: 'header',
+      name: 'cnab.segments.header',
+      match: [{ start: 0, value: '0' }],
+      fields: [
+        field('recordType', 'cnab.fields.recordType', 0, 1, 'constant', { values: ['0'] }),
+        field('operation', 'cnab.fields.operation', 1, 8, 'constant', { values: ['2RETORNO'] }),
+        field('bank', 'cnab.fields.bank', 76, 3, 'numeric'),
+        field('generatedOn', 'cnab.fields.generatedOn', 94, 6, 'date', { dateFormat: 'DDMMYY' }),
+        field('sequence', 'cnab.fields.sequence', 394, 6, 'numeric')
+      ]
+    },
+    {
+      kind: 'detail',
+      name: 'cnab.segments.detail',
+      match: [{ start: 0, value: '1' }],
+      fields: [
+        field('recordType', 'cnab.fields.recordType', 0, 1, 'constant', { values: ['1'] }),
+        // 01 is a CPF, zero-padded to the 14 digits of a CNPJ
+        field('documentType', 'cnab.fields.documentType', 1, 2, 'constant', { values: ['01'] }),
+        field('documentPadding', 'cnab.fields.documentPadding', 3, 3, 'constant', { values: ['000'] }),
+        field('cpf', 'cnab.fields.cpf', 6, 11, 'numeric'),
+        field('type', 'cnab.fields.occurrence', 108, 2, 'transactionType', { codes: CNAB400_OCCURRENCES }),
+        field('date', 'cnab.fields.date', 110, 6, 'date', { dateFormat: 'DDMMYY' }),
+        field('time', 'cnab.fields.time', 116, 6, 'time'),
+        field('card', 'cnab.fields.card', 122, 12, 'card'),
+        field('value', 'cnab.fields.value', 152, 13, 'amount'),
+        field('storeOwner', 'cnab.fields.storeOwner', 234, 40, 'text', { required: true }),
+        field('storeName', 'cnab.fields.storeName', 274, 40, 'text', { required: true }),
+        field('sequence', 'cnab.fields.sequence', 394, 6, 'numeric')
+      ]
+    },
+    {
+      kind: 'trailer',
+      name: 'cnab.segments.trailer',
+      match: [{ start: 0, value: '9' }],
+      fields: [
+        field('recordType', 'cnab.fields.recordType', 0, 1, 'constant', { values: ['9'] }),
+        field('sequence', 'cnab.fields.sequence', 394, 6, 'numeric')
+      ]
+    }
+  ]
+}
+
+// The first entry is the fallback when no layout matches
+export const CNAB_LAYOUTS: CnabLayout[] = [CNAB80_LAYOUT, CNAB240_LAYOUT, CNAB400_LAYOUT]
@@ -0,0 +1,283 @@
+import { CNAB80_LAYOUT, CNAB_LAYOUTS } from './cnab-layouts'
+import { isValidCpf, maskCpf } from './pii'
+import type { LocalizedMessage } from '@/types/i18n'
+import type {
+  CnabDateFormat,
+  CnabFieldError,
+  CnabFieldName,
+  CnabFormatId,
+  CnabLayout,
+  CnabLayoutField,
+  CnabLayoutSegment,
+  CnabParsedLine,
+  CnabParseResult,
+  CnabRecord
+} from '@/types/cnab'
+
+export const CNAB80_LINE_LENGTH = CNAB80_LAYOUT.lineLength
+
+// Detail record of the CNAB-80 layout
+export const CNAB80_FIELDS: CnabLayoutField[] =
+  CNAB80_LAYOUT.segments.find(segment => segment.kind === 'detail')?.fields ?? []
+
+// Transaction fields in preview order; every layout parses into these
+export const CNAB_RECORD_FIELDS: { name: CnabFieldName; label: string }[] = [
+  { name: 'type', label: 'cnab.fields.type' },
+  { name: 'date', label: 'cnab.fields.date' },
+  { name: 'value', label: 'cnab.fields.value' },
+  { name: 'cpf', label: 'cnab.fields.cpf' },
+  { name: 'card', label: 'cnab.fields.card' },
+  { name: 'time', label: 'cnab.fields.time' },
+  { name: 'storeOwner', label: 'cnab.fields.storeOwner' },
+  { name: 'storeName', label: 'cnab.fields.storeName' }
+]
+
+const RECORD_FIELD_NAMES = new Set<string>(CNAB_RECORD_FIELDS.map(field => field.name))
+
+// Lines looked at to tell the layouts apart
+const DETECT_LINES = 5
+
+const isRecordField = (name: string): name is CnabFieldName => RECORD_FIELD_NAMES.has(name)
+
+export const findLayout = (id: CnabFormatId): CnabLayout => {
+  return CNAB_LAYOUTS.find(layout => layout.id === id) ?? CNAB80_LAYOUT
+}
+
+// Year, month and day of a date field; two-digit years are 2000-2099
+const dateParts = (value: string, format: CnabDateFormat): [number, number, number] => {
+  switch (format) {
+    case 'YYYYMMDD': return [Number(value.slice(0, 4)), Number(value.slice(4, 6)), Number(value.slice(6, 8))]
+    case 'DDMMYYYY': return [Number(value.slice(4, 8)), Number(value.slice(2, 4)), Number(value.slice(0, 2))]
+    case 'DDMMYY': return [2000 + Number(value.slice(4, 6)), Number(value.slice(2, 4)), Number(value.slice(0, 2))]
+  }
+}
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1) return false
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return day <= daysInMonth
+}
+
+const isDigits = (value: string, length: number) => value.length === length && /^\d+$/.test(value)
+
+const message = (key: string, params?: LocalizedMessage['params']): LocalizedMessage => ({
+  key: `cnab.${key}`,
+  params
+})
+
+/**
+ * Format a field should have, as shown in validation reports
+ */
+export const expectedFormat = (field: CnabLayoutField): LocalizedMessage => {
+  const { length } = field
+  switch (field.type) {
+    case 'numeric': return message('expected.digits', { length })
+    case 'amount': return message('expected.cents', { length })
+    case 'date': return message('expected.date', { length, format: field.dateFormat ?? 'YYYYMMDD' })
+    case 'time': return message('expected.time')
+    case 'card': return message('expected.card', { length })
+    case 'text': return message(field.required ? 'expected.requiredText' : 'expected.text', { length })
+    case 'transactionType': {
+      return field.codes ? message('expected.codes', { codes: Object.keys(field.codes).join(', ') }) : message('expected.digit')
+    }
+    case 'constant': return message('expected.values', { values: (field.values ?? []).map(value => `'${value}'`) })
+  }
+}
+
+const validateField = (field: CnabLayoutField, value: string): LocalizedMessage | null => {
+  const expected = expectedFormat(field)
+  const label: LocalizedMessage = { key: field.label }
+
+  switch (field.type) {
+    case 'numeric':
+      return isDigits(value, field.length) ? null : message('messages.invalidFormat', { field: label, value, expected })
+    case 'amount':
+      return isDigits(value, field.length) ? null : message('messages.invalidValueFormat', { value, expected })
+    case 'date': {
+      if (!isDigits(value, field.length)) return message('messages.invalidDateFormat', { value, expected })
+      return isValidDate(...dateParts(value, field.dateFormat ?? 'YYYYMMDD')) ? null : message('messages.invalidDate', { value })
+    }
+    case 'time': {
+      if (!isDigits(value, 6)) return message('messages.invalidTimeFormat', { value, expected })
+      const hours = Number(value.slice(0, 2))
+      const minutes = Number(value.slice(2, 4))
+      const seconds = Number(value.slice(4, 6))
+      return hours > 23 || minutes > 59 || seconds > 59 ? message('messages.invalidTime', { value }) : null
+    }
+    case 'card':
+      return value.length === field.length && /^[\d*]+$/.test(value)
+        ? null
+        : message('messages.invalidCardFormat', { value, expected })
+    case 'text':
+      return field.required && !value.trim() ? message('messages.empty', { field: label }) : null
+    case 'transactionType': {
+      const valid = field.codes ? value in field.codes : /^\d$/.test(value)
+      return valid ? null : message('messages.invalidType', { value, expected })
+    }
+    case 'constant':
+      return field.values?.includes(value) ? null : message('messages.invalidConstant', { field: label, value, expected })
+  }
+}
+
+const toRecord = (layout: CnabLayout, segment: CnabLayoutSegment, values: Record<string, string>): CnabRecord => {
+  const raw = { ...layout.defaults, ...values } as Record<CnabFieldName, string>
+  const typeField = segment.fields.find(field => field.name === 'type')
+  const dateField = segment.fields.find(field => field.name === 'date')
+  const [year, month, day] = dateParts(raw.date, dateField?.dateFormat ?? 'YYYYMMDD')
+  const { time } = raw
+  const valueCents = Number(raw.value)
+
+  return {
+    type: typeField?.codes ? typeField.codes[raw.type] : Number(raw.type),
+    date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    valueCents,
+    value: valueCents / 100,
+    cpf: raw.cpf,
+    card: raw.card,
+    time: `${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`,
+    storeOwner: raw.storeOwner.trim(),
+    storeName: raw.storeName.trim()
+  }
+}
+
+const findSegment = (layout: CnabLayout, raw: string): CnabLayoutSegment | null => {
+  return layout.segments.find(segment => segment.match.every(({ start, value }) => raw.startsWith(value, start))) ?? null
+}
+
+/**
+ * Parse and validate a single line of the given layout. Every field is checked
+ * so the preview can highlight all problems at once instead of stopping at the first.
+ */
+export const parseCnabLine = (layout: CnabLayout, raw: string, lineNumber: number): CnabParsedLine => {
+  const errors: CnabFieldError[] = []
+  const warnings: CnabFieldError[] = []
+  const fields: Partial<Record<CnabFieldName, string>> = {}
+
+  if (raw.length !== layout.lineLength) {
+    errors.push({
+      field: 'line',
+      start: Math.min(raw.length, layout.lineLength),
+      end: Math.max(raw.length, layout.lineLength),
+      value: raw,
+      expected: message('expected.lineLength', { length: layout.lineLength }),
+      message: message('messages.recordLength', { length: raw.length, expected: layout.lineLength })
+    })
+  }
+
+  const segment = findSegment(layout, raw)
+  if (!segment) {
+    errors.push({
+      field: 'line',
+      start: 0,
+      end: raw.length,
+      value: raw,
+      expected: message('expected.segments', { segments: layout.segments.map(({ name }) => ({ key: name })) }),
+      message: message('messages.unknownRecord', { layout: layout.label })
+    })
+    return { lineNumber, raw, kind: null, segment: null, isTrailer: false, fields, record: null, errors, warnings }
+  }
+
+  const values: Record<string, string> = {}
+  for (const field of segment.fields) {
+    const value = raw.slice(field.start, field.start + field.length)
+    values[field.name] = value
+    if (isRecordField(field.name)) fields[field.name] = value
+
+    const error = validateField(field, value)
+    if (error) {
+      errors.push({
+        field: field.name,
+        start: field.start,
+        end: field.start + field.length,
+        value,
+        expected: expectedFormat(field),
+        message: error
+      })
+    } else if (field.name === 'cpf' && !isValidCpf(value)) {
+      // The server imports the line anyway, but the CPF was probably mistyped
+      warnings.push({
+        field: field.name,
+        start: field.start,
+        end: field.start + field.length,
+        value,
+        expected: message('expected.validCpf', { length: field.length }),
+        message: message('messages.cpfCheckDigits', { cpf: maskCpf(value) })
+      })
+    }
+  }
+
+  const record = errors.length === 0 && segment.kind === 'detail' ? toRecord(layout, segment, values) : null
+
+  return {
+    lineNumber,
+    raw,
+    kind: segment.kind,
+    segment: segment.name,
+    isTrailer: segment.kind === 'trailer',
+    fields,
+    record,
+    errors,
+    warnings
+  }
+}
+
+// Blank lines are ignored, but line numbers refer to the original file
+const contentLines = (content: string): { raw: string; lineNumber: number }[] => {
+  return content.split('\n').flatMap((line, index) => {
+    const raw = line.replace(/\r$/, '')
+    return raw.trim() ? [{ raw, lineNumber: index + 1 }] : []
+  })
+}
+
+/**
+ * Layout of a file, judged by the length of its first lines and the header
+ * text each layout expects. Falls back to CNAB 80, so its errors are reported.
+ */
+export const detectLayout = (content: string): CnabLayout => {
+  const sample = contentLines(content).slice(0, DETECT_LINES).map(line => line.raw)
+  let best = CNAB_LAYOUTS[0]
+  let bestScore = 0
+
+  for (const layout of CNAB_LAYOUTS) {
+    let score = sample.filter(raw => raw.length === layout.lineLength).length
+    const header = sample[0] ?? ''
+    const isHeader = header.length === layout.lineLength &&
+      layout.detect.length > 0 &&
+      layout.detect.every(({ start, value }) => header.startsWith(value, start))
+    if (isHeader) {
+      score += DETECT_LINES
+    }
+    if (score > bestScore) {
+      best = layout
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+/**
+ * Parse the content of a bank file, detecting its layout unless one is given.
+ * Line numbers refer to the original file so they match what the user sees in an editor.
+ */
+export const parseCnab = (content: string, layout: CnabLayout = detectLayout(content)): CnabParseResult => {
+  const lines = contentLines(content).map(({ raw, lineNumber }) => parseCnabLine(layout, raw, lineNumber))
+  const countValid = (kind: CnabParsedLine['kind']) => {
+    return lines.filter(line => line.kind === kind && line.errors.length === 0).length
+  }
+
+  return {
+    format: layout.id,
+    lines,
+    validCount: lines.filter(line => line.record).length,
+    invalidCount: lines.filter(line => line.errors.length > 0).length,
+    headerCount: countValid('header'),
+    trailerCount: countValid('trailer')
+  }
+}
+
+export const parseCnab80Line = (raw: string, lineNumber: number): CnabParsedLine => {
+  return parseCnabLine(CNAB80_LAYOUT, raw, lineNumber)
+}
+
+export const parseCnab80 = (content: string): CnabParseResult => parseCnab(content, CNAB80_LAYOUT)
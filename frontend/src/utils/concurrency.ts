@@ -0,0 +1,56 @@
+// Caps how many async tasks run at once. Tasks start in the order they were
+// scheduled; raising the limit starts waiting tasks straight away, lowering it
+// lets running tasks finish before new ones start.
+
+export interface Limiter {
+  run: <T>(task: () => Promise<T>) => Promise<T>
+  setLimit: (limit: number) => void
+  readonly limit: number
+  readonly active: number
+  readonly pending: number
+}
+
+export const createLimiter = (initialLimit: number): Limiter => {
+  let limit = Math.max(1, Math.floor(initialLimit))
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  const next = () => {
+    while (active < limit && waiting.length > 0) {
+      active++
+      waiting.shift()!()
+    }
+  }
+
+  const run = <T>(task: () => Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      waiting.push(() => {
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            active--
+            next()
+          })
+      })
+      next()
+    })
+  }
+
+  return {
+    run,
+    setLimit: (value: number) => {
+      limit = Math.max(1, Math.floor(value))
+      next()
+    },
+    get limit() {
+      return limit
+    },
+    get active() {
+      return active
+    },
+    get pending() {
+      return waiting.length
+    }
+  }
+}
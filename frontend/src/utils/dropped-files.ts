@@ -0,0 +1,69 @@
+// Turn a drop event into a flat list of files, walking into dropped folders.
+// Browsers without the entries API only expose the top-level files.
+
+export interface DroppedFile {
+  file: File
+  // Path relative to the dropped folder, or the file name
+  path: string
+}
+
+// Hidden files such as .DS_Store are never CNAB files
+const isHidden = (name: string) => name.startsWith('.')
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+// readEntries returns at most ~100 entries per call, so keep reading until it comes back empty
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+const walkEntry = async (entry: FileSystemEntry, prefix: string): Promise<DroppedFile[]> => {
+  if (isHidden(entry.name)) return []
+  const path = prefix ? `${prefix}/${entry.name}` : entry.name
+
+  if (entry.isFile) {
+    return [{ file: await readFile(entry as FileSystemFileEntry), path }]
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry)
+    const nested = await Promise.all(children.map(child => walkEntry(child, path)))
+    return nested.flat().sort((a, b) => a.path.localeCompare(b.path))
+  }
+  return []
+}
+
+/**
+ * Files from a file input. Folder inputs (webkitdirectory) keep the relative path.
+ */
+export const filesFromList = (files: FileList | File[] | null | undefined): DroppedFile[] => {
+  return Array.from(files ?? [])
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .filter(({ path }) => !path.split('/').some(isHidden))
+}
+
+/**
+ * Files from a drop event, including the contents of dropped folders
+ */
+export const filesFromDataTransfer = async (dataTransfer: DataTransfer | null): Promise<DroppedFile[]> => {
+  if (!dataTransfer) return []
+
+  // Entries must be taken synchronously; the DataTransfer is emptied after the event handler returns
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null)
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return filesFromList(dataTransfer.files)
+  }
+
+  const walked = await Promise.all(entries.map(entry => walkEntry(entry!, '')))
+  return walked.flat()
+}
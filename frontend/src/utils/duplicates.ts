@@ -0,0 +1,52 @@
+// Client side of the duplicate check: the file's content hash and the
+// parsed lines the server compares with stored transactions
+
+import type { DuplicateCheckLine, DuplicateCheckResponse } from '@/api'
+import type { CnabParseResult } from '@/types/cnab'
+import type { LocalizedMessage } from '@/types/i18n'
+
+// How many duplicate line numbers to spell out before summarising the rest
+const MAX_LISTED_LINES = 10
+
+/**
+ * Hex-encoded SHA-256 digest, as stored by the server for each upload
+ */
+export const sha256Hex = async (content: ArrayBuffer): Promise<string> => {
+  // A typed array view is accepted whichever realm the buffer comes from
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Valid, non-trailer lines of a parsed file in the shape the duplicate check expects
+ */
+export const duplicateCheckLines = (result: CnabParseResult | null): DuplicateCheckLine[] => {
+  if (!result) return []
+
+  return result.lines.flatMap(({ lineNumber, record }) => record
+    ? [{
+        line: lineNumber,
+        type: record.type,
+        datetime: `${record.date}T${record.time}`,
+        value: record.value,
+        cpf: record.cpf,
+        card: record.card,
+        storeOwner: record.storeOwner,
+        storeName: record.storeName
+      }]
+    : [])
+}
+
+export const hasDuplicates = (report: DuplicateCheckResponse | null): boolean => {
+  return !!report && (report.duplicateFiles.length > 0 || report.duplicateLines.length > 0)
+}
+
+/**
+ * e.g. "lines 1, 4, 7" or "lines 1, 2, ..., 10 and 25 more"
+ */
+export const describeDuplicateLines = (lines: number[]): LocalizedMessage => {
+  const listed = lines.slice(0, MAX_LISTED_LINES).join(', ')
+  const rest = lines.length - MAX_LISTED_LINES
+  if (rest > 0) return { key: 'upload.lineList.more', params: { lines: listed, rest } }
+  return { key: lines.length === 1 ? 'upload.lineList.one' : 'upload.lineList.other', params: { lines: listed } }
+}
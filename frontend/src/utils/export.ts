@@ -0,0 +1,291 @@
+import { maskCard, maskCpf } from './pii'
+import { signedAmount } from './transactions'
+import { createZip } from './zip'
+import type { StoreSummary } from '@/api'
+import type { ExportCell, ExportColumn, ExportFormat, ExportSheet } from '@/types/export'
+import type { TransactionDetail, TransactionFilters } from '@/types/transaction'
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ofx: 'application/x-ofx',
+  json: 'application/json'
+}
+
+// ISO 8601 local timestamp, as the CNAB file carries no offset
+const toIsoDateTime = (datetime: string): string => datetime.slice(0, 19)
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+export const buildStoreSummarySheet = (stores: StoreSummary[]): ExportSheet => ({
+  name: 'Store Balances',
+  columns: [
+    { header: 'Store Owner', type: 'text' },
+    { header: 'Store Name', type: 'text' },
+    { header: 'Transactions', type: 'number' },
+    { header: 'Income (BRL)', type: 'currency' },
+    { header: 'Expense (BRL)', type: 'currency' },
+    { header: 'Balance (BRL)', type: 'currency' }
+  ],
+  rows: stores.map(store => [
+    store.ownerName,
+    store.storeName,
+    store.transactionCount,
+    roundCents(store.totalIncome),
+    roundCents(-store.totalExpense),
+    roundCents(store.balance)
+  ])
+})
+
+export const buildTransactionSheet = (transactions: TransactionDetail[]): ExportSheet => ({
+  name: 'Transactions',
+  columns: [
+    { header: 'Date', type: 'text' },
+    { header: 'Type Code', type: 'number' },
+    { header: 'Type', type: 'text' },
+    { header: 'Nature', type: 'text' },
+    { header: 'Value (BRL)', type: 'currency' },
+    { header: 'CPF', type: 'text' },
+    { header: 'Card', type: 'text' }
+  ],
+  rows: transactions.map(transaction => [
+    toIsoDateTime(transaction.datetime),
+    transaction.transactionCode,
+    transaction.transactionType,
+    transaction.nature,
+    roundCents(signedAmount(transaction)),
+    maskCpf(transaction.cpf),
+    maskCard(transaction.card)
+  ])
+})
+
+const formatCell = (cell: ExportCell, column: ExportColumn): string => {
+  if (typeof cell === 'number') return column.type === 'currency' ? cell.toFixed(2) : String(cell)
+  return neutralizeFormula(cell)
+}
+
+// Store names and descriptions come from uploaded files: text a spreadsheet would run
+// as a formula is prefixed with a quote, which keeps it plain text. Numbers are left as
+// they are, so negative amounts stay numeric.
+const neutralizeFormula = (value: string): string => {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+const escapeCsv = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM so spreadsheet apps detect accented names.
+ * Amounts use a dot as decimal separator to stay machine-readable.
+ */
+export const toCsv = (sheet: ExportSheet): string => {
+  const lines = [
+    sheet.columns.map(column => escapeCsv(neutralizeFormula(column.header))),
+    ...sheet.rows.map(row => row.map((cell, index) => escapeCsv(formatCell(cell, sheet.columns[index]))))
+  ]
+  return '\uFEFF' + lines.map(line => line.join(',')).join('\r\n') + '\r\n'
+}
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const columnLetter = (index: number): string => {
+  let letter = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+  }
+  return letter
+}
+
+// Style indexes into the cellXfs of XLSX_STYLES
+const HEADER_STYLE = 1
+const CURRENCY_STYLE = 2
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;R$&quot; #,##0.00;-&quot;R$&quot; #,##0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`
+
+const xlsxCell = (cell: ExportCell, reference: string, style: number): string => {
+  const styleAttr = style ? ` s="${style}"` : ''
+  if (typeof cell === 'number') {
+    return `<c r="${reference}"${styleAttr}><v>${cell}</v></c>`
+  }
+  return `<c r="${reference}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+}
+
+const worksheetXml = (sheet: ExportSheet): string => {
+  const header = sheet.columns
+    .map((column, index) => xlsxCell(column.header, `${columnLetter(index)}1`, HEADER_STYLE))
+    .join('')
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row
+      .map((cell, index) => {
+        const style = sheet.columns[index].type === 'currency' ? CURRENCY_STYLE : 0
+        return xlsxCell(cell, `${columnLetter(index)}${rowIndex + 2}`, style)
+      })
+      .join('')
+    return `<row r="${rowIndex + 2}">${cells}</row>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetData><row r="1">${header}</row>${rows.join('')}</sheetData>
+</worksheet>`
+}
+
+// Excel rejects sheet names longer than 31 characters or containing []:*?/\
+const sheetName = (name: string): string => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31)
+
+/**
+ * Single-sheet XLSX workbook. Amounts are numeric cells formatted as BRL so
+ * they can be summed in the spreadsheet.
+ */
+export const toXlsx = (sheet: ExportSheet): Uint8Array => {
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+    },
+    { name: 'xl/styles.xml', data: XLSX_STYLES },
+    { name: 'xl/worksheets/sheet1.xml', data: worksheetXml(sheet) }
+  ])
+}
+
+// OFX timestamps: YYYYMMDDHHMMSS
+const toOfxDateTime = (isoDateTime: string): string => isoDateTime.replace(/[-:T]/g, '').slice(0, 14).padEnd(14, '0')
+
+const toOfxNow = (date: Date): string => toOfxDateTime(date.toISOString())
+
+/**
+ * OFX 2.2 bank statement of one store's transactions, for ledger import.
+ * Income is a CREDIT, expense a DEBIT with a negative amount.
+ */
+export const toOfx = (
+  transactions: TransactionDetail[],
+  accountId: string,
+  generatedAt: Date = new Date()
+): string => {
+  const sorted = [...transactions].sort((a, b) => a.datetime.localeCompare(b.datetime))
+  const now = toOfxNow(generatedAt)
+  const start = sorted.length > 0 ? toOfxDateTime(sorted[0].datetime) : now
+  const end = sorted.length > 0 ? toOfxDateTime(sorted[sorted.length - 1].datetime) : now
+  const balance = roundCents(sorted.reduce((sum, transaction) => sum + signedAmount(transaction), 0))
+
+  const statementLines = sorted.map(transaction => {
+    const amount = signedAmount(transaction)
+    const type = transaction.sign === '+' ? 'CREDIT' : transaction.sign === '-' ? 'DEBIT' : 'OTHER'
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${type}</TRNTYPE>`,
+      `<DTPOSTED>${toOfxDateTime(transaction.datetime)}</DTPOSTED>`,
+      `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+      `<FITID>${escapeXml(transaction.id)}</FITID>`,
+      `<NAME>${escapeXml(transaction.transactionType.slice(0, 32))}</NAME>`,
+      `<MEMO>${escapeXml(`${transaction.transactionType} - card ${maskCard(transaction.card)}`)}</MEMO>`,
+      '</STMTTRN>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${now}</DTSERVER>`,
+    '<LANGUAGE>POR</LANGUAGE>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL</CURDEF>',
+    '<BANKACCTFROM>',
+    '<BANKID>0000</BANKID>',
+    `<ACCTID>${escapeXml(accountId)}</ACCTID>`,
+    '<ACCTTYPE>CHECKING</ACCTTYPE>',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${start}</DTSTART>`,
+    `<DTEND>${end}</DTEND>`,
+    ...statementLines,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${balance.toFixed(2)}</BALAMT><DTASOF>${end}</DTASOF></LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    ''
+  ].join('\n')
+}
+
+export const slugify = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * File name that records the filtered period, e.g. store-balances_2019-03-01_2019-03-31.csv
+ */
+export const exportFileName = (base: string, filters: TransactionFilters, format: ExportFormat): string => {
+  const parts = [slugify(base) || 'export']
+  if (filters.from || filters.to) {
+    parts.push(filters.from ?? 'start', filters.to ?? 'today')
+  }
+  return `${parts.join('_')}.${format}`
+}
+
+export const downloadFile = (content: BlobPart, fileName: string, format: ExportFormat): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: EXPORT_MIME_TYPES[format] }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,29 @@
+// FileReader is used instead of Blob.text()/arrayBuffer() so the same code
+// path runs in older browsers and in jsdom
+
+/**
+ * Read a File as UTF-8 text
+ */
+export const readFileAsText = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file, 'utf-8')
+  })
+}
+
+/**
+ * Read a File into an ArrayBuffer, e.g. to persist it in IndexedDB
+ */
+export const readFileAsArrayBuffer = (file: Blob): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = reader.result
+      resolve(result instanceof ArrayBuffer ? result : new ArrayBuffer(0))
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(file)
+  })
+}
@@ -0,0 +1,30 @@
+import { currentLocale } from '@/i18n'
+
+// Amounts are always BRL; only the separators and symbol placement follow the locale
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat(currentLocale(), {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(value)
+}
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Server timestamps are UTC but are serialized without an offset when read back from MySQL
+export const parseServerDate = (value: string): Date => {
+  return new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value}Z`)
+}
+
+export const formatDateTime = (value: string): string => {
+  return parseServerDate(value).toLocaleString(currentLocale(), {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
@@ -0,0 +1,80 @@
+import { ROLES, type AuthSession, type AuthUser, type Role } from '@/types/auth'
+
+// Reading the claims of tokens from the OIDC issuer. The signature is not
+// checked here: the API validates every token it receives, the browser only
+// needs the claims to decide what to show.
+
+export type JwtClaims = Record<string, unknown>
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=')
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * Payload of a JWT
+ * @throws Error when the token is not a JWT with a JSON object payload
+ */
+export const decodeJwtClaims = (token: string): JwtClaims => {
+  const [, payload] = token.split('.')
+  if (!payload) throw new Error('Token is not a JWT')
+
+  let claims: unknown
+  try {
+    claims = JSON.parse(decodeBase64Url(payload))
+  } catch {
+    throw new Error('Token payload is not valid JSON')
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new Error('Token payload is not an object')
+  }
+  return claims as JwtClaims
+}
+
+// Dotted paths reach nested claims, e.g. realm_access.roles
+const readClaim = (claims: JwtClaims, path: string): unknown => {
+  return path.split('.').reduce<unknown>((value, key) => {
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined
+  }, claims)
+}
+
+/**
+ * Known roles in the roles claim, which may be a list or a single
+ * space-separated string. Unknown roles are dropped.
+ */
+export const rolesFromClaims = (claims: JwtClaims, rolesClaim: string): Role[] => {
+  const value = readClaim(claims, rolesClaim)
+  const names = Array.isArray(value) ? value : typeof value === 'string' ? value.split(' ') : []
+  return ROLES.filter(role => names.some(name => typeof name === 'string' && name.toLowerCase() === role))
+}
+
+/**
+ * Display name and roles of the token's subject
+ */
+export const userFromClaims = (claims: JwtClaims, rolesClaim: string): AuthUser => {
+  const name = [claims.name, claims.preferred_username, claims.sub].find(value => typeof value === 'string' && value !== '')
+  return {
+    name: (name as string | undefined) ?? 'unknown',
+    roles: rolesFromClaims(claims, rolesClaim)
+  }
+}
+
+/**
+ * Session for the tokens of a completed login. Roles come from the access
+ * token, which is what the API checks; the name prefers the ID token.
+ * @throws Error when the access token is not a JWT
+ */
+export const sessionFromTokens = (
+  accessToken: string,
+  idToken: string | undefined,
+  rolesClaim: string,
+  now = Date.now()
+): AuthSession => {
+  const claims = decodeJwtClaims(accessToken)
+  const { roles } = userFromClaims(claims, rolesClaim)
+  const { name } = userFromClaims(idToken ? { ...claims, ...decodeJwtClaims(idToken) } : claims, rolesClaim)
+  // Without exp, assume the usual one-hour lifetime; the API still rejects the token once it expires
+  const expiresAt = typeof claims.exp === 'number' ? claims.exp * 1000 : now + 3600_000
+  return { accessToken, idToken, expiresAt, user: { name, roles } }
+}
@@ -0,0 +1,107 @@
+// IndexedDB persistence for chunked uploads that have not completed yet.
+// The file contents are stored with the upload state so an upload can continue
+// from its last confirmed chunk after a network drop or a page reload.
+
+import type { DuplicateHandling } from '@/api'
+
+export interface PendingUpload {
+  // Stable across retries so the server keeps the chunks it already received
+  uploadId: string
+  // Sanitized name sent to the server
+  fileName: string
+  originalName: string
+  data: ArrayBuffer
+  chunkSize: number
+  totalChunks: number
+  uploadedChunks: number[]
+  timestamp: number
+  // The user already agreed to continue once back online
+  autoResume: boolean
+  // The user declined to resume; don't ask again
+  prompted: boolean
+  // How the server treats transactions that already exist, chosen after the duplicate
+  // check; missing while the check has not run yet (the file was queued offline)
+  duplicates?: DuplicateHandling
+}
+
+export class PendingUploadStoreError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message)
+    this.name = 'PendingUploadStoreError'
+  }
+}
+
+const DB_NAME = 'literate-sniffle'
+const DB_VERSION = 1
+const STORE_NAME = 'pendingUploads'
+
+// Queued offline: the user has not chosen how to treat duplicates yet
+export const needsDuplicateCheck = (upload: PendingUpload): boolean => !upload.duplicates
+
+export const isPendingUploadStoreAvailable = (): boolean => typeof indexedDB !== 'undefined'
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'uploadId' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(new PendingUploadStoreError('Failed to open upload database', request.error))
+  })
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(new PendingUploadStoreError('Upload database request failed', transaction.error))
+      transaction.onabort = () => reject(new PendingUploadStoreError('Upload database request aborted', transaction.error))
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export const createUploadId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export const savePendingUpload = async (upload: PendingUpload): Promise<void> => {
+  if (!isPendingUploadStoreAvailable()) return
+  await runRequest('readwrite', store => store.put(upload))
+}
+
+export const getPendingUpload = async (uploadId: string): Promise<PendingUpload | undefined> => {
+  if (!isPendingUploadStoreAvailable()) return undefined
+  return runRequest<PendingUpload | undefined>('readonly', store => store.get(uploadId))
+}
+
+export const listPendingUploads = async (): Promise<PendingUpload[]> => {
+  if (!isPendingUploadStoreAvailable()) return []
+  const uploads = await runRequest<PendingUpload[]>('readonly', store => store.getAll())
+  return uploads.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export const updatePendingUpload = async (
+  uploadId: string,
+  changes: Partial<Omit<PendingUpload, 'uploadId'>>
+): Promise<void> => {
+  const existing = await getPendingUpload(uploadId)
+  if (!existing) return
+  await savePendingUpload({ ...existing, ...changes, timestamp: Date.now() })
+}
+
+export const deletePendingUpload = async (uploadId: string): Promise<void> => {
+  if (!isPendingUploadStoreAvailable()) return
+  await runRequest('readwrite', store => store.delete(uploadId))
+}
@@ -0,0 +1,46 @@
+// Masking and validation of the CPF and card numbers carried by transactions.
+// The server already masks them; masking again here keeps exports and printouts
+// safe even when they are built from revealed values.
+
+/**
+ * CPF with everything but the check digits hidden, e.g. ***.***.***-17.
+ * Already masked values come back unchanged.
+ */
+export const maskCpf = (cpf: string): string => {
+  // Placeholders such as 'N/A' have nothing to hide
+  if (!/\d{2}$/.test(cpf)) return cpf
+  return `***.***.***-${cpf.slice(-2)}`
+}
+
+/**
+ * Card number with everything but the last four characters hidden
+ */
+export const maskCard = (card: string): string => {
+  if (!card || card.length <= 4) return card
+  return '*'.repeat(card.length - 4) + card.slice(-4)
+}
+
+/**
+ * 11-digit CPF as 096.206.760-17; anything else is returned as is
+ */
+export const formatCpf = (cpf: string): string => {
+  const match = /^(\d{3})(\d{3})(\d{3})(\d{2})$/.exec(cpf)
+  return match ? `${match[1]}.${match[2]}.${match[3]}-${match[4]}` : cpf
+}
+
+// Weights run from count + 1 down to 2 over the first `count` digits
+const checkDigit = (digits: number[], count: number): number => {
+  const sum = digits.slice(0, count).reduce((total, digit, index) => total + digit * (count + 1 - index), 0)
+  const remainder = (sum * 10) % 11
+  return remainder === 10 ? 0 : remainder
+}
+
+/**
+ * Whether an 11-digit CPF has matching check digits. Repeated digits such as
+ * 111.111.111-11 pass the arithmetic but are never issued, so they fail too.
+ */
+export const isValidCpf = (cpf: string): boolean => {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false
+  const digits = [...cpf].map(Number)
+  return checkDigit(digits, 9) === digits[9] && checkDigit(digits, 10) === digits[10]
+}
@@ -0,0 +1,21 @@
+// Proof Key for Code Exchange (RFC 7636): the login redirect carries a hash of
+// a random verifier, and only the tab holding the verifier can redeem the code.
+
+const base64Url = (bytes: Uint8Array): string => {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * URL-safe random string, used for the verifier and the state parameter
+ */
+export const randomUrlSafeString = (byteLength = 32): string => {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+/**
+ * S256 challenge of a verifier
+ */
+export const codeChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return base64Url(new Uint8Array(digest))
+}
@@ -0,0 +1,310 @@
+// Matching of a settlement report (ledger) CSV against a store's imported transactions.
+// The API only returns masked CPFs and cards, so the ledger's are masked the same way
+// and the comparison uses the digits both sides still show.
+
+import { maskCard, maskCpf } from './pii'
+import type {
+  ExceptionResolution,
+  LedgerEntry,
+  LedgerParseError,
+  LedgerParseResult,
+  MatchRule,
+  ReconciliationMatch,
+  ReconciliationResult,
+  ReconciliationRules
+} from '@/types/reconciliation'
+import type { TransactionDetail } from '@/types/transaction'
+
+export const DEFAULT_RULES: ReconciliationRules = {
+  valueTolerance: 0.01,
+  timeWindowMinutes: 60
+}
+
+type LedgerColumn = 'date' | 'value' | 'cpf' | 'card' | 'store'
+
+// Header names accepted for each column, English or Portuguese, compared without accents
+const COLUMN_NAMES: Record<LedgerColumn, string[]> = {
+  date: ['date', 'datetime', 'data', 'data/hora'],
+  value: ['value', 'amount', 'valor'],
+  cpf: ['cpf'],
+  card: ['card', 'cartao'],
+  store: ['store', 'loja']
+}
+
+const REQUIRED_COLUMNS: LedgerColumn[] = ['date', 'value', 'cpf', 'card']
+
+const RESOLUTIONS_KEY_PREFIX = 'reconciliation-resolutions:'
+
+const normalize = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase()
+}
+
+// Spreadsheets in pt-BR save CSVs with ';' because ',' is the decimal separator
+const detectDelimiter = (header: string): string => {
+  return header.split(';').length > header.split(',').length ? ';' : ','
+}
+
+/**
+ * Fields of a CSV line; quoted fields may contain the delimiter and "" for a quote
+ */
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field.trim())
+  return fields
+}
+
+/**
+ * Amount in reais from 1234.50, 1.234,50, -1234,5 or R$ 1.234,50; the sign is dropped
+ */
+export const parseLedgerValue = (text: string): number | undefined => {
+  let digits = text.replace(/R\$|\s/g, '').replace(/^-/, '')
+  const comma = digits.lastIndexOf(',')
+  const dot = digits.lastIndexOf('.')
+  // Whichever separator comes last is the decimal one
+  digits = comma > dot
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '')
+  if (!/^\d+(\.\d+)?$/.test(digits)) return undefined
+  return Number(digits)
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0')
+
+/**
+ * Local timestamp (YYYY-MM-DDTHH:mm:ss) from 2019-03-01 15:34:53, 2019-03-01T15:34
+ * or 01/03/2019 15:34:53. Seconds are optional; the time is not.
+ */
+export const parseLedgerDate = (text: string): string | undefined => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(text)
+  const brazilian = /^(\d{2})\/(\d{2})\/(\d{4}) (\d{2}):(\d{2})(?::(\d{2}))?$/.exec(text)
+  const parts = iso
+    ? [iso[1], iso[2], iso[3], iso[4], iso[5], iso[6]]
+    : brazilian
+      ? [brazilian[3], brazilian[2], brazilian[1], brazilian[4], brazilian[5], brazilian[6]]
+      : undefined
+  if (!parts) return undefined
+
+  const [year, month, day, hours, minutes, seconds] = parts.map(part => Number(part ?? 0))
+  const date = new Date(year, month - 1, day, hours, minutes, seconds)
+  // Rejects 2019-02-30, 25:00 and the like, which Date would roll over
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day ||
+    date.getHours() !== hours || date.getMinutes() !== minutes || date.getSeconds() !== seconds) {
+    return undefined
+  }
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+}
+
+/**
+ * Read a settlement report CSV. The header names the columns, in any order;
+ * rows that can't be read are reported by line and left out.
+ */
+export const parseLedgerCsv = (content: string): LedgerParseResult => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const header = lines[0] ?? ''
+  if (!header.trim()) {
+    return { entries: [], errors: [{ line: 1, code: 'empty', value: '' }] }
+  }
+
+  const delimiter = detectDelimiter(header)
+  const names = splitCsvLine(header, delimiter).map(normalize)
+  const columns = Object.fromEntries(Object.entries(COLUMN_NAMES).map(([column, aliases]) =>
+    [column, names.findIndex(name => aliases.includes(name))])) as Record<LedgerColumn, number>
+
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] < 0)
+  if (missing.length > 0) {
+    return { entries: [], errors: [{ line: 1, code: 'missing-columns', value: missing.join(', ') }] }
+  }
+
+  const entries: LedgerEntry[] = []
+  const errors: LedgerParseError[] = []
+
+  lines.slice(1).forEach((text, index) => {
+    const line = index + 2
+    if (!text.trim()) return
+
+    const fields = splitCsvLine(text, delimiter)
+    const field = (column: LedgerColumn) => columns[column] < 0 ? '' : fields[columns[column]] ?? ''
+
+    const datetime = parseLedgerDate(field('date'))
+    if (!datetime) {
+      errors.push({ line, code: 'invalid-date', value: field('date') })
+      return
+    }
+    const value = parseLedgerValue(field('value'))
+    if (value === undefined) {
+      errors.push({ line, code: 'invalid-value', value: field('value') })
+      return
+    }
+
+    entries.push({
+      line,
+      datetime,
+      value,
+      cpf: maskCpf(field('cpf').replace(/\D/g, '')),
+      card: maskCard(field('card')),
+      store: field('store')
+    })
+  })
+
+  return { entries, errors }
+}
+
+/**
+ * Ledger entries of the given store; entries without a store name are kept
+ */
+export const entriesForStore = (entries: LedgerEntry[], storeName: string): LedgerEntry[] => {
+  const store = normalize(storeName)
+  return entries.filter(entry => !entry.store || normalize(entry.store) === store)
+}
+
+/**
+ * Inclusive ISO dates of the ledger's first and last entries. Only these days
+ * are reconciled: a report covers whole days, so transactions on other days
+ * would all show up as missing from it.
+ */
+export const ledgerPeriod = (entries: LedgerEntry[]): { from: string, to: string } | null => {
+  if (entries.length === 0) return null
+  const dates = entries.map(entry => entry.datetime.slice(0, 10)).sort()
+  return { from: dates[0], to: dates[dates.length - 1] }
+}
+
+// What both sides still show of the CPF and the card
+const identityKey = (cpf: string, card: string): string => `${maskCpf(cpf)}|${card.slice(-4)}`
+
+const cents = (value: number): number => Math.round(value * 100)
+
+const localTimestamp = (datetime: string): string => datetime.slice(0, 19)
+
+const minutesBetween = (a: string, b: string): number => {
+  return Math.abs(new Date(localTimestamp(a)).getTime() - new Date(localTimestamp(b)).getTime()) / 60_000
+}
+
+const toMatch = (entry: LedgerEntry, transaction: TransactionDetail, rule: MatchRule): ReconciliationMatch => ({
+  entry,
+  transaction,
+  rule,
+  valueDifference: (cents(entry.value) - cents(transaction.value)) / 100,
+  minutesApart: minutesBetween(entry.datetime, transaction.datetime)
+})
+
+/**
+ * Pair ledger entries with transactions: exact matches first, then the closest
+ * fuzzy candidates (nearest in time, then in value). Each side is used once.
+ */
+export const reconcile = (
+  transactions: TransactionDetail[],
+  entries: LedgerEntry[],
+  rules: ReconciliationRules = DEFAULT_RULES
+): ReconciliationResult => {
+  const matched: ReconciliationMatch[] = []
+  const unmatched = new Set(transactions)
+
+  const exactKey = (datetime: string, value: number, cpf: string, card: string) =>
+    `${localTimestamp(datetime)}|${cents(value)}|${identityKey(cpf, card)}`
+
+  const byExactKey = new Map<string, TransactionDetail[]>()
+  transactions.forEach(transaction => {
+    const key = exactKey(transaction.datetime, transaction.value, transaction.cpf, transaction.card)
+    byExactKey.set(key, [...byExactKey.get(key) ?? [], transaction])
+  })
+
+  const remaining = entries.filter(entry => {
+    const candidates = byExactKey.get(exactKey(entry.datetime, entry.value, entry.cpf, entry.card))
+    const transaction = candidates?.shift()
+    if (!transaction) return true
+    unmatched.delete(transaction)
+    matched.push(toMatch(entry, transaction, 'exact'))
+    return false
+  })
+
+  const byIdentity = new Map<string, TransactionDetail[]>()
+  unmatched.forEach(transaction => {
+    const key = identityKey(transaction.cpf, transaction.card)
+    byIdentity.set(key, [...byIdentity.get(key) ?? [], transaction])
+  })
+
+  const maxCents = cents(rules.valueTolerance)
+  const candidates = remaining.flatMap(entry =>
+    (byIdentity.get(identityKey(entry.cpf, entry.card)) ?? [])
+      .map(transaction => toMatch(entry, transaction, 'fuzzy'))
+      .filter(match => Math.abs(cents(match.valueDifference)) <= maxCents &&
+        match.minutesApart <= rules.timeWindowMinutes))
+
+  candidates.sort((a, b) =>
+    a.minutesApart - b.minutesApart ||
+    Math.abs(a.valueDifference) - Math.abs(b.valueDifference) ||
+    a.entry.line - b.entry.line)
+
+  const pairedEntries = new Set<LedgerEntry>()
+  candidates.forEach(match => {
+    if (pairedEntries.has(match.entry) || !unmatched.has(match.transaction)) return
+    pairedEntries.add(match.entry)
+    unmatched.delete(match.transaction)
+    matched.push(match)
+  })
+
+  return {
+    matched: matched.sort((a, b) => a.entry.line - b.entry.line),
+    missingInCnab: remaining.filter(entry => !pairedEntries.has(entry)),
+    missingInLedger: transactions.filter(transaction => unmatched.has(transaction))
+  }
+}
+
+/**
+ * Stable key of an exception, so a resolution survives loading the same ledger again
+ */
+export const ledgerExceptionKey = (entry: LedgerEntry): string => {
+  return `ledger:${entry.datetime}|${entry.value.toFixed(2)}|${entry.cpf}|${entry.card}`
+}
+
+export const transactionExceptionKey = (transaction: TransactionDetail): string => {
+  return `transaction:${transaction.id}`
+}
+
+/**
+ * Resolved exceptions of a store, as saved in this browser
+ */
+export const loadResolutions = (storeId: string): Record<string, ExceptionResolution> => {
+  try {
+    const raw = localStorage.getItem(RESOLUTIONS_KEY_PREFIX + storeId)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export const saveResolutions = (storeId: string, resolutions: Record<string, ExceptionResolution>) => {
+  try {
+    if (Object.keys(resolutions).length === 0) {
+      localStorage.removeItem(RESOLUTIONS_KEY_PREFIX + storeId)
+    } else {
+      localStorage.setItem(RESOLUTIONS_KEY_PREFIX + storeId, JSON.stringify(resolutions))
+    }
+  } catch {
+    // Private mode or a full storage: resolutions last until the page is left
+  }
+}
@@ -0,0 +1,44 @@
+import type { AuthUser, Role } from '@/types/auth'
+
+// Which screens a user may open. The router guard and the navigation links
+// both ask here, so a hidden link and a blocked route never disagree.
+
+export interface RouteAccess {
+  // Reachable without signing in, e.g. the login page
+  public?: boolean
+  // Any one of these roles is enough; signed-in users with no role listed get nothing
+  roles?: readonly Role[]
+}
+
+export interface GuardedScreen {
+  name: string
+  access: RouteAccess
+}
+
+export type NavigationTarget = { name: string; query?: Record<string, string> }
+
+/**
+ * Whether the user may open a screen with this access
+ */
+export const canAccess = (access: RouteAccess, user: AuthUser | null): boolean => {
+  if (access.public) return true
+  if (!user || !access.roles) return false
+  return access.roles.some(role => user.roles.includes(role))
+}
+
+/**
+ * Where a navigation ends up: true to let it through, or the screen to go to
+ * instead. Signed-out users go to the login page and come back afterwards;
+ * users lacking the role land on the first screen they may open.
+ */
+export const guardNavigation = (
+  to: { fullPath: string; access: RouteAccess },
+  user: AuthUser | null,
+  screens: GuardedScreen[]
+): true | NavigationTarget => {
+  if (canAccess(to.access, user)) return true
+  if (!user) return { name: 'login', query: { redirect: to.fullPath } }
+
+  const home = screens.find(screen => !screen.access.public && canAccess(screen.access, user))
+  return home ? { name: home.name } : { name: 'login', query: { denied: '1' } }
+}
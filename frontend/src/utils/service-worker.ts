@@ -0,0 +1,100 @@
+// Page side of public/sw.js: registration, the offline API cache and the
+// background sync that uploads files queued without a connection.
+
+// These names must match public/sw.js
+export const API_CACHE = 'literate-sniffle-api-v1'
+export const CACHED_AT_HEADER = 'X-Cached-At'
+export const UPLOAD_SYNC_TAG = 'pending-uploads'
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+// Background Sync is not in TypeScript's DOM library yet
+interface SyncManager {
+  register(tag: string): Promise<void>
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & { sync?: SyncManager }
+
+/**
+ * What a tab answers when the service worker is about to upload the queue:
+ * whether the tab does it itself and, if not, the token the worker should use.
+ */
+export interface UploadSyncReply {
+  handled: boolean
+  accessToken: string | null
+}
+
+export interface ServiceWorkerOptions {
+  accessToken: () => string | null
+}
+
+let uploadSyncHandler: (() => void) | null = null
+
+export const isServiceWorkerSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * Set while the upload screen is open: it uploads the queue itself, with
+ * progress, instead of leaving it to the service worker
+ */
+export const setUploadSyncHandler = (handler: (() => void) | null) => {
+  uploadSyncHandler = handler
+}
+
+export const replyToUploadSync = (accessToken: () => string | null): UploadSyncReply => {
+  if (uploadSyncHandler) {
+    uploadSyncHandler()
+    return { handled: true, accessToken: null }
+  }
+  return { handled: false, accessToken: accessToken() }
+}
+
+/**
+ * Register the service worker and answer its upload sync requests
+ */
+export const registerServiceWorker = async (options: ServiceWorkerOptions): Promise<void> => {
+  if (!isServiceWorkerSupported()) return
+
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    if (event.data?.type !== 'sync-uploads') return
+    event.ports[0]?.postMessage(replyToUploadSync(options.accessToken))
+  })
+
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  } catch (err) {
+    // The app still works online without it
+    console.warn('Could not register the service worker:', err)
+  }
+}
+
+/**
+ * Ask the browser to upload the queue once it is back online, even if the app
+ * is closed by then. Returns false where Background Sync is not available, in
+ * which case the upload screen resumes the queue on its next `online` event.
+ */
+export const requestUploadSync = async (): Promise<boolean> => {
+  if (!isServiceWorkerSupported()) return false
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncCapableRegistration | undefined
+    if (!registration?.sync) return false
+    await registration.sync.register(UPLOAD_SYNC_TAG)
+    return true
+  } catch (err) {
+    console.warn('Could not register the upload sync:', err)
+    return false
+  }
+}
+
+/**
+ * Drop the API answers kept for offline use, e.g. when the user signs out
+ */
+export const clearOfflineCache = async (): Promise<void> => {
+  if (typeof caches === 'undefined') return
+  try {
+    await caches.delete(API_CACHE)
+  } catch (err) {
+    console.warn('Could not clear the offline cache:', err)
+  }
+}
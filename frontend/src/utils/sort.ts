@@ -0,0 +1,41 @@
+import type { SortDirection, SortState } from '@/types/table'
+
+/**
+ * Sort state after clicking a column header: the active column flips its
+ * direction, a new column starts with its preferred direction.
+ */
+export const nextSort = <K extends string>(
+  current: SortState<K> | null,
+  key: K,
+  initialDirection: SortDirection = 'asc'
+): SortState<K> => {
+  if (current?.key === key) {
+    return { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+  }
+  return { key, direction: initialDirection }
+}
+
+/**
+ * Stable copy of rows sorted by the value the accessor returns. Strings are
+ * compared with pt-BR collation so accented names sort where users expect.
+ */
+export const sortRows = <T>(
+  rows: T[],
+  accessor: (row: T) => string | number,
+  direction: SortDirection
+): T[] => {
+  const factor = direction === 'asc' ? 1 : -1
+  return rows
+    .map((row, index) => ({ row, index, value: accessor(row) }))
+    .sort((a, b) => {
+      const result = typeof a.value === 'string' && typeof b.value === 'string'
+        ? a.value.localeCompare(b.value, 'pt-BR', { sensitivity: 'base' })
+        : Number(a.value) - Number(b.value)
+      return result * factor || a.index - b.index
+    })
+    .map(entry => entry.row)
+}
+
+export const pageCount = (totalCount: number, pageSize: number): number => {
+  return Math.max(1, Math.ceil(totalCount / pageSize))
+}
@@ -0,0 +1,78 @@
+// Store statement: opening balance, movements with a running balance, totals by type
+// and closing balance. The opening balance comes from the API, as the store balance
+// up to the day before the period.
+
+import { slugify } from './export'
+import { signedAmount } from './transactions'
+import type { Statement, StatementTypeTotal } from '@/types/statement'
+import type { TransactionDetail } from '@/types/transaction'
+
+// Same day and time order as the CNAB files; the id keeps ties stable
+const chronological = (a: TransactionDetail, b: TransactionDetail) => {
+  return a.datetime.localeCompare(b.datetime) || a.id.localeCompare(b.id)
+}
+
+// Rounded to cents at every step, so a long statement does not drift from the API's balance
+const addCents = (balance: number, amount: number) => Math.round((balance + amount) * 100) / 100
+
+/**
+ * The ISO date (YYYY-MM-DD) before the given one, for the opening balance query.
+ */
+export const previousDay = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - 1)
+  return day.toISOString().slice(0, 10)
+}
+
+/**
+ * Build the statement of the movements in a period, starting from the balance the
+ * store had before it.
+ */
+export const buildStatement = (transactions: TransactionDetail[], openingBalance: number): Statement => {
+  let balance = openingBalance
+  const lines = [...transactions].sort(chronological).map(transaction => {
+    balance = addCents(balance, signedAmount(transaction))
+    return { transaction, balance }
+  })
+
+  const byType = new Map<number, StatementTypeTotal>()
+  let totalIncome = 0
+  let totalExpense = 0
+
+  for (const transaction of transactions) {
+    const total = byType.get(transaction.transactionCode) ?? {
+      code: transaction.transactionCode,
+      name: transaction.transactionType,
+      nature: transaction.nature,
+      count: 0,
+      total: 0
+    }
+    total.count++
+    total.total = addCents(total.total, transaction.value)
+    byType.set(transaction.transactionCode, total)
+
+    if (transaction.sign === '-') totalExpense = addCents(totalExpense, transaction.value)
+    else totalIncome = addCents(totalIncome, transaction.value)
+  }
+
+  return {
+    openingBalance,
+    lines,
+    totalsByType: [...byType.values()].sort((a, b) => a.code - b.code),
+    totalIncome,
+    totalExpense,
+    closingBalance: balance
+  }
+}
+
+/**
+ * Document title while printing, which browsers offer as the PDF file name, e.g.
+ * statement-bar-do-joao_2019-03-01_2019-03-31. Named like the exports.
+ */
+export const statementFileName = (storeName: string, from?: string, to?: string): string => {
+  const parts = [`statement-${slugify(storeName) || 'store'}`]
+  if (from || to) {
+    parts.push(from ?? 'start', to ?? 'today')
+  }
+  return parts.join('_')
+}
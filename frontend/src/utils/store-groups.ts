@@ -0,0 +1,58 @@
+import type { StoreSummary } from '@/api'
+
+// A head store with the branches grouped under it, e.g. LOJA DO Ó - MATRIZ and its FILIAL stores
+export interface StoreGroup {
+  head: StoreSummary
+  branches: StoreSummary[]
+  // Head and branches together
+  total: Pick<StoreSummary, 'transactionCount' | 'totalIncome' | 'totalExpense' | 'balance'>
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+const byName = (a: StoreSummary, b: StoreSummary) =>
+  a.storeName.localeCompare(b.storeName) || a.ownerName.localeCompare(b.ownerName)
+
+/**
+ * Group stores under their head stores, heads sorted by name. A branch whose head
+ * is not in the list, e.g. left out by a filter, is shown as a group of its own.
+ */
+export const groupStores = (stores: StoreSummary[]): StoreGroup[] => {
+  const ids = new Set(stores.map(store => store.storeId))
+  const isBranch = (store: StoreSummary) => !!store.parentStoreId && ids.has(store.parentStoreId)
+
+  return stores
+    .filter(store => !isBranch(store))
+    .sort(byName)
+    .map(head => {
+      const branches = stores
+        .filter(store => isBranch(store) && store.parentStoreId === head.storeId)
+        .sort(byName)
+      const members = [head, ...branches]
+      const totalIncome = roundCents(members.reduce((sum, store) => sum + store.totalIncome, 0))
+      const totalExpense = roundCents(members.reduce((sum, store) => sum + store.totalExpense, 0))
+
+      return {
+        head,
+        branches,
+        total: {
+          transactionCount: members.reduce((sum, store) => sum + store.transactionCount, 0),
+          totalIncome,
+          totalExpense,
+          balance: roundCents(totalIncome - totalExpense)
+        }
+      }
+    })
+}
+
+/**
+ * Stores the given store can be grouped under: stand-alone or head stores other than
+ * itself. A store with branches cannot become a branch, groups are one level deep.
+ */
+export const headCandidates = (stores: StoreSummary[], store: StoreSummary): StoreSummary[] => {
+  if (stores.some(other => other.parentStoreId === store.storeId)) return []
+
+  return stores
+    .filter(other => other.storeId !== store.storeId && !other.parentStoreId)
+    .sort(byName)
+}
@@ -0,0 +1,111 @@
+import type { LocationQuery, LocationQueryRaw } from 'vue-router'
+import type { TransactionFilters, TransactionNature, TransactionTypeInfo } from '@/types/transaction'
+
+// CNAB transaction types as seeded by the backend, shown until the catalog has loaded
+export const TRANSACTION_TYPES: TransactionTypeInfo[] = [
+  { code: 1, name: 'Debit', nature: 'Income' },
+  { code: 2, name: 'Boleto', nature: 'Expense' },
+  { code: 3, name: 'Financing', nature: 'Expense' },
+  { code: 4, name: 'Credit', nature: 'Income' },
+  { code: 5, name: 'Loan Receipt', nature: 'Income' },
+  { code: 6, name: 'Sales', nature: 'Income' },
+  { code: 7, name: 'TED Receipt', nature: 'Income' },
+  { code: 8, name: 'DOC Receipt', nature: 'Income' },
+  { code: 9, name: 'Rent', nature: 'Expense' }
+]
+
+export const TRANSACTION_NATURES: TransactionNature[] = ['Income', 'Expense']
+
+// A CNAB 80 type is a single digit
+export const MIN_TYPE_CODE = 0
+export const MAX_TYPE_CODE = 9
+
+export const createEmptyFilters = (): TransactionFilters => ({ types: [] })
+
+export const hasActiveFilters = (filters: TransactionFilters): boolean => {
+  return Boolean(filters.from || filters.to || filters.types.length > 0 || filters.nature || filters.search)
+}
+
+const firstValue = (value: LocationQuery[string] | undefined): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value
+  return raw ?? undefined
+}
+
+export const isIsoDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+const parseTypes = (value: LocationQuery[string] | undefined): number[] => {
+  const values = Array.isArray(value) ? value : [value]
+  const codes = values
+    .flatMap(entry => (entry ?? '').split(','))
+    // Number('') is 0, which is a valid code
+    .filter(entry => entry.trim() !== '')
+    .map(Number)
+    .filter(code => Number.isInteger(code) && code >= MIN_TYPE_CODE && code <= MAX_TYPE_CODE)
+  return [...new Set(codes)].sort((a, b) => a - b)
+}
+
+/**
+ * Read filters from the route query. Anything malformed is dropped instead of
+ * failing, since the query may come from a hand-edited bookmark.
+ */
+export const parseFilterQuery = (query: LocationQuery): TransactionFilters => {
+  const filters = createEmptyFilters()
+
+  const from = firstValue(query.from)
+  if (from && isIsoDate(from)) filters.from = from
+
+  const to = firstValue(query.to)
+  if (to && isIsoDate(to)) filters.to = to
+
+  // A reversed range would be rejected by the server
+  if (filters.from && filters.to && filters.from > filters.to) {
+    delete filters.to
+  }
+
+  filters.types = parseTypes(query.types)
+
+  const nature = firstValue(query.nature)
+  if (nature && (TRANSACTION_NATURES as string[]).includes(nature)) {
+    filters.nature = nature as TransactionNature
+  }
+
+  const search = firstValue(query.search)?.trim()
+  if (search) filters.search = search
+
+  return filters
+}
+
+/**
+ * Route query for the given filters; empty criteria are left out so an
+ * unfiltered page keeps a clean URL.
+ */
+export const toFilterQuery = (filters: TransactionFilters): LocationQueryRaw => {
+  const query: LocationQueryRaw = {}
+  if (filters.from) query.from = filters.from
+  if (filters.to) query.to = filters.to
+  if (filters.types.length > 0) query.types = filters.types.join(',')
+  if (filters.nature) query.nature = filters.nature
+  if (filters.search?.trim()) query.search = filters.search.trim()
+  return query
+}
+
+/**
+ * Query string understood by the backend's TransactionFilter, including the leading '?'
+ */
+export const toApiQueryString = (filters: TransactionFilters | undefined): string => {
+  if (!filters) return ''
+
+  const params = new URLSearchParams()
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  filters.types.forEach(code => params.append('types', String(code)))
+  if (filters.nature) params.set('nature', filters.nature)
+  if (filters.search?.trim()) params.set('search', filters.search.trim())
+
+  const queryString = params.toString()
+  return queryString ? `?${queryString}` : ''
+}
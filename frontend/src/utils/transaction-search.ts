@@ -0,0 +1,104 @@
+import type { LocationQuery, LocationQueryRaw } from 'vue-router'
+import { isIsoDate } from './transaction-filters'
+import type { TransactionSearchCriteria } from '@/types/transaction'
+
+// Mirrors the server's TransactionSearchCriteria validation
+export const CPF_LENGTH = 11
+export const MIN_CARD_FRAGMENT_LENGTH = 4
+
+const TEXT_FIELDS = ['cpf', 'card', 'owner', 'store'] as const
+const VALUE_FIELDS = ['minValue', 'maxValue'] as const
+const DATE_FIELDS = ['from', 'to'] as const
+
+const firstValue = (value: LocationQuery[string] | undefined): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value
+  return raw?.trim() || undefined
+}
+
+// Accepts 1234.5 as well as the pt-BR 1234,5
+const parseValue = (value: string): number | undefined => {
+  const parsed = Number(value.replace(',', '.'))
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+export const cpfDigits = (cpf: string): string => cpf.replace(/\D/g, '')
+
+/**
+ * Read search criteria from the route query. Malformed values and dates are
+ * dropped; text is kept as typed so the form can show it back.
+ */
+export const parseSearchQuery = (query: LocationQuery): TransactionSearchCriteria => {
+  const criteria: TransactionSearchCriteria = {}
+
+  TEXT_FIELDS.forEach(field => {
+    const value = firstValue(query[field])
+    if (value) criteria[field] = value
+  })
+
+  VALUE_FIELDS.forEach(field => {
+    const value = firstValue(query[field])
+    const parsed = value === undefined ? undefined : parseValue(value)
+    if (parsed !== undefined) criteria[field] = parsed
+  })
+
+  DATE_FIELDS.forEach(field => {
+    const value = firstValue(query[field])
+    if (value && isIsoDate(value)) criteria[field] = value
+  })
+
+  return criteria
+}
+
+/**
+ * Route query for the given criteria; empty ones are left out
+ */
+export const toSearchQuery = (criteria: TransactionSearchCriteria): LocationQueryRaw => {
+  const query: LocationQueryRaw = {}
+  TEXT_FIELDS.forEach(field => {
+    const value = criteria[field]?.trim()
+    if (value) query[field] = value
+  })
+  VALUE_FIELDS.forEach(field => {
+    const value = criteria[field]
+    if (value !== undefined) query[field] = String(value)
+  })
+  DATE_FIELDS.forEach(field => {
+    if (criteria[field]) query[field] = criteria[field]
+  })
+  return query
+}
+
+/**
+ * The criteria the server would accept, or null when none are left. A CPF or
+ * card still being typed is left out rather than sent and rejected; so is a
+ * reversed value or date range.
+ */
+export const toSearchRequest = (criteria: TransactionSearchCriteria): TransactionSearchCriteria | null => {
+  const request: TransactionSearchCriteria = {}
+
+  if (criteria.cpf && cpfDigits(criteria.cpf).length === CPF_LENGTH) request.cpf = cpfDigits(criteria.cpf)
+  if (criteria.card && criteria.card.trim().length >= MIN_CARD_FRAGMENT_LENGTH) request.card = criteria.card.trim()
+  if (criteria.owner?.trim()) request.owner = criteria.owner.trim()
+  if (criteria.store?.trim()) request.store = criteria.store.trim()
+
+  const { minValue, maxValue, from, to } = criteria
+  if (minValue === undefined || maxValue === undefined || minValue <= maxValue) {
+    if (minValue !== undefined) request.minValue = minValue
+    if (maxValue !== undefined) request.maxValue = maxValue
+  }
+  if (!from || !to || from <= to) {
+    if (from) request.from = from
+    if (to) request.to = to
+  }
+
+  return Object.keys(request).length > 0 ? request : null
+}
+
+/**
+ * Query parameters understood by the backend's TransactionSearchCriteria
+ */
+export const toSearchParams = (criteria: TransactionSearchCriteria): URLSearchParams => {
+  const params = new URLSearchParams()
+  Object.entries(toSearchQuery(criteria)).forEach(([key, value]) => params.set(key, String(value)))
+  return params
+}
@@ -0,0 +1,52 @@
+import { TRANSACTION_NATURES } from './transaction-filters'
+import type { ApiTransactionType } from '@/api'
+import type { CnabParseResult } from '@/types/cnab'
+import type { TransactionNature, TransactionTypeInfo } from '@/types/transaction'
+
+export const NATURE_COLORS: Record<TransactionNature, string> = {
+  Income: '#28a745',
+  Expense: '#dc3545'
+}
+
+// Types without a catalog entry or nature
+export const UNKNOWN_TYPE_COLOR = '#6c757d'
+
+const isNature = (value: string): value is TransactionNature => {
+  return (TRANSACTION_NATURES as string[]).includes(value)
+}
+
+/**
+ * Catalog entry from the API. The server only stores Income or Expense;
+ * anything else is read as Expense so it never inflates a balance.
+ */
+export const toTransactionTypeInfo = (type: ApiTransactionType): TransactionTypeInfo => ({
+  code: type.code,
+  name: type.name,
+  nature: isNature(type.nature) ? type.nature : 'Expense',
+  description: type.description || undefined,
+  color: type.color || undefined
+})
+
+/**
+ * Badge colour of a type: its own colour, else the colour of its nature
+ */
+export const typeColor = (
+  types: TransactionTypeInfo[],
+  code: number,
+  nature?: string
+): string => {
+  const type = types.find(entry => entry.code === code)
+  if (type?.color) return type.color
+  const resolved = type?.nature ?? nature
+  return resolved && isNature(resolved) ? NATURE_COLORS[resolved] : UNKNOWN_TYPE_COLOR
+}
+
+/**
+ * Type codes of a parsed file that the catalog does not have, in ascending order
+ */
+export const unknownTypeCodes = (result: CnabParseResult | null, types: TransactionTypeInfo[]): number[] => {
+  if (!result) return []
+  const known = new Set(types.map(type => type.code))
+  const codes = new Set(result.lines.flatMap(line => line.record ? [line.record.type] : []))
+  return [...codes].filter(code => !known.has(code)).sort((a, b) => a - b)
+}
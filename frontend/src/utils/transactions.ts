@@ -0,0 +1,45 @@
+import { formatCurrency } from './format'
+import { currentLocale } from '@/i18n'
+import type { ApiTransaction } from '@/api'
+import type { TransactionDetail } from '@/types/transaction'
+
+// Map an API transaction to the shape rendered by the views
+export const toTransactionDetail = (t: ApiTransaction): TransactionDetail => {
+  const datetime = new Date(t.datetime)
+  const nature = t.transactionType?.nature || 'Unknown'
+  const sign = nature === 'Income' ? '+' : nature === 'Expense' ? '-' : ''
+
+  return {
+    id: t.id,
+    transactionType: t.transactionType?.name || t.type || 'Unknown',
+    transactionCode: t.transactionType?.code || 0,
+    nature,
+    sign,
+    datetime: t.datetime,
+    date: datetime.toISOString().split('T')[0],
+    value: Math.abs(t.value || 0),
+    cpf: t.cpf || 'N/A',
+    card: t.card || 'N/A',
+    time: datetime.toTimeString().split(' ')[0],
+    storeName: t.store?.name || '',
+    storeOwner: t.store?.ownerName || '',
+    storeId: t.storeId,
+    fileId: t.fileUploadId,
+    fileName: t.fileUpload?.originalName || ''
+  }
+}
+
+// Formatted when rendered rather than when mapped, so rows already on screen follow a
+// locale change
+export const formatTransactionDate = (transaction: TransactionDetail): string => {
+  return new Date(transaction.datetime).toLocaleDateString(currentLocale())
+}
+
+export const formatTransactionTime = (transaction: TransactionDetail): string => {
+  return new Date(transaction.datetime).toLocaleTimeString(currentLocale(), { hour: '2-digit', minute: '2-digit' })
+}
+
+// Income adds to the store balance, expense subtracts from it
+export const signedAmount = (transaction: TransactionDetail): number => {
+  return transaction.sign === '-' ? -transaction.value : transaction.value
+}
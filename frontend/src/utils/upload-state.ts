@@ -0,0 +1,72 @@
+// State machine of a file in the upload queue: which status may follow which,
+// and the phase and tone each status is shown with
+
+import type { StatusTone, UploadPhase, UploadQueueStatus } from '@/types/upload'
+
+export const UPLOAD_TRANSITIONS: Record<UploadQueueStatus, readonly UploadQueueStatus[]> = {
+  // Offline when started without a connection
+  ready: ['checking', 'queued', 'offline'],
+  checking: ['duplicate', 'queued', 'failed'],
+  duplicate: ['queued', 'cancelled'],
+  queued: ['uploading', 'completing', 'paused', 'cancelled', 'failed', 'offline'],
+  uploading: ['completing', 'paused', 'cancelled', 'failed', 'offline'],
+  paused: ['queued', 'cancelled'],
+  // The server has every chunk; only its answer or a lost connection ends this
+  completing: ['done', 'failed', 'offline'],
+  done: [],
+  failed: ['checking', 'queued', 'offline'],
+  cancelled: ['checking', 'queued', 'offline'],
+  // Files queued before their duplicate check run it once back online
+  offline: ['checking', 'queued', 'cancelled']
+}
+
+export const STATUS_PHASE: Record<UploadQueueStatus, UploadPhase> = {
+  ready: 'selected',
+  checking: 'uploading',
+  // Waiting for the user to decide
+  duplicate: 'selected',
+  queued: 'uploading',
+  uploading: 'uploading',
+  paused: 'selected',
+  completing: 'processing',
+  done: 'success',
+  failed: 'error',
+  cancelled: 'idle',
+  offline: 'uploading'
+}
+
+const PHASE_TONE: Record<UploadPhase, StatusTone> = {
+  idle: 'info',
+  selected: 'info',
+  uploading: 'info',
+  processing: 'info',
+  success: 'success',
+  error: 'error'
+}
+
+export const canTransition = (from: UploadQueueStatus, to: UploadQueueStatus): boolean => {
+  return UPLOAD_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Move an item to a new status. A move the machine does not allow is ignored,
+ * e.g. a late response for a file the user cancelled meanwhile.
+ */
+export const transition = (item: { status: UploadQueueStatus }, to: UploadQueueStatus): boolean => {
+  if (!canTransition(item.status, to)) {
+    console.warn(`Ignoring upload status change from ${item.status} to ${to}`)
+    return false
+  }
+  item.status = to
+  return true
+}
+
+/**
+ * Tone of the status message. Duplicates need a decision, and a ready file
+ * whose preview found invalid lines cannot be started.
+ */
+export const statusTone = (status: UploadQueueStatus, blocked = false): StatusTone => {
+  if (status === 'duplicate') return 'warning'
+  if (status === 'ready' && blocked) return 'error'
+  return PHASE_TONE[STATUS_PHASE[status]]
+}
@@ -0,0 +1,135 @@
+// Line-level validation issues, from the server or from the local preview,
+// as one report that can be sorted, highlighted and downloaded
+
+import { localize, translate } from '@/i18n'
+import type { CnabFieldError, CnabParseResult } from '@/types/cnab'
+import type { ExportSheet } from '@/types/export'
+import type { LocalizedMessage } from '@/types/i18n'
+import type { ReportIssue } from '@/types/upload'
+
+export type IssueSortField = 'line' | 'field' | 'severity'
+
+// Every layout is narrower than this, so line and column sort as one number
+const MAX_COLUMNS = 1000
+
+/**
+ * Issues of the local preview in the shape the server reports them:
+ * 1-based, inclusive columns. CNAB 80 trailers are warnings, as the server skips them,
+ * and so are CPFs with wrong check digits, which it imports.
+ */
+export const issuesFromParseResult = (result: CnabParseResult | null): ReportIssue[] => {
+  if (!result) return []
+
+  return result.lines.flatMap((line): ReportIssue[] => {
+    if (result.format === 'cnab80' && line.isTrailer && line.errors.length === 0) {
+      return [{
+        line: line.lineNumber,
+        columnStart: 1,
+        columnEnd: 1,
+        field: 'type',
+        value: line.fields.type ?? '',
+        expected: { key: 'cnab.expected.transaction' },
+        severity: 'warning',
+        message: { key: 'cnab.messages.trailerSkipped' }
+      }]
+    }
+
+    const toIssue = (error: CnabFieldError, severity: ReportIssue['severity']): ReportIssue => ({
+      line: line.lineNumber,
+      columnStart: error.start + 1,
+      columnEnd: error.end,
+      field: error.field,
+      value: error.value,
+      expected: error.expected,
+      severity,
+      message: error.message
+    })
+
+    return [
+      ...line.errors.map(error => toIssue(error, 'error')),
+      ...line.warnings.map(warning => toIssue(warning, 'warning'))
+    ]
+  })
+}
+
+/**
+ * Text of an issue's expected format or message in the current locale; the
+ * server's come as they are
+ */
+export const issueText = (text: string | LocalizedMessage): string => {
+  return typeof text === 'string' ? text : localize(text)
+}
+
+/**
+ * Raw text of each parsed line by line number, to show an issue in context
+ */
+export const rawLinesByNumber = (result: CnabParseResult | null): Map<number, string> => {
+  return new Map((result?.lines ?? []).map(line => [line.lineNumber, line.raw]))
+}
+
+// Value the report sorts by; line order follows the position in the file
+export const issueSortValue = (issue: ReportIssue, field: IssueSortField): string | number => {
+  switch (field) {
+    case 'line': return issue.line * MAX_COLUMNS + issue.columnStart
+    case 'field': return issue.field
+    case 'severity': return issue.severity === 'error' ? 0 : 1
+  }
+}
+
+/**
+ * Split a line around the issue's columns. A line that is too short has
+ * nothing to highlight, so the missing columns are left out.
+ */
+export const highlightIssue = (
+  raw: string,
+  issue: ReportIssue
+): { before: string; match: string; after: string } => {
+  const start = Math.min(raw.length, issue.columnStart - 1)
+  const end = Math.min(raw.length, Math.max(start, issue.columnEnd))
+  return { before: raw.slice(0, start), match: raw.slice(start, end), after: raw.slice(end) }
+}
+
+export const buildIssueSheet = (issues: ReportIssue[]): ExportSheet => ({
+  name: 'Validation Issues',
+  columns: [
+    { header: 'Line', type: 'number' },
+    { header: 'Columns', type: 'text' },
+    { header: 'Field', type: 'text' },
+    { header: 'Value', type: 'text' },
+    { header: 'Expected', type: 'text' },
+    { header: 'Severity', type: 'text' },
+    { header: 'Message', type: 'text' }
+  ],
+  rows: issues.map(issue => [
+    issue.line,
+    `${issue.columnStart}-${issue.columnEnd}`,
+    issue.field,
+    issue.value,
+    issueText(issue.expected),
+    issue.severity,
+    issueText(issue.message)
+  ])
+})
+
+// Both catalogs only need a singular and a plural form
+const counted = (key: string, count: number) => {
+  return translate(`validationReport.summary.${key}.${count === 1 ? 'one' : 'other'}`, { count })
+}
+
+/**
+ * e.g. "3 errors on 2 lines, 1 warning", in the current locale
+ */
+export const describeIssues = (issues: ReportIssue[]): string => {
+  const errors = issues.filter(issue => issue.severity === 'error')
+  const warnings = issues.length - errors.length
+  const lines = new Set(errors.map(issue => issue.line)).size
+  const parts: string[] = []
+  if (errors.length > 0) {
+    parts.push(translate('validationReport.summary.errorsOnLines', {
+      errors: counted('errors', errors.length),
+      lines: counted('lines', lines)
+    }))
+  }
+  if (warnings > 0) parts.push(counted('warnings', warnings))
+  return parts.join(', ')
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import AlertRulesView from '../AlertRulesView.vue'
+import {
+  ApiError,
+  createAlertRule,
+  deleteAlertRule,
+  fetchAlertRules,
+  fetchStoreSummaries,
+  updateAlertRule,
+  type AlertRule,
+  type StoreSummary
+} from '@/api'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchAlertRules: vi.fn(),
+  fetchStoreSummaries: vi.fn(),
+  createAlertRule: vi.fn(),
+  updateAlertRule: vi.fn(),
+  deleteAlertRule: vi.fn(),
+}))
+
+describe('AlertRulesView', () => {
+  const mockFetchRules = vi.mocked(fetchAlertRules)
+  const mockFetchStores = vi.mocked(fetchStoreSummaries)
+  const mockCreate = vi.mocked(createAlertRule)
+  const mockUpdate = vi.mocked(updateAlertRule)
+  const mockDelete = vi.mocked(deleteAlertRule)
+
+  const store: StoreSummary = {
+    storeId: 'bar',
+    ownerName: 'JOÃO MACEDO',
+    storeName: 'BAR DO JOÃO',
+    transactionCount: 3,
+    totalIncome: 100,
+    totalExpense: 250,
+    balance: -150
+  }
+
+  const lowBalance: AlertRule = {
+    id: 'rule-1',
+    name: 'Low balance',
+    kind: 'balance-below',
+    threshold: -100,
+    storeId: 'bar',
+    storeName: 'BAR DO JOÃO',
+    enabled: true,
+    createdAt: '2024-04-01T12:00:00Z'
+  }
+
+  const catalogGaps: AlertRule = {
+    id: 'rule-2',
+    name: 'Catalog gaps',
+    kind: 'unknown-type',
+    enabled: false,
+    createdAt: '2024-04-01T12:00:00Z'
+  }
+
+  const openRules = async () => {
+    const wrapper = mount(AlertRulesView)
+    await flushPromises()
+    return wrapper
+  }
+
+  beforeEach(() => {
+    mockFetchRules.mockReset().mockResolvedValue([lowBalance, catalogGaps])
+    mockFetchStores.mockReset().mockResolvedValue([store])
+    mockCreate.mockReset()
+    mockUpdate.mockReset()
+    mockDelete.mockReset()
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('lists the rules with their thresholds and stores', async () => {
+    const wrapper = await openRules()
+
+    const rows = wrapper.findAll('.rule-row')
+    expect(rows).toHaveLength(2)
+    expect(rows[0].find('.rule-threshold').text()).toBe('-R$100.00')
+    expect(rows[0].find('.rule-store').text()).toBe('BAR DO JOÃO')
+    expect(rows[1].find('.rule-threshold').text()).toBe('—')
+    expect(rows[1].find('.rule-store').text()).toBe('All stores')
+    expect(rows[1].classes()).toContain('disabled')
+  })
+
+  it('creates a rule for one store', async () => {
+    mockCreate.mockResolvedValue({ ...lowBalance, id: 'rule-3', name: 'Large payments', kind: 'transaction-above', threshold: 1000 })
+    const wrapper = await openRules()
+
+    await wrapper.find('.name-input').setValue('Large payments')
+    await wrapper.find('.kind-select').setValue('transaction-above')
+    await wrapper.find('.threshold-input').setValue('1000')
+    await wrapper.find('.store-select').setValue('bar')
+    await wrapper.find('.rule-form').trigger('submit')
+    await flushPromises()
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      name: 'Large payments',
+      kind: 'transaction-above',
+      threshold: 1000,
+      storeId: 'bar',
+      enabled: true
+    })
+    expect(wrapper.find('.success-message').text()).toBe("Alert rule 'Large payments' created")
+    expect(mockFetchRules).toHaveBeenCalledTimes(2)
+    expect((wrapper.find('.name-input').element as HTMLInputElement).value).toBe('')
+  })
+
+  it('hides the threshold for unknown type rules and checks it for the others', async () => {
+    const wrapper = await openRules()
+
+    await wrapper.find('.name-input').setValue('Busy day')
+    await wrapper.find('.kind-select').setValue('daily-volume')
+    await wrapper.find('.threshold-input').setValue('0')
+    await wrapper.find('.rule-form').trigger('submit')
+
+    expect(wrapper.find('.error-message').text()).toBe('The threshold must be greater than zero')
+    expect(mockCreate).not.toHaveBeenCalled()
+
+    await wrapper.find('.kind-select').setValue('unknown-type')
+    expect(wrapper.find('.threshold-input').exists()).toBe(false)
+    expect(wrapper.find('.store-select').exists()).toBe(false)
+  })
+
+  it('edits a rule and switches one on', async () => {
+    mockUpdate.mockImplementation(async (id, request) => ({ ...lowBalance, ...request, id }))
+    const wrapper = await openRules()
+
+    await wrapper.findAll('.rule-row')[0].find('.edit-btn').trigger('click')
+    expect((wrapper.find('.threshold-input').element as HTMLInputElement).value).toBe('-100')
+    await wrapper.find('.threshold-input').setValue('-250')
+    await wrapper.find('.rule-form').trigger('submit')
+    await flushPromises()
+
+    expect(mockUpdate).toHaveBeenCalledWith('rule-1', expect.objectContaining({ threshold: -250, storeId: 'bar' }))
+
+    await wrapper.findAll('.rule-row')[1].find('.toggle-enabled').trigger('change')
+    await flushPromises()
+
+    expect(mockUpdate).toHaveBeenLastCalledWith('rule-2', {
+      name: 'Catalog gaps',
+      kind: 'unknown-type',
+      threshold: undefined,
+      storeId: undefined,
+      enabled: true
+    })
+    expect(wrapper.find('.success-message').text()).toBe("Alert rule 'Catalog gaps' enabled")
+  })
+
+  it('deletes a rule after confirming and shows failures', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    mockDelete.mockRejectedValueOnce(new ApiError('Alert rule not found', 'http', 404))
+    const wrapper = await openRules()
+
+    await wrapper.findAll('.rule-row')[0].find('.delete-btn').trigger('click')
+    await flushPromises()
+
+    expect(mockDelete).toHaveBeenCalledWith('rule-1')
+    expect(wrapper.find('.error-message').text()).toContain('Alert rule not found')
+  })
+})
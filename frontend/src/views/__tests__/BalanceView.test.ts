@@ -1,97 +1,112 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
 import BalanceView from '../BalanceView.vue'
+import {
+  ApiError,
+  fetchStoreSummaries,
+  fetchTransactionTypes,
+  saveTransactionType,
+  subscribeToImportCompletions,
+} from '@/api'
+import { setLocale } from '@/i18n'
+import { useTransactionTypes } from '@/composables/useTransactionTypes'
+import { TRANSACTION_TYPES } from '@/utils/transaction-filters'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchStoreSummaries: vi.fn(),
+  subscribeToImportCompletions: vi.fn(),
+  fetchTransactionTypes: vi.fn(),
+  saveTransactionType: vi.fn(),
+}))
 
 describe('BalanceView', () => {
-  let mockFetch: any
+  const mockFetchStores = vi.mocked(fetchStoreSummaries)
+  const mockSubscribeToImports = vi.mocked(subscribeToImportCompletions)
+  const mockFetchTransactionTypes = vi.mocked(fetchTransactionTypes)
+  const mockSaveTransactionType = vi.mocked(saveTransactionType)
+
+  const catalog = TRANSACTION_TYPES.map(type => ({ id: `type-${type.code}`, ...type }))
 
   const mockStores = [
     {
-      id: '1',
+      storeId: '1',
       ownerName: 'João Silva',
-      name: 'Loja do João',
+      storeName: 'Loja do João',
       transactionCount: 5,
-      totalValue: 150.50
+      totalIncome: 200.50,
+      totalExpense: 50.00,
+      balance: 150.50
     },
     {
-      id: '2',
+      storeId: '2',
       ownerName: 'Maria Santos',
-      name: 'Mercado da Maria',
+      storeName: 'Mercado da Maria',
       transactionCount: 3,
-      totalValue: -75.25
+      totalIncome: 0,
+      totalExpense: 75.25,
+      balance: -75.25
     }
   ]
 
-  const mockTransactions = [
-    {
-      id: '1',
-      transactionType: 'Débito',
-      transactionCode: 1,
-      nature: 'Income',
-      sign: '+',
-      date: '2023-01-01',
-      formattedDate: '01/01/2023',
-      value: 100.00,
-      formattedValue: 'R$ 100,00',
-      cpf: '12345678901',
-      card: '1234567890123456',
-      time: '08:30:00',
-      formattedTime: '08:30',
-      storeName: 'Loja do João',
-      storeOwner: 'João Silva',
-      storeId: '1',
-      fileId: 'file1'
-    },
-    {
-      id: '2',
-      transactionType: 'Boleto',
-      transactionCode: 2,
-      nature: 'Expense',
-      sign: '-',
-      date: '2023-01-02',
-      formattedDate: '02/01/2023',
-      value: 50.50,
-      formattedValue: 'R$ 50,50',
-      cpf: '12345678901',
-      card: '1234567890123456',
-      time: '14:20:00',
-      formattedTime: '14:20',
-      storeName: 'Loja do João',
-      storeOwner: 'João Silva',
-      storeId: '1',
-      fileId: 'file1'
-    }
-  ]
+  let router: Router
+
+  const mountView = () => mount(BalanceView, { global: { plugins: [router] } })
 
   beforeEach(() => {
-    mockFetch = vi.fn()
-    global.fetch = mockFetch
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/balance', name: 'balance', component: BalanceView },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+      ],
+    })
+    mockFetchStores.mockReset().mockResolvedValue([])
+    mockSubscribeToImports.mockReset().mockReturnValue(vi.fn())
+    mockFetchTransactionTypes.mockReset().mockResolvedValue(catalog)
+    mockSaveTransactionType.mockReset()
   })
 
   afterEach(() => {
     vi.clearAllMocks()
+    setLocale('en-US')
   })
 
+  // Unmount so catalog watchers from earlier tests don't refetch in later ones
+  enableAutoUnmount(afterEach)
+
   it('renders balance section correctly', () => {
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     expect(wrapper.text()).toContain('Store Balances')
     expect(wrapper.find('.refresh-btn').exists()).toBe(true)
   })
 
+  it('follows the chosen locale', async () => {
+    setLocale('pt-BR')
+    const wrapper = mountView()
+    await flushPromises()
+
+    expect(wrapper.find('h2').text()).toBe('Saldos das Lojas')
+    expect(wrapper.text()).toContain('Nenhuma loja encontrada.')
+
+    setLocale('en-US')
+    await flushPromises()
+
+    expect(wrapper.find('h2').text()).toBe('Store Balances')
+  })
+
   it('fetches store balances on mount', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ stores: mockStores }),
-    })
+    mockFetchStores.mockResolvedValueOnce(mockStores)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     // Wait for the fetch to complete and component to update
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
 
-    expect(mockFetch).toHaveBeenCalledWith('/api/stores/summary')
+    expect(mockFetchStores).toHaveBeenCalledTimes(1)
     expect(wrapper.vm.stores).toEqual(mockStores)
   })
 
@@ -101,19 +116,16 @@ describe('BalanceView', () => {
       resolvePromise = resolve
     })
 
-    mockFetch.mockReturnValueOnce(promise)
+    mockFetchStores.mockReturnValueOnce(promise as any)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     // Component starts with loading = true, but fetch is called immediately on mount
     // So we need to check that loading becomes true after mount
     expect(wrapper.vm.isLoading).toBe(true)
 
     // Resolve the promise
-    resolvePromise({
-      ok: true,
-      json: async () => ({ stores: [] }),
-    })
+    resolvePromise([])
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -121,12 +133,9 @@ describe('BalanceView', () => {
   })
 
   it('displays stores in table format', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ stores: mockStores }),
-    })
+    mockFetchStores.mockResolvedValueOnce(mockStores)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -138,12 +147,11 @@ describe('BalanceView', () => {
   })
 
   it('formats currency correctly', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ stores: mockStores }),
-    })
+    // Amounts in the Brazilian format
+    setLocale('pt-BR')
+    mockFetchStores.mockResolvedValueOnce(mockStores)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -154,12 +162,9 @@ describe('BalanceView', () => {
   })
 
   it('applies correct colors for positive and negative balances', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ stores: mockStores }),
-    })
+    mockFetchStores.mockResolvedValueOnce(mockStores)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -172,12 +177,9 @@ describe('BalanceView', () => {
   })
 
   it('shows error message when API fails', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      statusText: 'Internal Server Error',
-    })
+    mockFetchStores.mockRejectedValueOnce(new ApiError('Internal Server Error', 'http', 500))
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -186,12 +188,9 @@ describe('BalanceView', () => {
   })
 
   it('shows empty state when no stores', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ stores: [] }),
-    })
+    mockFetchStores.mockResolvedValueOnce([])
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
@@ -199,250 +198,346 @@ describe('BalanceView', () => {
     expect(wrapper.text()).toContain('No stores found. Upload some CNAB files to see balances.')
   })
 
-  it('toggles transaction details when clicking show details', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: mockTransactions }),
-      })
+  it('refreshes data when refresh button is clicked', async () => {
+    mockFetchStores.mockResolvedValue(mockStores)
 
-    const wrapper = mount(BalanceView)
+    const wrapper = mountView()
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    // Click refresh button
+    const refreshBtn = wrapper.find('.refresh-btn')
+    await refreshBtn.trigger('click')
 
-    expect(mockFetch).toHaveBeenCalledWith('/api/transactions/store/1')
-    expect(wrapper.vm.selectedStoreId).toBe('1')
+    // Should load twice (once on mount, once on click)
+    expect(mockFetchStores).toHaveBeenCalledTimes(2)
   })
 
-  it('displays transaction details when expanded', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: mockTransactions }),
-      })
+  it('disables refresh button during loading', async () => {
+    // Start with a pending promise to simulate loading state
+    let resolvePromise: (value: any) => void
+    const promise = new Promise((resolve) => {
+      resolvePromise = resolve
+    })
 
-    const wrapper = mount(BalanceView)
+    mockFetchStores.mockReturnValueOnce(promise as any)
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
+    const wrapper = mountView()
+
+    // Wait for DOM to update after mount
     await wrapper.vm.$nextTick()
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    // Button should be disabled while loading
+    const refreshBtn = wrapper.find('.refresh-btn')
+    expect(wrapper.vm.isLoading).toBe(true)
+    expect(refreshBtn.attributes('disabled')).toBeDefined()
+
+    resolvePromise([])
 
     await new Promise((resolve) => setTimeout(resolve, 100))
     await wrapper.vm.$nextTick()
-
-    expect(wrapper.text()).toContain('Transaction Details')
-    expect(wrapper.text()).toContain('Débito')
-    expect(wrapper.text()).toContain('Boleto')
-    expect(wrapper.text()).toContain('12345678901')
+    expect(wrapper.vm.isLoading).toBe(false)
+    expect(refreshBtn.attributes('disabled')).toBeUndefined()
   })
 
-  it('shows loading state for transaction details', async () => {
-    let resolvePromise: (value: any) => void
-    const promise = new Promise((resolve) => {
-      resolvePromise = resolve
+  describe('filters', () => {
+    it('loads filters from the route query', async () => {
+      router.push('/balance?from=2023-01-01&to=2023-01-31&types=2,1&nature=Income&search=loja')
+      await router.isReady()
+
+      const wrapper = mountView()
+      await flushPromises()
+
+      expect(mockFetchStores).toHaveBeenCalledTimes(1)
+      expect(mockFetchStores).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { from: '2023-01-01', to: '2023-01-31', types: [1, 2], nature: 'Income', search: 'loja' },
+      }))
+      expect((wrapper.find('.filter-from').element as HTMLInputElement).value).toBe('2023-01-01')
+      expect((wrapper.find('.filter-nature').element as HTMLSelectElement).value).toBe('Income')
+      expect((wrapper.find('.filter-search').element as HTMLInputElement).value).toBe('loja')
     })
 
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockReturnValueOnce(promise)
+    it('writes filter changes to the query string and refetches', async () => {
+      router.push('/balance')
+      await router.isReady()
 
-    const wrapper = mount(BalanceView)
+      const wrapper = mountView()
+      await flushPromises()
+      mockFetchStores.mockResolvedValueOnce([mockStores[1]])
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      await wrapper.find('.filter-nature').setValue('Expense')
+      await flushPromises()
+
+      expect(router.currentRoute.value.query).toEqual({ nature: 'Expense' })
+      expect(mockFetchStores).toHaveBeenCalledTimes(2)
+      expect(mockFetchStores).toHaveBeenLastCalledWith(expect.objectContaining({
+        filters: { types: [], nature: 'Expense' },
+      }))
+      expect(wrapper.text()).toContain('Mercado da Maria')
+      expect(wrapper.text()).not.toContain('Loja do João')
+    })
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    it('toggles transaction types in the query string', async () => {
+      router.push('/balance?types=2')
+      await router.isReady()
 
-    // Check that loading state is set
-    expect(wrapper.vm.isLoadingDetails).toBe(true)
+      const wrapper = mountView()
+      await flushPromises()
 
-    resolvePromise({
-      ok: true,
-      json: async () => ({ transactions: [] }),
+      const typeInputs = wrapper.findAll('.type-chip input')
+      await typeInputs[0].setValue(true)
+      await flushPromises()
+      expect(router.currentRoute.value.query).toEqual({ types: '1,2' })
+
+      await typeInputs[1].setValue(false)
+      await flushPromises()
+      expect(router.currentRoute.value.query).toEqual({ types: '1' })
     })
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
-    expect(wrapper.vm.isLoadingDetails).toBe(false)
-  })
+    it('debounces the store search', async () => {
+      vi.useFakeTimers()
+      try {
+        router.push('/balance')
+        await router.isReady()
 
-  it('collapses details when clicking hide details', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: mockTransactions }),
-      })
+        const wrapper = mountView()
+        await flushPromises()
 
-    const wrapper = mount(BalanceView)
+        await wrapper.find('.filter-search').setValue('mer')
+        expect(router.currentRoute.value.query).toEqual({})
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+        await vi.advanceTimersByTimeAsync(300)
+        await flushPromises()
+        expect(router.currentRoute.value.query).toEqual({ search: 'mer' })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    it('links each store to its page, carrying the filters along', async () => {
+      mockFetchStores.mockResolvedValue(mockStores)
+      router.push('/balance?nature=Income&search=loja')
+      await router.isReady()
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      const wrapper = mountView()
+      await flushPromises()
 
-    expect(wrapper.vm.selectedStoreId).toBe('1')
-    expect(wrapper.text()).toContain('Transaction Details')
+      const links = wrapper.findAll('.details-link')
+      expect(links).toHaveLength(2)
+      expect(links[0].attributes('href')).toBe('/stores/1?nature=Income&search=loja')
+    })
 
-    // Click again to collapse
-    await detailsBtn.trigger('click')
+    it('shows a filter-specific empty state and clears filters', async () => {
+      router.push('/balance?nature=Income')
+      await router.isReady()
 
-    expect(wrapper.vm.selectedStoreId).toBe(null)
-    expect(wrapper.text()).not.toContain('Transaction Details')
-  })
+      const wrapper = mountView()
+      await flushPromises()
 
-  it('shows no transactions message when store has no transactions', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: [] }),
-      })
+      expect(wrapper.text()).toContain('No stores match the current filters.')
 
-    const wrapper = mount(BalanceView)
+      await wrapper.find('.clear-filters-btn').trigger('click')
+      await flushPromises()
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      expect(router.currentRoute.value.query).toEqual({})
+      expect(wrapper.text()).toContain('No stores found.')
+    })
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    it('shows income, expense and totals of the listed stores', async () => {
+      // Amounts in the Brazilian format
+      setLocale('pt-BR')
+      mockFetchStores.mockResolvedValueOnce(mockStores)
+      router.push('/balance')
+      await router.isReady()
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      const wrapper = mountView()
+      await flushPromises()
+
+      const firstRow = wrapper.find('.balance-table tbody tr')
+      expect(firstRow.find('.income-amount').text()).toMatch(/R\$\s*200,50/)
+      expect(firstRow.find('.expense-amount').text()).toMatch(/R\$\s*50,00/)
 
-    expect(wrapper.text()).toContain('No transactions found for this store.')
+      const totalsRow = wrapper.find('.totals-row')
+      expect(totalsRow.text()).toContain('8')
+      expect(totalsRow.find('.balance-amount').text()).toMatch(/R\$\s*75,25/)
+    })
   })
 
-  it('applies correct styling to transaction rows based on nature', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: mockTransactions }),
+  describe('export', () => {
+    const createObjectURL = vi.fn(() => 'blob:export')
+    const revokeObjectURL = vi.fn()
+    let downloads: string[]
+
+    beforeEach(() => {
+      downloads = []
+      createObjectURL.mockClear()
+      // jsdom implements neither
+      URL.createObjectURL = createObjectURL
+      URL.revokeObjectURL = revokeObjectURL
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push(this.download)
       })
+    })
 
-    const wrapper = mount(BalanceView)
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+    it('exports the displayed store balances with the filtered period in the file name', async () => {
+      mockFetchStores.mockResolvedValueOnce(mockStores)
+      router.push('/balance?from=2023-01-01&to=2023-01-31')
+      await router.isReady()
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+      const wrapper = mountView()
+      await flushPromises()
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      await wrapper.find('.actions .export-csv').trigger('click')
 
-    const incomeRow = wrapper.find('.transaction-row.income')
-    const expenseRow = wrapper.find('.transaction-row.expense')
+      expect(downloads).toEqual(['store-balances_2023-01-01_2023-01-31.csv'])
+      const blob = createObjectURL.mock.calls[0][0] as unknown as Blob
+      expect(blob.type).toBe('text/csv;charset=utf-8')
+    })
 
-    expect(incomeRow.exists()).toBe(true)
-    expect(expenseRow.exists()).toBe(true)
-  })
+    it('disables store export when there is nothing to export', async () => {
+      router.push('/balance')
+      await router.isReady()
 
-  it('formats transaction values with correct signs and colors', async () => {
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ stores: mockStores }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ transactions: mockTransactions }),
-      })
+      const wrapper = mountView()
+      await flushPromises()
 
-    const wrapper = mount(BalanceView)
+      expect(wrapper.find('.actions .export-csv').attributes('disabled')).toBeDefined()
+    })
+  })
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+  describe('sorting and paging', () => {
+    const manyStores = Array.from({ length: 30 }, (_, index) => ({
+      storeId: `store-${index + 1}`,
+      ownerName: `Owner ${index + 1}`,
+      storeName: `Store ${String(index + 1).padStart(2, '0')}`,
+      transactionCount: 1,
+      totalIncome: index + 1,
+      totalExpense: 0,
+      balance: index + 1,
+    }))
+
+    const mountWithStores = async (storeList = mockStores) => {
+      mockFetchStores.mockResolvedValueOnce(storeList)
+      router.push('/balance')
+      await router.isReady()
+
+      const wrapper = mountView()
+      await flushPromises()
+      return wrapper
+    }
 
-    const detailsBtn = wrapper.find('.details-btn')
-    await detailsBtn.trigger('click')
+    const storeNames = (wrapper: ReturnType<typeof mountView>) =>
+      wrapper.findAll('.balance-table tbody tr').map(row => row.findAll('td')[1].text())
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+    it('sorts stores by a column and flips the direction on a second click', async () => {
+      const wrapper = await mountWithStores()
+      const balanceHeader = wrapper.findAll('.balance-table th')[5]
 
-    // Check for transaction values with signs (sign comes before currency)
-    expect(wrapper.text()).toMatch(/\+R\$\s*100,00/)
-    expect(wrapper.text()).toMatch(/-R\$\s*50,50/)
-  })
+      await balanceHeader.find('.sort-btn').trigger('click')
+      expect(balanceHeader.attributes('aria-sort')).toBe('descending')
+      expect(storeNames(wrapper)).toEqual(['Loja do João', 'Mercado da Maria'])
 
-  it('refreshes data when refresh button is clicked', async () => {
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: async () => ({ stores: mockStores }),
+      await balanceHeader.find('.sort-btn').trigger('click')
+      expect(balanceHeader.attributes('aria-sort')).toBe('ascending')
+      expect(storeNames(wrapper)).toEqual(['Mercado da Maria', 'Loja do João'])
     })
 
-    const wrapper = mount(BalanceView)
+    it('pages the store table in the browser while totals cover every store', async () => {
+      const wrapper = await mountWithStores(manyStores)
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
+      expect(wrapper.findAll('.balance-table tbody tr')).toHaveLength(25)
+      expect(wrapper.find('.stores-pagination').text()).toContain('1–25 of 30')
 
-    // Click refresh button
-    const refreshBtn = wrapper.find('.refresh-btn')
-    await refreshBtn.trigger('click')
+      await wrapper.find('.stores-pagination .page-next').trigger('click')
 
-    // Should call fetch twice (once on mount, once on click)
-    expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(storeNames(wrapper)).toEqual(['Store 26', 'Store 27', 'Store 28', 'Store 29', 'Store 30'])
+      expect(wrapper.find('.totals-row .transaction-count').text()).toBe('30')
+      expect(mockFetchStores).toHaveBeenCalledTimes(1)
+    })
   })
 
-  it('disables refresh button during loading', async () => {
-    // Start with a pending promise to simulate loading state
-    let resolvePromise: (value: any) => void
-    const promise = new Promise((resolve) => {
-      resolvePromise = resolve
+  describe('auto-refresh', () => {
+    it('reloads the balances when an import finishes', async () => {
+      mockFetchStores.mockResolvedValue(mockStores)
+      const wrapper = mountView()
+      await flushPromises()
+
+      const [onImportCompleted] = mockSubscribeToImports.mock.calls[0]
+      onImportCompleted({
+        uploadId: 'upload-1',
+        kind: 'completed',
+        current: 0,
+        total: 0,
+        fileUploadId: 'file-9',
+        originalName: 'april.cnab',
+        transactionsCount: 12,
+        timestamp: '2024-04-01T12:00:00Z',
+      })
+      await flushPromises()
+
+      expect(mockFetchStores).toHaveBeenCalledTimes(2)
+      expect(wrapper.find('.import-refresh-notice').text()).toContain('"april.cnab" was imported (12 transaction(s))')
     })
 
-    mockFetch.mockReturnValueOnce(promise)
+    it('flags balances served from the offline cache and refetches once back online', async () => {
+      mockFetchStores.mockImplementationOnce(async (options) => {
+        options?.onStale?.('2024-04-01T12:00:00Z')
+        return mockStores
+      })
+      const wrapper = mountView()
+      await flushPromises()
 
-    const wrapper = mount(BalanceView)
+      expect(wrapper.find('.stale-banner').text()).toContain('Offline: showing data as of')
+      expect(wrapper.findAll('.details-link')).toHaveLength(2)
 
-    // Wait for DOM to update after mount
-    await wrapper.vm.$nextTick()
+      mockFetchStores.mockResolvedValueOnce(mockStores)
+      window.dispatchEvent(new Event('online'))
+      await flushPromises()
 
-    // Button should be disabled while loading
-    const refreshBtn = wrapper.find('.refresh-btn')
-    expect(wrapper.vm.isLoading).toBe(true)
-    expect(refreshBtn.attributes('disabled')).toBeDefined()
+      expect(mockFetchStores).toHaveBeenCalledTimes(2)
+      expect(wrapper.find('.stale-banner').exists()).toBe(false)
+    })
 
-    resolvePromise({
-      ok: true,
-      json: async () => ({ stores: [] }),
+    it('stops listening when the page is left', async () => {
+      const stop = vi.fn()
+      mockSubscribeToImports.mockReturnValueOnce(stop)
+
+      const wrapper = mountView()
+      wrapper.unmount()
+
+      expect(stop).toHaveBeenCalledTimes(1)
     })
+  })
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
-    await wrapper.vm.$nextTick()
-    expect(wrapper.vm.isLoading).toBe(false)
-    expect(refreshBtn.attributes('disabled')).toBeUndefined()
+  describe('transaction type catalog', () => {
+    it('names the filter chips from the catalog', async () => {
+      mockFetchTransactionTypes.mockResolvedValue([
+        { ...catalog[0], name: 'Cartão débito', color: '#123456' },
+        ...catalog.slice(1),
+      ])
+      mockFetchStores.mockResolvedValue(mockStores)
+      const wrapper = mountView()
+      await flushPromises()
+
+      expect(wrapper.find('.type-chip').text()).toBe('1 · Cartão débito')
+    })
+
+    it('reloads the balances when the catalog changes', async () => {
+      mockFetchStores.mockResolvedValue(mockStores)
+      mountView()
+      await flushPromises()
+
+      mockSaveTransactionType.mockResolvedValue({ ...catalog[1], nature: 'Income' })
+      await useTransactionTypes().save(2, { name: 'Boleto', nature: 'Income' })
+      await flushPromises()
+
+      expect(mockSaveTransactionType).toHaveBeenCalledWith(2, { name: 'Boleto', nature: 'Income' })
+      expect(mockFetchStores).toHaveBeenCalledTimes(2)
+    })
   })
-})
\ No newline at end of file
+})
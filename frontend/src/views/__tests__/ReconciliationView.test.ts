@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
+import ReconciliationView from '../ReconciliationView.vue'
+import {
+  ApiError,
+  fetchStoreSummary,
+  fetchStoreTransactions,
+  type ApiTransaction,
+} from '@/api'
+import { useAuth } from '@/composables/useAuth'
+import { loadResolutions } from '@/utils/reconciliation'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchStoreSummary: vi.fn(),
+  fetchStoreTransactions: vi.fn(),
+}))
+
+describe('ReconciliationView', () => {
+  const mockFetchStore = vi.mocked(fetchStoreSummary)
+  const mockFetchTransactions = vi.mocked(fetchStoreTransactions)
+
+  const mockStore = {
+    storeId: '1',
+    ownerName: 'JOÃO MACEDO',
+    storeName: 'BAR DO JOÃO',
+    transactionCount: 3,
+    totalIncome: 242.00,
+    totalExpense: 112.00,
+    balance: 130.00
+  }
+
+  const apiTransaction = (id: string, datetime: string, value: number, card = '********3153'): ApiTransaction => ({
+    id,
+    typeId: 'type-1',
+    type: 'Débito',
+    datetime,
+    value,
+    cpf: '***.***.***-17',
+    card,
+    storeId: '1',
+    fileUploadId: 'file1',
+    transactionType: { id: 'type-1', code: 1, name: 'Débito', nature: 'Income' }
+  })
+
+  const mockTransactions = [
+    apiTransaction('exact', '2019-03-01T15:34:53', 142.00),
+    apiTransaction('near', '2019-03-01T17:27:12', 100.00),
+    apiTransaction('unlisted', '2019-03-01T18:00:00', 112.00, '********1234')
+  ]
+
+  const ledgerCsv = [
+    'date,value,cpf,card,store',
+    '2019-03-01 15:34:53,142.00,096.206.760-17,4753****3153,BAR DO JOÃO',
+    '2019-03-01 17:40:00,100.00,096.206.760-17,4753****3153,BAR DO JOÃO',
+    '2019-03-01 19:00:00,55.00,096.206.760-17,4753****3153,BAR DO JOÃO',
+    '2019-03-02 10:00:00,10.00,556.418.150-63,6777****1313,MERCADO DA AVENIDA',
+    'someday,1.00,096.206.760-17,4753****3153,BAR DO JOÃO'
+  ].join('\n')
+
+  let router: Router
+
+  const openReconciliation = async () => {
+    router.push('/stores/1/reconciliation')
+    await router.isReady()
+
+    const wrapper = mount(ReconciliationView, {
+      props: { storeId: '1' },
+      global: { plugins: [router] }
+    })
+    await flushPromises()
+    return wrapper
+  }
+
+  const selectLedger = async (wrapper: Awaited<ReturnType<typeof openReconciliation>>, content = ledgerCsv) => {
+    const event = new Event('change', { bubbles: true })
+    Object.defineProperty(event, 'target', {
+      writable: false,
+      value: { files: [new File([content], 'settlement.csv', { type: 'text/csv' })] },
+    })
+
+    wrapper.find('.ledger-input').element.dispatchEvent(event)
+    // Let the FileReader finish
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await flushPromises()
+  }
+
+  const bucketCount = (wrapper: Awaited<ReturnType<typeof openReconciliation>>, bucket: string) => {
+    return wrapper.find(`.bucket-${bucket} .bucket-count`).text()
+  }
+
+  beforeEach(() => {
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/balance', name: 'balance', component: { template: '<div />' } },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+        { path: '/stores/:storeId/reconciliation', name: 'reconciliation', component: ReconciliationView, props: true },
+      ],
+    })
+    mockFetchStore.mockReset().mockResolvedValue(mockStore)
+    mockFetchTransactions.mockReset().mockResolvedValue(mockTransactions)
+    localStorage.clear()
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('links back to the store and the balances', async () => {
+    const wrapper = await openReconciliation()
+
+    const crumbs = wrapper.findAll('.breadcrumb')
+    expect(crumbs.map(crumb => crumb.text())).toEqual(['Balances', 'BAR DO JOÃO', 'Reconciliation'])
+    expect(crumbs[1].find('a').attributes('href')).toBe('/stores/1')
+    expect(mockFetchTransactions).not.toHaveBeenCalled()
+  })
+
+  it('shows a not found message for an unknown store', async () => {
+    mockFetchStore.mockRejectedValue(new ApiError('Store not found', 'http', 404))
+
+    const wrapper = await openReconciliation()
+
+    expect(wrapper.find('.error-message').text()).toBe('Store not found.')
+    expect(wrapper.find('.ledger-input').exists()).toBe(false)
+  })
+
+  it('loads the transactions of the days in the report and sorts them into buckets', async () => {
+    const wrapper = await openReconciliation()
+    await selectLedger(wrapper)
+
+    expect(mockFetchTransactions).toHaveBeenCalledWith('1', expect.objectContaining({
+      filters: { from: '2019-03-01', to: '2019-03-01', types: [] }
+    }))
+    expect(bucketCount(wrapper, 'matched')).toBe('2')
+    expect(bucketCount(wrapper, 'missing-in-cnab')).toBe('1')
+    expect(bucketCount(wrapper, 'missing-in-ledger')).toBe('1')
+    expect(bucketCount(wrapper, 'open')).toBe('2')
+
+    const matches = wrapper.findAll('.match-row')
+    expect(matches.map(row => row.classes().includes('exact'))).toEqual([true, false])
+    expect(matches[1].find('.rule-badge').text()).toBe('Fuzzy')
+    expect(matches[1].find('.minutes-apart').text()).toBe('13 min apart')
+
+    expect(wrapper.find('.missing-in-cnab .exception-row').text()).toContain('55.00')
+    expect(wrapper.find('.missing-in-ledger .exception-row').text()).toContain('********1234')
+  })
+
+  it('reports unreadable rows and entries of other stores', async () => {
+    const wrapper = await openReconciliation()
+    await selectLedger(wrapper)
+
+    expect(wrapper.find('.ledger-errors').text()).toBe('Line 6: invalid date "someday"')
+    expect(wrapper.find('.other-stores').text()).toContain('1 entry(ies) for other stores')
+    expect(wrapper.find('.ledger-summary').text()).toContain('settlement.csv: 3 entry(ies)')
+  })
+
+  it('re-matches when the tolerances change', async () => {
+    const wrapper = await openReconciliation()
+    await selectLedger(wrapper)
+
+    await wrapper.find('.time-window').setValue('5')
+
+    expect(bucketCount(wrapper, 'matched')).toBe('1')
+    expect(bucketCount(wrapper, 'missing-in-cnab')).toBe('2')
+    expect(bucketCount(wrapper, 'missing-in-ledger')).toBe('2')
+  })
+
+  it('marks exceptions as resolved, remembers them and reopens them', async () => {
+    const { setSession } = useAuth()
+    setSession({ accessToken: 'token', expiresAt: Date.now() + 3600_000, user: { name: 'Ana', roles: ['viewer'] } })
+
+    try {
+      const wrapper = await openReconciliation()
+      await selectLedger(wrapper)
+
+      await wrapper.find('.missing-in-cnab .resolve-btn').trigger('click')
+      await wrapper.find('.missing-in-cnab .resolution-input').setValue('Paid by bank slip')
+      await wrapper.find('.missing-in-cnab .resolution-form').trigger('submit')
+
+      const row = wrapper.find('.missing-in-cnab .exception-row')
+      expect(row.classes()).toContain('resolved')
+      expect(row.find('.resolution').text()).toContain('Resolved by Ana')
+      expect(row.find('.resolution-note').text()).toBe('Paid by bank slip')
+      expect(bucketCount(wrapper, 'open')).toBe('1')
+      expect(Object.values(loadResolutions('1'))).toEqual([
+        expect.objectContaining({ note: 'Paid by bank slip', resolvedBy: 'Ana' })
+      ])
+
+      await wrapper.find('.hide-resolved input').setValue(true)
+      expect(wrapper.find('.missing-in-cnab .exception-row').exists()).toBe(false)
+
+      await wrapper.find('.hide-resolved input').setValue(false)
+      await wrapper.find('.missing-in-cnab .reopen-btn').trigger('click')
+
+      expect(wrapper.find('.missing-in-cnab .exception-row').classes()).not.toContain('resolved')
+      expect(bucketCount(wrapper, 'open')).toBe('2')
+      expect(loadResolutions('1')).toEqual({})
+    } finally {
+      setSession(null)
+    }
+  })
+
+  it('shows resolutions saved earlier when the same report is loaded again', async () => {
+    const first = await openReconciliation()
+    await selectLedger(first)
+    await first.find('.missing-in-ledger .resolve-btn').trigger('click')
+    await first.find('.missing-in-ledger .resolution-form').trigger('submit')
+    first.unmount()
+
+    const wrapper = await openReconciliation()
+    await selectLedger(wrapper)
+
+    expect(wrapper.find('.missing-in-ledger .exception-row').classes()).toContain('resolved')
+    expect(wrapper.find('.missing-in-ledger .resolution').text()).toContain('Resolved by unknown user')
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
+import StatementView from '../StatementView.vue'
+import {
+  ApiError,
+  fetchStoreSummary,
+  fetchStoreTransactions,
+  type ApiTransaction,
+} from '@/api'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchStoreSummary: vi.fn(),
+  fetchStoreTransactions: vi.fn(),
+}))
+
+describe('StatementView', () => {
+  const mockFetchStore = vi.mocked(fetchStoreSummary)
+  const mockFetchTransactions = vi.mocked(fetchStoreTransactions)
+
+  // Balance up to the day before the period
+  const mockStore = {
+    storeId: '1',
+    ownerName: 'JOÃO MACEDO',
+    storeName: 'BAR DO JOÃO',
+    transactionCount: 1,
+    totalIncome: 200.00,
+    totalExpense: 0,
+    balance: 200.00
+  }
+
+  const apiTransaction = (id: string, datetime: string, value: number, code = 1): ApiTransaction => ({
+    id,
+    typeId: `type-${code}`,
+    type: code === 1 ? 'Débito' : 'Boleto',
+    datetime,
+    value,
+    cpf: '***.***.***-17',
+    card: '********3153',
+    storeId: '1',
+    fileUploadId: 'file1',
+    transactionType: code === 1
+      ? { id: 'type-1', code: 1, name: 'Débito', nature: 'Income' }
+      : { id: 'type-2', code: 2, name: 'Boleto', nature: 'Expense' }
+  })
+
+  // Out of order, as the API's default sort is newest first
+  const mockTransactions = [
+    apiTransaction('later', '2019-03-02T10:00:00', 50.00),
+    apiTransaction('bill', '2019-03-01T18:00:00', 112.00, 2),
+    apiTransaction('first', '2019-03-01T15:34:53', 142.00)
+  ]
+
+  let router: Router
+
+  const openStatement = async (query = '?from=2019-03-01&to=2019-03-31') => {
+    router.push(`/stores/1/statement${query}`)
+    await router.isReady()
+
+    const wrapper = mount(StatementView, {
+      props: { storeId: '1' },
+      global: { plugins: [router] }
+    })
+    await flushPromises()
+    return wrapper
+  }
+
+  beforeEach(() => {
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/balance', name: 'balance', component: { template: '<div />' } },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+        { path: '/stores/:storeId/statement', name: 'statement', component: StatementView, props: true },
+      ],
+    })
+    mockFetchStore.mockReset().mockResolvedValue(mockStore)
+    mockFetchTransactions.mockReset().mockResolvedValue(mockTransactions)
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('opens at the balance of the day before the period and lists its movements', async () => {
+    const wrapper = await openStatement()
+
+    expect(mockFetchStore).toHaveBeenCalledWith('1', expect.objectContaining({
+      filters: { to: '2019-02-28', types: [] }
+    }))
+    expect(mockFetchTransactions).toHaveBeenCalledWith('1', expect.objectContaining({
+      filters: { from: '2019-03-01', to: '2019-03-31', types: [] }
+    }))
+
+    expect(wrapper.find('.statement-owner').text()).toBe('JOÃO MACEDO')
+    expect(wrapper.find('.statement-store').text()).toBe('BAR DO JOÃO')
+    expect(wrapper.find('.statement-period').text()).toBe(
+      `${new Date('2019-03-01T00:00:00').toLocaleDateString('en-US')} to ${new Date('2019-03-31T00:00:00').toLocaleDateString('en-US')}`)
+    expect(wrapper.find('.opening-balance .amount').text()).toBe('R$200.00')
+
+    const rows = wrapper.findAll('.movement-row')
+    expect(rows.map(row => row.find('.running-balance').text())).toEqual(['R$342.00', 'R$230.00', 'R$280.00'])
+    expect(rows[1].text()).toContain('-R$112.00')
+    expect(wrapper.find('.closing-balance .amount').text()).toBe('R$280.00')
+  })
+
+  it('totals the movements by type', async () => {
+    const wrapper = await openStatement()
+
+    const totals = wrapper.findAll('.type-total-row').map(row => row.findAll('td').map(cell => cell.text()))
+    expect(totals).toEqual([
+      ['Débito', '2', 'R$192.00'],
+      ['Boleto', '1', 'R$112.00']
+    ])
+    expect(wrapper.find('.income-total .amount').text()).toBe('R$192.00')
+    expect(wrapper.find('.expense-total .amount').text()).toBe('R$112.00')
+  })
+
+  it('starts from zero at the first movement when the period has no start', async () => {
+    const wrapper = await openStatement('')
+
+    expect(mockFetchStore).toHaveBeenCalledWith('1', expect.objectContaining({ filters: undefined }))
+    expect(wrapper.find('.opening-balance .amount').text()).toBe('R$0.00')
+    expect(wrapper.find('.statement-period').text())
+      .toMatch(new RegExp(`^${new Date('2019-03-01T00:00:00').toLocaleDateString('en-US')} to `))
+    expect(wrapper.find('.closing-balance .amount').text()).toBe('R$80.00')
+  })
+
+  it('reloads when the period changes', async () => {
+    const wrapper = await openStatement()
+
+    const to = wrapper.find('.to-input')
+    await to.setValue('2019-03-01')
+    await flushPromises()
+
+    expect(router.currentRoute.value.query).toEqual({ from: '2019-03-01', to: '2019-03-01' })
+    expect(mockFetchTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({
+      filters: { from: '2019-03-01', to: '2019-03-01', types: [] }
+    }))
+  })
+
+  it('prints the statement under a file name for the PDF', async () => {
+    const print = vi.spyOn(window, 'print').mockImplementation(() => {
+      expect(document.title).toBe('statement-bar-do-joao_2019-03-01_2019-03-31')
+    })
+    document.title = 'Literate Sniffle'
+    const wrapper = await openStatement()
+
+    await wrapper.find('.print-btn').trigger('click')
+
+    expect(print).toHaveBeenCalled()
+    expect(document.title).toBe('Literate Sniffle')
+    print.mockRestore()
+  })
+
+  it('shows a not found message for an unknown store', async () => {
+    mockFetchStore.mockRejectedValue(new ApiError('Store not found', 'http', 404))
+
+    const wrapper = await openStatement()
+
+    expect(wrapper.find('.error-message').text()).toBe('Store not found.')
+    expect(wrapper.find('.statement').exists()).toBe(false)
+    expect(wrapper.find('.print-btn').attributes('disabled')).toBeDefined()
+  })
+})
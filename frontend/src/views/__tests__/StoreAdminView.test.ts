@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
+import StoreAdminView from '../StoreAdminView.vue'
+import {
+  ApiError,
+  fetchStoreChanges,
+  fetchStoreSummaries,
+  fetchStoreUploads,
+  mergeStores,
+  renameStore,
+  setStoreParent,
+  splitStore,
+  type StoreChangeRecord,
+  type StoreSummary
+} from '@/api'
+import { useAuth } from '@/composables/useAuth'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchStoreSummaries: vi.fn(),
+  fetchStoreChanges: vi.fn(),
+  fetchStoreUploads: vi.fn(),
+  mergeStores: vi.fn(),
+  renameStore: vi.fn(),
+  splitStore: vi.fn(),
+  setStoreParent: vi.fn(),
+}))
+
+describe('StoreAdminView', () => {
+  const mockFetchStores = vi.mocked(fetchStoreSummaries)
+  const mockFetchChanges = vi.mocked(fetchStoreChanges)
+  const mockFetchUploads = vi.mocked(fetchStoreUploads)
+  const mockMerge = vi.mocked(mergeStores)
+  const mockRename = vi.mocked(renameStore)
+  const mockSplit = vi.mocked(splitStore)
+  const mockSetParent = vi.mocked(setStoreParent)
+
+  const summary = (storeId: string, storeName: string, balance: number, parentStoreId?: string): StoreSummary => ({
+    storeId,
+    ownerName: 'MARIA JOSEFINA',
+    storeName,
+    parentStoreId,
+    transactionCount: 1,
+    totalIncome: Math.max(balance, 0),
+    totalExpense: Math.max(-balance, 0),
+    balance
+  })
+
+  const mockStores = [
+    summary('matriz', 'LOJA DO Ó - MATRIZ', 230),
+    summary('filial', 'LOJA DO Ó - FILIAL', -30, 'matriz'),
+    summary('bar', 'BAR DO JOÃO', 152.32),
+    summary('bar-dup', 'BAR DO JOAO', 10)
+  ]
+
+  const record = (action: StoreChangeRecord['action'], description: string): StoreChangeRecord => ({
+    id: `change-${action}`,
+    action,
+    storeId: 'bar',
+    description,
+    transactionCount: 1,
+    changedBy: 'Ana',
+    changedAt: '2024-04-01T12:00:00Z'
+  })
+
+  let router: Router
+
+  const openAdmin = async () => {
+    router.push('/store-admin')
+    await router.isReady()
+
+    const wrapper = mount(StoreAdminView, {
+      global: { plugins: [router] }
+    })
+    await flushPromises()
+    return wrapper
+  }
+
+  const rowOf = (wrapper: Awaited<ReturnType<typeof openAdmin>>, storeName: string) => {
+    return wrapper.findAll('.store-row').find(row => row.find('.store-name').text() === storeName)!
+  }
+
+  beforeEach(() => {
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/store-admin', name: 'store-admin', component: StoreAdminView },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+      ],
+    })
+    mockFetchStores.mockReset().mockResolvedValue(mockStores)
+    mockFetchChanges.mockReset().mockResolvedValue([])
+    mockFetchUploads.mockReset()
+    mockMerge.mockReset()
+    mockRename.mockReset()
+    mockSplit.mockReset()
+    mockSetParent.mockReset()
+    useAuth().setSession({ accessToken: 'token', expiresAt: Date.now() + 3600_000, user: { name: 'Ana', roles: ['admin'] } })
+  })
+
+  afterEach(() => {
+    useAuth().setSession(null)
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('lists branches under their head store with the group total', async () => {
+    const wrapper = await openAdmin()
+
+    const rows = wrapper.findAll('.store-row')
+    expect(rows.map(row => row.find('.store-name').text())).toEqual([
+      'BAR DO JOAO',
+      'BAR DO JOÃO',
+      'LOJA DO Ó - MATRIZ',
+      'LOJA DO Ó - FILIAL'
+    ])
+    expect(rows[3].classes()).toContain('branch')
+
+    const total = wrapper.find('.group-total')
+    expect(total.text()).toContain('Group total with 1 branch(es)')
+    expect(total.find('.balance').text()).toBe('R$200.00')
+    expect(wrapper.find('.changed-by').exists()).toBe(false)
+  })
+
+  it('merges the selected stores into the one to keep', async () => {
+    mockMerge.mockResolvedValue(record('merge', "Merged 'BAR DO JOAO' into 'BAR DO JOÃO'"))
+    const wrapper = await openAdmin()
+
+    await rowOf(wrapper, 'BAR DO JOÃO').find('.select-store').setValue(true)
+    await rowOf(wrapper, 'BAR DO JOAO').find('.select-store').setValue(true)
+    expect(wrapper.find('.merge-btn').text()).toBe('Merge 1 store(s) into it')
+
+    await wrapper.find('.merge-btn').trigger('click')
+    await flushPromises()
+
+    expect(mockMerge).toHaveBeenCalledWith('bar', { sourceStoreIds: ['bar-dup'], changedBy: 'Ana' })
+    expect(wrapper.find('.success-message').text()).toBe("Merged 'BAR DO JOAO' into 'BAR DO JOÃO'")
+    expect(mockFetchStores).toHaveBeenCalledTimes(2)
+    expect(wrapper.find('.merge-panel').exists()).toBe(false)
+  })
+
+  it('renames a store', async () => {
+    mockRename.mockResolvedValue(record('rename', 'Renamed'))
+    const wrapper = await openAdmin()
+
+    await rowOf(wrapper, 'BAR DO JOAO').find('.rename-btn').trigger('click')
+    await wrapper.find('.edit-panel .name-input').setValue('BAR DO JOÃO II')
+    await wrapper.find('.edit-panel').trigger('submit')
+    await flushPromises()
+
+    expect(mockRename).toHaveBeenCalledWith('bar-dup', {
+      ownerName: 'MARIA JOSEFINA',
+      name: 'BAR DO JOÃO II',
+      changedBy: 'Ana'
+    })
+    expect(wrapper.find('.edit-panel').exists()).toBe(false)
+  })
+
+  it('splits the transactions of the chosen files off into a new store', async () => {
+    mockFetchUploads.mockResolvedValue([
+      { fileUploadId: 'file-1', originalName: 'march.cnab', format: 'CNAB 80', uploadedAt: '2024-03-01T12:00:00Z', transactionCount: 3 },
+      { fileUploadId: 'file-2', originalName: 'april.cnab', format: 'CNAB 80', uploadedAt: '2024-04-01T12:00:00Z', transactionCount: 1 }
+    ])
+    mockSplit.mockResolvedValue(record('split', 'Split'))
+    const wrapper = await openAdmin()
+
+    await rowOf(wrapper, 'LOJA DO Ó - MATRIZ').find('.split-btn').trigger('click')
+    await flushPromises()
+    expect(mockFetchUploads).toHaveBeenCalledWith('matriz', expect.anything())
+    expect(wrapper.find('.save-edit-btn').attributes('disabled')).toBeDefined()
+
+    await wrapper.findAll('.split-file input')[1].setValue(true)
+    await wrapper.find('.edit-panel .name-input').setValue('LOJA DO Ó - FILIAL 2')
+    await wrapper.find('.edit-panel').trigger('submit')
+    await flushPromises()
+
+    expect(mockSplit).toHaveBeenCalledWith('matriz', {
+      ownerName: 'MARIA JOSEFINA',
+      name: 'LOJA DO Ó - FILIAL 2',
+      changedBy: 'Ana',
+      fileUploadIds: ['file-2']
+    })
+  })
+
+  it('groups a store under a head store and undoes a rejected change', async () => {
+    mockSetParent.mockRejectedValueOnce(new ApiError('The head store is itself a branch of another store', 'http', 400))
+    const wrapper = await openAdmin()
+
+    const select = rowOf(wrapper, 'BAR DO JOÃO').find('.parent-select')
+    expect(select.findAll('option').map(option => option.text())).toEqual([
+      'None',
+      'BAR DO JOAO (MARIA JOSEFINA)',
+      'LOJA DO Ó - MATRIZ (MARIA JOSEFINA)'
+    ])
+    expect(rowOf(wrapper, 'LOJA DO Ó - MATRIZ').find('.parent-select').findAll('option')).toHaveLength(1)
+
+    await select.setValue('matriz')
+    await flushPromises()
+
+    expect(mockSetParent).toHaveBeenCalledWith('bar', { parentStoreId: 'matriz', changedBy: 'Ana' })
+    expect(wrapper.find('.error-message').text()).toContain('The head store is itself a branch')
+    expect((select.element as HTMLSelectElement).value).toBe('')
+  })
+
+  it('shows the change history', async () => {
+    mockFetchChanges.mockResolvedValue([record('merge', "Merged 'BAR DO JOAO' into 'BAR DO JOÃO'")])
+    const wrapper = await openAdmin()
+
+    const change = wrapper.find('.change-row')
+    expect(change.find('.action-badge').text()).toBe('Merge')
+    expect(change.find('.change-description').text()).toBe("Merged 'BAR DO JOAO' into 'BAR DO JOÃO'")
+    expect(change.find('.change-meta').text()).toContain('by Ana')
+    expect(change.find('.change-meta').text()).toContain('1 transaction(s) moved')
+  })
+
+  it('asks for a name when nobody is signed in', async () => {
+    useAuth().setSession(null)
+    const wrapper = await openAdmin()
+
+    expect(wrapper.find('.changed-by-input').exists()).toBe(true)
+    expect(wrapper.find('.parent-select').attributes('disabled')).toBeDefined()
+  })
+})
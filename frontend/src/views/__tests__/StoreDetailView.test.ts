@@ -0,0 +1,580 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
+import StoreDetailView from '../StoreDetailView.vue'
+import {
+  ApiError,
+  fetchStoreSummary,
+  fetchStoreTransactionPage,
+  fetchStoreTransactions,
+  fetchStoreUploads,
+  fetchTransactionTypes,
+  revealTransaction,
+  subscribeToImportCompletions,
+  type ApiTransaction,
+} from '@/api'
+import { setLocale } from '@/i18n'
+import { useAuth } from '@/composables/useAuth'
+import { TRANSACTION_TYPES } from '@/utils/transaction-filters'
+import type { Role } from '@/types/auth'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchStoreSummary: vi.fn(),
+  fetchStoreTransactionPage: vi.fn(),
+  fetchStoreTransactions: vi.fn(),
+  fetchStoreUploads: vi.fn(),
+  subscribeToImportCompletions: vi.fn(),
+  fetchTransactionTypes: vi.fn(),
+  revealTransaction: vi.fn(),
+}))
+
+const transactionPage = (transactions: ApiTransaction[], totalCount = transactions.length, page = 1) => ({
+  transactions,
+  totalCount,
+  page,
+  pageSize: 50,
+})
+
+describe('StoreDetailView', () => {
+  const mockFetchStore = vi.mocked(fetchStoreSummary)
+  const mockFetchTransactions = vi.mocked(fetchStoreTransactionPage)
+  const mockFetchAllTransactions = vi.mocked(fetchStoreTransactions)
+  const mockFetchUploads = vi.mocked(fetchStoreUploads)
+  const mockSubscribeToImports = vi.mocked(subscribeToImportCompletions)
+  const mockFetchTransactionTypes = vi.mocked(fetchTransactionTypes)
+  const mockRevealTransaction = vi.mocked(revealTransaction)
+
+  const catalog = TRANSACTION_TYPES.map(type => ({ id: `type-${type.code}`, ...type }))
+
+  const mockStore = {
+    storeId: '1',
+    ownerName: 'João Silva',
+    storeName: 'Loja do João',
+    transactionCount: 5,
+    totalIncome: 200.50,
+    totalExpense: 50.00,
+    balance: 150.50
+  }
+
+  const mockTransactions = [
+    {
+      id: '1',
+      typeId: 'type-1',
+      type: 'Débito',
+      datetime: '2023-01-01T08:30:00',
+      value: 100.00,
+      cpf: '12345678901',
+      card: '1234****3456',
+      storeId: '1',
+      fileUploadId: 'file1',
+      transactionType: { id: 'type-1', code: 1, name: 'Débito', nature: 'Income' }
+    },
+    {
+      id: '2',
+      typeId: 'type-2',
+      type: 'Boleto',
+      datetime: '2023-01-02T14:20:00',
+      value: 50.50,
+      cpf: '12345678901',
+      card: '1234****3456',
+      storeId: '1',
+      fileUploadId: 'file1',
+      transactionType: { id: 'type-2', code: 2, name: 'Boleto', nature: 'Expense' }
+    }
+  ]
+
+  const mockUploads = [
+    { fileUploadId: 'file1', originalName: 'january.cnab', format: 'CNAB-80', uploadedAt: '2023-02-01T10:00:00Z', transactionCount: 2 }
+  ]
+
+  let router: Router
+
+  const mountView = () => mount(StoreDetailView, {
+    props: { storeId: router.currentRoute.value.params.storeId as string },
+    global: { plugins: [router] }
+  })
+
+  const openStore = async (path = '/stores/1') => {
+    router.push(path)
+    await router.isReady()
+
+    const wrapper = mountView()
+    await flushPromises()
+    return wrapper
+  }
+
+  beforeEach(() => {
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/balance', name: 'balance', component: { template: '<div />' } },
+        { path: '/stores/:storeId', name: 'store', component: StoreDetailView, props: true },
+        { path: '/stores/:storeId/reconciliation', name: 'reconciliation', component: { template: '<div />' } },
+        { path: '/stores/:storeId/statement', name: 'statement', component: { template: '<div />' } },
+        { path: '/uploads/:fileId?', name: 'uploads', component: { template: '<div />' } },
+      ],
+    })
+    mockFetchStore.mockReset().mockResolvedValue(mockStore)
+    mockFetchTransactions.mockReset().mockResolvedValue(transactionPage(mockTransactions))
+    mockFetchAllTransactions.mockReset().mockResolvedValue(mockTransactions)
+    mockFetchUploads.mockReset().mockResolvedValue(mockUploads)
+    mockSubscribeToImports.mockReset().mockReturnValue(vi.fn())
+    mockFetchTransactionTypes.mockReset().mockResolvedValue(catalog)
+    mockRevealTransaction.mockReset()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    setLocale('en-US')
+  })
+
+  // Unmount so catalog watchers from earlier tests don't refetch in later ones
+  enableAutoUnmount(afterEach)
+
+  it('shows the owner, the store and its KPIs', async () => {
+    // Amounts in the Brazilian format
+    setLocale('pt-BR')
+    const wrapper = await openStore()
+
+    expect(mockFetchStore).toHaveBeenCalledWith('1', expect.objectContaining({ filters: { types: [] } }))
+    expect(wrapper.find('.store-header').text()).toContain('Loja do João')
+    expect(wrapper.find('.store-header').text()).toContain('João Silva')
+    expect(wrapper.find('.kpi-balance .kpi-value').text()).toMatch(/R\$\s*150,50/)
+    expect(wrapper.find('.kpi-balance .kpi-value').classes()).toContain('positive')
+    expect(wrapper.find('.kpi-income').text()).toMatch(/R\$\s*200,50/)
+    expect(wrapper.find('.kpi-expense').text()).toMatch(/R\$\s*50,00/)
+    expect(wrapper.find('.kpi-count').text()).toContain('5')
+  })
+
+  it('shows a not found message for an unknown store', async () => {
+    mockFetchStore.mockRejectedValue(new ApiError('Store not found', 'http', 404))
+
+    const wrapper = await openStore('/stores/missing')
+
+    expect(wrapper.find('.error-message').text()).toBe('Store not found.')
+    expect(wrapper.find('.kpi-cards').exists()).toBe(false)
+  })
+
+  it('links back to the balances with the same filters', async () => {
+    const wrapper = await openStore('/stores/1?nature=Income&search=loja')
+
+    const crumbs = wrapper.findAll('.breadcrumb')
+    expect(crumbs.map(crumb => crumb.text())).toEqual(['Balances', 'Loja do João'])
+    expect(crumbs[0].find('a').attributes('href')).toBe('/balance?nature=Income&search=loja')
+    expect(crumbs[1].find('[aria-current="page"]').exists()).toBe(true)
+  })
+
+  it('links to the reconciliation of the store', async () => {
+    const wrapper = await openStore()
+
+    expect(wrapper.find('.reconcile-link').attributes('href')).toBe('/stores/1/reconciliation')
+  })
+
+  it('links to a statement of the filtered period', async () => {
+    const wrapper = await openStore('/stores/1?from=2019-03-01&to=2019-03-31&types=1')
+
+    expect(wrapper.find('.statement-link').attributes('href')).toBe('/stores/1/statement?from=2019-03-01&to=2019-03-31')
+  })
+
+  describe('transactions', () => {
+    it('displays the transactions with masked personal data', async () => {
+      const wrapper = await openStore()
+
+      expect(wrapper.text()).toContain('Débito')
+      expect(wrapper.text()).toContain('Boleto')
+      expect(wrapper.text()).toContain('***.***.***-01')
+    })
+
+    it('shows loading state for the transactions', async () => {
+      let resolvePromise: (value: any) => void
+      mockFetchTransactions.mockReturnValueOnce(new Promise((resolve) => {
+        resolvePromise = resolve
+      }) as any)
+
+      router.push('/stores/1')
+      await router.isReady()
+      const wrapper = mountView()
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.vm.isLoadingTransactions).toBe(true)
+
+      resolvePromise!(transactionPage([]))
+      await flushPromises()
+      expect(wrapper.vm.isLoadingTransactions).toBe(false)
+    })
+
+    it('shows no transactions message when store has no transactions', async () => {
+      mockFetchTransactions.mockResolvedValue(transactionPage([]))
+
+      const wrapper = await openStore()
+
+      expect(wrapper.text()).toContain('No transactions found for this store.')
+    })
+
+    it('applies correct styling to transaction rows based on nature', async () => {
+      const wrapper = await openStore()
+
+      expect(wrapper.find('.transaction-row.income').exists()).toBe(true)
+      expect(wrapper.find('.transaction-row.expense').exists()).toBe(true)
+    })
+
+    it('formats transaction values with correct signs and colors', async () => {
+      // Amounts in the Brazilian format
+      setLocale('pt-BR')
+      const wrapper = await openStore()
+
+      // Check for transaction values with signs (sign comes before currency)
+      expect(wrapper.text()).toMatch(/\+R\$\s*100,00/)
+      expect(wrapper.text()).toMatch(/-R\$\s*50,50/)
+    })
+
+    it('reformats the rows on screen when the locale changes', async () => {
+      const wrapper = await openStore()
+      const cells = () => wrapper.find('.transaction-row').findAll('td').map(cell => cell.text())
+      expect(cells().slice(0, 2)).toEqual(['1/1/2023', '08:30 AM'])
+      const requests = mockFetchTransactions.mock.calls.length
+
+      setLocale('pt-BR')
+      await flushPromises()
+
+      expect(cells().slice(0, 2)).toEqual(['01/01/2023', '08:30'])
+      expect(mockFetchTransactions).toHaveBeenCalledTimes(requests)
+    })
+
+    it('colours the types from the catalog', async () => {
+      mockFetchTransactionTypes.mockResolvedValue([
+        { ...catalog[0], name: 'Cartão débito', color: '#123456' },
+        ...catalog.slice(1),
+      ])
+
+      const wrapper = await openStore()
+
+      const [debit, boleto] = wrapper.findAll('.transaction-type')
+      expect(debit.attributes('style')).toContain('color: rgb(18, 52, 86)')
+      // No colour of its own: the colour of its nature
+      expect(boleto.attributes('style')).toContain('color: rgb(220, 53, 69)')
+    })
+  })
+
+  describe('filters', () => {
+    it('applies the route query to the store, without the store search of the balances list', async () => {
+      const wrapper = await openStore('/stores/1?from=2023-01-02&search=loja')
+
+      const filters = { types: [], from: '2023-01-02', search: undefined }
+      expect(mockFetchStore).toHaveBeenCalledWith('1', expect.objectContaining({ filters }))
+      expect(mockFetchTransactions).toHaveBeenCalledWith('1', expect.objectContaining({ filters }))
+      expect(wrapper.find('.filter-search').exists()).toBe(false)
+    })
+
+    it('writes filter changes to the query string and reloads the store', async () => {
+      const wrapper = await openStore('/stores/1?search=loja')
+
+      await wrapper.find('.filter-nature').setValue('Expense')
+      await flushPromises()
+
+      expect(router.currentRoute.value.query).toEqual({ nature: 'Expense', search: 'loja' })
+      expect(mockFetchStore).toHaveBeenCalledTimes(2)
+      expect(mockFetchTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({
+        filters: expect.objectContaining({ nature: 'Expense' }),
+        page: 1,
+      }))
+      // The files a store came from don't depend on the filters
+      expect(mockFetchUploads).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('sorting and paging', () => {
+    it('requests the first page of transactions sorted by date', async () => {
+      await openStore()
+
+      expect(mockFetchTransactions).toHaveBeenCalledWith('1', expect.objectContaining({
+        page: 1,
+        pageSize: 50,
+        sort: { key: 'date', direction: 'desc' },
+      }))
+    })
+
+    it('requests the next page from the server', async () => {
+      mockFetchTransactions.mockResolvedValue(transactionPage(mockTransactions, 120))
+      const wrapper = await openStore()
+
+      expect(wrapper.find('.transactions-pagination').text()).toContain('1–50 of 120')
+      expect(wrapper.find('.transactions-pagination').text()).toContain('Page 1 of 3')
+
+      await wrapper.find('.transactions-pagination .page-next').trigger('click')
+      await flushPromises()
+
+      expect(mockFetchTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({ page: 2 }))
+      expect(wrapper.find('.transactions-pagination').text()).toContain('51–100 of 120')
+    })
+
+    it('re-sorts transactions on the server and returns to the first page', async () => {
+      mockFetchTransactions.mockResolvedValue(transactionPage(mockTransactions, 120))
+      const wrapper = await openStore()
+
+      await wrapper.find('.transactions-pagination .page-last').trigger('click')
+      await flushPromises()
+
+      const valueHeader = wrapper.findAll('.transactions-table th')[3]
+      await valueHeader.find('.sort-btn').trigger('click')
+      await flushPromises()
+
+      expect(mockFetchTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({
+        page: 1,
+        sort: { key: 'value', direction: 'desc' },
+      }))
+    })
+
+    it('changes the transaction page size', async () => {
+      mockFetchTransactions.mockResolvedValue(transactionPage(mockTransactions, 120))
+      const wrapper = await openStore()
+
+      await wrapper.find('.transactions-pagination select').setValue('100')
+      await flushPromises()
+
+      expect(mockFetchTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({
+        page: 1,
+        pageSize: 100,
+      }))
+    })
+  })
+
+  describe('export', () => {
+    const createObjectURL = vi.fn(() => 'blob:export')
+    const revokeObjectURL = vi.fn()
+    let downloads: string[]
+
+    beforeEach(() => {
+      downloads = []
+      createObjectURL.mockClear()
+      // jsdom implements neither
+      URL.createObjectURL = createObjectURL
+      URL.revokeObjectURL = revokeObjectURL
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push(this.download)
+      })
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('exports every transaction of the store as OFX', async () => {
+      const wrapper = await openStore()
+
+      await wrapper.find('.transaction-details .export-ofx').trigger('click')
+      await flushPromises()
+
+      // Every page is exported, in the current sort order
+      expect(mockFetchAllTransactions).toHaveBeenCalledWith('1', {
+        filters: { types: [] },
+        sort: { key: 'date', direction: 'desc' },
+      })
+      expect(downloads).toEqual(['transactions-loja-do-joao.ofx'])
+    })
+  })
+
+  describe('charts', () => {
+    it('only loads every transaction once charts are requested', async () => {
+      const wrapper = await openStore()
+
+      expect(mockFetchAllTransactions).not.toHaveBeenCalled()
+      expect(wrapper.find('.store-analytics').exists()).toBe(false)
+
+      await wrapper.find('.analytics-btn').trigger('click')
+      await flushPromises()
+
+      expect(mockFetchAllTransactions).toHaveBeenCalledWith('1', expect.objectContaining({
+        filters: { types: [] },
+      }))
+      expect(wrapper.find('.balance-chart').exists()).toBe(true)
+      expect(wrapper.findAll('.balance-dot')).toHaveLength(2)
+      expect(wrapper.findAll('.income-expense-chart .period-group')).toHaveLength(2)
+      expect(wrapper.findAll('.type-chart .type-row')).toHaveLength(9)
+    })
+
+    it('regroups the income and expense bars by month', async () => {
+      const wrapper = await openStore()
+      await wrapper.find('.analytics-btn').trigger('click')
+      await flushPromises()
+
+      await wrapper.find('.period-month').trigger('click')
+
+      expect(wrapper.findAll('.income-expense-chart .period-group')).toHaveLength(1)
+      expect(wrapper.find('.income-expense-chart').text()).toContain('01/2023')
+    })
+
+    it('reloads the charts when the filters change', async () => {
+      const wrapper = await openStore()
+      await wrapper.find('.analytics-btn').trigger('click')
+      await flushPromises()
+
+      await router.replace({ query: { types: '1' } })
+      await flushPromises()
+
+      expect(mockFetchAllTransactions).toHaveBeenLastCalledWith('1', expect.objectContaining({
+        filters: { types: [1] },
+      }))
+    })
+
+    it('shows an error when the chart data cannot be loaded', async () => {
+      const wrapper = await openStore()
+      mockFetchAllTransactions.mockRejectedValueOnce(new ApiError('Internal Server Error', 'http', 500))
+
+      await wrapper.find('.analytics-btn').trigger('click')
+      await flushPromises()
+
+      expect(wrapper.text()).toContain('Failed to load charts: Internal Server Error')
+    })
+  })
+
+  describe('contributing files', () => {
+    it('lists the files with their transactions of this store and links to them', async () => {
+      const wrapper = await openStore()
+
+      expect(mockFetchUploads).toHaveBeenCalledWith('1', expect.anything())
+      const row = wrapper.find('.store-upload')
+      expect(row.text()).toContain('january.cnab')
+      expect(row.text()).toContain('CNAB-80')
+      expect(row.find('.transaction-count').text()).toBe('2')
+      expect(row.find('.upload-link').attributes('href')).toBe('/uploads/file1')
+    })
+
+    it('shows an error when the files cannot be loaded', async () => {
+      mockFetchUploads.mockRejectedValue(new ApiError('Internal Server Error', 'http', 500))
+
+      const wrapper = await openStore()
+
+      expect(wrapper.find('.store-uploads .error-message').text()).toBe('Failed to load the files of this store.')
+    })
+  })
+
+  describe('auto-refresh', () => {
+    it('reloads the store and its files when an import finishes', async () => {
+      await openStore()
+
+      const [onImportCompleted] = mockSubscribeToImports.mock.calls[0]
+      onImportCompleted({ uploadId: 'upload-1', kind: 'completed', current: 0, total: 0, timestamp: '2024-04-01T12:00:00Z' })
+      await flushPromises()
+
+      expect(mockFetchStore).toHaveBeenCalledTimes(2)
+      expect(mockFetchTransactions).toHaveBeenCalledTimes(2)
+      expect(mockFetchUploads).toHaveBeenCalledTimes(2)
+    })
+
+    it('shows the oldest offline copy on the page and reloads once back online', async () => {
+      mockFetchStore.mockImplementationOnce(async (_storeId, options) => {
+        options?.onStale?.('2024-04-02T09:00:00Z')
+        return mockStore
+      })
+      mockFetchTransactions.mockImplementationOnce(async (_storeId, options) => {
+        options?.onStale?.('2024-04-01T09:00:00Z')
+        return transactionPage(mockTransactions)
+      })
+      const wrapper = await openStore()
+
+      expect(wrapper.find('.stale-banner').text()).toContain('04/01/2024')
+
+      window.dispatchEvent(new Event('online'))
+      await flushPromises()
+
+      expect(mockFetchStore).toHaveBeenCalledTimes(2)
+      expect(mockFetchUploads).toHaveBeenCalledTimes(2)
+      expect(wrapper.find('.stale-banner').exists()).toBe(false)
+    })
+
+    it('stops listening when the page is left', async () => {
+      const stop = vi.fn()
+      mockSubscribeToImports.mockReturnValueOnce(stop)
+
+      const wrapper = await openStore()
+      wrapper.unmount()
+
+      expect(stop).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('personal data', () => {
+    const { setSession } = useAuth()
+
+    const signInAs = (roles: Role[]) => {
+      setSession({ accessToken: 'token', expiresAt: Date.now() + 3600_000, user: { name: 'Ana', roles } })
+    }
+
+    beforeEach(() => signInAs(['admin']))
+    afterEach(() => setSession(null))
+
+    const fillRevealForm = async (wrapper: Awaited<ReturnType<typeof openStore>>) => {
+      await wrapper.find('.reveal-btn').trigger('click')
+      await wrapper.find('.reveal-reason-input').setValue('Chargeback dispute')
+      await wrapper.find('.reveal-form').trigger('submit')
+      await flushPromises()
+    }
+
+    it('masks CPF and card numbers by default', async () => {
+      const wrapper = await openStore()
+
+      const row = wrapper.find('.transaction-row')
+      expect(row.find('.cpf').text()).toBe('***.***.***-01')
+      expect(row.find('.card').text()).toBe('********3456')
+      expect(wrapper.text()).not.toContain('12345678901')
+    })
+
+    it('reveals a transaction as the signed-in admin after asking why, and hides it again', async () => {
+      mockRevealTransaction.mockResolvedValue({ transactionId: '1', cpf: '12345678901', card: '1234567890123456' })
+      const wrapper = await openStore()
+
+      await fillRevealForm(wrapper)
+
+      expect(mockRevealTransaction).toHaveBeenCalledWith('1', {
+        revealedBy: 'Ana',
+        role: 'admin',
+        reason: 'Chargeback dispute'
+      })
+      expect(wrapper.find('.reveal-panel').exists()).toBe(false)
+      const [revealedRow, maskedRow] = wrapper.findAll('.transaction-row')
+      expect(revealedRow.find('.cpf .pii-revealed').text()).toBe('123.456.789-01')
+      expect(revealedRow.find('.card .pii-revealed').text()).toBe('1234567890123456')
+      // Printouts keep the masked value
+      expect(revealedRow.find('.cpf .pii-print-mask').text()).toBe('***.***.***-01')
+      expect(maskedRow.find('.pii-revealed').exists()).toBe(false)
+
+      await revealedRow.find('.hide-pii-btn').trigger('click')
+
+      expect(wrapper.find('.pii-revealed').exists()).toBe(false)
+      expect(wrapper.find('.transaction-row .cpf').text()).toBe('***.***.***-01')
+    })
+
+    it('offers no reveal to users without the admin role', async () => {
+      signInAs(['viewer', 'uploader'])
+      const wrapper = await openStore()
+
+      expect(wrapper.find('.reveal-btn').exists()).toBe(false)
+      expect(wrapper.find('.transaction-row .cpf').text()).toBe('***.***.***-01')
+    })
+
+    it('keeps the data masked when the server refuses the reveal', async () => {
+      mockRevealTransaction.mockRejectedValue(
+        new ApiError("The role 'viewer' may not reveal personal data", 'http', 403, "The role 'viewer' may not reveal personal data")
+      )
+      const wrapper = await openStore()
+
+      await fillRevealForm(wrapper)
+
+      expect(wrapper.find('.reveal-panel .error-message').text()).toContain('may not reveal personal data')
+      expect(wrapper.find('.pii-revealed').exists()).toBe(false)
+    })
+
+    it('forgets revealed values when the page is left', async () => {
+      mockRevealTransaction.mockResolvedValue({ transactionId: '1', cpf: '12345678901', card: '1234567890123456' })
+      const wrapper = await openStore()
+      await fillRevealForm(wrapper)
+      wrapper.unmount()
+
+      const next = await openStore()
+
+      expect(next.find('.pii-revealed').exists()).toBe(false)
+    })
+  })
+})
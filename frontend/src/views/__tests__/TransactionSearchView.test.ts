@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { enableAutoUnmount, flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter, type Router } from 'vue-router'
+import TransactionSearchView from '../TransactionSearchView.vue'
+import { ApiError, fetchTransactionTypes, searchTransactions, type ApiTransaction } from '@/api'
+import { setLocale } from '@/i18n'
+import { TRANSACTION_TYPES } from '@/utils/transaction-filters'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  searchTransactions: vi.fn(),
+  fetchTransactionTypes: vi.fn(),
+}))
+
+const transactionPage = (transactions: ApiTransaction[], totalCount = transactions.length, page = 1) => ({
+  transactions,
+  totalCount,
+  page,
+  pageSize: 50,
+})
+
+describe('TransactionSearchView', () => {
+  const mockSearch = vi.mocked(searchTransactions)
+  const mockFetchTransactionTypes = vi.mocked(fetchTransactionTypes)
+
+  const catalog = TRANSACTION_TYPES.map(type => ({ id: `type-${type.code}`, ...type }))
+
+  const mockTransactions: ApiTransaction[] = [
+    {
+      id: 't1',
+      typeId: 'type-1',
+      type: 'Débito',
+      datetime: '2019-03-01T15:34:53',
+      value: 142.00,
+      cpf: '096.***.***-17',
+      card: '4753****3153',
+      storeId: 'store-1',
+      fileUploadId: 'file-1',
+      transactionType: { id: 'type-1', code: 1, name: 'Débito', nature: 'Income' },
+      store: { id: 'store-1', ownerName: 'JOÃO MACEDO', name: 'BAR DO JOÃO' },
+      fileUpload: {
+        id: 'file-1',
+        filename: 'stored.txt',
+        originalName: 'march.cnab',
+        size: 100,
+        format: 'CNAB-80',
+        uploadedAt: '2019-04-01T10:00:00Z'
+      }
+    },
+    {
+      id: 't2',
+      typeId: 'type-3',
+      type: 'Financiamento',
+      datetime: '2019-03-02T10:00:00',
+      value: 80.00,
+      cpf: '096.***.***-17',
+      card: '1234****7890',
+      storeId: 'store-2',
+      fileUploadId: 'file-2',
+      transactionType: { id: 'type-3', code: 3, name: 'Financiamento', nature: 'Expense' },
+      store: { id: 'store-2', ownerName: 'MARIA JOSEFINA', name: 'LOJA DO Ó - MATRIZ' },
+      fileUpload: {
+        id: 'file-2',
+        filename: 'stored-2.txt',
+        originalName: 'april.cnab',
+        size: 100,
+        format: 'CNAB-80',
+        uploadedAt: '2019-05-01T10:00:00Z'
+      }
+    }
+  ]
+
+  let router: Router
+
+  const openSearch = async (path = '/search') => {
+    router.push(path)
+    await router.isReady()
+
+    const wrapper = mount(TransactionSearchView, { global: { plugins: [router] } })
+    await flushPromises()
+    return wrapper
+  }
+
+  beforeEach(() => {
+    router = createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/search', name: 'search', component: TransactionSearchView },
+        { path: '/stores/:storeId', name: 'store', component: { template: '<div />' } },
+        { path: '/uploads/:fileId?', name: 'uploads', component: { template: '<div />' } },
+      ],
+    })
+    mockSearch.mockReset().mockResolvedValue(transactionPage(mockTransactions))
+    mockFetchTransactionTypes.mockReset().mockResolvedValue(catalog)
+  })
+
+  afterEach(() => {
+    setLocale('en-US')
+    vi.clearAllMocks()
+  })
+
+  enableAutoUnmount(afterEach)
+
+  it('asks for criteria before searching', async () => {
+    const wrapper = await openSearch()
+
+    expect(mockSearch).not.toHaveBeenCalled()
+    expect(wrapper.text()).toContain('Search by CPF, card, owner, store, value or date')
+  })
+
+  it('searches with the criteria from the query and fills the form', async () => {
+    const wrapper = await openSearch('/search?cpf=096.206.760-17&minValue=100&from=2019-03-01')
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      { cpf: '09620676017', minValue: 100, from: '2019-03-01' },
+      expect.objectContaining({ page: 1, pageSize: 50, sort: { key: 'date', direction: 'desc' } })
+    )
+    expect((wrapper.find('.search-cpf').element as HTMLInputElement).value).toBe('096.206.760-17')
+    expect((wrapper.find('.search-min-value').element as HTMLInputElement).value).toBe('100')
+    expect((wrapper.find('.search-from').element as HTMLInputElement).value).toBe('2019-03-01')
+  })
+
+  it('lists results across stores, linking to the store and the source file', async () => {
+    const wrapper = await openSearch('/search?owner=jo')
+
+    const rows = wrapper.findAll('.result-row')
+    expect(rows).toHaveLength(2)
+    expect(rows[0].text()).toContain('BAR DO JOÃO')
+    expect(rows[0].text()).toContain('JOÃO MACEDO')
+    expect(rows[0].text()).toContain('********3153')
+    expect(rows[1].text()).toContain('LOJA DO Ó - MATRIZ')
+
+    const storeLinks = wrapper.findAll('.store-link')
+    expect(storeLinks[0].attributes('href')).toBe('/stores/store-1')
+    expect(storeLinks[1].attributes('href')).toBe('/stores/store-2')
+
+    const fileLinks = wrapper.findAll('.file-link')
+    expect(fileLinks[0].text()).toBe('march.cnab')
+    expect(fileLinks[0].attributes('href')).toBe('/uploads/file-1')
+  })
+
+  it('debounces typing before searching', async () => {
+    vi.useFakeTimers()
+    try {
+      const wrapper = await openSearch()
+
+      await wrapper.find('.search-owner').setValue('jo')
+      await wrapper.find('.search-owner').setValue('joão')
+      expect(router.currentRoute.value.query).toEqual({})
+      expect(mockSearch).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(300)
+      await flushPromises()
+
+      expect(router.currentRoute.value.query).toEqual({ owner: 'joão' })
+      expect(mockSearch).toHaveBeenCalledTimes(1)
+      expect(mockSearch).toHaveBeenCalledWith({ owner: 'joão' }, expect.anything())
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('waits for a complete CPF and explains why', async () => {
+    const wrapper = await openSearch('/search?cpf=096.206')
+
+    expect(mockSearch).not.toHaveBeenCalled()
+    expect(wrapper.find('.search-hints').text()).toContain('Type all 11 digits of the CPF.')
+  })
+
+  it('does not search again when only an incomplete card changes', async () => {
+    const wrapper = await openSearch('/search?store=bar')
+    expect(mockSearch).toHaveBeenCalledTimes(1)
+
+    await router.replace({ query: { store: 'bar', card: '31' } })
+    await flushPromises()
+
+    expect(mockSearch).toHaveBeenCalledTimes(1)
+    expect(wrapper.find('.search-hints').text()).toContain('Type at least 4 characters of the card.')
+  })
+
+  it('flags a reversed value range', async () => {
+    const wrapper = await openSearch('/search?minValue=50&maxValue=10')
+
+    expect(mockSearch).not.toHaveBeenCalled()
+    expect(wrapper.find('.search-hints').text()).toContain('The minimum value is above the maximum.')
+  })
+
+  it('shows an empty state when nothing matches', async () => {
+    mockSearch.mockResolvedValue(transactionPage([]))
+    const wrapper = await openSearch('/search?store=nowhere')
+
+    expect(wrapper.text()).toContain('No transactions match the search.')
+  })
+
+  it('sorts and pages the results on the server', async () => {
+    mockSearch.mockResolvedValue(transactionPage(mockTransactions, 120))
+    const wrapper = await openSearch('/search?store=bar')
+
+    await wrapper.findAll('.sortable-header').find(header => header.text().includes('Value'))!.find('.sort-btn').trigger('click')
+    await flushPromises()
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      { store: 'bar' },
+      expect.objectContaining({ sort: { key: 'value', direction: 'desc' }, page: 1 })
+    )
+
+    await wrapper.find('.results-pagination .page-next').trigger('click')
+    await flushPromises()
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      { store: 'bar' },
+      expect.objectContaining({ sort: { key: 'value', direction: 'desc' }, page: 2 })
+    )
+  })
+
+  it('clears the form and the query', async () => {
+    const wrapper = await openSearch('/search?owner=jo&card=3153')
+
+    await wrapper.find('.clear-search-btn').trigger('click')
+    await flushPromises()
+
+    expect(router.currentRoute.value.query).toEqual({})
+    expect((wrapper.find('.search-owner').element as HTMLInputElement).value).toBe('')
+    expect(wrapper.findAll('.result-row')).toHaveLength(0)
+  })
+
+  it('switches the labels, hints and results to the chosen locale', async () => {
+    const wrapper = await openSearch('/search?owner=jo&card=31')
+    expect(wrapper.find('h2').text()).toBe('Search Transactions')
+
+    setLocale('pt-BR')
+    await flushPromises()
+
+    expect(wrapper.find('h2').text()).toBe('Busca de Transações')
+    expect(wrapper.find('.search-hints').text()).toContain('Digite ao menos 4 caracteres do cartão.')
+    expect(wrapper.findAll('.sortable-header').map(header => header.text())).toEqual(
+      expect.arrayContaining([expect.stringContaining('Data'), expect.stringContaining('Valor')])
+    )
+    expect(wrapper.find('.clear-search-btn').text()).toBe('Limpar')
+    expect(mockSearch).toHaveBeenCalledTimes(1)
+  })
+
+  it('shows an error when the search fails', async () => {
+    mockSearch.mockRejectedValue(new ApiError('Server error', 'http', 500))
+    const wrapper = await openSearch('/search?owner=jo')
+
+    expect(wrapper.find('.error-message').text()).toContain('Search failed')
+    expect(wrapper.findAll('.result-row')).toHaveLength(0)
+  })
+})
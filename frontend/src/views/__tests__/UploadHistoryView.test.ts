@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { flushPromises, mount } from '@vue/test-utils'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import UploadHistoryView from '../UploadHistoryView.vue'
+import {
+  ApiError,
+  fetchRevertPreview,
+  fetchUpload,
+  fetchUploadHistory,
+  fetchUploadTransactions,
+  revertUpload,
+} from '@/api'
+import { setLocale } from '@/i18n'
+import { useAuth } from '@/composables/useAuth'
+import type { Role } from '@/types/auth'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  fetchUpload: vi.fn(),
+  fetchUploadHistory: vi.fn(),
+  fetchUploadTransactions: vi.fn(),
+  fetchRevertPreview: vi.fn(),
+  revertUpload: vi.fn(),
+}))
+
+describe('UploadHistoryView', () => {
+  const mockFetchHistory = vi.mocked(fetchUploadHistory)
+  const mockFetchUpload = vi.mocked(fetchUpload)
+  const mockFetchTransactions = vi.mocked(fetchUploadTransactions)
+  const mockFetchRevertPreview = vi.mocked(fetchRevertPreview)
+  const mockRevertUpload = vi.mocked(revertUpload)
+
+  const mockUploads = [
+    {
+      id: 'file-1',
+      filename: 'a.txt',
+      originalName: 'CNAB-marco.txt',
+      size: 2048,
+      format: 'CNAB 80',
+      uploadedAt: '2024-03-01T12:00:00Z',
+      transactionCount: 2,
+      stores: [
+        { storeId: 'store-1', ownerName: 'JOÃO MACEDO', storeName: 'BAR DO JOÃO', transactionCount: 1 },
+        { storeId: 'store-2', ownerName: 'MARIA JOSEFINA', storeName: 'LOJA DO Ó - MATRIZ', transactionCount: 1 },
+      ],
+    },
+  ]
+
+  const mockTransactions = [
+    {
+      id: 't1',
+      typeId: 'type-3',
+      type: 'Financing',
+      datetime: '2019-03-01T15:34:53',
+      value: 142,
+      cpf: '09620676017',
+      card: '4753****3153',
+      storeId: 'store-1',
+      fileUploadId: 'file-1',
+      transactionType: { id: 'type-3', code: 3, name: 'Financing', nature: 'Expense' },
+      store: { id: 'store-1', ownerName: 'JOÃO MACEDO', name: 'BAR DO JOÃO' },
+    },
+  ]
+
+  const mockRevertPreview = {
+    fileUploadId: 'file-1',
+    originalName: 'CNAB-marco.txt',
+    uploadedAt: '2024-03-01T12:00:00Z',
+    transactionCount: 2,
+    stores: [
+      {
+        storeId: 'store-1',
+        ownerName: 'JOÃO MACEDO',
+        storeName: 'BAR DO JOÃO',
+        transactionCount: 1,
+        incomeRemoved: 0,
+        expenseRemoved: 142,
+        currentBalance: 58,
+        balanceChange: 142,
+        balanceAfter: 200,
+        storeRemoved: false,
+      },
+      {
+        storeId: 'store-2',
+        ownerName: 'MARIA JOSEFINA',
+        storeName: 'LOJA DO Ó - MATRIZ',
+        transactionCount: 1,
+        incomeRemoved: 100,
+        expenseRemoved: 0,
+        currentBalance: 100,
+        balanceChange: -100,
+        balanceAfter: 0,
+        storeRemoved: true,
+      },
+    ],
+  }
+
+  const mountView = async (path = '/uploads') => {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [{ path: '/uploads/:fileId?', name: 'uploads', component: UploadHistoryView, props: true }],
+    })
+    router.push(path)
+    await router.isReady()
+
+    const wrapper = mount({ template: '<router-view />' }, { global: { plugins: [router] } })
+    await flushPromises()
+    return { wrapper, router }
+  }
+
+  beforeEach(() => {
+    mockFetchHistory.mockReset().mockResolvedValue(mockUploads)
+    mockFetchUpload.mockReset()
+    mockFetchTransactions.mockReset().mockResolvedValue(mockTransactions)
+    mockFetchRevertPreview.mockReset().mockResolvedValue(mockRevertPreview)
+    mockRevertUpload.mockReset().mockResolvedValue(mockRevertPreview)
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    setLocale('en-US')
+  })
+
+  it('should list past uploads with the stores each file touched', async () => {
+    const { wrapper } = await mountView()
+
+    expect(wrapper.text()).toContain('CNAB-marco.txt')
+    expect(wrapper.text()).toContain('2.0 KB')
+    expect(wrapper.text()).toContain('CNAB 80')
+    expect(wrapper.text()).toContain('BAR DO JOÃO (1)')
+    expect(wrapper.text()).toContain('LOJA DO Ó - MATRIZ (1)')
+  })
+
+  it('should show an empty state when nothing was uploaded', async () => {
+    mockFetchHistory.mockResolvedValueOnce([])
+
+    const { wrapper } = await mountView()
+
+    expect(wrapper.text()).toContain('No files uploaded yet.')
+  })
+
+  it('should show an error when the history cannot be loaded', async () => {
+    mockFetchHistory.mockRejectedValueOnce(new ApiError('Internal Server Error', 'http', 500))
+
+    const { wrapper } = await mountView()
+
+    expect(wrapper.text()).toContain('Failed to fetch upload history')
+  })
+
+  it('should drill into a file and update the route', async () => {
+    // Amounts in the Brazilian format
+    setLocale('pt-BR')
+    const { wrapper, router } = await mountView()
+
+    await wrapper.find('.details-btn').trigger('click')
+    await flushPromises()
+
+    expect(router.currentRoute.value.params.fileId).toBe('file-1')
+    expect(mockFetchTransactions).toHaveBeenCalledWith('file-1', expect.anything())
+    expect(mockFetchUpload).not.toHaveBeenCalled()
+    expect(wrapper.find('.transactions-table').text()).toContain('Financing')
+    expect(wrapper.find('.transactions-table').text()).toMatch(/-R\$\s*142,00/)
+  })
+
+  it('should load a deep-linked file on its own', async () => {
+    mockFetchHistory.mockResolvedValueOnce([])
+    mockFetchUpload.mockResolvedValueOnce({ ...mockUploads[0], id: 'file-9', originalName: 'old.txt' })
+
+    const { wrapper } = await mountView('/uploads/file-9')
+
+    expect(mockFetchUpload).toHaveBeenCalledWith('file-9', expect.anything())
+    expect(wrapper.find('.file-details h3').text()).toBe('old.txt')
+  })
+
+  it('should report files that no longer exist', async () => {
+    mockFetchUpload.mockRejectedValueOnce(new ApiError('Uploaded file not found', 'http', 404))
+
+    const { wrapper } = await mountView('/uploads/missing')
+
+    expect(wrapper.text()).toContain('Uploaded file not found.')
+  })
+
+  describe('revert import', () => {
+    const { setSession } = useAuth()
+
+    const signInAs = (roles: Role[]) => {
+      setSession({ accessToken: 'token', expiresAt: Date.now() + 3600_000, user: { name: 'Ana Souza', roles } })
+    }
+
+    beforeEach(() => signInAs(['admin']))
+    afterEach(() => setSession(null))
+
+    it('should show the balance change of each store before anything is deleted', async () => {
+      // Amounts and labels in Brazilian Portuguese
+      setLocale('pt-BR')
+      const { wrapper } = await mountView()
+
+      await wrapper.find('.revert-btn').trigger('click')
+      await flushPromises()
+
+      expect(mockFetchRevertPreview).toHaveBeenCalledWith('file-1', expect.anything())
+      expect(mockRevertUpload).not.toHaveBeenCalled()
+
+      const rows = wrapper.findAll('.revert-store-row')
+      expect(rows).toHaveLength(2)
+      expect(rows[0].find('.current-balance').text()).toMatch(/R\$\s*58,00/)
+      expect(rows[0].find('.balance-change').text()).toMatch(/^\+R\$\s*142,00/)
+      expect(rows[0].find('.balance-after').text()).toMatch(/R\$\s*200,00/)
+      expect(rows[1].classes()).toContain('store-removed')
+      expect(rows[1].text()).toContain('Loja removida')
+      expect(wrapper.find('.revert-summary').text()).toContain('2 transação(ões)')
+    })
+
+    it('should revert as the signed-in admin and reload the history', async () => {
+      const { wrapper } = await mountView()
+
+      await wrapper.find('.revert-btn').trigger('click')
+      await flushPromises()
+
+      const revertedBy = wrapper.find<HTMLInputElement>('.reverted-by-input')
+      expect(revertedBy.element.value).toBe('Ana Souza')
+      expect(revertedBy.attributes('readonly')).toBeDefined()
+
+      mockFetchHistory.mockResolvedValueOnce([
+        {
+          ...mockUploads[0],
+          transactionCount: 0,
+          stores: [],
+          revertedAt: '2024-03-02T09:30:00Z',
+          revertedBy: 'Ana Souza',
+          revertedTransactionCount: 2,
+        },
+      ])
+
+      await wrapper.find('.revert-confirm').trigger('submit')
+      await flushPromises()
+
+      expect(mockRevertUpload).toHaveBeenCalledWith('file-1', { revertedBy: 'Ana Souza' })
+      expect(mockFetchHistory).toHaveBeenCalledTimes(2)
+      expect(wrapper.find('.revert-panel').exists()).toBe(false)
+      expect(wrapper.find('.revert-message').text()).toContain('2 transaction(s) deleted')
+      expect(wrapper.find('.reverted-badge').text()).toContain('Reverted by Ana Souza')
+      expect(wrapper.find('.revert-btn').exists()).toBe(false)
+    })
+
+    it('should not offer a revert to users without the admin role', async () => {
+      signInAs(['viewer', 'uploader'])
+
+      const { wrapper } = await mountView()
+
+      expect(wrapper.text()).toContain('CNAB-marco.txt')
+      expect(wrapper.find('.revert-btn').exists()).toBe(false)
+    })
+
+    it('should close the dry run without reverting', async () => {
+      const { wrapper } = await mountView()
+
+      await wrapper.find('.revert-btn').trigger('click')
+      await flushPromises()
+      await wrapper.find('.cancel-revert-btn').trigger('click')
+
+      expect(wrapper.find('.revert-panel').exists()).toBe(false)
+      expect(mockRevertUpload).not.toHaveBeenCalled()
+    })
+
+    it('should show why a revert was refused', async () => {
+      mockRevertUpload.mockRejectedValueOnce(
+        new ApiError("'CNAB-marco.txt' was already reverted", 'http', 409)
+      )
+      const { wrapper } = await mountView()
+
+      await wrapper.find('.revert-btn').trigger('click')
+      await flushPromises()
+      await wrapper.find('.revert-confirm').trigger('submit')
+      await flushPromises()
+
+      expect(wrapper.find('.revert-panel .error-message').text()).toContain('already reverted')
+      expect(mockFetchHistory).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -1,26 +1,106 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { enableAutoUnmount, mount } from '@vue/test-utils'
 import UploadView from '../UploadView.vue'
+import { createHash } from 'node:crypto'
+import {
+  ApiError,
+  checkDuplicates,
+  completeUpload,
+  fetchNotifications,
+  fetchTransactionTypes,
+  saveTransactionType,
+  subscribeToImportProgress,
+  uploadChunk,
+  type ImportProgressEvent,
+  type ValidationIssue,
+} from '@/api'
+import { useAuth } from '@/composables/useAuth'
+import { setLocale } from '@/i18n'
+import { listPendingUploads, savePendingUpload } from '@/utils/pending-uploads'
+import { TRANSACTION_TYPES } from '@/utils/transaction-filters'
+import cnab240File from '@/utils/__tests__/fixtures/cnab240.txt?raw'
+import type { Role } from '@/types/auth'
+
+vi.mock('@/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api')>()),
+  uploadChunk: vi.fn(),
+  completeUpload: vi.fn(),
+  checkDuplicates: vi.fn(),
+  subscribeToImportProgress: vi.fn(),
+  fetchNotifications: vi.fn(),
+  fetchTransactionTypes: vi.fn(),
+  saveTransactionType: vi.fn(),
+}))
+
+const VALID_CNAB = '3201903010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
+const INVALID_CNAB = '3201913010000014200096206760174753****3153153453JOÃO MACEDO   BAR DO JOÃO       '
 
 describe('UploadView', () => {
-  let mockFetch: any
+  const mockUploadChunk = vi.mocked(uploadChunk)
+  const mockCompleteUpload = vi.mocked(completeUpload)
+  const mockCheckDuplicates = vi.mocked(checkDuplicates)
+  const mockSubscribeToImportProgress = vi.mocked(subscribeToImportProgress)
+  const mockFetchTransactionTypes = vi.mocked(fetchTransactionTypes)
+  const mockFetchNotifications = vi.mocked(fetchNotifications)
+  const mockSaveTransactionType = vi.mocked(saveTransactionType)
+
+  const catalog = TRANSACTION_TYPES.map(type => ({ id: `type-${type.code}`, ...type }))
+
+  const chunkResponse = (chunkIndex = 0) => ({ message: 'Chunk uploaded successfully', chunkIndex })
+  const completeResponse = (format = 'CNAB240') => ({
+    message: 'CNAB file uploaded, validated, and data stored successfully',
+    filename: 'upload.txt',
+    originalName: 'test.cnab',
+    size: 80,
+    format,
+    transactionsCount: 1,
+    fileUploadId: 'file-1',
+  })
+
+  const selectFile = async (wrapper: any, file: File) => {
+    const event = new Event('change', { bubbles: true })
+    Object.defineProperty(event, 'target', {
+      writable: false,
+      value: {
+        files: [file],
+      },
+    })
+
+    await wrapper.find('.file-input').element.dispatchEvent(event)
+    // Let the FileReader finish building the preview
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await wrapper.vm.$nextTick()
+  }
 
   beforeEach(() => {
-    mockFetch = vi.fn()
-    global.fetch = mockFetch
+    mockUploadChunk.mockReset()
+    mockCompleteUpload.mockReset()
+    mockCheckDuplicates.mockReset()
+    mockCheckDuplicates.mockResolvedValue({ duplicateFiles: [], duplicateLines: [], checkedCount: 1 })
+    mockSubscribeToImportProgress.mockReset().mockReturnValue(vi.fn())
+    mockFetchTransactionTypes.mockReset().mockResolvedValue(catalog)
+    mockFetchNotifications.mockReset().mockResolvedValue({ notifications: [], unreadCount: 0 })
+    mockSaveTransactionType.mockReset()
     // Mock navigator.onLine
     Object.defineProperty(navigator, 'onLine', {
       writable: true,
       value: true,
     })
-    // Clear localStorage
+    // Clear localStorage and IndexedDB
     localStorage.clear()
+    globalThis.indexedDB = new IDBFactory()
   })
 
   afterEach(() => {
     vi.clearAllMocks()
+    vi.restoreAllMocks()
   })
 
+  // Unmount so 'online' listeners from earlier tests don't resume uploads in later ones
+  enableAutoUnmount(afterEach)
+
   it('renders upload section correctly', () => {
     const wrapper = mount(UploadView)
 
@@ -58,7 +138,7 @@ describe('UploadView', () => {
     expect(uploadBtn.attributes('disabled')).toBeUndefined()
   })
 
-  it('displays file information when file is selected', async () => {
+  it('displays the selected file in the queue', async () => {
     const wrapper = mount(UploadView)
 
     const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
@@ -75,29 +155,22 @@ describe('UploadView', () => {
     await fileInput.element.dispatchEvent(event)
     await wrapper.vm.$nextTick()
 
-    expect(wrapper.text()).toContain('Selected: test.txt')
+    const item = wrapper.find('.queue-item')
+    expect(item.find('.queue-item-name').text()).toBe('test.txt')
+    expect(item.find('.queue-item-size').text()).toBe('12 B')
+    expect(item.find('.queue-item-status').text()).toBe('Ready')
   })
 
   it('shows loading state during upload', async () => {
     const wrapper = mount(UploadView)
 
-    const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
+    const file = new File([VALID_CNAB], 'test.txt', { type: 'text/plain' })
     
-    // Set up the file
-    const fileInput = wrapper.find('.file-input')
-    const event = new Event('change', { bubbles: true })
-    Object.defineProperty(event, 'target', {
-      writable: false,
-      value: {
-        files: [file],
-      },
-    })
-
-    await fileInput.element.dispatchEvent(event)
-    await wrapper.vm.$nextTick()
+    // Set up the file and wait for its preview
+    await selectFile(wrapper, file)
 
     // Mock pending fetch
-    mockFetch.mockImplementation(() => new Promise(() => {}))
+    mockUploadChunk.mockImplementation(() => new Promise(() => {}))
 
     // Trigger upload
     const uploadBtn = wrapper.find('.upload-btn')
@@ -106,12 +179,16 @@ describe('UploadView', () => {
 
     expect(wrapper.find('.upload-btn').text()).toContain('Uploading...')
     expect(wrapper.find('.progress-container').exists()).toBe(true)
+
+    // Let the upload reach the pending chunk request so it can't leak into the next test
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(mockUploadChunk).toHaveBeenCalledTimes(1)
   })
 
   it('displays success message on successful upload', async () => {
     const wrapper = mount(UploadView)
 
-    const file = new File(['test content'], 'test.cnab', { type: 'text/plain' })
+    const file = new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' })
     
     const fileInput = wrapper.find('.file-input')
     const event = new Event('change', { bubbles: true })
@@ -126,16 +203,10 @@ describe('UploadView', () => {
     await wrapper.vm.$nextTick()
 
     // Mock successful chunk upload
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({}),
-    })
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
 
     // Mock successful completion
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ format: 'CNAB240' }),
-    })
+    mockCompleteUpload.mockResolvedValueOnce(completeResponse())
 
     const uploadBtn = wrapper.find('.upload-btn')
     await uploadBtn.trigger('click')
@@ -145,12 +216,13 @@ describe('UploadView', () => {
     await wrapper.vm.$nextTick()
 
     expect(wrapper.text()).toContain('successfully')
+    expect(mockFetchNotifications).toHaveBeenCalled()
   })
 
   it('displays error message on validation failure', async () => {
     const wrapper = mount(UploadView)
 
-    const file = new File(['test content'], 'test.cnab', { type: 'text/plain' })
+    const file = new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' })
     
     const fileInput = wrapper.find('.file-input')
     const event = new Event('change', { bubbles: true })
@@ -165,20 +237,16 @@ describe('UploadView', () => {
     await wrapper.vm.$nextTick()
 
     // Mock successful chunk upload
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({}),
-    })
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
 
     // Mock validation failure
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      status: 400,
-      json: async () => ({
-        error: 'Validation failed',
-        details: 'Invalid record length: 81. Expected 80 characters for this CNAB format.',
-      }),
-    })
+    mockCompleteUpload.mockRejectedValueOnce(new ApiError(
+      'Invalid record length: 81. Expected 80 characters for this CNAB format.',
+      'http',
+      400,
+      'Validation failed',
+      'Invalid record length: 81. Expected 80 characters for this CNAB format.',
+    ))
 
     const uploadBtn = wrapper.find('.upload-btn')
     await uploadBtn.trigger('click')
@@ -194,7 +262,7 @@ describe('UploadView', () => {
   it('applies error styling to validation errors', async () => {
     const wrapper = mount(UploadView)
 
-    const file = new File(['test content'], 'test.cnab', { type: 'text/plain' })
+    const file = new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' })
     
     const fileInput = wrapper.find('.file-input')
     const event = new Event('change', { bubbles: true })
@@ -209,20 +277,12 @@ describe('UploadView', () => {
     await wrapper.vm.$nextTick()
 
     // Mock successful chunk upload
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({}),
-    })
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
 
     // Mock validation failure
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      status: 400,
-      json: async () => ({
-        error: 'Validation failed',
-        details: 'Invalid record length',
-      }),
-    })
+    mockCompleteUpload.mockRejectedValueOnce(
+      new ApiError('Invalid record length', 'http', 400, 'Validation failed', 'Invalid record length'),
+    )
 
     const uploadBtn = wrapper.find('.upload-btn')
     await uploadBtn.trigger('click')
@@ -237,7 +297,7 @@ describe('UploadView', () => {
   it('applies success styling to successful uploads', async () => {
     const wrapper = mount(UploadView)
 
-    const file = new File(['test content'], 'test.cnab', { type: 'text/plain' })
+    const file = new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' })
     
     const fileInput = wrapper.find('.file-input')
     const event = new Event('change', { bubbles: true })
@@ -252,16 +312,10 @@ describe('UploadView', () => {
     await wrapper.vm.$nextTick()
 
     // Mock successful chunk upload
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({}),
-    })
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
 
     // Mock successful completion
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ format: 'CNAB240' }),
-    })
+    mockCompleteUpload.mockResolvedValueOnce(completeResponse())
 
     const uploadBtn = wrapper.find('.upload-btn')
     await uploadBtn.trigger('click')
@@ -272,4 +326,674 @@ describe('UploadView', () => {
     const statusDiv = wrapper.find('.status')
     expect(statusDiv.classes()).toContain('status-success')
   })
+
+  it('renders a preview of the parsed CNAB lines after selecting a file', async () => {
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([`${VALID_CNAB}\n${INVALID_CNAB}`], 'test.cnab', { type: 'text/plain' }))
+
+    expect(wrapper.find('.cnab-preview').exists()).toBe(true)
+    expect(wrapper.text()).toContain('1 valid')
+    expect(wrapper.text()).toContain('1 with errors')
+    expect(wrapper.find('.field-error').attributes('title')).toContain("Invalid date '20191301'")
+  })
+
+  it('shows the preview errors and segments in the chosen locale', async () => {
+    const wrapper = mount(UploadView)
+
+    // 31 February in the first segment A line
+    const lines = cnab240File.split('\r\n')
+    lines[2] = lines[2].slice(0, 15) + '31022019' + lines[2].slice(23)
+    await selectFile(wrapper, new File([lines.join('\r\n')], 'retorno.ret', { type: 'text/plain' }))
+    await wrapper.find('.errors-toggle input').setValue(false)
+    expect(wrapper.find('.field-error').attributes('title')).toBe("Invalid date '31022019'")
+    expect(wrapper.find('.status-badge.trailer').text()).toBe('File header')
+
+    setLocale('pt-BR')
+    try {
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.find('.field-error').attributes('title')).toBe("Data inválida '31022019'")
+      expect(wrapper.find('.status-badge.error').text()).toBe("Data inválida '31022019'")
+      expect(wrapper.find('.status-badge.trailer').text()).toBe('Header de arquivo')
+    } finally {
+      setLocale('en-US')
+    }
+  })
+
+  it('blocks the upload when the preview has invalid lines', async () => {
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([INVALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+    expect(wrapper.find('.upload-btn').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('.override-validation').exists()).toBe(true)
+    expect(mockUploadChunk).not.toHaveBeenCalled()
+  })
+
+  it('previews a CNAB 240 file but does not upload it', async () => {
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([cnab240File], 'retorno.ret', { type: 'text/plain' }))
+
+    expect(wrapper.find('.summary-format').text()).toBe('CNAB 240')
+    expect(wrapper.findAll('.preview-row:not(.row-trailer)')).toHaveLength(3)
+    expect(wrapper.find('.preview-only').text()).toContain('only CNAB 80 files can be imported')
+    expect(wrapper.find('.override-validation').exists()).toBe(false)
+    expect(wrapper.find('.upload-btn').attributes('disabled')).toBeDefined()
+  })
+
+  it('uploads an invalid file when the user explicitly overrides validation', async () => {
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([INVALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+    await wrapper.find('.override-validation input').setValue(true)
+    expect(wrapper.find('.upload-btn').attributes('disabled')).toBeUndefined()
+
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+    mockCompleteUpload.mockRejectedValueOnce(
+      new ApiError("Line 1: Invalid date '20191301'", 'http', 400, 'Validation failed', "Line 1: Invalid date '20191301'"),
+    )
+
+    await wrapper.find('.upload-btn').trigger('click')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await wrapper.vm.$nextTick()
+
+    expect(mockUploadChunk).toHaveBeenCalledTimes(1)
+    expect(mockCompleteUpload).toHaveBeenCalledTimes(1)
+    expect(wrapper.text()).toContain('CNAB validation failed')
+  })
+
+  it('resumes a saved upload from its last confirmed chunk after a reload', async () => {
+    const data = new TextEncoder().encode(VALID_CNAB).buffer
+    await savePendingUpload({
+      uploadId: 'upload-123',
+      fileName: 'test.cnab',
+      originalName: 'test.cnab',
+      data,
+      chunkSize: 64,
+      totalChunks: 2,
+      uploadedChunks: [0],
+      timestamp: Date.now(),
+      autoResume: true,
+      prompted: true,
+      duplicates: 'import',
+    })
+
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse(1))
+    mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+    const wrapper = mount(UploadView)
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await wrapper.vm.$nextTick()
+
+    expect(mockCheckDuplicates).not.toHaveBeenCalled()
+    expect(mockUploadChunk).toHaveBeenCalledTimes(1)
+    expect(mockUploadChunk.mock.calls[0][0]).toMatchObject({ uploadId: 'upload-123', chunkIndex: 1 })
+    expect(mockCompleteUpload).toHaveBeenCalledTimes(1)
+    expect(wrapper.text()).toContain('successfully')
+    expect(await listPendingUploads()).toEqual([])
+  })
+
+  it('keeps the same uploadId when an offline upload resumes once back online', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+    mockUploadChunk.mockImplementationOnce(async () => {
+      Object.defineProperty(navigator, 'onLine', { writable: true, value: false })
+      throw new ApiError('Failed to fetch', 'network')
+    })
+
+    await wrapper.find('.upload-btn').trigger('click')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    const [saved] = await listPendingUploads()
+    expect(saved.autoResume).toBe(true)
+    expect(saved.uploadedChunks).toEqual([])
+    expect(wrapper.text()).toContain('Will resume when online')
+
+    const firstUploadId = mockUploadChunk.mock.calls[0][0].uploadId
+    expect(firstUploadId).toBe(saved.uploadId)
+
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+    mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true })
+    window.dispatchEvent(new Event('online'))
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await wrapper.vm.$nextTick()
+
+    expect(mockUploadChunk.mock.calls[1][0].uploadId).toBe(firstUploadId)
+    expect(wrapper.text()).toContain('successfully')
+    expect(await listPendingUploads()).toEqual([])
+  })
+
+  it('queues a file uploaded while offline and checks and sends it once back online', async () => {
+    const wrapper = mount(UploadView)
+
+    await selectFile(wrapper, new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: false })
+    await wrapper.find('.upload-btn').trigger('click')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    const [saved] = await listPendingUploads()
+    expect(saved.autoResume).toBe(true)
+    expect(saved.originalName).toBe('test.cnab')
+    expect(mockCheckDuplicates).not.toHaveBeenCalled()
+    expect(mockUploadChunk).not.toHaveBeenCalled()
+    expect(wrapper.find('.queue-item').classes()).toContain('queue-offline')
+    expect(wrapper.text()).toContain('Will upload when back online')
+
+    mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+    mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true })
+    window.dispatchEvent(new Event('online'))
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await wrapper.vm.$nextTick()
+
+    expect(mockCheckDuplicates).toHaveBeenCalledTimes(1)
+    expect(mockUploadChunk.mock.calls[0][0].uploadId).toBe(saved.uploadId)
+    expect(mockCompleteUpload.mock.calls[0][0]).toMatchObject({ uploadId: saved.uploadId, duplicates: 'import' })
+    expect(wrapper.text()).toContain('successfully')
+    expect(await listPendingUploads()).toEqual([])
+  })
+
+  describe('upload queue', () => {
+    const selectFiles = async (wrapper: any, files: File[]) => {
+      const event = new Event('change', { bubbles: true })
+      Object.defineProperty(event, 'target', {
+        writable: false,
+        value: { files },
+      })
+
+      await wrapper.find('.file-input').element.dispatchEvent(event)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      await wrapper.vm.$nextTick()
+    }
+
+    const cnabFile = (name: string, lines = 1) =>
+      new File([Array(lines).fill(VALID_CNAB).join('\n')], name, { type: 'text/plain' })
+
+    it('queues several files and uploads each of them', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab'), cnabFile('b.cnab')])
+
+      expect(wrapper.findAll('.queue-item')).toHaveLength(2)
+      expect(wrapper.find('.upload-btn').text()).toBe('Upload 2 Files')
+
+      mockUploadChunk.mockResolvedValue(chunkResponse())
+      mockCompleteUpload
+        .mockResolvedValueOnce({ ...completeResponse('CNAB 80'), transactionsCount: 3 })
+        .mockResolvedValueOnce({ ...completeResponse('CNAB 80'), transactionsCount: 5 })
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => {
+        expect(wrapper.findAll('.queue-item-status').map(status => status.text())).toEqual(['Done', 'Done'])
+      })
+
+      const uploadIds = mockUploadChunk.mock.calls.map(([chunk]) => chunk.uploadId)
+      expect(new Set(uploadIds).size).toBe(2)
+      expect(mockCompleteUpload).toHaveBeenCalledTimes(2)
+    })
+
+    it('ends with a summary of the transactions imported per file', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab'), cnabFile('b.cnab')])
+
+      mockUploadChunk.mockResolvedValue(chunkResponse())
+      mockCompleteUpload
+        .mockResolvedValueOnce({ ...completeResponse('CNAB 80'), transactionsCount: 3 })
+        .mockRejectedValueOnce(new ApiError('Invalid record length', 'http', 400, 'Validation failed', 'Invalid record length'))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(wrapper.findAll('.upload-summary tbody tr')).toHaveLength(2))
+
+      const rows = wrapper.findAll('.upload-summary tbody tr')
+      expect(rows[0].text()).toContain('a.cnab')
+      expect(rows[0].text()).toContain('Imported (CNAB 80)')
+      expect(rows[0].find('.count-cell').text()).toBe('3')
+      expect(rows[1].classes()).toContain('summary-failed')
+      expect(rows[1].text()).toContain('CNAB validation failed: Invalid record length')
+      expect(wrapper.find('.summary-total').text()).toBe('3')
+    })
+
+    it('skips a file that is already in the queue', async () => {
+      const wrapper = mount(UploadView)
+      const file = cnabFile('a.cnab')
+
+      await selectFiles(wrapper, [file])
+      await selectFiles(wrapper, [file])
+
+      expect(wrapper.findAll('.queue-item')).toHaveLength(1)
+    })
+
+    it('keeps chunk requests within the concurrency limit', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab', 3), cnabFile('b.cnab', 3)])
+      await wrapper.find('.concurrency-input').setValue('1')
+
+      // Hold every chunk request open until released below
+      const pending: (() => void)[] = []
+      let inFlight = 0
+      let maxInFlight = 0
+      mockUploadChunk.mockImplementation((chunk) => new Promise((resolve) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        pending.push(() => {
+          inFlight--
+          resolve(chunkResponse(chunk.chunkIndex))
+        })
+      }))
+      mockCompleteUpload.mockResolvedValue(completeResponse('CNAB 80'))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(pending).toHaveLength(1))
+      pending.shift()!()
+      await vi.waitFor(() => expect(pending).toHaveLength(1))
+      pending.shift()!()
+      await vi.waitFor(() => expect(mockCompleteUpload).toHaveBeenCalledTimes(2))
+
+      expect(mockUploadChunk).toHaveBeenCalledTimes(2)
+      expect(maxInFlight).toBe(1)
+    })
+
+    it('pauses a file and resumes it with the same uploadId', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab')])
+
+      mockUploadChunk.mockImplementationOnce((_chunk, options) => new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new ApiError('Request aborted', 'aborted')))
+      }))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(1))
+      await wrapper.find('.pause-btn').trigger('click')
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Paused'))
+
+      expect(mockCompleteUpload).not.toHaveBeenCalled()
+
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+      await wrapper.find('.resume-btn').trigger('click')
+      await vi.waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(2))
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Done'))
+
+      expect(mockUploadChunk.mock.calls[1][0].uploadId).toBe(mockUploadChunk.mock.calls[0][0].uploadId)
+    })
+
+    it('cancels a file and forgets its saved state', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab')])
+
+      mockUploadChunk.mockImplementationOnce((_chunk, options) => new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new ApiError('Request aborted', 'aborted')))
+      }))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(1))
+      expect(await listPendingUploads()).toHaveLength(1)
+
+      await wrapper.find('.cancel-btn').trigger('click')
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Cancelled'))
+
+      expect(wrapper.find('.retry-btn').exists()).toBe(true)
+      expect(mockCompleteUpload).not.toHaveBeenCalled()
+      await vi.waitFor(async () => expect(await listPendingUploads()).toEqual([]))
+    })
+
+    it('retries a file whose chunk failed', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [cnabFile('a.cnab')])
+
+      mockUploadChunk.mockRejectedValueOnce(new ApiError('Internal Server Error', 'http', 500))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Failed'))
+
+      expect(wrapper.find('.queue-item .status').text()).toContain('Upload failed: Internal Server Error')
+
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+      await wrapper.find('.retry-btn').trigger('click')
+      await vi.waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(2))
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Done'))
+
+      expect(mockUploadChunk.mock.calls[1][0].uploadId).toBe(mockUploadChunk.mock.calls[0][0].uploadId)
+    })
+
+    it('uploads only the valid files when one of them fails the preview', async () => {
+      const wrapper = mount(UploadView)
+      await selectFiles(wrapper, [
+        cnabFile('good.cnab'),
+        new File([INVALID_CNAB], 'bad.cnab', { type: 'text/plain' }),
+      ])
+
+      expect(wrapper.find('.upload-btn').text()).toBe('Upload File')
+
+      mockUploadChunk.mockResolvedValue(chunkResponse())
+      mockCompleteUpload.mockResolvedValue(completeResponse('CNAB 80'))
+
+      await wrapper.find('.upload-btn').trigger('click')
+      await vi.waitFor(() => expect(wrapper.find('.queue-item-status').text()).toBe('Done'))
+
+      expect(mockCompleteUpload).toHaveBeenCalledTimes(1)
+      const [good, bad] = wrapper.findAll('.queue-item')
+      expect(good.find('.queue-item-status').text()).toBe('Done')
+      expect(bad.find('.queue-item-status').text()).toBe('Ready')
+      expect(bad.find('.override-validation').exists()).toBe(true)
+    })
+  })
+
+  describe('duplicates', () => {
+    const duplicateReport = {
+      duplicateFiles: [{ id: 'file-0', originalName: 'march.cnab', uploadedAt: '2024-03-01T12:00:00' }],
+      duplicateLines: [1],
+      checkedCount: 1,
+    }
+
+    const startUpload = async () => {
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+      await wrapper.find('.upload-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      return wrapper
+    }
+
+    it('sends the content hash and the parsed lines to the duplicate check', async () => {
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+      await startUpload()
+
+      expect(mockCheckDuplicates).toHaveBeenCalledWith({
+        contentHash: createHash('sha256').update(VALID_CNAB).digest('hex'),
+        transactions: [{
+          line: 1,
+          type: 3,
+          datetime: '2019-03-01T15:34:53',
+          value: 142,
+          cpf: '09620676017',
+          card: '4753****3153',
+          storeOwner: 'JOÃO MACEDO',
+          storeName: 'BAR DO JOÃO',
+        }],
+      })
+      expect(mockCompleteUpload.mock.calls[0][0].duplicates).toBe('import')
+    })
+
+    it('holds a duplicate file until the user decides', async () => {
+      mockCheckDuplicates.mockResolvedValueOnce(duplicateReport)
+
+      const wrapper = await startUpload()
+
+      expect(mockUploadChunk).not.toHaveBeenCalled()
+      expect(wrapper.find('.queue-item-status').text()).toBe('Duplicate')
+      const warning = wrapper.find('.queue-item .status')
+      expect(warning.classes()).toContain('status-warning')
+      expect(warning.text()).toContain('already uploaded as "march.cnab"')
+      expect(warning.text()).toContain('1 of 1 transaction(s) already exist (line 1)')
+      expect(wrapper.find('.row-duplicate').exists()).toBe(true)
+    })
+
+    it('skips the duplicate lines when asked to', async () => {
+      mockCheckDuplicates.mockResolvedValueOnce(duplicateReport)
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce({ ...completeResponse('CNAB 80'), transactionsCount: 0, skippedCount: 1 })
+
+      const wrapper = await startUpload()
+      await wrapper.find('.skip-duplicates-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(mockCompleteUpload.mock.calls[0][0].duplicates).toBe('skip')
+      expect(wrapper.find('.queue-item .status').text()).toContain('0 transaction(s) imported, 1 duplicate(s) skipped')
+      expect(wrapper.find('.upload-summary').text()).toContain('1 duplicate(s) skipped')
+    })
+
+    it('imports everything when the user insists', async () => {
+      mockCheckDuplicates.mockResolvedValueOnce(duplicateReport)
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce(completeResponse('CNAB 80'))
+
+      const wrapper = await startUpload()
+      await wrapper.find('.import-anyway-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(mockCompleteUpload.mock.calls[0][0].duplicates).toBe('import')
+      expect(wrapper.find('.queue-item-status').text()).toBe('Done')
+    })
+
+    it('cancels a duplicate file without uploading it', async () => {
+      mockCheckDuplicates.mockResolvedValueOnce(duplicateReport)
+
+      const wrapper = await startUpload()
+      await wrapper.find('.cancel-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(wrapper.find('.queue-item-status').text()).toBe('Cancelled')
+      expect(mockUploadChunk).not.toHaveBeenCalled()
+      expect(await listPendingUploads()).toEqual([])
+    })
+
+    it('does not upload when the duplicate check fails', async () => {
+      mockCheckDuplicates.mockRejectedValueOnce(new ApiError('Failed to fetch', 'network'))
+
+      const wrapper = await startUpload()
+
+      expect(mockUploadChunk).not.toHaveBeenCalled()
+      expect(wrapper.find('.queue-item .status').text()).toContain('Could not check for duplicates: Failed to fetch')
+      expect(wrapper.find('.retry-btn').exists()).toBe(true)
+    })
+
+    it('checks a file queued offline before a reload and waits for the user', async () => {
+      await savePendingUpload({
+        uploadId: 'upload-123',
+        fileName: 'test.cnab',
+        originalName: 'test.cnab',
+        data: new TextEncoder().encode(VALID_CNAB).buffer,
+        chunkSize: 1024 * 1024,
+        totalChunks: 1,
+        uploadedChunks: [],
+        timestamp: Date.now(),
+        autoResume: true,
+        prompted: true,
+      })
+      mockCheckDuplicates.mockResolvedValueOnce(duplicateReport)
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockResolvedValueOnce({ ...completeResponse('CNAB 80'), transactionsCount: 0, skippedCount: 1 })
+
+      const wrapper = mount(UploadView)
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(mockCheckDuplicates).toHaveBeenCalledTimes(1)
+      expect(mockUploadChunk).not.toHaveBeenCalled()
+      expect(wrapper.find('.queue-item-status').text()).toBe('Duplicate')
+
+      await wrapper.find('.skip-duplicates-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(mockUploadChunk.mock.calls[0][0].uploadId).toBe('upload-123')
+      expect(mockCompleteUpload.mock.calls[0][0]).toMatchObject({ uploadId: 'upload-123', duplicates: 'skip' })
+    })
+  })
+
+  describe('import progress', () => {
+    const importEvent = (event: Partial<ImportProgressEvent>): ImportProgressEvent => ({
+      uploadId: 'upload-1',
+      kind: 'progress',
+      current: 0,
+      total: 0,
+      timestamp: '2024-03-01T12:00:00Z',
+      ...event,
+    })
+
+    // Upload one file and stop at the completion request, handing back the progress listener
+    const startProcessing = async () => {
+      let finish: (value: ReturnType<typeof completeResponse>) => void = () => {}
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockImplementationOnce(() => new Promise(resolve => { finish = resolve }))
+
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+      await wrapper.find('.upload-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      const [uploadId, listener] = mockSubscribeToImportProgress.mock.calls[0]
+      return { wrapper, uploadId, listener, finish: (response = completeResponse('CNAB 80')) => finish(response) }
+    }
+
+    it('shows the server-side phases while the file is processed', async () => {
+      const { wrapper, uploadId, listener } = await startProcessing()
+
+      expect(uploadId).toBe(mockCompleteUpload.mock.calls[0][0].uploadId)
+      expect(wrapper.find('.queue-item-status').text()).toBe('Processing')
+
+      listener(importEvent({ phase: 'parsing', current: 250, total: 1000 }))
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.find('.queue-item .status').text()).toBe('Parsing line 250 of 1000...')
+      const phases = wrapper.findAll('.import-phase')
+      expect(phases.map(phase => phase.classes().find(name => name.startsWith('phase-')))).toEqual([
+        'phase-done',
+        'phase-done',
+        'phase-active',
+        'phase-pending',
+      ])
+      expect(wrapper.find('.import-phase-progress .progress-fill').attributes('style')).toContain('width: 25%')
+    })
+
+    it('keeps the warnings reported while processing after the import is done', async () => {
+      const { wrapper, listener, finish } = await startProcessing()
+
+      listener(importEvent({ kind: 'warning', phase: 'parsing', line: 2, message: 'Line 2: trailer record (type 9) skipped' }))
+      finish()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(wrapper.find('.queue-item-status').text()).toBe('Done')
+      expect(wrapper.find('.import-progress').exists()).toBe(false)
+      expect(wrapper.find('.import-warnings').text()).toContain('1 warning(s) while processing')
+      expect(wrapper.find('.import-warnings').text()).toContain('Line 2: trailer record (type 9) skipped')
+    })
+  })
+
+  describe('validation report', () => {
+    const issue = (overrides: Partial<ValidationIssue>): ValidationIssue => ({
+      line: 1,
+      columnStart: 20,
+      columnEnd: 30,
+      field: 'cpf',
+      value: '09620676017',
+      expected: '11 digits',
+      severity: 'error',
+      message: "Invalid CPF format '09620676017', expected 11 digits",
+      ...overrides,
+    })
+
+    const rejectWith = async (issues: ValidationIssue[]) => {
+      mockUploadChunk.mockResolvedValueOnce(chunkResponse())
+      mockCompleteUpload.mockRejectedValueOnce(
+        new ApiError('Invalid CPF', 'http', 400, 'Invalid CPF', undefined, issues),
+      )
+
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([VALID_CNAB], 'test.cnab', { type: 'text/plain' }))
+      await wrapper.find('.upload-btn').trigger('click')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      await wrapper.vm.$nextTick()
+      return wrapper
+    }
+
+    it('shows the issues the server reported with the offending text highlighted', async () => {
+      const wrapper = await rejectWith([issue({})])
+
+      expect(wrapper.find('.queue-item .status').text()).toBe('CNAB validation failed: 1 error on 1 line')
+      expect(wrapper.find('.queue-item .status').classes()).toContain('status-error')
+      const row = wrapper.find('.issue-row')
+      expect(row.find('.issue-line').text()).toBe('1')
+      expect(row.find('.issue-columns').text()).toBe('20–30')
+      expect(row.find('.issue-expected').text()).toBe('11 digits')
+      expect(wrapper.find('.issue-highlight').text()).toBe('09620676017')
+      expect(wrapper.find('.issue-context').element.textContent).toBe(VALID_CNAB)
+    })
+
+    it('sorts the issues by the clicked column', async () => {
+      const wrapper = await rejectWith([
+        issue({ line: 2, field: 'type', severity: 'warning' }),
+        issue({ line: 1, field: 'date' }),
+      ])
+
+      const lines = () => wrapper.findAll('.issue-row .issue-line').map(cell => cell.text())
+      expect(lines()).toEqual(['1', '2'])
+
+      const severity = wrapper.findAll('.sortable-header').find(header => header.text().startsWith('Severity'))!
+      await severity.find('button').trigger('click')
+      await severity.find('button').trigger('click')
+
+      expect(lines()).toEqual(['2', '1'])
+    })
+  })
+  describe('unknown type codes', () => {
+    // Type 0 is not in the seeded catalog
+    const UNKNOWN_TYPE_CNAB = '0' + VALID_CNAB.slice(1)
+    const { setSession } = useAuth()
+
+    const signInAs = (roles: Role[]) => {
+      setSession({ accessToken: 'token', expiresAt: Date.now() + 3600_000, user: { name: 'Ana', roles } })
+    }
+
+    beforeEach(() => signInAs(['admin']))
+    afterEach(() => setSession(null))
+
+    it('asks for a mapping before the file can be uploaded', async () => {
+      mockSaveTransactionType.mockResolvedValue({ id: 'type-0', code: 0, name: 'Cashback', nature: 'Income' })
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([UNKNOWN_TYPE_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+      const prompt = wrapper.find('.type-mapping')
+      expect(prompt.text()).toContain('type code(s) 0')
+      expect(wrapper.find('.upload-btn').attributes('disabled')).toBeDefined()
+
+      await prompt.find('.type-mapping-name').setValue('Cashback')
+      await prompt.find('form').trigger('submit')
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      await wrapper.vm.$nextTick()
+
+      expect(mockSaveTransactionType).toHaveBeenCalledWith(0, { name: 'Cashback', nature: 'Income' })
+      expect(wrapper.find('.type-mapping').exists()).toBe(false)
+      expect(wrapper.find('.upload-btn').attributes('disabled')).toBeUndefined()
+    })
+
+    it('keeps the prompt open when the mapping cannot be saved', async () => {
+      mockSaveTransactionType.mockRejectedValue(new ApiError('Invalid color', 'http', 400, 'Invalid color'))
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([UNKNOWN_TYPE_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+      await wrapper.find('.type-mapping-name').setValue('Cashback')
+      await wrapper.find('.type-mapping form').trigger('submit')
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.find('.type-mapping-error').text()).toBe('Invalid color')
+      expect(wrapper.find('.upload-btn').attributes('disabled')).toBeDefined()
+    })
+
+    it('tells uploaders to ask an admin instead of mapping the codes themselves', async () => {
+      signInAs(['uploader'])
+      const wrapper = mount(UploadView)
+      await selectFile(wrapper, new File([UNKNOWN_TYPE_CNAB], 'test.cnab', { type: 'text/plain' }))
+
+      expect(wrapper.find('.type-mapping').text()).toContain('Ask an admin')
+      expect(wrapper.find('.type-mapping form').exists()).toBe(false)
+      expect(wrapper.find('.upload-btn').attributes('disabled')).toBeDefined()
+    })
+  })
 })